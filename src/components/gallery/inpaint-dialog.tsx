@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from 'react'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { Cancel01Icon } from '@hugeicons/core-free-icons'
+import { useTranslation } from '@/lib/i18n'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { NumberStepper } from '@/components/ui/number-stepper'
+
+type Tool = 'brush' | 'eraser'
+
+interface InpaintDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  imageSrc: string
+  /** Receives the mask as a black/white PNG data URL (white = repaint) at the image's natural size */
+  onSubmit: (input: { maskData: string; count: number; strength: number }) => Promise<void>
+}
+
+const DEFAULT_BRUSH_SIZE = 48
+
+export function InpaintDialog({ open, onOpenChange, imageSrc, onSubmit }: InpaintDialogProps) {
+  const { t } = useTranslation()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const [tool, setTool] = useState<Tool>('brush')
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE)
+  const [hasMask, setHasMask] = useState(false)
+  const [count, setCount] = useState(1)
+  const [strength, setStrength] = useState(1)
+  const [submitting, setSubmitting] = useState(false)
+
+  // The canvas remounts empty on every open
+  useEffect(() => {
+    if (!open) return
+    setHasMask(false)
+    setTool('brush')
+  }, [open])
+
+  useEffect(() => {
+    if (!open) return
+
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onOpenChange(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [open, onOpenChange])
+
+  if (!open) return null
+
+  // Pointer position in image pixels (the canvas is displayed scaled down)
+  function toCanvasPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    }
+  }
+
+  function drawTo(point: { x: number; y: number }) {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    const from = lastPointRef.current ?? point
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over'
+    ctx.strokeStyle = '#ffffff'
+    ctx.lineWidth = brushSize
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+    lastPointRef.current = point
+    if (tool === 'brush') setHasMask(true)
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drawingRef.current = true
+    lastPointRef.current = null
+    drawTo(toCanvasPoint(e))
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawingRef.current) return
+    drawTo(toCanvasPoint(e))
+  }
+
+  function handlePointerUp() {
+    drawingRef.current = false
+    lastPointRef.current = null
+  }
+
+  function handleClear() {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setHasMask(false)
+  }
+
+  async function handleSubmit() {
+    const canvas = canvasRef.current
+    if (!canvas || !hasMask) return
+    // Flatten the painted strokes onto black
+    const out = document.createElement('canvas')
+    out.width = canvas.width
+    out.height = canvas.height
+    const ctx = out.getContext('2d')!
+    ctx.fillStyle = '#000000'
+    ctx.fillRect(0, 0, out.width, out.height)
+    ctx.drawImage(canvas, 0, 0)
+
+    setSubmitting(true)
+    try {
+      await onSubmit({ maskData: out.toDataURL('image/png'), count, strength })
+      onOpenChange(false)
+    } catch {
+      // Caller reports the error; keep the mask so it can be submitted again
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background flex flex-col">
+      {/* Header */}
+      <header className="h-12 border-b border-border flex items-center px-3 shrink-0 gap-3">
+        <h2 className="text-base font-semibold">{t('inpaint.title')}</h2>
+        <div className="h-4 w-px bg-border" />
+        <div className="flex items-center gap-1">
+          <Button
+            size="xs"
+            variant={tool === 'brush' ? 'default' : 'ghost'}
+            onClick={() => setTool('brush')}
+          >
+            {t('inpaint.brush')}
+          </Button>
+          <Button
+            size="xs"
+            variant={tool === 'eraser' ? 'default' : 'ghost'}
+            onClick={() => setTool('eraser')}
+          >
+            {t('inpaint.eraser')}
+          </Button>
+        </div>
+        <div className="hidden sm:flex items-center gap-2 w-40">
+          <span className="text-xs text-muted-foreground shrink-0">{t('inpaint.brushSize')}</span>
+          <Slider
+            value={[brushSize]}
+            onValueChange={([v]) => setBrushSize(v)}
+            min={4}
+            max={256}
+            step={4}
+          />
+        </div>
+        <Button size="xs" variant="ghost" onClick={handleClear} disabled={!hasMask}>
+          {t('common.clear')}
+        </Button>
+        <div className="flex-1" />
+        <button
+          onClick={() => onOpenChange(false)}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <HugeiconsIcon icon={Cancel01Icon} className="size-5" />
+        </button>
+      </header>
+
+      {/* Canvas */}
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-black/40 p-4">
+        <div className="relative max-h-full max-w-full">
+          <img
+            src={imageSrc}
+            alt=""
+            className="block max-h-[calc(100dvh-8rem)] max-w-full object-contain select-none"
+            draggable={false}
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 size-full opacity-50 touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className="h-14 border-t border-border flex items-center justify-end px-3 shrink-0 gap-3">
+        <span className="text-xs text-muted-foreground mr-auto hidden sm:inline">{t('inpaint.hint')}</span>
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">{t('inpaint.strength')}</span>
+          <Input
+            type="number"
+            min={0.01}
+            max={1}
+            step={0.01}
+            value={strength}
+            onChange={(e) => setStrength(Number(e.target.value))}
+            className="h-7 w-20 text-sm font-mono"
+          />
+        </div>
+        <NumberStepper
+          value={count}
+          onChange={(v) => setCount(Math.max(1, v ?? 1))}
+          min={1}
+          max={100}
+          size="md"
+        />
+        <Button size="sm" onClick={handleSubmit} disabled={!hasMask || submitting}>
+          {t('generation.generateCount', { count })}
+        </Button>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import type { VariationMode } from '@/lib/variations'
+import type { TranslationKeys } from '@/lib/i18n'
+import { useTranslation } from '@/lib/i18n'
+import { useProgressStream } from '@/lib/use-progress-stream'
+import { MAX_VARIATIONS, VARIATION_MODES } from '@/lib/variations'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { NumberStepper } from '@/components/ui/number-stepper'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CompareDialog } from '@/components/workspace/compare-dialog'
+import { SAMPLER_OPTIONS } from '@/components/workspace/parameter-popover'
+import { createVariations, listVariations } from '@/server/functions/variations'
+
+type VariationSet = Awaited<ReturnType<typeof listVariations>>[number]
+type CompareImage = NonNullable<VariationSet['variations'][number]['image']>
+
+interface VariationsSectionProps {
+  image: CompareImage
+  /** Sampler the image was generated with; sampler variations offer the others */
+  sampler?: string
+  initialSets: Array<VariationSet>
+  /** Set when this image is itself a variation */
+  origin: { imageId: number; thumbnailPath: string | null; change: string | null } | null
+}
+
+const MODE_KEYS: Record<VariationMode, TranslationKeys> = {
+  seed: 'variations.modeSeed',
+  tags: 'variations.modeTags',
+  sampler: 'variations.modeSampler',
+}
+
+const HINT_KEYS: Record<VariationMode, TranslationKeys> = {
+  seed: 'variations.modeSeedHint',
+  tags: 'variations.modeTagsHint',
+  sampler: 'variations.modeSamplerHint',
+}
+
+function thumbnailUrl(thumbnailPath: string) {
+  return `/api/thumbnails/${thumbnailPath.replace('data/thumbnails/', '')}`
+}
+
+export function VariationsSection({ image, sampler, initialSets, origin }: VariationsSectionProps) {
+  const { t } = useTranslation()
+  const [sets, setSets] = useState(initialSets)
+  const [mode, setMode] = useState<VariationMode>('seed')
+  const [count, setCount] = useState(4)
+  const otherSamplers = SAMPLER_OPTIONS.filter((o) => o.value !== (sampler ?? 'k_euler_ancestral'))
+  const [samplers, setSamplers] = useState<Array<string>>(() => otherSamplers.map((o) => o.value))
+  const [submitting, setSubmitting] = useState(false)
+  const [compareSet, setCompareSet] = useState<VariationSet | null>(null)
+
+  // The page stays mounted while navigating between images
+  useEffect(() => {
+    setSets(initialSets)
+  }, [initialSets])
+
+  const running = sets.some((s) => s.variations.some((v) => v.status === 'pending' || v.status === 'running'))
+  useProgressStream({
+    enabled: running,
+    refresh: async () => setSets(await listVariations({ data: image.id })),
+  })
+
+  async function handleCreate() {
+    setSubmitting(true)
+    try {
+      await createVariations({ data: { imageId: image.id, mode, count, samplers: mode === 'sampler' ? samplers : undefined } })
+      setSets(await listVariations({ data: image.id }))
+      toast.success(t('variations.started'))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('generation.generationFailed'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function toggleSampler(value: string, checked: boolean) {
+    setSamplers((prev) => (checked ? [...prev, value] : prev.filter((s) => s !== value)))
+  }
+
+  const compareImages = compareSet
+    ? [image, ...compareSet.variations.flatMap((v) => (v.image ? [v.image] : []))]
+    : []
+
+  return (
+    <div className="mb-4 space-y-3">
+      <label className="text-sm text-muted-foreground block">{t('variations.title')}</label>
+
+      {origin && (
+        <div className="flex items-center gap-2">
+          <Link
+            to="/gallery/$imageId"
+            params={{ imageId: String(origin.imageId) }}
+            className="block size-12 shrink-0 rounded-md overflow-hidden bg-secondary/30 hover:ring-2 hover:ring-primary transition-shadow"
+          >
+            {origin.thumbnailPath && <img src={thumbnailUrl(origin.thumbnailPath)} alt="" className="size-full object-cover" />}
+          </Link>
+          <div className="min-w-0">
+            <span className="text-xs text-muted-foreground block">{t('variations.variationOf')}</span>
+            {origin.change && <p className="text-xs font-mono text-foreground/80 truncate" title={origin.change}>{origin.change}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* New variation set */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Select value={mode} onValueChange={(v) => setMode(v as VariationMode)}>
+            <SelectTrigger size="sm" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VARIATION_MODES.map((m) => (
+                <SelectItem key={m} value={m}>{t(MODE_KEYS[m])}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {mode !== 'sampler' && (
+            <NumberStepper value={count} onChange={(v) => setCount(Math.max(1, v ?? 1))} min={1} max={MAX_VARIATIONS} />
+          )}
+        </div>
+        {mode === 'sampler' && (
+          <div className="grid grid-cols-2 gap-1.5">
+            {otherSamplers.map((o) => (
+              <label key={o.value} className="flex items-center gap-1.5 text-xs">
+                <Checkbox checked={samplers.includes(o.value)} onCheckedChange={(checked) => toggleSampler(o.value, !!checked)} />
+                {o.label}
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">{t(HINT_KEYS[mode])}</p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={submitting || (mode === 'sampler' && samplers.length === 0)}
+          className="w-full"
+        >
+          {t('variations.create')}
+        </Button>
+      </div>
+
+      {/* Earlier sets */}
+      {sets.map((set) => {
+        const done = set.variations.filter((v) => v.image).length
+        return (
+          <div key={set.id}>
+            <div className="flex items-center gap-1 mb-1">
+              <span className="text-xs text-muted-foreground flex-1 truncate">
+                {t(MODE_KEYS[set.mode as VariationMode])} · {done}/{set.variations.length}
+              </span>
+              <Button size="xs" variant="ghost" onClick={() => setCompareSet(set)} disabled={done === 0}>
+                {t('variations.compare')}
+              </Button>
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+              {set.variations.map((v) =>
+                v.image ? (
+                  <Link
+                    key={v.jobId}
+                    to="/gallery/$imageId"
+                    params={{ imageId: String(v.image.id) }}
+                    title={v.change ?? undefined}
+                    className="aspect-square rounded-md overflow-hidden bg-secondary/30 hover:ring-2 hover:ring-primary transition-shadow"
+                  >
+                    {v.image.thumbnailPath && (
+                      <img src={thumbnailUrl(v.image.thumbnailPath)} alt="" className="size-full object-cover" />
+                    )}
+                  </Link>
+                ) : (
+                  <div
+                    key={v.jobId}
+                    title={v.change ?? undefined}
+                    className="aspect-square rounded-md bg-secondary/30 flex items-center justify-center"
+                  >
+                    {(v.status === 'pending' || v.status === 'running') && (
+                      <div className="size-4 border-2 border-muted-foreground/30 border-t-primary rounded-full animate-spin" />
+                    )}
+                  </div>
+                ),
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      <CompareDialog
+        open={compareSet !== null}
+        onOpenChange={(open) => !open && setCompareSet(null)}
+        images={compareImages}
+      />
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import {
   Settings02Icon,
   FileSearchIcon,
   Package01Icon,
+  Queue01Icon,
 } from '@hugeicons/core-free-icons'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { useTranslation } from '@/lib/i18n'
@@ -18,6 +19,7 @@ const navItems = [
   { to: '/gallery', key: 'nav.gallery' as TranslationKeys, icon: Image02Icon },
   { to: '/metadata', key: 'nav.metadata' as TranslationKeys, icon: FileSearchIcon },
   { to: '/bundles', key: 'nav.bundles' as TranslationKeys, icon: Package01Icon },
+  { to: '/queue', key: 'nav.queue' as TranslationKeys, icon: Queue01Icon },
   { to: '/settings', key: 'nav.settings' as TranslationKeys, icon: Settings02Icon },
 ] as const
 
@@ -1,4 +1,5 @@
 import type { CompletionContext, CompletionResult, Completion } from '@codemirror/autocomplete'
+import { extractBundleParameters, formatBundleSignature } from '@/lib/bundle'
 
 // Module-level cache for bundle names, updated externally
 let bundleNames: Array<{ name: string; content: string }> = []
@@ -27,12 +28,24 @@ export function bundleCompletion(context: CompletionContext): CompletionResult |
   const options: Completion[] = bundleNames
     .filter((b) => !query || b.name.toLowerCase().includes(query))
     .slice(0, 15)
-    .map((b) => ({
-      label: b.name,
-      detail: b.content.length > 40 ? b.content.slice(0, 40) + '...' : b.content,
-      type: 'variable',
-      apply: b.name + '}',
-    }))
+    .map((b) => {
+      const signature = formatBundleSignature(extractBundleParameters(b.content))
+      const preview = b.content.length > 40 ? b.content.slice(0, 40) + '...' : b.content
+      return {
+        label: b.name,
+        detail: signature ? `${signature} ${preview}` : preview,
+        type: 'variable',
+        // Parameterized bundles: insert name()} with the cursor inside the parentheses
+        apply: signature
+          ? (view, _completion, start, end) => {
+              view.dispatch({
+                changes: { from: start, to: end, insert: b.name + '()}' },
+                selection: { anchor: start + b.name.length + 1 },
+              })
+            }
+          : b.name + '}',
+      } satisfies Completion
+    })
 
   if (options.length === 0) return null
 
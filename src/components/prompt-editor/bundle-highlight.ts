@@ -1,14 +1,22 @@
 import { ViewPlugin, Decoration, type DecorationSet, type ViewUpdate } from '@codemirror/view'
 
 const bundleDeco = Decoration.mark({ class: 'cm-bundle-highlight' })
+const argDeco = Decoration.mark({ class: 'cm-bundle-arg-highlight' })
 
 function findBundles(doc: { toString: () => string }) {
-  const decorations: Array<{ from: number; to: number }> = []
+  const decorations: Array<{ from: number; to: number; deco: Decoration }> = []
   const text = doc.toString()
   const re = /@\{[^}]+\}/g
   let match
   while ((match = re.exec(text)) !== null) {
-    decorations.push({ from: match.index, to: match.index + match[0].length })
+    const from = match.index
+    decorations.push({ from, to: from + match[0].length, deco: bundleDeco })
+    // Argument list of @{name(a, b)}, highlighted inside the bundle mark
+    const open = match[0].indexOf('(')
+    const close = match[0].lastIndexOf(')')
+    if (open !== -1 && close > open + 1) {
+      decorations.push({ from: from + open + 1, to: from + close, deco: argDeco })
+    }
   }
   return decorations
 }
@@ -19,14 +27,14 @@ export const bundleHighlight = ViewPlugin.fromClass(
 
     constructor(view: { state: { doc: { toString: () => string } } }) {
       this.decorations = Decoration.set(
-        findBundles(view.state.doc).map((d) => bundleDeco.range(d.from, d.to)),
+        findBundles(view.state.doc).map((d) => d.deco.range(d.from, d.to)),
       )
     }
 
     update(update: ViewUpdate) {
       if (update.docChanged) {
         this.decorations = Decoration.set(
-          findBundles(update.state.doc).map((d) => bundleDeco.range(d.from, d.to)),
+          findBundles(update.state.doc).map((d) => d.deco.range(d.from, d.to)),
         )
       }
     }
@@ -1,5 +1,6 @@
 import { hoverTooltip } from '@codemirror/view'
 import { getBundleNames } from './bundle-completion'
+import { extractBundleParameters, formatBundleSignature, parseBundleReference } from '@/lib/bundle'
 
 const BUNDLE_RE = /@\{([^}]+)\}/g
 const MAX_LINES = 3
@@ -13,7 +14,7 @@ export const bundleTooltip = hoverTooltip((view, pos) => {
     const from = match.index
     const to = from + match[0].length
     if (pos >= from && pos <= to) {
-      const name = match[1]
+      const { name } = parseBundleReference(match[1])
       const bundle = getBundleNames().find((b) => b.name === name)
       if (!bundle || !bundle.content) return null
 
@@ -27,7 +28,7 @@ export const bundleTooltip = hoverTooltip((view, pos) => {
 
           const header = document.createElement('div')
           header.className = 'cm-tooltip-bundle-name'
-          header.textContent = name
+          header.textContent = name + formatBundleSignature(extractBundleParameters(bundle.content))
           dom.appendChild(header)
 
           const sep = document.createElement('div')
@@ -3,6 +3,16 @@ import type { CompletionContext, CompletionResult, Completion } from '@codemirro
 // In-memory tag database (loaded on first use)
 let tagDatabase: Array<{ name: string; category: number; postCount: number }> = []
 let loaded = false
+let knownTags: Set<string> | null = null
+
+/** Tag names (underscored) for the prompt linter; empty until the database loads */
+export function getKnownTags(): ReadonlySet<string> {
+  if (!knownTags) {
+    if (!loaded) return new Set()
+    knownTags = new Set(tagDatabase.map((t) => t.name))
+  }
+  return knownTags
+}
 
 export async function loadTagDatabase() {
   if (loaded) return
@@ -1,14 +1,21 @@
 import { ViewPlugin, Decoration, type DecorationSet, type ViewUpdate } from '@codemirror/view'
 
 const placeholderDeco = Decoration.mark({ class: 'cm-placeholder-highlight' })
+const conditionalDeco = Decoration.mark({ class: 'cm-conditional-highlight' })
 
 function findPlaceholders(doc: { toString: () => string }) {
-  const decorations: Array<{ from: number; to: number }> = []
+  const decorations: Array<{ from: number; to: number; deco: Decoration }> = []
   const text = doc.toString()
-  const re = /\\\\\w+\\\\/g
+  // \\key\\ or \\key|default\\
+  const re = /\\\\\w+(?:\|[^\\]*)?\\\\/g
   let match
   while ((match = re.exec(text)) !== null) {
-    decorations.push({ from: match.index, to: match.index + match[0].length })
+    decorations.push({ from: match.index, to: match.index + match[0].length, deco: placeholderDeco })
+  }
+  // [if key] / [if !key] / [/if] block tags
+  const tagRe = /\[if !?\w+\]|\[\/if\]/g
+  while ((match = tagRe.exec(text)) !== null) {
+    decorations.push({ from: match.index, to: match.index + match[0].length, deco: conditionalDeco })
   }
   return decorations
 }
@@ -19,7 +26,8 @@ export const placeholderHighlight = ViewPlugin.fromClass(
 
     constructor(view: { state: { doc: { toString: () => string } } }) {
       this.decorations = Decoration.set(
-        findPlaceholders(view.state.doc).map((d) => placeholderDeco.range(d.from, d.to)),
+        findPlaceholders(view.state.doc).map((d) => d.deco.range(d.from, d.to)),
+        true,
       )
     }
 
@@ -27,8 +35,9 @@ export const placeholderHighlight = ViewPlugin.fromClass(
       if (update.docChanged) {
         this.decorations = Decoration.set(
           findPlaceholders(update.state.doc).map((d) =>
-            placeholderDeco.range(d.from, d.to),
+            d.deco.range(d.from, d.to),
           ),
+          true,
         )
       }
     }
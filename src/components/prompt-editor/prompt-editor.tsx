@@ -1,8 +1,9 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
 import { EditorState } from '@codemirror/state'
 import { EditorView, keymap, ViewPlugin, type ViewUpdate } from '@codemirror/view'
 import { defaultKeymap, history, historyKeymap } from '@codemirror/commands'
 import { autocompletion, acceptCompletion } from '@codemirror/autocomplete'
+import { forceLinting } from '@codemirror/lint'
 import { darkTheme } from './theme'
 import { placeholderHighlight } from './placeholder-highlight'
 import { bundleHighlight } from './bundle-highlight'
@@ -10,6 +11,9 @@ import { weightHighlight } from './weight-highlight'
 import { danbooruCompletion, loadTagDatabase } from './danbooru-completion'
 import { bundleCompletion, setBundleNames } from './bundle-completion'
 import { bundleTooltip } from './bundle-tooltip'
+import { promptLinter, setFilledPlaceholders } from './prompt-lint'
+import { NAI_TOKEN_LIMIT, estimateTokens } from '@/lib/token-count'
+import { useTranslation } from '@/lib/i18n'
 
 // CM6 bug workaround: When lineWrapping is on and cursor is at a wrap boundary,
 // enforceCursorAssoc() modifies the DOM selection without checking hasFocus,
@@ -28,6 +32,8 @@ interface PromptEditorProps {
   placeholder?: string
   minHeight?: string
   bundleNames?: Array<{ name: string; content: string }>
+  /** Placeholder keys with a value in some scene; enables the empty-placeholder lint */
+  filledPlaceholders?: Array<string>
 }
 
 export function PromptEditor({
@@ -36,22 +42,32 @@ export function PromptEditor({
   placeholder,
   minHeight = '200px',
   bundleNames: bundleNamesProp,
+  filledPlaceholders,
 }: PromptEditorProps) {
+  const { t } = useTranslation()
   const containerRef = useRef<HTMLDivElement>(null)
   const viewRef = useRef<EditorView | null>(null)
   const onChangeRef = useRef(onChange)
   onChangeRef.current = onChange
 
   useEffect(() => {
-    loadTagDatabase()
+    loadTagDatabase().then(() => {
+      if (viewRef.current) forceLinting(viewRef.current)
+    })
   }, [])
 
   useEffect(() => {
     if (bundleNamesProp) {
       setBundleNames(bundleNamesProp)
+      if (viewRef.current) forceLinting(viewRef.current)
     }
   }, [bundleNamesProp])
 
+  useEffect(() => {
+    setFilledPlaceholders(filledPlaceholders ?? null)
+    if (viewRef.current) forceLinting(viewRef.current)
+  }, [filledPlaceholders])
+
   useEffect(() => {
     if (!containerRef.current) return
 
@@ -71,6 +87,7 @@ export function PromptEditor({
         bundleHighlight,
         weightHighlight,
         bundleTooltip,
+        promptLinter,
         autocompletion({
           override: [bundleCompletion, danbooruCompletion],
           activateOnTyping: true,
@@ -121,5 +138,20 @@ export function PromptEditor({
     }
   }, [value])
 
-  return <div ref={containerRef} />
+  // Template estimate — bundles and placeholders are resolved in the Prompt Preview
+  const tokens = useMemo(() => estimateTokens(value), [value])
+
+  return (
+    <div>
+      <div ref={containerRef} />
+      <div
+        className={`mt-0.5 text-right text-[11px] tabular-nums ${
+          tokens > NAI_TOKEN_LIMIT ? 'text-amber-500' : 'text-muted-foreground/50'
+        }`}
+        title={t('workspace.tokenCountHint')}
+      >
+        {t('workspace.tokenCount', { count: tokens, limit: NAI_TOKEN_LIMIT })}
+      </div>
+    </div>
+  )
 }
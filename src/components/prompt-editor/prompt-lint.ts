@@ -0,0 +1,24 @@
+import { linter } from '@codemirror/lint'
+import { getBundleNames } from './bundle-completion'
+import { getKnownTags } from './danbooru-completion'
+import type { Diagnostic } from '@codemirror/lint'
+import { lintPrompt } from '@/lib/prompt-lint'
+
+// Module-level cache of placeholder keys filled somewhere in the project, updated externally.
+// null skips the placeholder check (e.g. outside a project).
+let filledPlaceholders: Array<string> | null = null
+
+export function setFilledPlaceholders(keys: Array<string> | null) {
+  filledPlaceholders = keys
+}
+
+export const promptLinter = linter(
+  (view): Array<Diagnostic> =>
+    lintPrompt(view.state.doc.toString(), {
+      // An empty list usually means bundles haven't loaded yet
+      bundleNames: getBundleNames().length > 0 ? getBundleNames().map((b) => b.name) : undefined,
+      filledPlaceholders: filledPlaceholders ?? undefined,
+      knownTags: getKnownTags(),
+    }).map(({ from, to, severity, message }) => ({ from, to, severity, message })),
+  { delay: 500 },
+)
@@ -42,6 +42,11 @@ export const darkTheme = EditorView.theme(
       padding: '1px 0',
       border: '1px solid oklch(0.72 0.14 70 / 30%)',
     },
+    // Conditional block tags — [if key] ... [/if]
+    '.cm-conditional-highlight': {
+      color: 'oklch(0.72 0.14 70)',
+      fontWeight: '600',
+    },
     // Bundle highlight — teal/cyan signature
     '.cm-bundle-highlight': {
       backgroundColor: 'oklch(0.65 0.12 200 / 15%)',
@@ -49,6 +54,10 @@ export const darkTheme = EditorView.theme(
       padding: '1px 0',
       border: '1px solid oklch(0.65 0.12 200 / 30%)',
     },
+    '.cm-bundle-arg-highlight': {
+      color: 'oklch(0.80 0.10 200)',
+      fontStyle: 'italic',
+    },
     // Autocomplete styling
     '.cm-tooltip-autocomplete': {
       backgroundColor: 'oklch(0.20 0.008 70)',
@@ -98,6 +107,17 @@ export const darkTheme = EditorView.theme(
       wordBreak: 'break-word',
       fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
     },
+    // Lint diagnostics tooltip
+    '.cm-tooltip-lint': {
+      backgroundColor: 'oklch(0.20 0.008 70)',
+      border: '1px solid oklch(1 0.03 70 / 12%)',
+      borderRadius: '8px',
+      fontSize: '11px',
+      boxShadow: '0 4px 12px oklch(0 0 0 / 40%)',
+    },
+    '.cm-diagnostic': {
+      color: 'oklch(0.85 0.01 80)',
+    },
   },
   { dark: true },
 )
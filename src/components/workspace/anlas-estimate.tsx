@@ -0,0 +1,40 @@
+import { memo } from 'react'
+import type { AnlasBalance } from '@/lib/anlas-cost'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { useTranslation } from '@/lib/i18n'
+import { cn } from '@/lib/utils'
+
+interface AnlasEstimateProps {
+  /** Estimated Anlas for the batch that would be queued */
+  cost: number
+  balance: AnlasBalance | null
+}
+
+/** Estimated batch cost next to the generate button; red when it exceeds the balance */
+export const AnlasEstimate = memo(function AnlasEstimate({ cost, balance }: AnlasEstimateProps) {
+  const { t } = useTranslation()
+  const insufficient = balance !== null && cost > balance.anlas
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'text-xs tabular-nums whitespace-nowrap cursor-default',
+            insufficient ? 'text-destructive font-medium' : 'text-muted-foreground',
+          )}
+        >
+          {cost > 0 ? t('generation.anlasCost', { cost: cost.toLocaleString() }) : t('generation.anlasFree')}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-60">
+        <p className="text-sm">
+          {balance
+            ? t('generation.anlasBalance', { balance: balance.anlas.toLocaleString() })
+            : t('generation.anlasBalanceUnavailable')}
+        </p>
+        {balance?.opus && <p className="text-xs text-muted-foreground">{t('generation.anlasOpusFree')}</p>}
+      </TooltipContent>
+    </Tooltip>
+  )
+})
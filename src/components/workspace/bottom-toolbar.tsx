@@ -13,9 +13,13 @@ interface BottomToolbarProps {
   onGenerate: () => void
   generating: boolean
   totalImages: number
+  /** Estimated Anlas for the batch, shown beside the generate button */
+  costEstimate?: ReactNode
   // Popovers
   parameterPopover: ReactNode
+  vibePopover?: ReactNode
   scenePackDialog: ReactNode
+  sweepDialog?: ReactNode
   // Download
   downloadButton?: ReactNode
   // Generation progress
@@ -28,8 +32,11 @@ export const BottomToolbar = memo(function BottomToolbar({
   onGenerate,
   generating,
   totalImages,
+  costEstimate,
   parameterPopover,
+  vibePopover,
   scenePackDialog,
+  sweepDialog,
   downloadButton,
   generationProgress,
 }: BottomToolbarProps) {
@@ -40,7 +47,9 @@ export const BottomToolbar = memo(function BottomToolbar({
       {/* Row 1 left / Desktop left — configuration actions */}
       <div className="flex items-center gap-1">
         {parameterPopover}
+        {vibePopover}
         {scenePackDialog}
+        {sweepDialog}
         {downloadButton}
       </div>
 
@@ -51,6 +60,7 @@ export const BottomToolbar = memo(function BottomToolbar({
 
       {/* Row 2 / Desktop right — generation controls */}
       <div className="flex items-center justify-center lg:justify-end gap-1.5 col-span-2 lg:col-span-1" data-onboarding="generation-controls">
+        {costEstimate}
         <NumberStepper
           value={countPerScene}
           onChange={(v) => onCountChange(Math.max(0, v ?? 0))}
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  POSITION_GRID_SIZE,
+  formatCharacterPosition,
+  formatGridCell,
+  nearestGridCell,
+  parseCharacterPosition,
+} from '@/lib/character-position'
+import { useTranslation } from '@/lib/i18n'
+
+interface CharacterPositionPickerProps {
+  /** Stored position (`C3` or `x,y`); null = not set */
+  value: string | null
+  onChange: (position: string | null) => void
+  /** Position used when `value` is null, e.g. the character's own position behind a scene override */
+  inheritedValue?: string | null
+}
+
+/** 5x5 grid picker with free x/y input, matching NAI's character position control */
+export function CharacterPositionPicker({ value, onChange, inheritedValue = null }: CharacterPositionPickerProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [draftX, setDraftX] = useState('')
+  const [draftY, setDraftY] = useState('')
+
+  const center = parseCharacterPosition(value)
+  const effective = center ?? parseCharacterPosition(inheritedValue)
+  const activeCell = effective ? nearestGridCell(effective) : null
+  const label = center
+    ? formatCharacterPosition(center)
+    : effective
+      ? formatCharacterPosition(effective)
+      : t('workspace.positionAuto')
+
+  function pick(position: string | null) {
+    onChange(position)
+    setOpen(false)
+  }
+
+  function applyCoords() {
+    const x = Number(draftX)
+    const y = Number(draftY)
+    if (draftX === '' || draftY === '' || Number.isNaN(x) || Number.isNaN(y)) return
+    pick(formatCharacterPosition({ x, y }))
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) {
+          setDraftX(effective ? String(effective.x) : '')
+          setDraftY(effective ? String(effective.y) : '')
+        }
+        setOpen(next)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="xs"
+          className={`font-mono tabular-nums ${center ? '' : 'text-muted-foreground'}`}
+          title={t('workspace.position')}
+        >
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="bottom" align="end" className="w-48 p-3">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">{t('workspace.position')}</div>
+          <div
+            className="grid gap-0.5 aspect-square rounded-md bg-secondary/30 p-0.5"
+            style={{ gridTemplateColumns: `repeat(${POSITION_GRID_SIZE}, minmax(0, 1fr))` }}
+          >
+            {Array.from({ length: POSITION_GRID_SIZE * POSITION_GRID_SIZE }, (_, i) => {
+              const col = i % POSITION_GRID_SIZE
+              const row = Math.floor(i / POSITION_GRID_SIZE)
+              const cell = formatGridCell(col, row)
+              const active = activeCell?.col === col && activeCell.row === row
+              return (
+                <button
+                  key={cell}
+                  onClick={() => pick(cell)}
+                  title={cell}
+                  className={`rounded-sm transition-colors ${
+                    active
+                      ? center ? 'bg-primary' : 'bg-primary/40'
+                      : 'bg-background/60 hover:bg-primary/30'
+                  }`}
+                />
+              )
+            })}
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Input
+              value={draftX}
+              onChange={(e) => setDraftX(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyCoords()}
+              placeholder="x"
+              inputMode="decimal"
+              className="h-7 text-sm font-mono"
+            />
+            <Input
+              value={draftY}
+              onChange={(e) => setDraftY(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyCoords()}
+              placeholder="y"
+              inputMode="decimal"
+              className="h-7 text-sm font-mono"
+            />
+            <Button size="xs" onClick={applyCoords}>
+              {t('common.save')}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {inheritedValue
+              ? t('workspace.positionInherited', { value: inheritedValue })
+              : t('workspace.positionHint')}
+          </p>
+          {value && (
+            <Button variant="outline" size="xs" className="w-full" onClick={() => pick(null)}>
+              {inheritedValue ? t('workspace.positionReset') : t('common.clear')}
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { UserSquareIcon } from '@hugeicons/core-free-icons'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useTranslation } from '@/lib/i18n'
+import { setCharacterReference, updateCharacter } from '@/server/functions/characters'
+
+interface CharacterReferencePickerProps {
+  character: {
+    id: number
+    referenceImagePath?: string | null
+    referenceStrength?: number
+    referenceFidelity?: number
+    referenceStyleAware?: number
+  }
+  /** Called after any change is saved, to reload character data */
+  onChange: () => void
+}
+
+/** Reference image plus strength, fidelity and style-aware settings for one character */
+export function CharacterReferencePicker({ character, onChange }: CharacterReferencePickerProps) {
+  const { t } = useTranslation()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [strength, setStrength] = useState(character.referenceStrength ?? 1)
+  const [fidelity, setFidelity] = useState(character.referenceFidelity ?? 1)
+
+  useEffect(() => {
+    setStrength(character.referenceStrength ?? 1)
+    setFidelity(character.referenceFidelity ?? 1)
+  }, [character.id, character.referenceStrength, character.referenceFidelity])
+
+  const imagePath = character.referenceImagePath ?? null
+
+  async function save(updates: { referenceStrength?: number; referenceFidelity?: number; referenceStyleAware?: number }) {
+    try {
+      await updateCharacter({ data: { id: character.id, ...updates } })
+      onChange()
+    } catch {
+      toast.error(t('workspace.referenceSaveFailed'))
+    }
+  }
+
+  async function setImage(imageData: string | null) {
+    try {
+      await setCharacterReference({ data: { id: character.id, imageData } })
+      onChange()
+    } catch {
+      toast.error(t('workspace.referenceSaveFailed'))
+    }
+  }
+
+  function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !file.type.startsWith('image/')) return
+    const reader = new FileReader()
+    reader.onload = () => setImage(reader.result as string)
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          className={imagePath ? 'text-primary' : 'text-muted-foreground'}
+          title={t('workspace.characterReference')}
+        >
+          <HugeiconsIcon icon={UserSquareIcon} className="size-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="bottom" align="end" className="w-60 p-3">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">{t('workspace.characterReference')}</div>
+
+          {imagePath ? (
+            <img
+              src={`/api/references/${imagePath.replace('data/references/', '')}`}
+              alt=""
+              className="w-full max-h-40 object-contain rounded-md bg-secondary/30"
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">{t('workspace.characterReferenceHint')}</p>
+          )}
+          <div className="flex gap-1.5">
+            <Button size="xs" variant="outline" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+              {imagePath ? t('workspace.referenceReplace') : t('workspace.referenceUpload')}
+            </Button>
+            {imagePath && (
+              <Button size="xs" variant="outline" onClick={() => setImage(null)}>
+                {t('common.clear')}
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleUpload}
+            />
+          </div>
+
+          {imagePath && (
+            <>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`reference-style-${character.id}`}
+                  checked={(character.referenceStyleAware ?? 1) === 1}
+                  onCheckedChange={(checked) => save({ referenceStyleAware: checked ? 1 : 0 })}
+                />
+                <Label htmlFor={`reference-style-${character.id}`} className="text-sm">
+                  {t('workspace.referenceStyleAware')}
+                </Label>
+              </div>
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{t('workspace.referenceStrength')}</span>
+                  <span className="font-mono tabular-nums text-muted-foreground">{strength.toFixed(2)}</span>
+                </div>
+                <Slider
+                  value={[strength]}
+                  onValueChange={([v]) => setStrength(v)}
+                  onValueCommit={([v]) => save({ referenceStrength: v })}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{t('workspace.referenceFidelity')}</span>
+                  <span className="font-mono tabular-nums text-muted-foreground">{fidelity.toFixed(2)}</span>
+                </div>
+                <Slider
+                  value={[fidelity]}
+                  onValueChange={([v]) => setFidelity(v)}
+                  onValueCommit={([v]) => save({ referenceFidelity: v })}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -5,6 +5,22 @@ import { HugeiconsIcon } from '@hugeicons/react'
 import { Cancel01Icon, PauseIcon, PlayIcon, NextIcon } from '@hugeicons/core-free-icons'
 import { useTranslation } from '@/lib/i18n'
 
+export interface BatchTimingInfo {
+  startedAt: number
+  totalImages: number
+  completedImages: number
+  avgImageDurationMs: number | null
+  /** Workers generating in parallel (one per API key) */
+  activeWorkers?: number
+  workers?: Array<{
+    keyId: string
+    name: string
+    status: 'idle' | 'busy' | 'retrying' | 'failed'
+    completedImages: number
+    avgImageDurationMs: number | null
+  }>
+}
+
 interface GenerationProgressProps {
   jobs: Array<{
     id: number
@@ -15,13 +31,15 @@ interface GenerationProgressProps {
     errorMessage?: string | null
   }>
   batchTotal: number
-  batchTiming: {
-    startedAt: number
-    totalImages: number
-    completedImages: number
-    avgImageDurationMs: number | null
-  } | null
+  batchTiming: BatchTimingInfo | null
   queueStopped: 'error' | 'paused' | null
+  /** Set while the running job waits to retry a transient API error */
+  retry?: {
+    attempt: number
+    maxRetries: number
+    retryAt: number
+    error: string
+  } | null
   onCancel: () => void
   onPause: () => void
   onResume: () => void
@@ -47,7 +65,7 @@ function formatRate(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`
 }
 
-export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped, onCancel, onPause, onResume, onDismissError }: GenerationProgressProps) {
+export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped, retry = null, onCancel, onPause, onResume, onDismissError }: GenerationProgressProps) {
   const { t } = useTranslation()
   const [open, setOpen] = useState(false)
   const [elapsed, setElapsed] = useState(0)
@@ -58,6 +76,7 @@ export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped
   const isPaused = queueStopped === 'paused'
   const isError = queueStopped === 'error'
   const isStopped = isPaused || isError
+  const isRetrying = !isStopped && retry != null
 
   useEffect(() => {
     if (!hasJobs) {
@@ -91,17 +110,28 @@ export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped
   const pct = total > 0 ? (completed / total) * 100 : 0
 
   const avgMs = batchTiming?.avgImageDurationMs ?? null
-  const etaMs = avgMs != null && remaining > 0 ? remaining * avgMs : null
+  const etaMs = avgMs != null && remaining > 0 ? (remaining * avgMs) / (batchTiming?.activeWorkers ?? 1) : null
+  // Per-key breakdown only matters with more than one key
+  const workers = batchTiming?.workers && batchTiming.workers.length > 1 ? batchTiming.workers : []
 
   // Bar color based on state
   const barColor = isError
     ? 'bg-destructive'
-    : isPaused
+    : isPaused || isRetrying
       ? 'bg-amber-500'
       : 'bg-primary'
 
   // Status label for compact bar
-  const statusLabel = isError ? t('generation.error') : isPaused ? t('generation.paused') : null
+  const statusLabel = isError
+    ? t('generation.error')
+    : isPaused
+      ? t('generation.paused')
+      : isRetrying
+        ? t('generation.retrying')
+        : null
+
+  // Re-rendered every second by the elapsed timer
+  const retryInSec = retry ? Math.max(0, Math.ceil((retry.retryAt - Date.now()) / 1000)) : 0
 
   // Action handler that also closes popover
   const withClose = (fn: () => void) => () => { setOpen(false); fn() }
@@ -132,7 +162,7 @@ export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped
                 </>
               )}
               <span className={statusLabel ? 'hidden sm:inline' : ''}>{completed}/{total}</span>
-              {!isStopped && (
+              {!isStopped && !isRetrying && (
                 <span className="hidden sm:contents">
                   <span className="text-muted-foreground/50">&middot;</span>
                   {etaMs != null ? (
@@ -165,6 +195,11 @@ export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped
                     {t('generation.error')}
                   </span>
                 )}
+                {isRetrying && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/15 text-amber-500">
+                    {t('generation.retrying')}
+                  </span>
+                )}
               </span>
               <span className="text-xs text-muted-foreground tabular-nums">
                 {completed}/{total}
@@ -196,6 +231,52 @@ export function GenerationProgress({ jobs, batchTotal, batchTiming, queueStopped
               )}
             </div>
 
+            {/* Per-key workers */}
+            {workers.length > 0 && (
+              <div className="space-y-0.5">
+                {workers.map((worker) => (
+                  <div key={worker.keyId} className="flex items-center gap-2 text-xs tabular-nums">
+                    <span
+                      className={`size-1.5 rounded-full shrink-0 ${
+                        worker.status === 'failed'
+                          ? 'bg-destructive'
+                          : worker.status === 'retrying'
+                            ? 'bg-amber-500'
+                            : worker.status === 'busy'
+                              ? 'bg-primary animate-pulse'
+                              : 'bg-muted-foreground/30'
+                      }`}
+                    />
+                    <span className={`truncate flex-1 ${worker.status === 'failed' ? 'text-destructive' : 'text-foreground'}`}>
+                      {worker.name}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {worker.status === 'failed'
+                        ? t('generation.workerFailed')
+                        : t('generation.workerImages', { count: String(worker.completedImages) })}
+                      {worker.avgImageDurationMs != null && worker.status !== 'failed' && (
+                        <> &middot; {formatRate(worker.avgImageDurationMs)}{t('generation.perImg')}</>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pending retry of a transient API error */}
+            {isRetrying && (
+              <div className="space-y-0.5">
+                <p className="text-xs text-amber-500 tabular-nums">
+                  {t('generation.retryIn', {
+                    attempt: String(retry.attempt),
+                    max: String(retry.maxRetries),
+                    seconds: String(retryInSec),
+                  })}
+                </p>
+                <p className="text-[11px] text-muted-foreground line-clamp-2">{retry.error}</p>
+              </div>
+            )}
+
             {/* Action buttons inside popover (accessible on all screen sizes) */}
             <div className="flex items-center gap-1.5 pt-1">
               {!isStopped ? (
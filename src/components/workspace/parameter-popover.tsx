@@ -1,6 +1,7 @@
 import { memo, useState, useSyncExternalStore, useCallback } from 'react'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { Settings02Icon } from '@hugeicons/core-free-icons'
+import type { SeedMode } from '@/lib/seed-strategy'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -13,6 +14,8 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { cn } from '@/lib/utils'
 import { useTranslation } from '@/lib/i18n'
 import { DEFAULT_FILENAME_TEMPLATE } from '@/server/services/download'
+import { BACKEND_IDS, BACKEND_LABELS, DEFAULT_BACKEND, resolveBackendId } from '@/lib/generation-backend'
+import { MAX_SEED, parseSeedList, seedMode } from '@/lib/seed-strategy'
 
 // --- useIsMobile hook ---
 const MOBILE_QUERY = '(max-width: 639px)'
@@ -39,6 +42,23 @@ const AVAILABLE_MODELS = [
 
 const DEFAULT_MODEL = 'nai-diffusion-4-5-full'
 
+// --- Sampling options (also offered by scene parameter overrides) ---
+export const SAMPLER_OPTIONS = [
+  { value: 'k_euler_ancestral', label: 'Euler A' },
+  { value: 'k_euler', label: 'Euler' },
+  { value: 'k_dpmpp_2s_ancestral', label: 'DPM++ 2S A' },
+  { value: 'k_dpmpp_2m', label: 'DPM++ 2M' },
+  { value: 'k_dpmpp_sde', label: 'DPM++ SDE' },
+  { value: 'ddim_v3', label: 'DDIM v3' },
+] as const
+
+export const SCHEDULER_OPTIONS = [
+  { value: 'native', label: 'Native' },
+  { value: 'karras', label: 'Karras' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'polyexponential', label: 'Polyexponential' },
+] as const
+
 // --- Resolution presets ---
 const RESOLUTION_PRESETS = [
   { key: 'portrait' as const, w: 832, h: 1216 },
@@ -50,6 +70,7 @@ const RESOLUTION_PRESETS = [
 
 // --- Param label with tooltip ---
 const PARAM_HELP: Record<string, string> = {
+  backend: 'params.backendHelp',
   model: 'params.modelHelp',
   resolution: 'params.resolutionHelp',
   steps: 'params.stepsHelp',
@@ -59,6 +80,7 @@ const PARAM_HELP: Record<string, string> = {
   scheduler: 'params.schedulerHelp',
   ucPreset: 'params.ucPresetHelp',
   seed: 'params.seedHelp',
+  normalizePrompts: 'params.normalizePromptsHelp',
 }
 
 function ParamLabel({ name, label, value }: { name: string; label: string; value?: string | number }) {
@@ -87,15 +109,45 @@ function ParamLabel({ name, label, value }: { name: string; label: string; value
   return labelEl
 }
 
+// --- Seed list input: keeps the typed text, reports the parsed seeds ---
+function SeedListInput({ seeds, onChange }: { seeds: Array<number>; onChange: (seeds: Array<number>) => void }) {
+  const { t } = useTranslation()
+  const [text, setText] = useState(() => seeds.join(', '))
+  return (
+    <div className="space-y-1">
+      <Input
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value)
+          onChange(parseSeedList(e.target.value))
+        }}
+        placeholder="12345, 67890"
+        className="h-8 text-sm font-mono"
+      />
+      <p className="text-xs text-muted-foreground">{t('params.seedListHint', { count: seeds.length })}</p>
+    </div>
+  )
+}
+
 // --- Shared form ---
 function ParameterForm({
   localParams,
   set,
+  seedScenes,
 }: {
   localParams: Record<string, unknown>
   set: (key: string, value: unknown) => void
+  seedScenes?: Array<{ id: number; name: string }>
 }) {
   const { t } = useTranslation()
+  const mode = seedMode(localParams)
+
+  function setSeedMode(next: SeedMode) {
+    // Fixed and random are told apart by `seed` alone; only the sequence modes set `seedMode`
+    set('seedMode', next === 'increment' || next === 'list' || next === 'scene' ? next : undefined)
+    set('seed', next === 'fixed' || next === 'increment' ? Number(localParams.seed ?? 0) : undefined)
+  }
+
   const w = Number(localParams.width ?? 832)
   const h = Number(localParams.height ?? 1216)
   const steps = Number(localParams.steps ?? 28)
@@ -106,6 +158,24 @@ function ParameterForm({
 
   return (
     <div className="space-y-4">
+      {/* Backend */}
+      <section className="space-y-1.5">
+        <ParamLabel name="backend" label={t('params.backend')} />
+        <Select
+          value={resolveBackendId(localParams)}
+          onValueChange={(v) => set('backend', v === DEFAULT_BACKEND ? undefined : v)}
+        >
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKEND_IDS.map((id) => (
+              <SelectItem key={id} value={id}>{BACKEND_LABELS[id]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </section>
+
       {/* Model */}
       <section className="space-y-1.5">
         <ParamLabel name="model" label={t('params.model')} />
@@ -224,12 +294,9 @@ function ParameterForm({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="k_euler_ancestral">Euler A</SelectItem>
-              <SelectItem value="k_euler">Euler</SelectItem>
-              <SelectItem value="k_dpmpp_2s_ancestral">DPM++ 2S A</SelectItem>
-              <SelectItem value="k_dpmpp_2m">DPM++ 2M</SelectItem>
-              <SelectItem value="k_dpmpp_sde">DPM++ SDE</SelectItem>
-              <SelectItem value="ddim_v3">DDIM v3</SelectItem>
+              {SAMPLER_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -243,10 +310,9 @@ function ParameterForm({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="native">Native</SelectItem>
-              <SelectItem value="karras">Karras</SelectItem>
-              <SelectItem value="exponential">Exponential</SelectItem>
-              <SelectItem value="polyexponential">Polyexponential</SelectItem>
+              {SCHEDULER_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -274,35 +340,78 @@ function ParameterForm({
 
       {/* Seed */}
       <section className="space-y-2">
-        <div className="flex items-center gap-2">
-          <Checkbox
-            id="seed-fixed"
-            checked={localParams.seed != null}
-            onCheckedChange={(checked) => {
-              if (checked) {
-                set('seed', 0)
-              } else {
-                set('seed', undefined)
-              }
-            }}
-          />
-          <ParamLabel name="seed" label={t('params.seedFixed')} />
-        </div>
-        {localParams.seed != null ? (
-          <Input
-            type="number"
-            min={0}
-            max={4294967295}
-            value={String(localParams.seed ?? 0)}
-            onChange={(e) => {
-              const v = Math.max(0, Math.min(4294967295, Math.floor(Number(e.target.value) || 0)))
-              set('seed', v)
-            }}
-            className="h-8 text-sm tabular-nums"
+        <ParamLabel name="seed" label={t('params.seed')} />
+        <Select value={mode} onValueChange={(v) => setSeedMode(v as SeedMode)}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="random">{t('params.seedRandom')}</SelectItem>
+            <SelectItem value="fixed">{t('params.seedModeFixed')}</SelectItem>
+            <SelectItem value="increment">{t('params.seedModeIncrement')}</SelectItem>
+            <SelectItem value="list">{t('params.seedModeList')}</SelectItem>
+            {(mode === 'scene' || (seedScenes && seedScenes.length > 0)) && (
+              <SelectItem value="scene">{t('params.seedModeScene')}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        {(mode === 'fixed' || mode === 'increment') && (
+          <div className="space-y-1">
+            {mode === 'increment' && (
+              <Label className="text-xs text-muted-foreground">{t('params.seedBase')}</Label>
+            )}
+            <Input
+              type="number"
+              min={0}
+              max={MAX_SEED}
+              value={String(localParams.seed ?? 0)}
+              onChange={(e) => {
+                const v = Math.max(0, Math.min(MAX_SEED, Math.floor(Number(e.target.value) || 0)))
+                set('seed', v)
+              }}
+              className="h-8 text-sm tabular-nums"
+            />
+          </div>
+        )}
+        {mode === 'list' && (
+          <SeedListInput
+            seeds={Array.isArray(localParams.seedList) ? (localParams.seedList as Array<number>) : []}
+            onChange={(seeds) => set('seedList', seeds)}
           />
-        ) : (
-          <p className="text-xs text-muted-foreground">{t('params.seedRandom')}</p>
         )}
+        {mode === 'scene' && (
+          <>
+            <Select
+              value={typeof localParams.seedSceneId === 'number' ? String(localParams.seedSceneId) : undefined}
+              onValueChange={(v) => set('seedSceneId', Number(v))}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder={t('params.seedSceneSelect')} />
+              </SelectTrigger>
+              <SelectContent>
+                {seedScenes?.map((scene) => (
+                  <SelectItem key={scene.id} value={String(scene.id)}>{scene.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{t('params.seedSceneHint')}</p>
+          </>
+        )}
+        {mode === 'increment' && (
+          <p className="text-xs text-muted-foreground">{t('params.seedIncrementHint')}</p>
+        )}
+      </section>
+
+      <hr className="border-border" />
+
+      {/* Prompt normalization */}
+      <section className="flex items-center gap-2">
+        <Checkbox
+          id="normalize-prompts"
+          checked={!!localParams.normalizePrompts}
+          onCheckedChange={(checked) => set('normalizePrompts', checked ? true : undefined)}
+        />
+        <ParamLabel name="normalizePrompts" label={t('params.normalizePrompts')} />
       </section>
 
       <hr className="border-border" />
@@ -331,9 +440,11 @@ function ParameterForm({
 interface ParameterPopoverProps {
   params: Record<string, unknown>
   onChange: (params: Record<string, unknown>) => void
+  /** Scenes whose seeds can be reused; the option is hidden without them */
+  seedScenes?: Array<{ id: number; name: string }>
 }
 
-export const ParameterPopover = memo(function ParameterPopover({ params, onChange }: ParameterPopoverProps) {
+export const ParameterPopover = memo(function ParameterPopover({ params, onChange, seedScenes }: ParameterPopoverProps) {
   const { t } = useTranslation()
   const [open, setOpen] = useState(false)
   const [localParams, setLocalParams] = useState(params)
@@ -367,7 +478,7 @@ export const ParameterPopover = memo(function ParameterPopover({ params, onChang
           <DialogHeader>
             <DialogTitle>{t('generation.generationParameters')}</DialogTitle>
           </DialogHeader>
-          <ParameterForm localParams={localParams} set={set} />
+          <ParameterForm localParams={localParams} set={set} seedScenes={seedScenes} />
         </DialogContent>
       </Dialog>
     )
@@ -378,7 +489,7 @@ export const ParameterPopover = memo(function ParameterPopover({ params, onChang
       <PopoverTrigger asChild>{trigger}</PopoverTrigger>
       <PopoverContent side="top" align="start" className="w-96 max-h-[70vh] overflow-y-auto">
         <h4 className="text-base font-medium">{t('generation.generationParameters')}</h4>
-        <ParameterForm localParams={localParams} set={set} />
+        <ParameterForm localParams={localParams} set={set} seedScenes={seedScenes} />
       </PopoverContent>
     </Popover>
   )
@@ -7,20 +7,55 @@ import {
   Add01Icon,
   Cancel01Icon,
 } from '@hugeicons/core-free-icons'
+import { CharacterPositionPicker } from './character-position-picker'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { resolvePlaceholders } from '@/lib/placeholder'
 import { resolveBundles } from '@/lib/bundle'
+import { normalizePrompt, normalizePromptTags } from '@/lib/normalize'
+import { NAI_TOKEN_LIMIT, estimatePromptTokens } from '@/lib/token-count'
 import { useBundleMap } from '@/lib/use-bundles'
 import { useTranslation } from '@/lib/i18n'
 
-function StatusDot({ filled, template }: { filled: boolean; template?: boolean }) {
+function StatusDot({ filled, template, usingDefault }: { filled: boolean; template?: boolean; usingDefault?: boolean }) {
+  if (!filled && usingDefault) return <span className="inline-block size-1.5 rounded-full shrink-0 bg-sky-500/70 ring-1 ring-sky-500/30" />
   if (!filled) return <span className="inline-block size-1.5 rounded-full shrink-0 bg-muted-foreground/25 ring-1 ring-muted-foreground/20" />
   if (template) return <span className="inline-block size-1.5 rounded-full shrink-0 bg-amber-500" />
   return <span className="inline-block size-1.5 rounded-full shrink-0 bg-emerald-500" />
 }
 
+const EMPTY_DEFAULTS: Record<string, string> = {}
+const EMPTY_POSITIONS: Record<number, string | null> = {}
+
+/** Preview text; with normalization on, tags it would drop are struck through */
+function PreviewText({ text, normalize }: { text: string; normalize: boolean }) {
+  if (!normalize) return <>{text}</>
+  return (
+    <>
+      {normalizePromptTags(text).map((tag, i) => (
+        <span key={i}>
+          {i > 0 && ', '}
+          {tag.duplicate
+            ? <span className="line-through text-destructive/60">{tag.text}</span>
+            : tag.text}
+        </span>
+      ))}
+    </>
+  )
+}
+
+/** Preview field label with its token count */
+function PreviewLabel({ label, tokens, className = 'mb-1' }: { label: string; tokens: number; className?: string }) {
+  const { t } = useTranslation()
+  return (
+    <div className={`flex items-center justify-between text-[11px] text-muted-foreground/60 ${className}`}>
+      <span>{label}</span>
+      <span className="tabular-nums">{t('placeholder.tokens', { count: tokens })}</span>
+    </div>
+  )
+}
+
 interface CharacterPlaceholderKeyEntry {
   characterId: number
   characterName: string
@@ -36,7 +71,7 @@ export interface PlaceholderEditorProps {
   /** Keys extracted from prompt templates */
   generalPlaceholderKeys: string[]
   characterPlaceholderKeys: CharacterPlaceholderKeyEntry[]
-  characters: Array<{ id: number; name: string; charPrompt?: string; charNegative?: string }>
+  characters: Array<{ id: number; name: string; charPrompt?: string; charNegative?: string; position?: string | null }>
   /** Save merged general placeholders (full JSON string) */
   onSaveGeneral: (mergedJson: string) => Promise<void>
   /** Save merged character override (full JSON string) */
@@ -44,6 +79,14 @@ export interface PlaceholderEditorProps {
   onPlaceholdersChange?: () => void
   /** Stable callback to get latest prompt text (avoids re-renders). When provided, shows Prompt Preview. */
   getPrompts?: () => { generalPrompt: string; negativePrompt: string }
+  /** Fallback per key when no value is set: project default, else inline \\key|default\\ */
+  placeholderDefaults?: Record<string, string>
+  /** Project opts into prompt normalization — the preview shows what it removes */
+  normalizePrompts?: boolean
+  /** Scene-level character positions: charId → position (null = character's own) */
+  characterPositions?: Record<number, string | null>
+  /** When provided, shows the Character Positions section */
+  onSaveCharPosition?: (charId: number, position: string | null) => Promise<void>
 }
 
 export const PlaceholderEditor = memo(function PlaceholderEditor({
@@ -57,6 +100,10 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
   onSaveCharOverride,
   onPlaceholdersChange,
   getPrompts,
+  placeholderDefaults = EMPTY_DEFAULTS,
+  normalizePrompts = false,
+  characterPositions = EMPTY_POSITIONS,
+  onSaveCharPosition,
 }: PlaceholderEditorProps) {
   const { t } = useTranslation()
   const bundleMap = useBundleMap()
@@ -139,6 +186,10 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
     return getCellValue(key, charId) || getGeneralValue(key)
   }
 
+  function getDefaultValue(key: string): string {
+    return placeholderDefaults[key] ?? ''
+  }
+
   function handleCellChange(context: 'general' | number, key: string, value: string) {
     setLocalValues((prev) => ({ ...prev, [cellKey(context, key)]: value }))
     scheduleSave()
@@ -230,6 +281,15 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
     }
   }
 
+  async function handlePositionChange(charId: number, position: string | null) {
+    try {
+      await onSaveCharPosition!(charId, position)
+      onPlaceholdersChange?.()
+    } catch {
+      toast.error(t('workspace.positionSaveFailed'))
+    }
+  }
+
   // ── Classification: use SERVER data + pin focused field in its section ──
   // eslint-disable-next-line react-hooks/exhaustive-deps
   const classifiedKeys = useMemo(() => {
@@ -286,17 +346,17 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
     let total = 0
     for (const key of generalPlaceholderKeys) {
       total++
-      if (getCellValue(key, 'general')) filled++
+      if (getCellValue(key, 'general') || getDefaultValue(key)) filled++
     }
     for (const char of characters) {
       const keys = characterPlaceholderKeys.find((c) => c.characterId === char.id)?.keys ?? []
       for (const key of keys) {
         total++
-        if (getEffectiveCharValue(key, char.id)) filled++
+        if (getEffectiveCharValue(key, char.id) || getDefaultValue(key)) filled++
       }
     }
     return { filled, total }
-  }, [generalPlaceholderKeys, characters, characterPlaceholderKeys, localValues, scenePlaceholders, characterOverrides])
+  }, [generalPlaceholderKeys, characters, characterPlaceholderKeys, localValues, scenePlaceholders, characterOverrides, placeholderDefaults])
 
   // Extra keys from scene data not in prompt template
   const extraGeneralKeys = useMemo(
@@ -327,11 +387,11 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
   // Pack latest computation inputs into a ref so the interval always reads fresh data
   const previewInputsRef = useRef({
     getCellValue, getPrompts, characters, generalPlaceholderKeys, characterPlaceholderKeys,
-    scenePlaceholders, characterOverrides, localValues, bundleMap,
+    scenePlaceholders, characterOverrides, localValues, bundleMap, placeholderDefaults,
   })
   previewInputsRef.current = {
     getCellValue, getPrompts, characters, generalPlaceholderKeys, characterPlaceholderKeys,
-    scenePlaceholders, characterOverrides, localValues, bundleMap,
+    scenePlaceholders, characterOverrides, localValues, bundleMap, placeholderDefaults,
   }
 
   useEffect(() => {
@@ -347,31 +407,40 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
       const generalValues: Record<string, string> = {}
       for (const key of allGeneralKeys) {
         const ck = `g:${key}`
-        generalValues[key] = (ck in ref.localValues ? ref.localValues[ck] : ref.scenePlaceholders[key]) ?? ''
+        generalValues[key] = (ck in ref.localValues ? ref.localValues[ck] : ref.scenePlaceholders[key]) || ref.placeholderDefaults[key] || ''
       }
 
-      const resolvedChars = ref.characters
-        .filter((c) => c.charPrompt || c.charNegative)
-        .map((char) => {
-          const charKeys = ref.characterPlaceholderKeys.find((c) => c.characterId === char.id)?.keys ?? []
-          const charValues: Record<string, string> = {}
-          for (const key of charKeys) {
-            const ck = `c:${char.id}:${key}`
-            const ownValue = (ck in ref.localValues ? ref.localValues[ck] : ref.characterOverrides[char.id]?.[key]) ?? ''
-            charValues[key] = ownValue || generalValues[key] || ''
-          }
-          return {
-            name: char.name,
-            prompt: resolvePlaceholders(resolveBundles(char.charPrompt || '', ref.bundleMap), charValues),
-            negative: resolvePlaceholders(resolveBundles(char.charNegative || '', ref.bundleMap), charValues),
-          }
-        })
+      // Nested bundle cycles throw — show the error in place of the preview
+      try {
+        const resolvedChars = ref.characters
+          .filter((c) => c.charPrompt || c.charNegative)
+          .map((char) => {
+            const charKeys = ref.characterPlaceholderKeys.find((c) => c.characterId === char.id)?.keys ?? []
+            const charValues: Record<string, string> = {}
+            for (const key of charKeys) {
+              const ck = `c:${char.id}:${key}`
+              const ownValue = (ck in ref.localValues ? ref.localValues[ck] : ref.characterOverrides[char.id]?.[key]) ?? ''
+              charValues[key] = ownValue || generalValues[key] || ref.placeholderDefaults[key] || ''
+            }
+            return {
+              name: char.name,
+              prompt: resolvePlaceholders(resolveBundles(char.charPrompt || '', ref.bundleMap), charValues),
+              negative: resolvePlaceholders(resolveBundles(char.charNegative || '', ref.bundleMap), charValues),
+            }
+          })
 
-      setResolvedPrompts({
-        general: resolvePlaceholders(resolveBundles(generalPrompt, ref.bundleMap), generalValues),
-        negative: negativePrompt ? resolvePlaceholders(resolveBundles(negativePrompt, ref.bundleMap), generalValues) : '',
-        characters: resolvedChars,
-      })
+        setResolvedPrompts({
+          general: resolvePlaceholders(resolveBundles(generalPrompt, ref.bundleMap), generalValues),
+          negative: negativePrompt ? resolvePlaceholders(resolveBundles(negativePrompt, ref.bundleMap), generalValues) : '',
+          characters: resolvedChars,
+        })
+      } catch (err) {
+        setResolvedPrompts({
+          general: err instanceof Error ? err.message : String(err),
+          negative: '',
+          characters: [],
+        })
+      }
     }
 
     compute()
@@ -379,6 +448,21 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
     return () => clearInterval(interval)
   }, [previewOpen, getPrompts])
 
+  // Counted after normalization when it's on, matching what is sent
+  const tokenCounts = useMemo(() => {
+    if (!resolvedPrompts) return null
+    const clean = normalizePrompts ? normalizePrompt : (text: string) => text
+    return estimatePromptTokens({
+      generalPrompt: clean(resolvedPrompts.general),
+      negativePrompt: clean(resolvedPrompts.negative),
+      characterPrompts: resolvedPrompts.characters.map((c) => ({
+        name: c.name,
+        prompt: clean(c.prompt),
+        negative: clean(c.negative),
+      })),
+    })
+  }, [resolvedPrompts, normalizePrompts])
+
   const hasPromptKeys = generalPlaceholderKeys.length > 0 ||
     characterPlaceholderKeys.some((c) => c.keys.length > 0)
 
@@ -465,7 +549,7 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
                   className="cursor-pointer text-xs gap-1 h-5 px-1.5"
                   onClick={() => scrollToSlot('g', key)}
                 >
-                  <StatusDot filled={!!getCellValue(key, 'general')} />
+                  <StatusDot filled={!!getCellValue(key, 'general')} usingDefault={!!getDefaultValue(key)} />
                   {key}
                 </Badge>
               ))}
@@ -493,7 +577,7 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
                       className="cursor-pointer text-xs gap-1 h-5 px-1.5"
                       onClick={() => scrollToSlot('c', key, char.id)}
                     >
-                      <StatusDot filled={isFilled || isTemplate} template={isTemplate} />
+                      <StatusDot filled={isFilled || isTemplate} template={isTemplate} usingDefault={!!getDefaultValue(key)} />
                       {key}
                     </Badge>
                   )
@@ -522,7 +606,7 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
               {classifiedKeys.unfilledGeneral.map((key) => (
                 <div key={key} id={`slot-g-${key}`}>
                   <label className="flex items-center gap-1.5 text-xs font-mono text-muted-foreground mb-1.5">
-                    <StatusDot filled={!!getCellValue(key, 'general')} />
+                    <StatusDot filled={!!getCellValue(key, 'general')} usingDefault={!!getDefaultValue(key)} />
                     <span className="inline-block rounded bg-secondary/80 px-1.5 py-0.5">
                       {`\\\\${key}\\\\`}
                     </span>
@@ -534,7 +618,9 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
                     onBlur={() => handleSectionBlur(`g:${key}`)}
                     rows={2}
                     className="w-full rounded-lg border border-border bg-input/30 px-3 py-2 text-base font-mono placeholder:text-muted-foreground/40 focus:border-primary/50 focus:ring-1 focus:ring-primary/20 focus:outline-none resize-y min-h-12 sm:min-h-[5rem] transition-all"
-                    placeholder={t('scene.valueFor', { key })}
+                    placeholder={getDefaultValue(key)
+                      ? t('placeholder.usingDefault', { value: getDefaultValue(key) })
+                      : t('scene.valueFor', { key })}
                   />
                 </div>
               ))}
@@ -547,7 +633,7 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
               {keys.map((key) => (
                 <div key={key} id={`slot-c-${charId}-${key}`}>
                   <label className="flex items-center gap-1.5 text-xs font-mono text-muted-foreground mb-1.5">
-                    <StatusDot filled={false} />
+                    <StatusDot filled={false} usingDefault={!!getDefaultValue(key)} />
                     <span className="inline-block rounded bg-secondary/80 px-1.5 py-0.5">
                       {`\\\\${key}\\\\`}
                     </span>
@@ -559,7 +645,9 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
                     onBlur={() => handleSectionBlur(`c:${charId}:${key}`)}
                     rows={2}
                     className="w-full rounded-lg border border-border bg-input/30 px-3 py-2 text-base font-mono placeholder:text-muted-foreground/40 focus:border-primary/50 focus:ring-1 focus:ring-primary/20 focus:outline-none resize-y min-h-12 sm:min-h-[5rem] transition-all"
-                    placeholder={`${charName}: ${key}`}
+                    placeholder={getDefaultValue(key)
+                      ? t('placeholder.usingDefault', { value: getDefaultValue(key) })
+                      : `${charName}: ${key}`}
                   />
                 </div>
               ))}
@@ -738,6 +826,28 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
         </>
       )}
 
+      {/* ── Character Positions (scene overrides) ── */}
+      {onSaveCharPosition && characters.length > 0 && (
+        <>
+          <div className="border-t border-border/50 my-1" />
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider py-1">
+              {t('placeholder.characterPositions')}
+            </div>
+            {characters.map((char) => (
+              <div key={char.id} className="flex items-center justify-between gap-2">
+                <span className="text-sm truncate">{char.name}</span>
+                <CharacterPositionPicker
+                  value={characterPositions[char.id] ?? null}
+                  inheritedValue={char.position ?? null}
+                  onChange={(position) => handlePositionChange(char.id, position)}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       {/* ── Prompt Preview ── */}
       {getPrompts && (
         <>
@@ -756,35 +866,56 @@ export const PlaceholderEditor = memo(function PlaceholderEditor({
               />
             </button>
 
-            {previewOpen && resolvedPrompts && (
+            {previewOpen && resolvedPrompts && tokenCounts && (
               <div className="mt-2 space-y-3">
+                {normalizePrompts && (
+                  <p className="text-[11px] text-muted-foreground/60">{t('placeholder.normalizedHint')}</p>
+                )}
+                <div className={`text-[11px] tabular-nums ${tokenCounts.overLimit ? 'text-amber-500' : 'text-muted-foreground/60'}`}>
+                  <p>
+                    {t('placeholder.tokenTotal', {
+                      total: tokenCounts.total,
+                      negative: tokenCounts.negativeTotal,
+                      limit: NAI_TOKEN_LIMIT,
+                    })}
+                  </p>
+                  {tokenCounts.overLimit && <p>{t('placeholder.tokenOverLimit', { limit: NAI_TOKEN_LIMIT })}</p>}
+                </div>
                 <div>
-                  <div className="text-[11px] text-muted-foreground/60 mb-1">{t('placeholder.generalPrompt')}</div>
+                  <PreviewLabel label={t('placeholder.generalPrompt')} tokens={tokenCounts.general} />
                   <pre className="text-xs font-mono bg-secondary/30 rounded-lg p-3 whitespace-pre-wrap break-words text-foreground/80 max-h-48 overflow-y-auto">
-                    {resolvedPrompts.general || <span className="text-muted-foreground/40 italic">{t('placeholder.empty')}</span>}
+                    {resolvedPrompts.general
+                      ? <PreviewText text={resolvedPrompts.general} normalize={normalizePrompts} />
+                      : <span className="text-muted-foreground/40 italic">{t('placeholder.empty')}</span>}
                   </pre>
                 </div>
 
                 {resolvedPrompts.negative && (
                   <div>
-                    <div className="text-[11px] text-muted-foreground/60 mb-1">{t('placeholder.negativePrompt')}</div>
+                    <PreviewLabel label={t('placeholder.negativePrompt')} tokens={tokenCounts.negative} />
                     <pre className="text-xs font-mono bg-secondary/30 rounded-lg p-3 whitespace-pre-wrap break-words text-foreground/80 max-h-48 overflow-y-auto">
-                      {resolvedPrompts.negative}
+                      <PreviewText text={resolvedPrompts.negative} normalize={normalizePrompts} />
                     </pre>
                   </div>
                 )}
 
-                {resolvedPrompts.characters.map((char) => (
+                {resolvedPrompts.characters.map((char, i) => (
                   <div key={char.name}>
-                    <div className="text-[11px] text-muted-foreground/60 mb-1">{char.name}</div>
+                    <PreviewLabel label={char.name} tokens={tokenCounts.characters[i].prompt} />
                     <pre className="text-xs font-mono bg-secondary/30 rounded-lg p-3 whitespace-pre-wrap break-words text-foreground/80 max-h-48 overflow-y-auto">
-                      {char.prompt || <span className="text-muted-foreground/40 italic">{t('placeholder.empty')}</span>}
+                      {char.prompt
+                        ? <PreviewText text={char.prompt} normalize={normalizePrompts} />
+                        : <span className="text-muted-foreground/40 italic">{t('placeholder.empty')}</span>}
                     </pre>
                     {char.negative && (
                       <>
-                        <div className="text-[11px] text-muted-foreground/60 mt-2 mb-1">{char.name} {t('placeholder.negativePrompt')}</div>
+                        <PreviewLabel
+                          label={`${char.name} ${t('placeholder.negativePrompt')}`}
+                          tokens={tokenCounts.characters[i].negative}
+                          className="mt-2 mb-1"
+                        />
                         <pre className="text-xs font-mono bg-secondary/30 rounded-lg p-3 whitespace-pre-wrap break-words text-foreground/80 max-h-48 overflow-y-auto">
-                          {char.negative}
+                          <PreviewText text={char.negative} normalize={normalizePrompts} />
                         </pre>
                       </>
                     )}
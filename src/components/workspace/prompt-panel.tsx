@@ -3,6 +3,8 @@ import { useRouter } from '@tanstack/react-router'
 import { toast } from 'sonner'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { Add01Icon, Delete02Icon } from '@hugeicons/core-free-icons'
+import { CharacterPositionPicker } from './character-position-picker'
+import { CharacterReferencePicker } from './character-reference-picker'
 import { Badge } from '@/components/ui/badge'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
@@ -34,6 +36,7 @@ function LazyPromptEditor(props: {
   placeholder?: string
   minHeight?: string
   bundleNames?: Array<{ name: string; content: string }>
+  filledPlaceholders?: Array<string>
 }) {
   return (
     <Suspense
@@ -61,10 +64,20 @@ interface PromptPanelProps {
     charPrompt: string
     charNegative: string
     slotIndex: number | null
+    position?: string | null
+    referenceImagePath?: string | null
+    referenceStrength?: number
+    referenceFidelity?: number
+    referenceStyleAware?: number
   }>
   onGeneralPromptChange: (value: string) => void
   onNegativePromptChange: (value: string) => void
   projectId: number
+  /** Project-level placeholder defaults, used when a scene leaves a key empty */
+  placeholderDefaults?: Record<string, string>
+  onPlaceholderDefaultChange?: (key: string, value: string) => void
+  /** Placeholder keys filled in some scene; enables the empty-placeholder lint */
+  filledPlaceholders?: Array<string>
 }
 
 export function PromptPanel({
@@ -74,6 +87,9 @@ export function PromptPanel({
   onGeneralPromptChange,
   onNegativePromptChange,
   projectId,
+  placeholderDefaults,
+  onPlaceholderDefaultChange,
+  filledPlaceholders,
 }: PromptPanelProps) {
   const router = useRouter()
   const { t } = useTranslation()
@@ -135,6 +151,15 @@ export function PromptPanel({
     }
   }
 
+  async function handlePositionChange(charId: number, position: string | null) {
+    try {
+      await updateCharacter({ data: { id: charId, position } })
+      router.invalidate()
+    } catch {
+      toast.error(t('workspace.positionSaveFailed'))
+    }
+  }
+
   function debouncedCharSave(charId: number, prompt: string, negative: string) {
     if (charSaveRef.current) clearTimeout(charSaveRef.current)
     charSaveRef.current = setTimeout(() => saveChar(charId, prompt, negative), 1000)
@@ -284,6 +309,15 @@ export function PromptPanel({
               </SelectContent>
             </Select>
           )}
+          {activeChar && (
+            <>
+              <CharacterPositionPicker
+                value={activeChar.position ?? null}
+                onChange={(position) => handlePositionChange(activeChar.id, position)}
+              />
+              <CharacterReferencePicker character={activeChar} onChange={() => router.invalidate()} />
+            </>
+          )}
           <Popover open={addOpen} onOpenChange={setAddOpen}>
             <PopoverTrigger asChild>
               <Button variant="ghost" size="icon-sm" title="Add character">
@@ -384,18 +418,19 @@ export function PromptPanel({
                 }
                 minHeight="200px"
                 bundleNames={bundleNames}
+                filledPlaceholders={filledPlaceholders}
               />
             </div>
             {promptPlaceholders.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 {promptPlaceholders.map((p) => (
-                  <Badge
+                  <PlaceholderBadge
                     key={p}
+                    placeholderKey={p}
                     variant={isCharacterTab ? 'outline' : 'secondary'}
-                    className="text-xs"
-                  >
-                    {`\\\\${p}\\\\`}
-                  </Badge>
+                    defaultValue={placeholderDefaults?.[p] ?? ''}
+                    onDefaultChange={onPlaceholderDefaultChange}
+                  />
                 ))}
               </div>
             )}
@@ -416,17 +451,18 @@ export function PromptPanel({
               }
               minHeight="120px"
               bundleNames={bundleNames}
+              filledPlaceholders={filledPlaceholders}
             />
             {negativePlaceholders.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 {negativePlaceholders.map((p) => (
-                  <Badge
+                  <PlaceholderBadge
                     key={p}
+                    placeholderKey={p}
                     variant={isCharacterTab ? 'outline' : 'secondary'}
-                    className="text-xs"
-                  >
-                    {`\\\\${p}\\\\`}
-                  </Badge>
+                    defaultValue={placeholderDefaults?.[p] ?? ''}
+                    onDefaultChange={onPlaceholderDefaultChange}
+                  />
                 ))}
               </div>
             )}
@@ -436,3 +472,71 @@ export function PromptPanel({
     </div>
   )
 }
+
+/** Placeholder key chip; click to edit its project-level default */
+function PlaceholderBadge({
+  placeholderKey,
+  variant,
+  defaultValue,
+  onDefaultChange,
+}: {
+  placeholderKey: string
+  variant: 'outline' | 'secondary'
+  defaultValue: string
+  onDefaultChange?: (key: string, value: string) => void
+}) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(defaultValue)
+
+  const badge = (
+    <Badge variant={variant} className="text-xs cursor-pointer max-w-full">
+      <span className="shrink-0">{`\\\\${placeholderKey}\\\\`}</span>
+      {defaultValue && (
+        <span className="truncate text-muted-foreground font-normal">= {defaultValue}</span>
+      )}
+    </Badge>
+  )
+  if (!onDefaultChange) return badge
+
+  function handleSave() {
+    onDefaultChange!(placeholderKey, draft.trim())
+    setOpen(false)
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setDraft(defaultValue)
+        setOpen(next)
+      }}
+    >
+      <PopoverTrigger asChild>{badge}</PopoverTrigger>
+      <PopoverContent side="bottom" align="start" className="w-60 p-3">
+        <div className="space-y-2">
+          <Label className="text-sm">{t('placeholder.projectDefault')}</Label>
+          <div className="flex gap-1.5">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={t('scene.valueFor', { key: placeholderKey })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave()
+                if (e.key === 'Escape') setOpen(false)
+              }}
+              className="h-7 text-sm font-mono"
+              autoFocus
+            />
+            <Button size="xs" onClick={handleSave}>
+              {t('common.save')}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('placeholder.projectDefaultHint')}
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,9 +1,12 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { Link } from '@tanstack/react-router'
+import { Link, useRouter } from '@tanstack/react-router'
 import { useVirtualizer } from '@tanstack/react-virtual'
 import { toast } from 'sonner'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { Image02Icon, FolderOpenIcon, Download04Icon } from '@hugeicons/core-free-icons'
+import { SAMPLER_OPTIONS, SCHEDULER_OPTIONS } from './parameter-popover'
+import type { TranslationKeys } from '@/lib/i18n'
+import type { SceneParameterKey, SceneParameterOverrides } from '@/lib/scene-parameters'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -15,6 +18,7 @@ import { updateProjectScene, upsertCharacterOverride } from '@/server/functions/
 import { updateImage, bulkUpdateImages } from '@/server/functions/gallery'
 import { extractPlaceholders } from '@/lib/placeholder'
 import { useTranslation } from '@/lib/i18n'
+import { SCENE_PARAMETER_DEFAULTS, deviatingSceneParameters, parseSceneParameters } from '@/lib/scene-parameters'
 import { ConfirmDialog } from '@/components/common/confirm-dialog'
 import { DownloadDialog } from '@/components/common/download-dialog'
 import { TournamentDialog } from './tournament-dialog'
@@ -32,6 +36,8 @@ interface SceneDetailProps {
   }>
   generalPlaceholderKeys: string[]
   projectId: number
+  /** Project generation parameters, shown as the inherited value of each override */
+  projectParameters?: Record<string, unknown>
   thumbnailImageId: number | null
   onThumbnailChange: (imageId: number | null, thumbnailPath?: string | null) => void
   projectThumbnailImageId?: number | null
@@ -93,6 +99,7 @@ export function SceneDetail({
   characters,
   generalPlaceholderKeys,
   projectId,
+  projectParameters,
   thumbnailImageId,
   onThumbnailChange,
   projectThumbnailImageId,
@@ -104,6 +111,7 @@ export function SceneDetail({
   onSortByChange: externalOnSortByChange,
 }: SceneDetailProps) {
   const { t } = useTranslation()
+  const router = useRouter()
   const [loading, setLoading] = useState(true)
   const initialLoadDone = useRef(false)
 
@@ -129,6 +137,8 @@ export function SceneDetail({
   const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({})
   // Character override values
   const [charOverrides, setCharOverrides] = useState<Record<number, Record<string, string>>>({})
+  // Generation parameters this scene overrides
+  const [parameterOverrides, setParameterOverrides] = useState<SceneParameterOverrides>({})
 
   const loadScene = useCallback(async (silent?: boolean, overrideSortBy?: SortBy) => {
     if (!silent) setLoading(true)
@@ -156,6 +166,7 @@ export function SceneDetail({
           ov[o.characterId] = JSON.parse(o.placeholders || '{}')
         }
         setCharOverrides(ov)
+        setParameterOverrides(parseSceneParameters(result.scene.parameters))
         initialLoadDone.current = true
       }
     } catch {
@@ -311,6 +322,42 @@ export function SceneDetail({
     }, 800)
   }
 
+  const parameterSaveTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined)
+  // Overrides waiting on the debounce, saved right away if the scene is left first
+  const pendingParametersRef = useRef<{ sceneId: number; overrides: SceneParameterOverrides } | null>(null)
+
+  async function saveParameterOverrides(id: number, overrides: SceneParameterOverrides) {
+    pendingParametersRef.current = null
+    try {
+      await updateProjectScene({ data: { id, parameters: JSON.stringify(overrides) } })
+      // The workspace estimates each scene's cost from its loaded scene parameters
+      router.invalidate()
+    } catch {
+      toast.error(t('scene.failedToSaveParameters'))
+    }
+  }
+
+  function handleParameterOverrideChange(key: SceneParameterKey, value: number | string | undefined) {
+    const updated: SceneParameterOverrides = { ...parameterOverrides, [key]: value }
+    if (value === undefined) delete updated[key]
+    setParameterOverrides(updated)
+    if (parameterSaveTimerRef.current) clearTimeout(parameterSaveTimerRef.current)
+    pendingParametersRef.current = { sceneId, overrides: updated }
+    parameterSaveTimerRef.current = setTimeout(() => saveParameterOverrides(sceneId, updated), 800)
+  }
+
+  async function handleResetParameterOverrides() {
+    if (parameterSaveTimerRef.current) clearTimeout(parameterSaveTimerRef.current)
+    setParameterOverrides({})
+    await saveParameterOverrides(sceneId, {})
+  }
+
+  useEffect(() => () => {
+    clearTimeout(parameterSaveTimerRef.current)
+    const pending = pendingParametersRef.current
+    if (pending) saveParameterOverrides(pending.sceneId, pending.overrides)
+  }, [])
+
   async function handleToggleFavorite(imageId: number, current: number | null) {
     const newVal = current ? 0 : 1
     await updateImage({ data: { id: imageId, isFavorite: newVal } })
@@ -463,6 +510,14 @@ export function SceneDetail({
         </div>
       )}
 
+      {/* Generation Parameter Overrides */}
+      <SceneParameterEditor
+        overrides={parameterOverrides}
+        projectParameters={projectParameters ?? {}}
+        onChange={handleParameterOverrideChange}
+        onReset={handleResetParameterOverrides}
+      />
+
       {/* Generated Images — Virtualized Grid */}
       {images.length > 0 && (
         <div className="space-y-2">
@@ -768,3 +823,110 @@ export function SceneDetail({
     </>
   )
 }
+
+// ── Scene generation parameter overrides ──
+
+const NUMERIC_PARAMETER_FIELDS: Array<{ key: SceneParameterKey; min: number; max: number; step: number }> = [
+  { key: 'width', min: 64, max: 1856, step: 64 },
+  { key: 'height', min: 64, max: 2624, step: 64 },
+  { key: 'steps', min: 1, max: 50, step: 1 },
+  { key: 'scale', min: 0, max: 20, step: 0.1 },
+  { key: 'cfgRescale', min: 0, max: 1, step: 0.01 },
+  { key: 'seed', min: 0, max: 4294967295, step: 1 },
+]
+
+const SELECT_PARAMETER_FIELDS: Array<{ key: SceneParameterKey; options: ReadonlyArray<{ value: string; label: string }> }> = [
+  { key: 'sampler', options: SAMPLER_OPTIONS },
+  { key: 'scheduler', options: SCHEDULER_OPTIONS },
+]
+
+// Select value for "use the project's value"; never a real sampler or scheduler
+const INHERIT_VALUE = '__inherit__'
+
+function SceneParameterEditor({
+  overrides,
+  projectParameters,
+  onChange,
+  onReset,
+}: {
+  overrides: SceneParameterOverrides
+  projectParameters: Record<string, unknown>
+  onChange: (key: SceneParameterKey, value: number | string | undefined) => void
+  onReset: () => void
+}) {
+  const { t } = useTranslation()
+  const deviating = new Set(deviatingSceneParameters(projectParameters, overrides))
+  const hasOverrides = Object.keys(overrides).length > 0
+
+  function inheritedValue(key: SceneParameterKey) {
+    const value = projectParameters[key] ?? (key === 'seed' ? undefined : SCENE_PARAMETER_DEFAULTS[key])
+    return value === undefined ? t('params.seedRandom') : String(value)
+  }
+
+  function fieldLabel(key: SceneParameterKey) {
+    return (
+      <label className={`text-sm ${deviating.has(key) ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+        {t(`params.${key}` as TranslationKeys)}
+      </label>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm text-muted-foreground uppercase tracking-wider">
+          {t('scene.parameterOverrides')}
+        </Label>
+        {hasOverrides && (
+          <Button variant="ghost" size="xs" onClick={onReset}>
+            {t('scene.resetParameterOverrides')}
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">{t('scene.parameterOverridesDesc')}</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {NUMERIC_PARAMETER_FIELDS.map(({ key, min, max, step }) => (
+          <div key={key} className="space-y-1">
+            {fieldLabel(key)}
+            <Input
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={overrides[key] ?? ''}
+              onChange={(e) => {
+                const value = e.target.value === '' ? undefined : Number(e.target.value)
+                if (value === undefined || Number.isFinite(value)) onChange(key, value)
+              }}
+              placeholder={inheritedValue(key)}
+              className="h-8 text-base tabular-nums"
+            />
+          </div>
+        ))}
+        {SELECT_PARAMETER_FIELDS.map(({ key, options }) => (
+          <div key={key} className="space-y-1">
+            {fieldLabel(key)}
+            <Select
+              value={String(overrides[key] ?? INHERIT_VALUE)}
+              onValueChange={(v) => onChange(key, v === INHERIT_VALUE ? undefined : v)}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT_VALUE}>
+                  {t('scene.inheritParameter', {
+                    value: options.find((o) => o.value === inheritedValue(key))?.label ?? inheritedValue(key),
+                  })}
+                </SelectItem>
+                {options.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
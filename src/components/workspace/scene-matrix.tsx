@@ -11,11 +11,15 @@ import {
   Tick01Icon,
   Cancel01Icon,
   GridIcon,
+  Settings02Icon,
 } from '@hugeicons/core-free-icons'
+import type { TranslationKeys } from '@/lib/i18n'
+import type { SceneParameterKey } from '@/lib/scene-parameters'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ConfirmDialog } from '@/components/common/confirm-dialog'
 import { useTranslation } from '@/lib/i18n'
+import { deviatingSceneParameters, parseSceneParameters } from '@/lib/scene-parameters'
 import {
   Select,
   SelectContent,
@@ -25,6 +29,7 @@ import {
 } from '@/components/ui/select'
 import {
   bulkUpdatePlaceholders,
+  setCharacterPositionOverride,
   upsertCharacterOverride,
 } from '@/server/functions/project-scenes'
 import { PlaceholderEditor } from './placeholder-editor'
@@ -33,6 +38,7 @@ interface SceneData {
   id: number
   name: string
   placeholders: string | null
+  parameters: string | null
   sortOrder: number | null
   recentImageCount: number
   thumbnailPath: string | null
@@ -49,6 +55,7 @@ interface CharacterOverride {
   projectSceneId: number
   characterId: number
   placeholders: string
+  position?: string | null
 }
 
 interface CharacterPlaceholderKeyEntry {
@@ -60,9 +67,10 @@ interface CharacterPlaceholderKeyEntry {
 interface SceneMatrixProps {
   scenePacks: ScenePackData[]
   projectId: number
+  projectParameters?: Record<string, unknown>
   generalPlaceholderKeys: string[]
   characterPlaceholderKeys: CharacterPlaceholderKeyEntry[]
-  characters: Array<{ id: number; name: string; charPrompt: string; charNegative: string }>
+  characters: Array<{ id: number; name: string; charPrompt: string; charNegative: string; position?: string | null }>
   characterOverrides: Record<number, CharacterOverride[]>
   selectedScene: number | null
   onSelectedSceneChange: (id: number | null) => void
@@ -71,6 +79,8 @@ interface SceneMatrixProps {
   onDuplicateScene: (sceneId: number) => Promise<void>
   onPlaceholdersChange: () => void
   getPrompts?: () => { generalPrompt: string; negativePrompt: string }
+  placeholderDefaults?: Record<string, string>
+  normalizePrompts?: boolean
   addingScene: boolean
   newSceneName: string
   newSceneInputRef: React.RefObject<HTMLInputElement | null>
@@ -82,6 +92,7 @@ interface SceneMatrixProps {
 export const SceneMatrix = memo(function SceneMatrix({
   scenePacks,
   projectId,
+  projectParameters,
   generalPlaceholderKeys,
   characterPlaceholderKeys,
   characters,
@@ -93,6 +104,8 @@ export const SceneMatrix = memo(function SceneMatrix({
   onDuplicateScene,
   onPlaceholdersChange,
   getPrompts,
+  placeholderDefaults,
+  normalizePrompts,
   addingScene,
   newSceneName,
   newSceneInputRef,
@@ -139,6 +152,23 @@ export const SceneMatrix = memo(function SceneMatrix({
     return result
   }, [characterOverrides])
 
+  const parsedCharPositions = useMemo(() => {
+    const result: Record<number, Record<number, string | null>> = {}
+    for (const [sceneId, overrides] of Object.entries(characterOverrides)) {
+      result[Number(sceneId)] = Object.fromEntries(overrides.map((o) => [o.characterId, o.position ?? null]))
+    }
+    return result
+  }, [characterOverrides])
+
+  // Parameter overrides that actually differ from the project, per scene
+  const deviatingParameters = useMemo(() => {
+    const result: Record<number, Array<SceneParameterKey>> = {}
+    for (const scene of allScenes) {
+      result[scene.id] = deviatingSceneParameters(projectParameters ?? {}, parseSceneParameters(scene.parameters))
+    }
+    return result
+  }, [allScenes, projectParameters])
+
   const selectedSceneData = allScenes.find((s) => s.id === selectedScene)
 
   // ── Save callbacks for PlaceholderEditor ──
@@ -156,6 +186,13 @@ export const SceneMatrix = memo(function SceneMatrix({
     })
   }, [selectedScene])
 
+  const handleSaveCharPosition = useCallback(async (charId: number, position: string | null) => {
+    if (!selectedScene) return
+    await setCharacterPositionOverride({
+      data: { projectSceneId: selectedScene, characterId: charId, position },
+    })
+  }, [selectedScene])
+
   // ── Actions ──
   async function handleRename(id: number) {
     const name = editNameValue.trim()
@@ -221,6 +258,7 @@ export const SceneMatrix = memo(function SceneMatrix({
         {/* ── Left: scene list (desktop only) ── */}
         <VirtualSceneList
           allScenes={allScenes}
+          deviatingParameters={deviatingParameters}
           selectedScene={selectedScene}
           setSelectedScene={setSelectedScene}
           onDuplicateScene={onDuplicateScene}
@@ -316,8 +354,12 @@ export const SceneMatrix = memo(function SceneMatrix({
                   characters={characters}
                   onSaveGeneral={handleSaveGeneral}
                   onSaveCharOverride={handleSaveCharOverride}
+                  characterPositions={parsedCharPositions[selectedSceneData.id]}
+                  onSaveCharPosition={handleSaveCharPosition}
                   onPlaceholdersChange={onPlaceholdersChange}
                   getPrompts={getPrompts}
+                  placeholderDefaults={placeholderDefaults}
+                  normalizePrompts={normalizePrompts}
                 />
               </div>
             </>
@@ -347,6 +389,7 @@ const SCENE_LIST_GAP = 4 // space-y-1 = 4px
 
 interface VirtualSceneListProps {
   allScenes: SceneData[]
+  deviatingParameters: Record<number, Array<SceneParameterKey>>
   selectedScene: number | null
   setSelectedScene: (id: number | null) => void
   onDuplicateScene: (sceneId: number) => Promise<void>
@@ -361,6 +404,7 @@ interface VirtualSceneListProps {
 
 function VirtualSceneList({
   allScenes,
+  deviatingParameters,
   selectedScene,
   setSelectedScene,
   onDuplicateScene,
@@ -443,6 +487,7 @@ function VirtualSceneList({
               <MatrixSceneItem
                 key={scene.id}
                 scene={scene}
+                deviatingParameters={deviatingParameters[scene.id]}
                 isSelected={selectedScene === scene.id}
                 style={{
                   position: 'absolute',
@@ -471,6 +516,7 @@ function VirtualSceneList({
 
 interface MatrixSceneItemProps {
   scene: SceneData
+  deviatingParameters: Array<SceneParameterKey> | undefined
   isSelected: boolean
   style: React.CSSProperties
   onSelect: () => void
@@ -480,6 +526,7 @@ interface MatrixSceneItemProps {
 
 const MatrixSceneItem = memo(function MatrixSceneItem({
   scene,
+  deviatingParameters,
   isSelected,
   style,
   onSelect,
@@ -518,6 +565,17 @@ const MatrixSceneItem = memo(function MatrixSceneItem({
               {scene.recentImageCount}
             </span>
           )}
+          {deviatingParameters && deviatingParameters.length > 0 && (
+            <span
+              className="absolute top-1.5 left-1.5 inline-flex items-center gap-0.5 rounded-full bg-primary/80 backdrop-blur-sm px-1.5 py-0.5 text-xs text-primary-foreground tabular-nums"
+              title={t('scene.parameterOverridesBadge', {
+                params: deviatingParameters.map((key) => t(`params.${key}` as TranslationKeys)).join(', '),
+              })}
+            >
+              <HugeiconsIcon icon={Settings02Icon} className="size-2.5" />
+              {deviatingParameters.length}
+            </span>
+          )}
         </div>
 
         <div className="px-2.5 pt-1.5 pb-2">
@@ -45,6 +45,7 @@ interface CharacterOverride {
   projectSceneId: number
   characterId: number
   placeholders: string
+  position?: string | null
 }
 
 interface CharacterPlaceholderKeyEntry {
@@ -61,6 +62,7 @@ interface ScenePanelProps {
       id: number
       name: string
       placeholders: string | null
+      parameters: string | null
       sortOrder: number | null
       recentImageCount: number
       thumbnailPath: string | null
@@ -69,6 +71,8 @@ interface ScenePanelProps {
   }>
   projectId: number
   projectName?: string
+  /** Project generation parameters, to flag scenes whose overrides deviate from them */
+  projectParameters?: Record<string, unknown>
   generalPlaceholderKeys: string[]
   characterPlaceholderKeys: CharacterPlaceholderKeyEntry[]
   characters: Array<{
@@ -76,6 +80,7 @@ interface ScenePanelProps {
     name: string
     charPrompt: string
     charNegative: string
+    position?: string | null
   }>
   characterOverrides: Record<number, CharacterOverride[]>
   sceneCounts: Record<number, number>
@@ -95,12 +100,15 @@ interface ScenePanelProps {
   selectedSceneId: number | null
   onSelectedSceneChange: (id: number | null) => void
   getPrompts?: () => { generalPrompt: string; negativePrompt: string }
+  placeholderDefaults?: Record<string, string>
+  normalizePrompts?: boolean
 }
 
 export const ScenePanel = memo(function ScenePanel({
   scenePacks,
   projectId,
   projectName,
+  projectParameters,
   generalPlaceholderKeys,
   characterPlaceholderKeys,
   characters,
@@ -122,6 +130,8 @@ export const ScenePanel = memo(function ScenePanel({
   selectedSceneId,
   onSelectedSceneChange,
   getPrompts,
+  placeholderDefaults,
+  normalizePrompts,
 }: ScenePanelProps) {
   const { t } = useTranslation()
   const [searchVisible, setSearchVisible] = useState(searchQuery.length > 0)
@@ -428,6 +438,7 @@ export const ScenePanel = memo(function ScenePanel({
           <SceneMatrix
             scenePacks={filteredScenePacks}
             projectId={projectId}
+            projectParameters={projectParameters}
             generalPlaceholderKeys={generalPlaceholderKeys}
             characterPlaceholderKeys={characterPlaceholderKeys}
             characters={characters}
@@ -439,6 +450,8 @@ export const ScenePanel = memo(function ScenePanel({
             onDuplicateScene={onDuplicateScene}
             onPlaceholdersChange={onPlaceholdersChange}
             getPrompts={getPrompts}
+            placeholderDefaults={placeholderDefaults}
+            normalizePrompts={normalizePrompts}
             addingScene={addingScene}
             newSceneName={newSceneName}
             newSceneInputRef={newSceneInputRef}
@@ -1,5 +1,6 @@
 import { useMemo, memo } from 'react'
 import {
+  setCharacterPositionOverride,
   updateProjectScene,
   upsertCharacterOverride,
 } from '@/server/functions/project-scenes'
@@ -8,6 +9,7 @@ import { PlaceholderEditor } from './placeholder-editor'
 interface CharacterOverrideData {
   characterId: number
   placeholders: string | null
+  position?: string | null
 }
 
 interface CharacterPlaceholderKeyEntry {
@@ -22,9 +24,11 @@ interface ScenePlaceholderPanelProps {
   characterOverrides: CharacterOverrideData[]
   generalPlaceholderKeys: string[]
   characterPlaceholderKeys: CharacterPlaceholderKeyEntry[]
-  characters: Array<{ id: number; name: string; charPrompt: string; charNegative: string }>
+  characters: Array<{ id: number; name: string; charPrompt: string; charNegative: string; position?: string | null }>
   onPlaceholdersChange?: () => void
   getPrompts?: () => { generalPrompt: string; negativePrompt: string }
+  placeholderDefaults?: Record<string, string>
+  normalizePrompts?: boolean
 }
 
 export const ScenePlaceholderPanel = memo(function ScenePlaceholderPanel({
@@ -36,6 +40,8 @@ export const ScenePlaceholderPanel = memo(function ScenePlaceholderPanel({
   characters,
   onPlaceholdersChange,
   getPrompts,
+  placeholderDefaults,
+  normalizePrompts,
 }: ScenePlaceholderPanelProps) {
   // Parse character overrides for PlaceholderEditor
   const parsedCharOverrides = useMemo(() => {
@@ -46,6 +52,12 @@ export const ScenePlaceholderPanel = memo(function ScenePlaceholderPanel({
     return result
   }, [characterOverrides])
 
+  const charPositions = useMemo(() => {
+    const result: Record<number, string | null> = {}
+    for (const o of characterOverrides) result[o.characterId] = o.position ?? null
+    return result
+  }, [characterOverrides])
+
   return (
     <div className="p-4">
       <PlaceholderEditor
@@ -63,8 +75,16 @@ export const ScenePlaceholderPanel = memo(function ScenePlaceholderPanel({
             data: { projectSceneId: sceneId, characterId: charId, placeholders: mergedJson },
           })
         }}
+        characterPositions={charPositions}
+        onSaveCharPosition={async (charId, position) => {
+          await setCharacterPositionOverride({
+            data: { projectSceneId: sceneId, characterId: charId, position },
+          })
+        }}
         onPlaceholdersChange={onPlaceholdersChange}
         getPrompts={getPrompts}
+        placeholderDefaults={placeholderDefaults}
+        normalizePrompts={normalizePrompts}
       />
     </div>
   )
@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { HugeiconsIcon } from '@hugeicons/react'
+import {
+  Add01Icon,
+  Cancel01Icon,
+  Delete02Icon,
+  DiceIcon,
+  GridTableIcon,
+  RefreshIcon,
+} from '@hugeicons/core-free-icons'
+import type { SweepAxis, SweepParameterKey } from '@/lib/sweep'
+import type { TranslationKeys } from '@/lib/i18n'
+import { useTranslation } from '@/lib/i18n'
+import { useProgressStream } from '@/lib/use-progress-stream'
+import { randomSeed } from '@/lib/random'
+import {
+  MAX_SWEEP_AXES,
+  MAX_SWEEP_CELLS,
+  SWEEP_NUMERIC_KEYS,
+  SWEEP_STRING_KEYS,
+  isNumericSweepKey,
+  parseSweepValues,
+  sweepDimensions,
+  sweepValueLabel,
+} from '@/lib/sweep'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ConfirmDialog } from '@/components/common/confirm-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { composeSweep, createSweep, deleteSweep, listSweeps } from '@/server/functions/sweeps'
+
+interface SweepDialogProps {
+  projectId: number
+  scenes: Array<{ id: number; name: string }>
+  /** Placeholders of the project's prompts and characters, offered as axes */
+  placeholderKeys: Array<string>
+}
+
+type SweepItem = Awaited<ReturnType<typeof listSweeps>>[number]
+
+// `parameter:scale` or `placeholder:hair`, as stored in the axis select
+interface AxisDraft {
+  target: string
+  values: string
+}
+
+const AXIS_NAMES = ['X', 'Y', 'Z']
+
+const STATUS_KEYS: Partial<Record<string, TranslationKeys>> = {
+  running: 'generation.generating',
+  pending: 'queue.queued',
+  failed: 'queue.statusFailed',
+  cancelled: 'queue.statusCancelled',
+}
+
+function imageUrl(filePath: string) {
+  return `/api/images/${filePath.replace('data/images/', '')}`
+}
+
+/** Axes typed in the form, or the first problem with them */
+function parseAxisDrafts(drafts: Array<AxisDraft>): { axes: Array<SweepAxis>; error: string | null } {
+  const axes: Array<SweepAxis> = []
+  for (const draft of drafts) {
+    const [kind, ...rest] = draft.target.split(':')
+    const key = rest.join(':')
+    if (!key) return { axes, error: null }
+    try {
+      if (kind === 'parameter') {
+        axes.push({ kind, key: key as SweepParameterKey, values: parseSweepValues(draft.values, isNumericSweepKey(key)) })
+      } else {
+        axes.push({ kind: 'placeholder', key, values: parseSweepValues(draft.values, false).map(String) })
+      }
+    } catch (error) {
+      return { axes, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+  return { axes, error: null }
+}
+
+export function SweepDialog({ projectId, scenes, placeholderKeys }: SweepDialogProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [sweeps, setSweeps] = useState<Array<SweepItem>>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+
+  // New sweep form
+  const [sceneId, setSceneId] = useState('')
+  const [seed, setSeed] = useState('')
+  const [drafts, setDrafts] = useState<Array<AxisDraft>>([{ target: '', values: '' }])
+  const [creating, setCreating] = useState(false)
+
+  const loadSweeps = useCallback(async () => {
+    setSweeps(await listSweeps({ data: projectId }))
+  }, [projectId])
+
+  useEffect(() => {
+    if (open) loadSweeps()
+  }, [open, loadSweeps])
+
+  const running = sweeps.some((s) => s.cells.some((c) => c.status === 'pending' || c.status === 'running'))
+  useProgressStream({ enabled: open && running, refresh: loadSweeps })
+
+  const { axes, error } = useMemo(() => parseAxisDrafts(drafts), [drafts])
+  const [nx, ny, nz] = sweepDimensions(axes)
+  const cellCount = axes.length > 0 ? nx * ny * nz : 0
+  const seedValue = seed.trim() === '' ? NaN : Number(seed)
+  const canCreate =
+    !!sceneId && Number.isInteger(seedValue) && axes.length === drafts.length &&
+    !error && cellCount > 0 && cellCount <= MAX_SWEEP_CELLS
+
+  const selected = sweeps.find((s) => s.id === selectedId) ?? sweeps.at(0) ?? null
+
+  function updateDraft(index: number, patch: Partial<AxisDraft>) {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)))
+  }
+
+  async function handleCreate() {
+    setCreating(true)
+    try {
+      const sweep = await createSweep({ data: { projectId, projectSceneId: Number(sceneId), axes, seed: seedValue } })
+      toast.success(t('sweep.created', { count: cellCount }))
+      setSelectedId(sweep.id)
+      await loadSweeps()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('sweep.createFailed'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function handleCompose(id: number) {
+    try {
+      await composeSweep({ data: id })
+      await loadSweeps()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('sweep.composeFailed'))
+    }
+  }
+
+  async function handleDelete(id: number) {
+    try {
+      await deleteSweep({ data: id })
+      toast.success(t('sweep.deleted'))
+      if (selectedId === id) setSelectedId(null)
+      await loadSweeps()
+    } catch {
+      toast.error(t('sweep.deleteFailed'))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <HugeiconsIcon icon={GridTableIcon} className="size-5" />
+          <span className="hidden sm:inline">{t('sweep.title')}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-6xl max-h-[85vh] sm:min-h-[50vh] overflow-hidden flex flex-col p-0 gap-0">
+        <DialogHeader className="px-6 pt-5 pb-3 shrink-0">
+          <DialogTitle>{t('sweep.title')}</DialogTitle>
+          <p className="text-sm text-muted-foreground">{t('sweep.description')}</p>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row border-t border-border">
+          {/* New sweep form + sweep list */}
+          <div className="md:w-[360px] shrink-0 border-b md:border-b-0 md:border-r border-border overflow-y-auto p-4 space-y-4">
+            <div className="space-y-3">
+              <Select value={sceneId} onValueChange={setSceneId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t('sweep.selectScene')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenes.map((s) => (
+                    <SelectItem key={s.id} value={String(s.id)}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-1.5">
+                <Input
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  placeholder={t('sweep.seed')}
+                  className="h-8"
+                />
+                <Button variant="ghost" size="icon-sm" onClick={() => setSeed(String(randomSeed()))} title={t('sweep.randomSeed')}>
+                  <HugeiconsIcon icon={DiceIcon} className="size-4" />
+                </Button>
+              </div>
+
+              {drafts.map((draft, i) => {
+                const [kind, key] = draft.target.split(':')
+                return (
+                  <div key={i} className="space-y-1.5 rounded-md border border-border p-2">
+                    <div className="flex items-center gap-1.5">
+                      <Badge variant="secondary" className="shrink-0">{AXIS_NAMES[i]}</Badge>
+                      <Select value={draft.target} onValueChange={(target) => updateDraft(i, { target })}>
+                        <SelectTrigger className="flex-1 h-8" size="sm">
+                          <SelectValue placeholder={t('sweep.selectAxis')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            <SelectLabel>{t('sweep.parameters')}</SelectLabel>
+                            {[...SWEEP_NUMERIC_KEYS, ...SWEEP_STRING_KEYS].map((k) => (
+                              <SelectItem key={k} value={`parameter:${k}`}>{k}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                          {placeholderKeys.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>{t('sweep.placeholders')}</SelectLabel>
+                              {placeholderKeys.map((k) => (
+                                <SelectItem key={k} value={`placeholder:${k}`}>{`\\\\${k}\\\\`}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      {drafts.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() => setDrafts((prev) => prev.filter((_, j) => j !== i))}
+                          title={t('sweep.removeAxis')}
+                        >
+                          <HugeiconsIcon icon={Cancel01Icon} className="size-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <Input
+                      value={draft.values}
+                      onChange={(e) => updateDraft(i, { values: e.target.value })}
+                      placeholder={kind === 'parameter' && isNumericSweepKey(key) ? t('sweep.rangeHint') : t('sweep.listHint')}
+                      className="h-8"
+                    />
+                    {axes[i] && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {t('sweep.valueCount', { count: axes[i].values.length })}: {axes[i].values.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )
+              })}
+
+              {error && <p className="text-xs text-destructive">{error}</p>}
+
+              <div className="flex items-center gap-1.5">
+                {drafts.length < MAX_SWEEP_AXES && (
+                  <Button variant="outline" size="sm" onClick={() => setDrafts((prev) => [...prev, { target: '', values: '' }])}>
+                    <HugeiconsIcon icon={Add01Icon} className="size-4" />
+                    {t('sweep.addAxis')}
+                  </Button>
+                )}
+                <div className="flex-1" />
+                <span className={cellCount > MAX_SWEEP_CELLS ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                  {t('sweep.cellCount', { count: cellCount, max: MAX_SWEEP_CELLS })}
+                </span>
+                <Button size="sm" onClick={handleCreate} disabled={!canCreate || creating}>
+                  {t('sweep.create')}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-1 border-t border-border pt-3">
+              {sweeps.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">{t('sweep.noSweeps')}</p>
+              ) : (
+                sweeps.map((s) => {
+                  const done = s.cells.filter((c) => c.status !== 'pending' && c.status !== 'running').length
+                  return (
+                    <button
+                      key={s.id}
+                      type="button"
+                      onClick={() => setSelectedId(s.id)}
+                      className={`w-full text-left rounded-md px-2 py-1.5 text-sm transition-colors ${
+                        selected?.id === s.id ? 'bg-secondary' : 'hover:bg-secondary/50'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="truncate flex-1 font-medium">{s.sceneName ?? t('sweep.deletedScene')}</span>
+                        <span className="text-xs text-muted-foreground tabular-nums">{done}/{s.cells.length}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {s.axes.map((a) => a.key).join(' × ')} · {t('sweep.seedValue', { seed: s.seed })}
+                      </p>
+                    </button>
+                  )
+                })
+              )}
+            </div>
+          </div>
+
+          {/* Matrix of the selected sweep */}
+          <div className="flex-1 min-w-0 overflow-auto p-4">
+            {selected ? (
+              <SweepMatrix sweep={selected} onCompose={handleCompose} onDelete={handleDelete} />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                {t('sweep.selectSweep')}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function SweepMatrix({
+  sweep,
+  onCompose,
+  onDelete,
+}: {
+  sweep: SweepItem
+  onCompose: (id: number) => void
+  onDelete: (id: number) => void
+}) {
+  const { t } = useTranslation()
+  const [page, setPage] = useState(0)
+  const [nx, ny, nz] = sweepDimensions(sweep.axes)
+  const currentPage = Math.min(page, nz - 1)
+  const cellMap = new Map(sweep.cells.map((c) => [c.index.join(','), c]))
+  const gridPath = sweep.gridImagePaths.at(currentPage)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {nz > 1 && (
+          <div className="flex items-center gap-1 flex-wrap">
+            {Array.from({ length: nz }, (_, z) => (
+              <Button key={z} variant={z === currentPage ? 'secondary' : 'ghost'} size="sm" onClick={() => setPage(z)}>
+                {sweepValueLabel(sweep.axes[2], z)}
+              </Button>
+            ))}
+          </div>
+        )}
+        <div className="flex-1" />
+        {gridPath && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={imageUrl(gridPath)} target="_blank" rel="noreferrer">{t('sweep.openGrid')}</a>
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => onCompose(sweep.id)} title={t('sweep.recompose')}>
+          <HugeiconsIcon icon={RefreshIcon} className="size-4" />
+          <span className="hidden sm:inline">{t('sweep.recompose')}</span>
+        </Button>
+        <ConfirmDialog
+          trigger={
+            <Button variant="ghost" size="icon-sm" title={t('sweep.delete')}>
+              <HugeiconsIcon icon={Delete02Icon} className="size-4" />
+            </Button>
+          }
+          title={t('sweep.deleteTitle')}
+          description={t('sweep.deleteDescription')}
+          actionLabel={t('common.delete')}
+          variant="destructive"
+          onConfirm={() => onDelete(sweep.id)}
+        />
+      </div>
+
+      <table className="border-separate border-spacing-1">
+        <thead>
+          <tr>
+            {sweep.axes.length > 1 && <th />}
+            {Array.from({ length: nx }, (_, x) => (
+              <th key={x} className="text-xs font-medium text-muted-foreground px-1 max-w-40 truncate">
+                {sweepValueLabel(sweep.axes[0], x)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from({ length: ny }, (_row, y) => (
+            <tr key={y}>
+              {sweep.axes.length > 1 && (
+                <th className="text-xs font-medium text-muted-foreground text-right pr-2 max-w-40 truncate">
+                  {sweepValueLabel(sweep.axes[1], y)}
+                </th>
+              )}
+              {Array.from({ length: nx }, (_, x) => {
+                const cell = cellMap.get(`${x},${y},${currentPage}`)
+                const image = cell?.image
+                return (
+                  <td key={x} className="p-0">
+                    <div className="size-32 rounded-md bg-secondary/50 overflow-hidden flex items-center justify-center">
+                      {image ? (
+                        <a href={`/gallery/${image.id}`} target="_blank" rel="noreferrer" className="size-full">
+                          <img
+                            src={image.thumbnailPath
+                              ? `/api/thumbnails/${image.thumbnailPath.replace('data/thumbnails/', '')}`
+                              : imageUrl(image.filePath)}
+                            alt=""
+                            className="size-full object-cover"
+                            loading="lazy"
+                          />
+                        </a>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">{t(STATUS_KEYS[cell?.status ?? 'cancelled'] ?? 'queue.statusCancelled')}</span>
+                      )}
+                    </div>
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
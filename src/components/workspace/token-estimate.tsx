@@ -0,0 +1,61 @@
+import { memo } from 'react'
+import type { PromptTokenEstimate } from '@/lib/token-count'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { useTranslation } from '@/lib/i18n'
+import { NAI_TOKEN_LIMIT } from '@/lib/token-count'
+import { cn } from '@/lib/utils'
+
+export interface SceneTokenEstimate {
+  projectSceneId: number
+  name: string
+  tokens: PromptTokenEstimate
+}
+
+interface TokenEstimateProps {
+  /** Estimates for every scene the batch would queue */
+  scenes: Array<SceneTokenEstimate>
+}
+
+/** Largest estimated prompt token count of the batch next to the generate button; amber when a scene looks over the limit */
+export const TokenEstimate = memo(function TokenEstimate({ scenes }: TokenEstimateProps) {
+  const { t } = useTranslation()
+  if (scenes.length === 0) return null
+
+  const max = Math.max(...scenes.map((s) => Math.max(s.tokens.total, s.tokens.negativeTotal)))
+  const overLimit = scenes.filter((s) => s.tokens.overLimit)
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'text-xs tabular-nums whitespace-nowrap cursor-default',
+            overLimit.length > 0 ? 'text-amber-500 font-medium' : 'text-muted-foreground',
+          )}
+        >
+          {t('generation.tokenMax', { count: max, limit: NAI_TOKEN_LIMIT })}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-80">
+        {overLimit.length > 0 && (
+          <p className="text-sm mb-1">
+            {t('generation.tokensOverLimit', { limit: NAI_TOKEN_LIMIT, scenes: overLimit.map((s) => s.name).join(', ') })}
+          </p>
+        )}
+        <ul className="text-xs space-y-0.5 max-h-60 overflow-y-auto">
+          {scenes.map((s) => (
+            <li
+              key={s.projectSceneId}
+              className={cn('flex justify-between gap-3', s.tokens.overLimit ? 'text-amber-500' : 'text-muted-foreground')}
+            >
+              <span className="truncate">{s.name}</span>
+              <span className="tabular-nums shrink-0">
+                {t('generation.tokenScene', { total: s.tokens.total, negative: s.tokens.negativeTotal })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  )
+})
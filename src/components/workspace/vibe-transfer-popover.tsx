@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { AiMagicIcon, Cancel01Icon, Delete02Icon, Upload01Icon } from '@hugeicons/core-free-icons'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ConfirmDialog } from '@/components/common/confirm-dialog'
+import { useTranslation } from '@/lib/i18n'
+import {
+  attachVibe,
+  deleteReferenceImage,
+  detachVibe,
+  listReferenceImages,
+  listVibeAttachments,
+  updateVibeAttachment,
+  uploadReferenceImage,
+} from '@/server/functions/vibes'
+
+interface VibeAttachment {
+  id: number
+  referenceImageId: number
+  projectSceneId: number | null
+  strength: number
+  informationExtracted: number
+  name: string
+  filePath: string
+}
+
+interface ReferenceImage {
+  id: number
+  name: string
+  filePath: string
+}
+
+interface VibeTransferPopoverProps {
+  projectId: number
+  /** Set to manage one scene's vibes; the project-wide ones are listed as inherited */
+  projectSceneId?: number
+}
+
+function referenceSrc(filePath: string) {
+  return `/api/references/${filePath.replace('data/references/', '')}`
+}
+
+export function VibeTransferPopover({ projectId, projectSceneId }: VibeTransferPopoverProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [attachments, setAttachments] = useState<Array<VibeAttachment>>([])
+  const [library, setLibrary] = useState<Array<ReferenceImage>>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadAttachments = useCallback(async () => {
+    setAttachments(await listVibeAttachments({ data: { projectId, projectSceneId } }))
+  }, [projectId, projectSceneId])
+
+  useEffect(() => {
+    loadAttachments()
+  }, [loadAttachments])
+
+  useEffect(() => {
+    if (open) listReferenceImages().then(setLibrary)
+  }, [open])
+
+  const inherited = projectSceneId != null ? attachments.filter((a) => a.projectSceneId == null) : []
+  const own = projectSceneId != null ? attachments.filter((a) => a.projectSceneId != null) : attachments
+
+  async function handleAttach(referenceImageId: number) {
+    await attachVibe({ data: { projectId, projectSceneId, referenceImageId } })
+    await loadAttachments()
+  }
+
+  async function handleUpdate(id: number, field: 'strength' | 'informationExtracted', raw: string) {
+    const value = Number(raw)
+    if (raw === '' || Number.isNaN(value)) return
+    const clamped = Math.min(1, Math.max(0, value))
+    await updateVibeAttachment({ data: { id, [field]: clamped } })
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, [field]: clamped } : a)))
+  }
+
+  async function handleDetach(id: number) {
+    await detachVibe({ data: id })
+    setAttachments((prev) => prev.filter((a) => a.id !== id))
+  }
+
+  async function handleDeleteReference(id: number) {
+    await deleteReferenceImage({ data: id })
+    setLibrary((prev) => prev.filter((r) => r.id !== id))
+    await loadAttachments()
+  }
+
+  function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !file.type.startsWith('image/')) return
+    const reader = new FileReader()
+    reader.onload = async () => {
+      try {
+        const ref = await uploadReferenceImage({
+          data: { name: file.name.replace(/\.[^.]+$/, ''), imageData: reader.result as string },
+        })
+        setLibrary((prev) => [ref, ...prev])
+        await handleAttach(ref.id)
+      } catch {
+        toast.error(t('vibe.uploadFailed'))
+      }
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const count = attachments.length
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title={t('vibe.title')}>
+          <HugeiconsIcon icon={AiMagicIcon} className="size-5" />
+          <span className="hidden sm:inline">{t('vibe.short')}</span>
+          {count > 0 && (
+            <span className="text-xs tabular-nums text-primary">{count}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80 p-3">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">
+            {projectSceneId != null ? t('vibe.sceneTitle') : t('vibe.title')}
+          </div>
+
+          {/* Project-wide vibes seen from a scene */}
+          {inherited.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">{t('vibe.fromProject')}</div>
+              {inherited.map((a) => (
+                <div key={a.id} className="flex items-center gap-2 opacity-60">
+                  <img src={referenceSrc(a.filePath)} alt="" className="size-8 rounded object-cover shrink-0" />
+                  <span className="text-sm truncate flex-1">{a.name}</span>
+                  <span className="text-xs font-mono tabular-nums text-muted-foreground">
+                    {a.strength} / {a.informationExtracted}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Editable attachments */}
+          {own.length > 0 ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[2.5rem_1fr_3.5rem_3.5rem_1.75rem] items-center gap-1.5 text-xs text-muted-foreground">
+                <span />
+                <span />
+                <span title={t('vibe.strengthHelp')}>{t('vibe.strength')}</span>
+                <span title={t('vibe.informationExtractedHelp')}>{t('vibe.informationExtracted')}</span>
+                <span />
+              </div>
+              {own.map((a) => (
+                <div key={a.id} className="grid grid-cols-[2.5rem_1fr_3.5rem_3.5rem_1.75rem] items-center gap-1.5">
+                  <img src={referenceSrc(a.filePath)} alt="" className="size-10 rounded object-cover" />
+                  <span className="text-sm truncate" title={a.name}>{a.name}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    defaultValue={a.strength}
+                    onBlur={(e) => handleUpdate(a.id, 'strength', e.target.value)}
+                    className="h-7 px-1.5 text-sm font-mono"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    defaultValue={a.informationExtracted}
+                    onBlur={(e) => handleUpdate(a.id, 'informationExtracted', e.target.value)}
+                    className="h-7 px-1.5 text-sm font-mono"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDetach(a.id)}
+                  >
+                    <HugeiconsIcon icon={Cancel01Icon} className="size-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">{t('vibe.empty')}</p>
+          )}
+
+          {/* Library */}
+          <div className="space-y-1.5 border-t border-border pt-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">{t('vibe.library')}</span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => fileInputRef.current?.click()}
+                title={t('vibe.upload')}
+              >
+                <HugeiconsIcon icon={Upload01Icon} className="size-4" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleUpload}
+              />
+            </div>
+            {library.length > 0 ? (
+              <div className="grid grid-cols-5 gap-1 max-h-40 overflow-y-auto">
+                {library.map((ref) => (
+                  <div key={ref.id} className="relative group aspect-square">
+                    <button
+                      onClick={() => handleAttach(ref.id)}
+                      title={ref.name}
+                      className="size-full rounded overflow-hidden bg-secondary/30 hover:ring-2 hover:ring-primary transition-shadow"
+                    >
+                      <img src={referenceSrc(ref.filePath)} alt="" className="size-full object-cover" />
+                    </button>
+                    <ConfirmDialog
+                      trigger={
+                        <button className="absolute top-0.5 right-0.5 hidden group-hover:flex size-4 items-center justify-center rounded-sm bg-background/80 text-muted-foreground hover:text-destructive">
+                          <HugeiconsIcon icon={Delete02Icon} className="size-3" />
+                        </button>
+                      }
+                      title={t('vibe.deleteTitle')}
+                      description={t('vibe.deleteDesc')}
+                      onConfirm={() => handleDeleteReference(ref.id)}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">{t('vibe.libraryEmpty')}</p>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
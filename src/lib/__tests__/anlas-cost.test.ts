@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { CHARACTER_REFERENCE_COST, estimateBatchCost, estimateImageCost } from '../anlas-cost'
+
+const portrait = { width: 832, height: 1216, steps: 28 }
+
+describe('estimateImageCost', () => {
+  it('prices a default portrait like NAI', () => {
+    expect(estimateImageCost(portrait, { opus: false })).toBe(20)
+    expect(estimateImageCost({}, { opus: false })).toBe(20)
+  })
+
+  it('grows with resolution and steps', () => {
+    const base = estimateImageCost(portrait, { opus: false })
+    expect(estimateImageCost({ ...portrait, steps: 50 }, { opus: false })).toBeGreaterThan(base)
+    expect(estimateImageCost({ width: 1216, height: 1664, steps: 28 }, { opus: false })).toBeGreaterThan(base)
+  })
+
+  it('bills tiny images as 256×256', () => {
+    expect(estimateImageCost({ width: 64, height: 64, steps: 28 }, { opus: false })).toBe(
+      estimateImageCost({ width: 256, height: 256, steps: 28 }, { opus: false }),
+    )
+  })
+
+  it('is free on Opus within the size and step limits', () => {
+    expect(estimateImageCost(portrait, { opus: true })).toBe(0)
+    expect(estimateImageCost({ width: 1024, height: 1024, steps: 28 }, { opus: true })).toBe(0)
+    expect(estimateImageCost({ ...portrait, steps: 29 }, { opus: true })).toBeGreaterThan(0)
+    expect(estimateImageCost({ width: 1216, height: 1664, steps: 28 }, { opus: true })).toBeGreaterThan(0)
+  })
+
+  it('scales img2img by strength with a minimum', () => {
+    expect(estimateImageCost(portrait, { opus: false, strength: 0.5 })).toBe(10)
+    expect(estimateImageCost(portrait, { opus: false, strength: 0.01 })).toBe(2)
+  })
+
+  it('charges character references even on Opus', () => {
+    expect(estimateImageCost(portrait, { opus: true, characterReferences: 2 })).toBe(2 * CHARACTER_REFERENCE_COST)
+    expect(estimateImageCost(portrait, { opus: false, characterReferences: 1 })).toBe(20 + CHARACTER_REFERENCE_COST)
+  })
+
+  it('costs nothing on local backends', () => {
+    expect(estimateImageCost({ ...portrait, backend: 'comfyui' }, { opus: false })).toBe(0)
+    expect(estimateImageCost({ ...portrait, backend: 'mock' }, { opus: false })).toBe(0)
+  })
+})
+
+describe('estimateBatchCost', () => {
+  it('multiplies the per-image cost', () => {
+    expect(estimateBatchCost(portrait, 10, { opus: false })).toBe(200)
+    expect(estimateBatchCost(portrait, 0, { opus: false })).toBe(0)
+  })
+})
@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest'
-import { extractBundleReferences, resolveBundles } from '../bundle'
+import {
+  MAX_BUNDLE_DEPTH,
+  buildBundleTree,
+  extractBundleParameters,
+  extractBundleReferences,
+  extractRandomBundleReferences,
+  fillBundleParameters,
+  formatBundleSignature,
+  parseBundleReference,
+  pickBundleLines,
+  resolveBundles,
+  resolveBundlesWithUsage,
+  resolveRandomBundles,
+  splitBundleLines,
+} from '../bundle'
+import { createRandom } from '../random'
 
 describe('extractBundleReferences', () => {
   it('extracts single bundle reference', () => {
@@ -38,6 +53,107 @@ describe('extractBundleReferences', () => {
   it('handles references adjacent to text', () => {
     expect(extractBundleReferences('prefix@{name}suffix')).toEqual(['name'])
   })
+
+  it('strips the :random modifier', () => {
+    expect(extractBundleReferences('@{outfits:random}, @{outfits:random:2}')).toEqual(['outfits'])
+  })
+})
+
+describe('parseBundleReference', () => {
+  it('parses a plain reference', () => {
+    expect(parseBundleReference('quality')).toEqual({ name: 'quality', args: [], pick: null })
+  })
+
+  it('parses :random as one pick', () => {
+    expect(parseBundleReference('outfits:random')).toEqual({ name: 'outfits', args: [], pick: 1 })
+  })
+
+  it('parses :random:N', () => {
+    expect(parseBundleReference('outfits:random:3')).toEqual({ name: 'outfits', args: [], pick: 3 })
+  })
+})
+
+describe('parseBundleReference arguments', () => {
+  it('parses positional arguments', () => {
+    expect(parseBundleReference('hair(red, long)')).toEqual({
+      name: 'hair',
+      args: [{ name: null, value: 'red' }, { name: null, value: 'long' }],
+      pick: null,
+    })
+  })
+
+  it('parses named arguments', () => {
+    expect(parseBundleReference('hair(color=red)').args).toEqual([{ name: 'color', value: 'red' }])
+  })
+
+  it('keeps commas inside quoted values', () => {
+    expect(parseBundleReference('outfit("red dress, gloves", hat)').args).toEqual([
+      { name: null, value: 'red dress, gloves' },
+      { name: null, value: 'hat' },
+    ])
+  })
+
+  it('treats empty parentheses as no arguments', () => {
+    expect(parseBundleReference('hair()').args).toEqual([])
+  })
+
+  it('combines arguments with :random', () => {
+    expect(parseBundleReference('outfit(red):random:2')).toEqual({
+      name: 'outfit',
+      args: [{ name: null, value: 'red' }],
+      pick: 2,
+    })
+  })
+
+  it('extracts the bare name of a parameterized reference', () => {
+    expect(extractBundleReferences('@{hair(red)}, @{hair(blue)}')).toEqual(['hair'])
+  })
+})
+
+describe('extractBundleParameters', () => {
+  it('collects named parameters in order of appearance', () => {
+    expect(extractBundleParameters('$color hair, $length, $color')).toEqual({ named: ['color', 'length'], positional: 0 })
+  })
+
+  it('tracks the highest positional slot', () => {
+    expect(extractBundleParameters('$2 and $1')).toEqual({ named: [], positional: 2 })
+  })
+
+  it('formats a signature', () => {
+    expect(formatBundleSignature({ named: ['color', 'length'], positional: 0 })).toBe('(color, length)')
+    expect(formatBundleSignature({ named: [], positional: 2 })).toBe('($1, $2)')
+    expect(formatBundleSignature({ named: [], positional: 0 })).toBe('')
+  })
+})
+
+describe('fillBundleParameters', () => {
+  it('fills positional slots', () => {
+    expect(fillBundleParameters('$1 hair, $2 eyes', [
+      { name: null, value: 'red' },
+      { name: null, value: 'blue' },
+    ])).toBe('red hair, blue eyes')
+  })
+
+  it('fills named slots by name or by position', () => {
+    const content = '$color hair, $length'
+    expect(fillBundleParameters(content, [{ name: 'length', value: 'short' }, { name: null, value: 'red' }]))
+      .toBe('red hair, short')
+  })
+
+  it('leaves slots no argument reaches as written', () => {
+    expect(fillBundleParameters('$1 hair, $2 eyes', [{ name: null, value: 'red' }])).toBe('red hair, $2 eyes')
+    expect(fillBundleParameters('$color hair', [{ name: 'length', value: 'short' }])).toBe('$color hair')
+  })
+
+  it('keeps content unchanged without arguments', () => {
+    expect(fillBundleParameters('$1 hair', [])).toBe('$1 hair')
+  })
+})
+
+describe('extractRandomBundleReferences', () => {
+  it('returns only random references', () => {
+    expect(extractRandomBundleReferences('@{quality}, @{outfits:random}')).toEqual(['outfits'])
+  })
 })
 
 describe('resolveBundles', () => {
@@ -72,3 +188,155 @@ describe('resolveBundles', () => {
     expect(resolveBundles('no change', { key: 'val' })).toBe('no change')
   })
 })
+
+describe('resolveBundles with random references', () => {
+  it('leaves random references for per-image resolution', () => {
+    expect(resolveBundles('@{q}, @{outfits:random}', { q: 'best', outfits: 'a\nb' }))
+      .toBe('best, @{outfits:random}')
+  })
+
+  it('drops random references to unknown bundles', () => {
+    expect(resolveBundles('@{missing:random}', {})).toBe('')
+  })
+})
+
+describe('splitBundleLines', () => {
+  it('trims lines and skips blanks', () => {
+    expect(splitBundleLines('  maid outfit \n\r\nschool uniform\n')).toEqual([
+      'maid outfit',
+      'school uniform',
+    ])
+  })
+})
+
+describe('pickBundleLines', () => {
+  const lines = ['a', 'b', 'c', 'd']
+
+  it('picks the requested number of distinct lines', () => {
+    const picked = pickBundleLines(lines, 2, createRandom(1))
+    expect(picked).toHaveLength(2)
+    expect(new Set(picked).size).toBe(2)
+  })
+
+  it('keeps bundle order', () => {
+    const picked = pickBundleLines(lines, 3, createRandom(7))
+    expect(picked).toEqual([...picked].sort())
+  })
+
+  it('caps at the number of available lines', () => {
+    expect(pickBundleLines(['a', 'b'], 5, createRandom(1)).sort()).toEqual(['a', 'b'])
+  })
+
+  it('returns empty array for empty bundle', () => {
+    expect(pickBundleLines([], 1)).toEqual([])
+  })
+})
+
+describe('resolveRandomBundles', () => {
+  const linesMap = { outfits: ['maid', 'nurse', 'school uniform'] }
+
+  it('replaces random references and records picks', () => {
+    const result = resolveRandomBundles('1girl, @{outfits:random}', linesMap, () => 0)
+    expect(result.text).toBe('1girl, maid')
+    expect(result.picks).toEqual([{ name: 'outfits', lines: ['maid'] }])
+  })
+
+  it('joins multiple picks with commas', () => {
+    const result = resolveRandomBundles('@{outfits:random:2}', linesMap, () => 0)
+    expect(result.text).toBe('maid, nurse')
+  })
+
+  it('is reproducible with the same seed', () => {
+    const a = resolveRandomBundles('@{outfits:random}', linesMap, createRandom(42))
+    const b = resolveRandomBundles('@{outfits:random}', linesMap, createRandom(42))
+    expect(a).toEqual(b)
+  })
+
+  it('leaves plain references untouched', () => {
+    expect(resolveRandomBundles('@{quality}', linesMap).text).toBe('@{quality}')
+  })
+})
+
+describe('nested bundles', () => {
+  it('expands bundles referenced from bundles', () => {
+    const map = { quality: 'masterpiece, @{detail}', detail: 'highres' }
+    expect(resolveBundles('@{quality}, 1girl', map)).toBe('masterpiece, highres, 1girl')
+  })
+
+  it('reports every bundle touched', () => {
+    const map = { a: '@{b}', b: '@{c}, @{d:random}', c: 'x', d: 'y' }
+    const result = resolveBundlesWithUsage('@{a}', map)
+    expect(result.text).toBe('x, @{d:random}')
+    expect(result.usedNames.sort()).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('throws on a cycle with the full path', () => {
+    const map = { a: '@{b}', b: '@{a}' }
+    expect(() => resolveBundles('@{a}', map)).toThrow('Bundle reference cycle: a → b → a')
+  })
+
+  it('throws on self reference', () => {
+    expect(() => resolveBundles('@{a}', { a: 'x, @{a}' })).toThrow('a → a')
+  })
+
+  it('treats the initial stack as already expanding', () => {
+    expect(() => resolveBundlesWithUsage('@{b}', { a: '@{b}', b: '@{a}' }, ['a']))
+      .toThrow('a → b → a')
+  })
+
+  it('allows the same bundle in sibling branches', () => {
+    const map = { a: '@{c}', b: '@{c}', c: 'x' }
+    expect(resolveBundles('@{a} @{b}', map)).toBe('x x')
+  })
+
+  it('throws when nesting exceeds the depth limit', () => {
+    const map: Record<string, string> = {}
+    for (let i = 0; i <= MAX_BUNDLE_DEPTH; i++) map[`b${i}`] = `@{b${i + 1}}`
+    map[`b${MAX_BUNDLE_DEPTH + 1}`] = 'end'
+    expect(() => resolveBundles('@{b0}', map)).toThrow(/deeper than/)
+  })
+})
+
+describe('buildBundleTree', () => {
+  it('builds nested children', () => {
+    const tree = buildBundleTree('@{a}', { a: '@{b}', b: 'x' })
+    expect(tree).toEqual([
+      {
+        name: 'a', random: false, missing: false, cycle: false,
+        children: [{ name: 'b', random: false, missing: false, cycle: false, children: [] }],
+      },
+    ])
+  })
+
+  it('marks missing bundles and cycles without throwing', () => {
+    const tree = buildBundleTree('@{a}, @{nope}', { a: '@{a}' })
+    expect(tree[0].children[0]).toMatchObject({ name: 'a', cycle: true, children: [] })
+    expect(tree[1]).toMatchObject({ name: 'nope', missing: true })
+  })
+
+  it('marks random references', () => {
+    expect(buildBundleTree('@{a:random}', { a: 'x' })[0].random).toBe(true)
+  })
+})
+
+describe('parameterized bundles', () => {
+  it('fills arguments at the call site', () => {
+    expect(resolveBundles('@{hair(red, long)}', { hair: '$1 hair, $2 hair' })).toBe('red hair, long hair')
+  })
+
+  it('passes arguments through nested bundles', () => {
+    const map = { char: '1girl, @{hair($color)}', hair: '$1 hair' }
+    expect(resolveBundles('@{char(color=silver)}', map)).toBe('1girl, silver hair')
+  })
+
+  it('keeps a literal $ in a bundle referenced without arguments', () => {
+    const map = { price: 'price tag, $5, $USD sign' }
+    expect(resolveBundles('@{price}', map)).toBe('price tag, $5, $USD sign')
+    expect(resolveRandomBundles('@{price:random}', { price: ['$5 bill'] }, () => 0).text).toBe('$5 bill')
+  })
+
+    it('fills arguments into random picks', () => {
+    const result = resolveRandomBundles('@{outfit(red):random}', { outfit: ['$1 dress'] }, () => 0)
+    expect(result.text).toBe('red dress')
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatCharacterPosition,
+  formatGridCell,
+  gridCellCenter,
+  nearestGridCell,
+  parseCharacterPosition,
+} from '../character-position'
+
+describe('parseCharacterPosition', () => {
+  it('parses grid cells', () => {
+    expect(parseCharacterPosition('C3')).toEqual({ x: 0.5, y: 0.5 })
+    expect(parseCharacterPosition('a1')).toEqual({ x: 0.1, y: 0.1 })
+    expect(parseCharacterPosition('E5')).toEqual({ x: 0.9, y: 0.9 })
+  })
+
+  it('parses coordinates and clamps them to 0..1', () => {
+    expect(parseCharacterPosition('0.42, 0.6')).toEqual({ x: 0.42, y: 0.6 })
+    expect(parseCharacterPosition('1.5,0')).toEqual({ x: 1, y: 0 })
+  })
+
+  it('returns null for empty or malformed positions', () => {
+    expect(parseCharacterPosition(null)).toBeNull()
+    expect(parseCharacterPosition('')).toBeNull()
+    expect(parseCharacterPosition('F1')).toBeNull()
+    expect(parseCharacterPosition('left')).toBeNull()
+  })
+})
+
+describe('grid cells', () => {
+  it('maps cells to centers and back', () => {
+    expect(gridCellCenter(0, 4)).toEqual({ x: 0.1, y: 0.9 })
+    expect(formatGridCell(0, 4)).toBe('A5')
+    expect(nearestGridCell({ x: 0.1, y: 0.9 })).toEqual({ col: 0, row: 4 })
+    expect(nearestGridCell({ x: 1, y: 0 })).toEqual({ col: 4, row: 0 })
+  })
+})
+
+describe('formatCharacterPosition', () => {
+  it('prefers the grid cell for cell centers', () => {
+    expect(formatCharacterPosition({ x: 0.3, y: 0.7 })).toBe('B4')
+  })
+
+  it('keeps other centers as coordinates', () => {
+    expect(formatCharacterPosition({ x: 0.42, y: 0.6 })).toBe('0.42,0.6')
+  })
+
+  it('round-trips through parseCharacterPosition', () => {
+    for (const value of ['D2', '0.25,0.75']) {
+      expect(formatCharacterPosition(parseCharacterPosition(value)!)).toBe(value)
+    }
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_BACKEND, isBackendId, resolveBackendId } from '../generation-backend'
+
+describe('resolveBackendId', () => {
+  it('returns the backend set in parameters', () => {
+    expect(resolveBackendId({ backend: 'comfyui' })).toBe('comfyui')
+    expect(resolveBackendId({ backend: 'mock', model: 'x' })).toBe('mock')
+  })
+
+  it('falls back to NAI when missing or unknown', () => {
+    expect(resolveBackendId({})).toBe(DEFAULT_BACKEND)
+    expect(resolveBackendId(null)).toBe(DEFAULT_BACKEND)
+    expect(resolveBackendId({ backend: 'midjourney' })).toBe(DEFAULT_BACKEND)
+    expect(resolveBackendId({ backend: 3 })).toBe(DEFAULT_BACKEND)
+  })
+})
+
+describe('isBackendId', () => {
+  it('accepts only registered ids', () => {
+    expect(isBackendId('a1111')).toBe(true)
+    expect(isBackendId('NAI')).toBe(false)
+    expect(isBackendId(undefined)).toBe(false)
+  })
+})
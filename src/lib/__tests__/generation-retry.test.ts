@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RETRY_POLICY, HttpStatusError, classifyGenerationError, retryDelay } from '../generation-retry'
+
+describe('classifyGenerationError', () => {
+  it('retries rate limits and server errors', () => {
+    expect(classifyGenerationError(new HttpStatusError('NAI API error 429', 429))).toBe('retryable')
+    expect(classifyGenerationError(new HttpStatusError('NAI API error 500', 500))).toBe('retryable')
+    expect(classifyGenerationError(new HttpStatusError('NAI API error 503', 503))).toBe('retryable')
+    expect(classifyGenerationError(new HttpStatusError('timeout', 408))).toBe('retryable')
+  })
+
+  it('does not retry client errors', () => {
+    expect(classifyGenerationError(new HttpStatusError('bad request', 400))).toBe('fatal')
+    expect(classifyGenerationError(new HttpStatusError('unauthorized', 401))).toBe('fatal')
+    expect(classifyGenerationError(new HttpStatusError('no Anlas', 402))).toBe('fatal')
+  })
+
+  it('retries timeouts and network failures', () => {
+    expect(classifyGenerationError(new DOMException('The operation timed out.', 'TimeoutError'))).toBe('retryable')
+    expect(classifyGenerationError(new Error('ComfyUI timed out after 300s'))).toBe('retryable')
+    expect(classifyGenerationError(new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } }))).toBe(
+      'retryable',
+    )
+    expect(classifyGenerationError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(
+      'retryable',
+    )
+  })
+
+  it('treats everything else as fatal', () => {
+    expect(classifyGenerationError(new Error('API 키가 설정되지 않았습니다'))).toBe('fatal')
+    expect(classifyGenerationError('boom')).toBe('fatal')
+    expect(classifyGenerationError(null)).toBe('fatal')
+  })
+})
+
+describe('retryDelay', () => {
+  const policy = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 10_000 }
+
+  it('doubles the wait with each attempt', () => {
+    expect(retryDelay(1, policy, () => 1)).toBe(1000)
+    expect(retryDelay(2, policy, () => 1)).toBe(2000)
+    expect(retryDelay(3, policy, () => 1)).toBe(4000)
+  })
+
+  it('keeps the jittered wait between half and the full step', () => {
+    expect(retryDelay(3, policy, () => 0)).toBe(2000)
+    expect(retryDelay(3, policy, () => 0.5)).toBe(3000)
+  })
+
+  it('caps the wait at maxDelayMs', () => {
+    expect(retryDelay(10, policy, () => 1)).toBe(10_000)
+    expect(retryDelay(50, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs)
+  })
+})
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { withoutJobSnapshot } from '../job-snapshot'
+
+describe('withoutJobSnapshot', () => {
+  it('drops the seed strategy and references, keeping editor settings', () => {
+    const parameters = {
+      width: 832,
+      seed: 77,
+      backend: 'comfyui',
+      seedStrategy: { type: 'fixed', seed: 4242 },
+      vibeReferences: [],
+      characterReferences: [],
+    }
+    expect(withoutJobSnapshot(parameters)).toEqual({ width: 832, seed: 77, backend: 'comfyui' })
+    expect(parameters).toHaveProperty('seedStrategy')
+  })
+})
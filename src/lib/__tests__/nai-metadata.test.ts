@@ -201,7 +201,25 @@ describe('parseNAIMetadata', () => {
     const result = await parseNAIMetadata(png)
     expect(result!.hasCharacterReference).toBe(true)
     expect(result!.characterReferenceInfo).toEqual([
-      { strength: 0.7, informationExtracted: 0.3 },
+      { strength: 0.7, fidelity: 0.7 },
+    ])
+  })
+
+  it('reads style-aware from character reference descriptions', async () => {
+    const png = buildNAIPng({
+      prompt: 'test',
+      director_reference_strengths: [1, 1],
+      director_reference_secondary_strengths: [0, 0.5],
+      director_reference_descriptions: [
+        { caption: { base_caption: 'character&style', char_captions: [] } },
+        { caption: { base_caption: 'character', char_captions: [] } },
+      ],
+    })
+
+    const result = await parseNAIMetadata(png)
+    expect(result!.characterReferenceInfo).toEqual([
+      { strength: 1, fidelity: 1, styleAware: true },
+      { strength: 1, fidelity: 0.5, styleAware: false },
     ])
   })
 
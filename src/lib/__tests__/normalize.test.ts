@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { normalizePrompt, normalizePromptTags, splitPromptTags } from '../normalize'
+
+describe('splitPromptTags', () => {
+  it('splits on commas', () => {
+    expect(splitPromptTags('1girl, solo,smile')).toEqual(['1girl', ' solo', 'smile'])
+  })
+
+  it('keeps commas inside emphasis braces', () => {
+    expect(splitPromptTags('{red hair, blue eyes}, solo')).toEqual(['{red hair, blue eyes}', ' solo'])
+  })
+
+  it('keeps commas inside weight groups', () => {
+    expect(splitPromptTags('1.2::red hair, blue eyes::, solo')).toEqual(['1.2::red hair, blue eyes::', ' solo'])
+  })
+
+  it('keeps commas inside wildcard groups', () => {
+    expect(splitPromptTags('{a, b|c}, d')).toEqual(['{a, b|c}', ' d'])
+  })
+})
+
+describe('normalizePrompt', () => {
+  it('collapses empty tags and stray commas', () => {
+    expect(normalizePrompt('1girl,, solo, , smile,')).toBe('1girl, solo, smile')
+  })
+
+  it('collapses whitespace', () => {
+    expect(normalizePrompt('  red   hair ,\n solo ')).toBe('red hair, solo')
+  })
+
+  it('keeps the first occurrence of a tag', () => {
+    expect(normalizePrompt('1girl, solo, 1girl, smile, Solo')).toBe('1girl, solo, smile')
+  })
+
+  it('treats weighted and plain tags as different', () => {
+    expect(normalizePrompt('1girl, 1.2::1girl::, 1girl')).toBe('1girl, 1.2::1girl::')
+  })
+
+  it('returns empty string for an empty prompt', () => {
+    expect(normalizePrompt(' , ,')).toBe('')
+  })
+})
+
+describe('normalizePromptTags', () => {
+  it('flags duplicates for diffing', () => {
+    expect(normalizePromptTags('a, b, a')).toEqual([
+      { text: 'a', duplicate: false },
+      { text: 'b', duplicate: false },
+      { text: 'a', duplicate: true },
+    ])
+  })
+})
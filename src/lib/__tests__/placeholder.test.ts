@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { extractPlaceholders, resolvePlaceholders } from '../placeholder'
+import {
+  extractPlaceholderDefaults,
+  extractPlaceholders,
+  mergePlaceholderValues,
+  resolveConditionals,
+  resolvePlaceholders,
+} from '../placeholder'
 
 describe('extractPlaceholders', () => {
   it('extracts single placeholder', () => {
@@ -81,3 +87,92 @@ describe('resolvePlaceholders', () => {
     expect(resolvePlaceholders('', { key: 'val' })).toBe('')
   })
 })
+
+describe('inline defaults', () => {
+  it('extracts the key of a placeholder with a default', () => {
+    expect(extractPlaceholders('\\\\hair|long hair\\\\')).toEqual(['hair'])
+  })
+
+  it('uses the default when the value is missing', () => {
+    expect(resolvePlaceholders('\\\\hair|long hair\\\\', {})).toBe('long hair')
+  })
+
+  it('uses the default when the value is empty', () => {
+    expect(resolvePlaceholders('\\\\hair|long hair\\\\', { hair: '' })).toBe('long hair')
+  })
+
+  it('prefers a filled value over the default', () => {
+    expect(resolvePlaceholders('\\\\hair|long hair\\\\', { hair: 'twintails' })).toBe('twintails')
+  })
+
+  it('allows an empty default', () => {
+    expect(resolvePlaceholders('a\\\\x|\\\\b', {})).toBe('ab')
+  })
+})
+
+describe('extractPlaceholderDefaults', () => {
+  it('collects inline defaults by key', () => {
+    expect(extractPlaceholderDefaults('\\\\hair|long hair\\\\, \\\\pose\\\\, \\\\eyes|blue eyes\\\\'))
+      .toEqual({ hair: 'long hair', eyes: 'blue eyes' })
+  })
+
+  it('keeps the first default of a repeated key', () => {
+    expect(extractPlaceholderDefaults('\\\\x|a\\\\ \\\\x|b\\\\')).toEqual({ x: 'a' })
+  })
+})
+
+describe('mergePlaceholderValues', () => {
+  it('lets later layers win', () => {
+    expect(mergePlaceholderValues({ hair: 'long' }, { hair: 'short' })).toEqual({ hair: 'short' })
+  })
+
+  it('does not let empty values hide earlier ones', () => {
+    expect(mergePlaceholderValues({ hair: 'long' }, { hair: '' }, { pose: '' }))
+      .toEqual({ hair: 'long', pose: '' })
+  })
+})
+
+describe('resolveConditionals', () => {
+  it('keeps a block when the key is set', () => {
+    expect(resolveConditionals('1girl, [if outfit]wearing x[/if]', { outfit: 'dress' }))
+      .toBe('1girl, wearing x')
+  })
+
+  it('drops a block when the key is empty or missing', () => {
+    expect(resolveConditionals('1girl, [if outfit]wearing x[/if]', { outfit: '' })).toBe('1girl')
+    expect(resolveConditionals('1girl, [if outfit]wearing x[/if]', {})).toBe('1girl')
+  })
+
+  it('inverts with !', () => {
+    expect(resolveConditionals('[if !nsfw]sfw[/if]', {})).toBe('sfw')
+    expect(resolveConditionals('[if !nsfw]sfw[/if]', { nsfw: 'yes' })).toBe('')
+  })
+
+  it('does not leave stray commas', () => {
+    expect(resolveConditionals('a, [if x]b[/if], c', {})).toBe('a, c')
+    expect(resolveConditionals('[if x]b[/if], [if y]c[/if], d', {})).toBe('d')
+  })
+
+  it('evaluates nested blocks', () => {
+    const template = '[if a]A[if b], B[/if][/if]'
+    expect(resolveConditionals(template, { a: '1', b: '1' })).toBe('A, B')
+    expect(resolveConditionals(template, { a: '1' })).toBe('A')
+    expect(resolveConditionals(template, { b: '1' })).toBe('')
+  })
+})
+
+describe('resolvePlaceholders with conditionals', () => {
+  it('resolves placeholders inside a kept block', () => {
+    expect(resolvePlaceholders('1girl, [if outfit]wearing \\\\outfit\\\\[/if]', { outfit: 'dress' }))
+      .toBe('1girl, wearing dress')
+  })
+
+  it('drops the phrase for an empty placeholder', () => {
+    expect(resolvePlaceholders('1girl, [if outfit]wearing \\\\outfit\\\\[/if], smile', {}))
+      .toBe('1girl, smile')
+  })
+
+  it('extracts condition keys as placeholders', () => {
+    expect(extractPlaceholders('[if !nsfw]safe[/if], \\\\pose\\\\')).toEqual(['pose', 'nsfw'])
+  })
+})
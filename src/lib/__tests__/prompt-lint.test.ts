@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { lintPrompt } from '../prompt-lint'
+
+function codes(text: string, context = {}) {
+  return lintPrompt(text, context).map((d) => d.code)
+}
+
+describe('lintPrompt bundles', () => {
+  it('flags unknown bundle names', () => {
+    const [diag] = lintPrompt('1girl, @{missing}', { bundleNames: ['quality'] })
+    expect(diag).toMatchObject({ code: 'unknown-bundle', severity: 'error', from: 7, to: 17 })
+  })
+
+  it('accepts known bundles with modifiers and arguments', () => {
+    expect(codes('@{quality:random}, @{hair(red)}', { bundleNames: ['quality', 'hair'] })).toEqual([])
+  })
+
+  it('skips the check without bundle names', () => {
+    expect(codes('@{missing}')).toEqual([])
+  })
+})
+
+describe('lintPrompt placeholders', () => {
+  it('flags placeholders with no value in any scene', () => {
+    expect(codes('\\\\pose\\\\, \\\\hair\\\\', { filledPlaceholders: ['hair'] })).toEqual(['empty-placeholder'])
+  })
+
+  it('accepts placeholders with an inline default', () => {
+    expect(codes('\\\\pose|standing\\\\', { filledPlaceholders: [] })).toEqual([])
+  })
+})
+
+describe('lintPrompt weights', () => {
+  it('accepts balanced weight groups', () => {
+    expect(codes('1.2::red hair::, -1::blurry::')).toEqual([])
+  })
+
+  it('flags an unclosed weight group', () => {
+    const [diag] = lintPrompt('1girl, 1.2::red hair')
+    expect(diag).toMatchObject({ code: 'unbalanced-weight', severity: 'error', from: 10, to: 12 })
+  })
+
+  it('flags weights out of range', () => {
+    expect(codes('5::red hair::')).toEqual(['weight-range'])
+    expect(codes('-4::red hair::')).toEqual(['weight-range'])
+  })
+
+  it('ignores wildcard option weights', () => {
+    expect(codes('{3::red|blue} hair')).toEqual([])
+  })
+
+  it('skips the checks when weights is false', () => {
+    expect(codes('1girl, 1.2::red hair', { weights: false })).toEqual([])
+  })
+})
+
+describe('lintPrompt tags', () => {
+  const knownTags = new Set(['1girl', 'red_hair', 'smile', 'wlop'])
+
+  it('flags tags missing from the tag database', () => {
+    const diags = lintPrompt('1girl, red hair, smlie', { knownTags })
+    expect(diags).toHaveLength(1)
+    expect(diags[0]).toMatchObject({ code: 'unknown-tag', severity: 'info', from: 17, to: 22 })
+  })
+
+  it('looks inside weights and emphasis', () => {
+    expect(codes('1.2::red hair::, {{smile}}, artist:wlop', { knownTags })).toEqual([])
+  })
+
+  it('skips bundles, placeholders and wildcards', () => {
+    expect(codes('@{x}, \\\\pose\\\\, {a|b}, [if x]smile[/if]', { knownTags })).toEqual([])
+  })
+
+  it('skips the check with an empty tag database', () => {
+    expect(codes('whatever', { knownTags: new Set() })).toEqual([])
+  })
+})
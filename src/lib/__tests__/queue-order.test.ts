@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { moveQueueEntry, priorityLevel, sortQueue } from '../queue-order'
+
+const entry = (id: number, priority = 0, queuePosition: number | null = id) => ({ id, priority, queuePosition })
+
+describe('sortQueue', () => {
+  it('orders by priority, then position', () => {
+    const sorted = sortQueue([entry(1, 0, 0), entry(2, -1, 1), entry(3, 1, 2), entry(4, 0, 3)])
+    expect(sorted.map((e) => e.id)).toEqual([3, 1, 4, 2])
+  })
+
+  it('puts jobs without a position after positioned ones, oldest first', () => {
+    const sorted = sortQueue([entry(5, 0, null), entry(2, 0, null), entry(9, 0, 0)])
+    expect(sorted.map((e) => e.id)).toEqual([9, 2, 5])
+  })
+})
+
+describe('moveQueueEntry', () => {
+  it('moves a job and renumbers positions', () => {
+    const moved = moveQueueEntry([entry(1), entry(2), entry(3)], 3, 0)
+    expect(moved.map((e) => [e.id, e.queuePosition])).toEqual([[3, 0], [1, 1], [2, 2]])
+  })
+
+  it('raises a job moved to the front above higher-priority jobs', () => {
+    const moved = moveQueueEntry([entry(1, 1), entry(2, 0), entry(3, -1)], 3, 0)
+    expect(moved[0]).toMatchObject({ id: 3, priority: 1 })
+    expect(sortQueue(moved).map((e) => e.id)).toEqual([3, 1, 2])
+  })
+
+  it('lowers a job dropped among lower-priority jobs', () => {
+    const moved = moveQueueEntry([entry(1, 1), entry(2, 0), entry(3, 0)], 1, 2)
+    expect(moved.map((e) => e.id)).toEqual([2, 3, 1])
+    expect(moved[2].priority).toBe(0)
+  })
+
+  it('keeps the priority when dropped between jobs of the same level', () => {
+    const moved = moveQueueEntry([entry(1, 1), entry(2, 0), entry(3, 0), entry(4, -1)], 3, 1)
+    expect(moved.find((e) => e.id === 3)!.priority).toBe(0)
+    expect(moved.map((e) => e.id)).toEqual([1, 3, 2, 4])
+  })
+
+  it('ignores unknown jobs', () => {
+    expect(moveQueueEntry([entry(1), entry(2)], 7, 0).map((e) => e.id)).toEqual([1, 2])
+  })
+})
+
+describe('priorityLevel', () => {
+  it('maps stored values to levels', () => {
+    expect(priorityLevel(1)).toBe('high')
+    expect(priorityLevel(0)).toBe('normal')
+    expect(priorityLevel(-1)).toBe('low')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { deviatingSceneParameters, mergeSceneParameters, parseSceneParameters } from '../scene-parameters'
+
+describe('parseSceneParameters', () => {
+  it('keeps known keys with valid values', () => {
+    expect(parseSceneParameters('{"width":1216,"height":832,"sampler":"k_euler","seed":42}')).toEqual({
+      width: 1216,
+      height: 832,
+      sampler: 'k_euler',
+      seed: 42,
+    })
+  })
+
+  it('drops unknown keys and values of the wrong type', () => {
+    expect(parseSceneParameters('{"model":"nai-diffusion-3","steps":"28","scale":null,"scheduler":""}')).toEqual({})
+  })
+
+  it('treats empty, malformed and non-object JSON as no overrides', () => {
+    expect(parseSceneParameters(null)).toEqual({})
+    expect(parseSceneParameters('')).toEqual({})
+    expect(parseSceneParameters('{oops')).toEqual({})
+    expect(parseSceneParameters('[1,2]')).toEqual({})
+  })
+})
+
+describe('mergeSceneParameters', () => {
+  it('applies overrides over the project parameters', () => {
+    const project = { model: 'nai-diffusion-4-5-full', width: 832, height: 1216, steps: 28 }
+    expect(mergeSceneParameters(project, { width: 1216, height: 832 })).toEqual({
+      model: 'nai-diffusion-4-5-full',
+      width: 1216,
+      height: 832,
+      steps: 28,
+    })
+  })
+
+  it('returns the project parameters unchanged without overrides', () => {
+    expect(mergeSceneParameters({ steps: 28, seed: 7 }, {})).toEqual({ steps: 28, seed: 7 })
+  })
+})
+
+describe('deviatingSceneParameters', () => {
+  it('lists overrides that differ from the project', () => {
+    expect(deviatingSceneParameters({ steps: 28, scale: 5 }, { steps: 40, scale: 5 })).toEqual(['steps'])
+  })
+
+  it('compares against generator defaults when the project leaves a key unset', () => {
+    expect(deviatingSceneParameters({}, { width: 832, sampler: 'k_euler_ancestral' })).toEqual([])
+    expect(deviatingSceneParameters({}, { width: 1024 })).toEqual(['width'])
+  })
+
+  it('counts a fixed seed as deviating from a random project seed', () => {
+    expect(deviatingSceneParameters({}, { seed: 123 })).toEqual(['seed'])
+    expect(deviatingSceneParameters({ seed: 123 }, { seed: 123 })).toEqual([])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { parseSeedList, readSeedStrategy, seedForImage, seedMode } from '../seed-strategy'
+
+describe('seedMode', () => {
+  it('reads fixed and random from the seed alone', () => {
+    expect(seedMode({ seed: 42 })).toBe('fixed')
+    expect(seedMode({})).toBe('random')
+  })
+
+  it('prefers a sequence mode over the seed', () => {
+    expect(seedMode({ seed: 42, seedMode: 'increment' })).toBe('increment')
+    expect(seedMode({ seedMode: 'bogus' })).toBe('random')
+  })
+})
+
+describe('readSeedStrategy', () => {
+  it('derives the strategy from the flat settings', () => {
+    expect(readSeedStrategy({ seed: 7 })).toEqual({ type: 'fixed', seed: 7 })
+    expect(readSeedStrategy({ seed: 7, seedMode: 'increment' })).toEqual({ type: 'increment', base: 7 })
+    expect(readSeedStrategy({ seedMode: 'list', seedList: [1, -2, 'x', 3] })).toEqual({ type: 'list', seeds: [1, 3] })
+    expect(readSeedStrategy({ seedMode: 'scene', seedSceneId: 5 })).toEqual({ type: 'scene', projectSceneId: 5, seeds: [] })
+  })
+
+  it('falls back to random for a scene mode without a scene', () => {
+    expect(readSeedStrategy({ seedMode: 'scene' })).toEqual({ type: 'random' })
+  })
+
+  it('prefers the job snapshot over the flat settings', () => {
+    const parameters = { seed: 7, seedStrategy: { type: 'list', seeds: [10, 20] } }
+    expect(readSeedStrategy(parameters)).toEqual({ type: 'list', seeds: [10, 20] })
+  })
+
+  it('treats an invalid snapshot as random', () => {
+    expect(readSeedStrategy({ seed: 7, seedStrategy: { type: 'increment', base: -1 } })).toEqual({ type: 'random' })
+  })
+})
+
+describe('seedForImage', () => {
+  it('repeats a fixed seed', () => {
+    expect([0, 1, 2].map((i) => seedForImage({ type: 'fixed', seed: 9 }, i))).toEqual([9, 9, 9])
+  })
+
+  it('adds the image index to the base, wrapping past the maximum seed', () => {
+    expect(seedForImage({ type: 'increment', base: 100 }, 3)).toBe(103)
+    expect(seedForImage({ type: 'increment', base: 4294967295 }, 1)).toBe(0)
+  })
+
+  it('uses listed seeds in order, then random', () => {
+    const strategy = { type: 'list' as const, seeds: [5, 6] }
+    expect([0, 1, 2].map((i) => seedForImage(strategy, i))).toEqual([5, 6, undefined])
+  })
+
+  it('leaves random seeds to the caller', () => {
+    expect(seedForImage({ type: 'random' }, 0)).toBeUndefined()
+  })
+})
+
+describe('parseSeedList', () => {
+  it('accepts commas, spaces and newlines and skips invalid entries', () => {
+    expect(parseSeedList('1, 2\n3  4,,abc, -5, 1.5, 4294967296')).toEqual([1, 2, 3, 4])
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { expandSweep, parseSweepValues, sweepDimensions, sweepValueLabel, validateSweep } from '../sweep'
+import type { SweepAxis } from '../sweep'
+
+describe('parseSweepValues', () => {
+  it('splits plain lists and keeps strings for text axes', () => {
+    expect(parseSweepValues('k_euler, k_dpmpp_2m ,', false)).toEqual(['k_euler', 'k_dpmpp_2m'])
+    expect(parseSweepValues('4, 5.5,7', true)).toEqual([4, 5.5, 7])
+  })
+
+  it('expands ranges with a step or a value count', () => {
+    expect(parseSweepValues('4-7', true)).toEqual([4, 5, 6, 7])
+    expect(parseSweepValues('0-1 (+0.1)', true)).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1])
+    expect(parseSweepValues('4-8 [3]', true)).toEqual([4, 6, 8])
+    expect(parseSweepValues('8-4 (+2), 1', true)).toEqual([8, 6, 4, 1])
+  })
+
+  it('rejects non-numbers and zero steps on numeric axes', () => {
+    expect(() => parseSweepValues('4, abc', true)).toThrow('"abc" is not a number')
+    expect(() => parseSweepValues('4-8 (+0)', true)).toThrow('Range step must not be zero')
+  })
+})
+
+describe('expandSweep', () => {
+  const axes: Array<SweepAxis> = [
+    { kind: 'parameter', key: 'scale', values: [4, 6] },
+    { kind: 'placeholder', key: 'hair', values: ['red', 'blue'] },
+    { kind: 'parameter', key: 'sampler', values: ['k_euler'] },
+  ]
+
+  it('walks columns, then rows, then pages', () => {
+    const cells = expandSweep(axes)
+    expect(cells.map((c) => c.index)).toEqual([
+      [0, 0, 0],
+      [1, 0, 0],
+      [0, 1, 0],
+      [1, 1, 0],
+    ])
+    expect(cells[2]).toEqual({ index: [0, 1, 0], parameters: { scale: 4, sampler: 'k_euler' }, placeholders: { hair: 'blue' } })
+  })
+
+  it('treats missing axes as a single value', () => {
+    expect(sweepDimensions(axes.slice(0, 1))).toEqual([2, 1, 1])
+    expect(sweepValueLabel(axes[1], 1)).toBe('hair: blue')
+  })
+})
+
+describe('validateSweep', () => {
+  it('rejects empty, repeated and unknown axes', () => {
+    expect(() => validateSweep([])).toThrow('Add at least one axis')
+    expect(() => validateSweep([{ kind: 'placeholder', key: 'hair', values: [] }])).toThrow('Axis "hair" has no values')
+    expect(() =>
+      validateSweep([
+        { kind: 'parameter', key: 'steps', values: [20] },
+        { kind: 'parameter', key: 'steps', values: [28] },
+      ]),
+    ).toThrow('"steps" is used by more than one axis')
+    expect(() => validateSweep([{ kind: 'parameter', key: 'seed' as 'steps', values: [1] }])).toThrow('"seed" can\'t be swept')
+  })
+
+  it('caps the number of images', () => {
+    const values = Array.from({ length: 11 }, (_, i) => i + 1)
+    expect(() =>
+      validateSweep([
+        { kind: 'parameter', key: 'steps', values },
+        { kind: 'parameter', key: 'scale', values },
+      ]),
+    ).toThrow('A sweep is limited to 100 images (this one has 121)')
+  })
+})
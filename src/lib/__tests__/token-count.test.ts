@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { NAI_TOKEN_LIMIT, estimatePromptTokens, estimateTokens } from '../token-count'
+
+describe('estimateTokens', () => {
+  it('returns 0 for an empty prompt', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('  \n ')).toBe(0)
+  })
+
+  it('counts words, symbols and the end token', () => {
+    // 1 | girl | , | solo | </s>
+    expect(estimateTokens('1girl, solo')).toBe(5)
+  })
+
+  it('splits long words into pieces', () => {
+    expect(estimateTokens('cat')).toBe(2)
+    expect(estimateTokens('masterpiece')).toBe(3)
+  })
+
+  it('ignores weight syntax and emphasis brackets', () => {
+    expect(estimateTokens('1.2::red hair::, {{solo}}')).toBe(estimateTokens('red hair, solo'))
+    expect(estimateTokens('[blue eyes]')).toBe(estimateTokens('blue eyes'))
+  })
+
+  it('counts each non-Latin character', () => {
+    expect(estimateTokens('소녀')).toBe(3)
+  })
+})
+
+describe('estimatePromptTokens', () => {
+  const prompts = {
+    generalPrompt: '1girl, solo',
+    negativePrompt: 'lowres',
+    characterPrompts: [{ name: 'Alice', prompt: 'red hair', negative: '' }],
+  }
+
+  it('counts each field and combines the captions', () => {
+    const counts = estimatePromptTokens(prompts)
+    expect(counts.general).toBe(5)
+    expect(counts.characters).toEqual([{ name: 'Alice', prompt: 3, negative: 0 }])
+    expect(counts.total).toBe(8)
+    expect(counts.negativeTotal).toBe(counts.negative)
+    expect(counts.overLimit).toBe(false)
+  })
+
+  it('flags prompts over the limit when combined', () => {
+    const half = Array.from({ length: 200 }, () => 'cat').join(', ')
+    const counts = estimatePromptTokens({
+      ...prompts,
+      generalPrompt: half,
+      characterPrompts: [{ name: 'Alice', prompt: half, negative: '' }],
+    })
+    expect(counts.general).toBeLessThanOrEqual(NAI_TOKEN_LIMIT)
+    expect(counts.overLimit).toBe(true)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { nearbySeeds, perturbPrompt, planVariations } from '../variations'
+import { createRandom } from '../random'
+
+// Replays fixed rolls, then repeats the last one
+function rolls(...values: Array<number>) {
+  let i = 0
+  return () => values[Math.min(i++, values.length - 1)]
+}
+
+describe('nearbySeeds', () => {
+  it('alternates above and below the seed', () => {
+    expect(nearbySeeds(100, 5)).toEqual([101, 99, 102, 98, 103])
+  })
+
+  it('wraps around the seed range', () => {
+    expect(nearbySeeds(0, 2)).toEqual([1, 4294967295])
+    expect(nearbySeeds(4294967295, 1)).toEqual([0])
+  })
+})
+
+describe('perturbPrompt', () => {
+  it('drops and reweights tags by roll', () => {
+    // smile: drop, red hair: reweight with WEIGHTS[5] = 1.3, solo: keep
+    const { prompt, changes } = perturbPrompt('smile, red hair, solo', rolls(0.1, 0.3, 0.99, 0.9))
+    expect(prompt).toBe('1.3::red hair::, solo')
+    expect(changes).toEqual(['-smile', '1.3::red hair::'])
+  })
+
+  it('drops rather than reweights emphasized or weighted tags', () => {
+    // Neither tag can take a weight, so the forced change drops one
+    const { prompt, changes } = perturbPrompt('{smile}, 1.2::solo::', rolls(0.3, 0.3, 0.99))
+    expect(prompt).toBe('{smile}')
+    expect(changes).toEqual(['-1.2::solo::'])
+  })
+
+  it('always changes something and never drops every tag', () => {
+    const random = createRandom(1)
+    for (let i = 0; i < 50; i++) {
+      const { prompt, changes } = perturbPrompt('1girl, solo, smile', random)
+      expect(changes.length).toBeGreaterThan(0)
+      expect(prompt).not.toBe('')
+    }
+  })
+})
+
+describe('planVariations', () => {
+  const base = { seed: 50, generalPrompt: '1girl, smile', random: createRandom(7) }
+
+  it('keeps the prompt and moves the seed in seed mode', () => {
+    expect(planVariations({ ...base, mode: 'seed', count: 2 })).toEqual([
+      { seed: 51, change: 'seed 51' },
+      { seed: 49, change: 'seed 49' },
+    ])
+  })
+
+  it('keeps the seed and changes the prompt in tags mode', () => {
+    const plans = planVariations({ ...base, mode: 'tags', count: 3 })
+    expect(plans).toHaveLength(3)
+    for (const plan of plans) {
+      expect(plan.seed).toBe(50)
+      expect(plan.generalPrompt).not.toBe('1girl, smile')
+    }
+  })
+
+  it('uses each other sampler once in sampler mode', () => {
+    const plans = planVariations({ ...base, mode: 'sampler', count: 4, sampler: 'k_euler', samplers: ['k_euler', 'k_dpmpp_2m', 'ddim_v3'] })
+    expect(plans).toEqual([
+      { seed: 50, sampler: 'k_dpmpp_2m', change: 'k_dpmpp_2m' },
+      { seed: 50, sampler: 'ddim_v3', change: 'ddim_v3' },
+    ])
+    expect(() => planVariations({ ...base, mode: 'sampler', count: 4, sampler: 'k_euler', samplers: ['k_euler'] })).toThrow(
+      'Choose at least one other sampler',
+    )
+  })
+})
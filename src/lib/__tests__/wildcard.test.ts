@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import {
+  hasWildcards,
+  parseWildcardOptions,
+  pickWeighted,
+  resolveWildcards,
+} from '../wildcard'
+
+/** Returns the given values in order, then repeats the last one */
+function sequence(...values: Array<number>) {
+  let i = 0
+  return () => values[Math.min(i++, values.length - 1)]
+}
+
+describe('hasWildcards', () => {
+  it('detects a choice group', () => {
+    expect(hasWildcards('{red|blue} hair')).toBe(true)
+  })
+
+  it('ignores NAI emphasis braces without a pipe', () => {
+    expect(hasWildcards('{{masterpiece}}, {best quality}')).toBe(false)
+  })
+
+  it('returns false for empty string', () => {
+    expect(hasWildcards('')).toBe(false)
+  })
+})
+
+describe('parseWildcardOptions', () => {
+  it('splits options and trims whitespace', () => {
+    expect(parseWildcardOptions('red | blue |green')).toEqual([
+      { text: 'red', weight: 1 },
+      { text: 'blue', weight: 1 },
+      { text: 'green', weight: 1 },
+    ])
+  })
+
+  it('reads leading weights', () => {
+    expect(parseWildcardOptions('3::red|0.5::blue')).toEqual([
+      { text: 'red', weight: 3 },
+      { text: 'blue', weight: 0.5 },
+    ])
+  })
+
+  it('keeps NAI weight groups inside an option', () => {
+    expect(parseWildcardOptions('1.2::red hair::|blue hair')).toEqual([
+      { text: '1.2::red hair::', weight: 1 },
+      { text: 'blue hair', weight: 1 },
+    ])
+  })
+
+  it('allows empty options', () => {
+    expect(parseWildcardOptions('smile|')).toEqual([
+      { text: 'smile', weight: 1 },
+      { text: '', weight: 1 },
+    ])
+  })
+})
+
+describe('pickWeighted', () => {
+  const options = [
+    { text: 'a', weight: 1 },
+    { text: 'b', weight: 3 },
+  ]
+
+  it('picks by cumulative weight', () => {
+    expect(pickWeighted(options, () => 0).text).toBe('a')
+    expect(pickWeighted(options, () => 0.24).text).toBe('a')
+    expect(pickWeighted(options, () => 0.26).text).toBe('b')
+    expect(pickWeighted(options, () => 0.99).text).toBe('b')
+  })
+
+  it('falls back to uniform choice when all weights are zero', () => {
+    const zero = [
+      { text: 'a', weight: 0 },
+      { text: 'b', weight: 0 },
+    ]
+    expect(pickWeighted(zero, () => 0.7).text).toBe('b')
+  })
+})
+
+describe('resolveWildcards', () => {
+  it('resolves a single group', () => {
+    const result = resolveWildcards('{red|blue} hair', () => 0.6)
+    expect(result.text).toBe('blue hair')
+    expect(result.choices).toEqual([{ source: '{red|blue}', choice: 'blue' }])
+  })
+
+  it('resolves multiple groups independently', () => {
+    const result = resolveWildcards('{red|blue} hair, {smile|frown}', sequence(0, 0.9))
+    expect(result.text).toBe('red hair, frown')
+    expect(result.choices).toHaveLength(2)
+  })
+
+  it('resolves nested groups from the inside out', () => {
+    const result = resolveWildcards('{cat|{red|blue} dog}', sequence(0.9, 0.9))
+    expect(result.text).toBe('blue dog')
+    expect(result.choices.map((c) => c.source)).toEqual(['{red|blue}', '{cat|blue dog}'])
+  })
+
+  it('leaves emphasis braces untouched', () => {
+    const result = resolveWildcards('{{masterpiece}}, {a|b}', () => 0)
+    expect(result.text).toBe('{{masterpiece}}, a')
+  })
+
+  it('returns original string when no groups', () => {
+    expect(resolveWildcards('1girl, solo')).toEqual({ text: '1girl, solo', choices: [] })
+  })
+})
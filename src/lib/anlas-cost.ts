@@ -0,0 +1,65 @@
+/**
+ * Anlas cost model for NovelAI image generation, matching the price NAI's own
+ * UI shows: cost grows with pixel count and steps, img2img scales with strength,
+ * and Opus subscribers generate "normal" sized images for free.
+ */
+import { resolveBackendId } from './generation-backend'
+
+// Fitted coefficients of NAI's per-image price curve
+const PIXEL_COEFFICIENT = 2.951823174884865e-6
+const PIXEL_STEP_COEFFICIENT = 5.753298233447344e-7
+// Smaller images are billed as if they were 256×256
+const MIN_BILLED_PIXELS = 65_536
+// img2img and inpainting never cost less than this
+const MIN_IMG2IMG_COST = 2
+
+/** Opus generates for free up to this size and step count */
+export const OPUS_FREE_MAX_PIXELS = 1024 * 1024
+export const OPUS_FREE_MAX_STEPS = 28
+
+/** Character references (precise reference) are charged per image, Opus included */
+export const CHARACTER_REFERENCE_COST = 5
+
+export interface AnlasCostOptions {
+  /** Subscription includes unlimited normal-sized generations */
+  opus: boolean
+  /** img2img / inpaint strength; omitted for text-to-image */
+  strength?: number
+  /** Characters with a reference image attached */
+  characterReferences?: number
+}
+
+/** Anlas for one image with the given generation parameters; 0 for local backends */
+export function estimateImageCost(parameters: Record<string, unknown>, options: AnlasCostOptions): number {
+  if (resolveBackendId(parameters) !== 'nai') return 0
+
+  const width = Number(parameters.width ?? 832)
+  const height = Number(parameters.height ?? 1216)
+  const steps = Number(parameters.steps ?? 28)
+  const pixels = width * height
+  const referenceCost = (options.characterReferences ?? 0) * CHARACTER_REFERENCE_COST
+
+  if (options.opus && pixels <= OPUS_FREE_MAX_PIXELS && steps <= OPUS_FREE_MAX_STEPS) {
+    return referenceCost
+  }
+
+  const billed = Math.max(pixels, MIN_BILLED_PIXELS)
+  let cost = Math.ceil(PIXEL_COEFFICIENT * billed + PIXEL_STEP_COEFFICIENT * billed * steps)
+  if (options.strength !== undefined) {
+    cost = Math.max(Math.ceil(cost * options.strength), MIN_IMG2IMG_COST)
+  }
+  return cost + referenceCost
+}
+
+export function estimateBatchCost(
+  parameters: Record<string, unknown>,
+  imageCount: number,
+  options: AnlasCostOptions,
+): number {
+  return imageCount > 0 ? estimateImageCost(parameters, options) * imageCount : 0
+}
+
+export interface AnlasBalance {
+  anlas: number
+  opus: boolean
+}
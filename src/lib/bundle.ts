@@ -1,16 +1,247 @@
 const BUNDLE_RE = /@\{([^}]+)\}/g
 
+// name, optional (args), optional :random[:N] — e.g. @{hair(red, long):random}
+// @{name:random} picks one line, @{name:random:3} picks three distinct lines
+const REFERENCE_RE = /^([^()]+?)(?:\((.*)\))?(?::random(?::(\d+))?)?$/s
+
+// Parameter slots inside bundle content: $1, $2 (positional) or $color (named)
+const SLOT_RE = /\$(\d+|[A-Za-z_]\w*)/g
+
+/** Maximum nesting of bundles referencing other bundles */
+export const MAX_BUNDLE_DEPTH = 8
+
+export interface BundleArgument {
+  /** Parameter name for `name=value` arguments, null for positional ones */
+  name: string | null
+  value: string
+}
+
+export interface BundleReference {
+  name: string
+  /** Arguments from @{name(a, b)} or @{name(color=red)} */
+  args: Array<BundleArgument>
+  /** Number of lines to pick at random, or null for a plain reference */
+  pick: number | null
+}
+
+/** Split an argument list on commas, honoring "double quotes" for values containing commas */
+function parseArguments(raw: string): Array<BundleArgument> {
+  const parts: Array<string> = []
+  let current = ''
+  let quoted = false
+  for (const ch of raw) {
+    if (ch === '"') quoted = !quoted
+    else if (ch === ',' && !quoted) {
+      parts.push(current)
+      current = ''
+    } else current += ch
+  }
+  parts.push(current)
+
+  return parts
+    .map((part) => part.trim())
+    .filter((part, _, all) => part !== '' || all.length > 1)
+    .map((part) => {
+      const named = part.match(/^([A-Za-z_]\w*)\s*=\s*([\s\S]*)$/)
+      return named ? { name: named[1], value: named[2] } : { name: null, value: part }
+    })
+}
+
+export function parseBundleReference(ref: string): BundleReference {
+  const match = ref.match(REFERENCE_RE)
+  if (!match) return { name: ref, args: [], pick: null }
+  const [, name, rawArgs, count] = match
+  const isRandom = /:random(?::\d+)?$/.test(ref)
+  return {
+    name,
+    args: rawArgs ? parseArguments(rawArgs) : [],
+    pick: isRandom ? (count ? Math.max(1, Number(count)) : 1) : null,
+  }
+}
+
+export interface BundleSignature {
+  /** Named parameters in order of first appearance; also fillable positionally */
+  named: Array<string>
+  /** Highest $N slot used */
+  positional: number
+}
+
+export function extractBundleParameters(content: string): BundleSignature {
+  const named: Array<string> = []
+  let positional = 0
+  for (const match of content.matchAll(SLOT_RE)) {
+    const slot = match[1]
+    if (/^\d+$/.test(slot)) positional = Math.max(positional, Number(slot))
+    else if (!named.includes(slot)) named.push(slot)
+  }
+  return { named, positional }
+}
+
+/** Human-readable parameter list, e.g. `(color, length)` or `($1, $2)`; empty when none */
+export function formatBundleSignature(signature: BundleSignature): string {
+  const params = signature.named.length > 0
+    ? signature.named
+    : Array.from({ length: signature.positional }, (_, i) => `$${i + 1}`)
+  return params.length > 0 ? `(${params.join(', ')})` : ''
+}
+
+/**
+ * Fill $1/$name slots with call-site arguments. Positional arguments fill $N
+ * and, in order, the named parameters. A plain @{name} leaves the content as
+ * written, and slots no argument reaches stay as they are, so a literal `$`
+ * in an existing bundle is never blanked.
+ */
+export function fillBundleParameters(content: string, args: Array<BundleArgument>): string {
+  if (args.length === 0) return content
+  const { named } = extractBundleParameters(content)
+  const positional = args.filter((a) => a.name === null).map((a) => a.value)
+  const byName: Record<string, string> = {}
+  for (const a of args) if (a.name !== null) byName[a.name] = a.value
+
+  const positionalAt = (index: number) => (index >= 0 && index < positional.length ? positional[index] : undefined)
+  return content.replace(SLOT_RE, (slotText, slot: string) => {
+    if (/^\d+$/.test(slot)) return positionalAt(Number(slot) - 1) ?? slotText
+    if (Object.hasOwn(byName, slot)) return byName[slot]
+    return positionalAt(named.indexOf(slot)) ?? slotText
+  })
+}
+
 export function extractBundleReferences(template: string): string[] {
   const names = new Set<string>()
   for (const match of template.matchAll(BUNDLE_RE)) {
-    names.add(match[1])
+    names.add(parseBundleReference(match[1]).name)
+  }
+  return [...names]
+}
+
+/** Names referenced with a :random modifier */
+export function extractRandomBundleReferences(template: string): Array<string> {
+  const names = new Set<string>()
+  for (const match of template.matchAll(BUNDLE_RE)) {
+    const ref = parseBundleReference(match[1])
+    if (ref.pick != null) names.add(ref.name)
   }
   return [...names]
 }
 
+/** Non-empty, trimmed lines of a bundle — the options for a random pick */
+export function splitBundleLines(content: string): Array<string> {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/** Pick `count` distinct lines (fewer if the bundle is shorter), keeping bundle order */
+export function pickBundleLines(
+  lines: Array<string>,
+  count: number,
+  random: () => number = Math.random,
+): Array<string> {
+  const indices = lines.map((_, i) => i)
+  // Partial Fisher-Yates shuffle
+  const n = Math.min(count, indices.length)
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(random() * (indices.length - i))
+    ;[indices[i], indices[j]] = [indices[j], indices[i]]
+  }
+  return indices
+    .slice(0, n)
+    .sort((a, b) => a - b)
+    .map((i) => lines[i])
+}
+
+function expandBundles(
+  template: string,
+  bundleMap: Record<string, string>,
+  stack: Array<string>,
+  used: Set<string>,
+): string {
+  return template.replace(BUNDLE_RE, (match, ref: string) => {
+    const { name, args, pick } = parseBundleReference(ref)
+    if (!Object.hasOwn(bundleMap, name)) return ''
+    used.add(name)
+    if (pick != null) return match
+
+    const path = [...stack, name]
+    if (stack.includes(name)) {
+      throw new Error(`Bundle reference cycle: ${path.join(' → ')}`)
+    }
+    if (stack.length >= MAX_BUNDLE_DEPTH) {
+      throw new Error(`Bundle nesting deeper than ${MAX_BUNDLE_DEPTH} levels: ${path.join(' → ')}`)
+    }
+    return expandBundles(fillBundleParameters(bundleMap[name], args), bundleMap, path, used)
+  })
+}
+
+/**
+ * Replace plain @{name} references with bundle content, recursively.
+ * Random references are left in place for resolveRandomBundles to pick per image.
+ * Throws on reference cycles or nesting deeper than MAX_BUNDLE_DEPTH.
+ * `stack` holds the bundles already being expanded (e.g. the bundle being edited).
+ */
+export function resolveBundlesWithUsage(
+  template: string,
+  bundleMap: Record<string, string>,
+  stack: Array<string> = [],
+): { text: string; usedNames: Array<string> } {
+  const used = new Set<string>()
+  const text = expandBundles(template, bundleMap, stack, used)
+  return { text, usedNames: [...used] }
+}
+
 export function resolveBundles(
   template: string,
   bundleMap: Record<string, string>,
 ): string {
-  return template.replace(BUNDLE_RE, (_, name) => bundleMap[name] ?? '')
+  return resolveBundlesWithUsage(template, bundleMap).text
+}
+
+export interface BundleTreeNode {
+  name: string
+  random: boolean
+  missing: boolean
+  /** Reference back to a bundle already on the path (not expanded further) */
+  cycle: boolean
+  children: Array<BundleTreeNode>
+}
+
+/** Dependency tree of the bundles referenced by a template. Never throws. */
+export function buildBundleTree(
+  template: string,
+  bundleMap: Record<string, string>,
+  stack: Array<string> = [],
+): Array<BundleTreeNode> {
+  const nodes = new Map<string, BundleTreeNode>()
+  for (const match of template.matchAll(BUNDLE_RE)) {
+    const { name, pick } = parseBundleReference(match[1])
+    if (nodes.has(name)) continue
+    const missing = !Object.hasOwn(bundleMap, name)
+    const cycle = stack.includes(name)
+    nodes.set(name, {
+      name,
+      random: pick != null,
+      missing,
+      cycle,
+      children: missing || cycle ? [] : buildBundleTree(bundleMap[name], bundleMap, [...stack, name]),
+    })
+  }
+  return [...nodes.values()]
+}
+
+export function resolveRandomBundles(
+  template: string,
+  linesMap: Record<string, Array<string>>,
+  random: () => number = Math.random,
+): { text: string; picks: Array<{ name: string; lines: Array<string> }> } {
+  const picks: Array<{ name: string; lines: Array<string> }> = []
+  const text = template.replace(BUNDLE_RE, (match, ref: string) => {
+    const { name, args, pick } = parseBundleReference(ref)
+    if (pick == null) return match
+    const lines = pickBundleLines(linesMap[name] ?? [], pick, random)
+      .map((line) => fillBundleParameters(line, args))
+    picks.push({ name, lines })
+    return lines.join(', ')
+  })
+  return { text, picks }
 }
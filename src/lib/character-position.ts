@@ -0,0 +1,56 @@
+/** NAI's character position picker is a 5x5 grid */
+export const POSITION_GRID_SIZE = 5
+
+export interface CharacterCenter {
+  x: number
+  y: number
+}
+
+// Stored positions: a grid cell like `C3` (columns A–E left→right, rows 1–5 top→bottom)
+// or coordinates like `0.42,0.6` (0..1 from the top-left corner)
+const CELL_RE = /^([A-E])([1-5])$/i
+const COORDS_RE = /^(\d*\.?\d+)\s*,\s*(\d*\.?\d+)$/
+
+const round = (n: number) => Math.round(n * 100) / 100
+const clamp = (n: number) => Math.min(1, Math.max(0, n))
+
+/** Center of a grid cell, e.g. (2, 2) → { x: 0.5, y: 0.5 } */
+export function gridCellCenter(col: number, row: number): CharacterCenter {
+  return {
+    x: round((col + 0.5) / POSITION_GRID_SIZE),
+    y: round((row + 0.5) / POSITION_GRID_SIZE),
+  }
+}
+
+export function formatGridCell(col: number, row: number): string {
+  return `${String.fromCharCode(65 + col)}${row + 1}`
+}
+
+/** Grid cell containing a center */
+export function nearestGridCell(center: CharacterCenter): { col: number; row: number } {
+  const cell = (n: number) => Math.min(POSITION_GRID_SIZE - 1, Math.floor(clamp(n) * POSITION_GRID_SIZE))
+  return { col: cell(center.x), row: cell(center.y) }
+}
+
+/** Parse a stored position; null/empty or malformed means "no position" */
+export function parseCharacterPosition(position: string | null | undefined): CharacterCenter | null {
+  const value = position?.trim()
+  if (!value) return null
+  const cell = value.match(CELL_RE)
+  if (cell) {
+    return gridCellCenter(cell[1].toUpperCase().charCodeAt(0) - 65, Number(cell[2]) - 1)
+  }
+  const coords = value.match(COORDS_RE)
+  if (coords) return { x: round(clamp(Number(coords[1]))), y: round(clamp(Number(coords[2]))) }
+  return null
+}
+
+/** Storage form of a center — the grid cell when it sits exactly on one, else `x,y` */
+export function formatCharacterPosition(center: CharacterCenter): string {
+  const { col, row } = nearestGridCell(center)
+  const cellCenter = gridCellCenter(col, row)
+  if (cellCenter.x === round(center.x) && cellCenter.y === round(center.y)) {
+    return formatGridCell(col, row)
+  }
+  return `${round(clamp(center.x))},${round(clamp(center.y))}`
+}
@@ -0,0 +1,27 @@
+/**
+ * Image generation backends a project can target. The choice lives in the
+ * project (or quick-generate) parameters as `backend` and is copied onto every
+ * job and image it produces.
+ */
+export const BACKEND_IDS = ['nai', 'comfyui', 'a1111', 'mock'] as const
+
+export type BackendId = (typeof BACKEND_IDS)[number]
+
+export const DEFAULT_BACKEND: BackendId = 'nai'
+
+export const BACKEND_LABELS: Record<BackendId, string> = {
+  nai: 'NovelAI',
+  comfyui: 'ComfyUI',
+  a1111: 'A1111 WebUI',
+  mock: 'Mock',
+}
+
+export function isBackendId(value: unknown): value is BackendId {
+  return typeof value === 'string' && (BACKEND_IDS as ReadonlyArray<string>).includes(value)
+}
+
+/** Backend selected by a parameters object; unknown or missing values fall back to NAI */
+export function resolveBackendId(parameters: Record<string, unknown> | null | undefined): BackendId {
+  const value = parameters?.backend
+  return isBackendId(value) ? value : DEFAULT_BACKEND
+}
@@ -0,0 +1,82 @@
+/**
+ * Retry policy for image generation requests: which failures are worth another
+ * attempt, and how long to wait before it.
+ */
+
+/** Error carrying the HTTP status of a failed generation API response */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = 'HttpStatusError'
+  }
+}
+
+export type ErrorKind = 'retryable' | 'fatal'
+
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number
+  baseDelayMs: number
+  /** Upper bound for a single backoff wait */
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 60_000,
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * 429, 408 and 5xx responses, timeouts and network failures are transient.
+ * Everything else — 400 bad parameters, 401 bad key, 402 out of Anlas, missing
+ * settings — would fail the same way again.
+ */
+export function classifyGenerationError(error: unknown): ErrorKind {
+  if (error instanceof HttpStatusError) {
+    return error.status === 429 || error.status === 408 || error.status >= 500 ? 'retryable' : 'fatal'
+  }
+  if (!(error instanceof Error)) return 'fatal'
+
+  if (error.name === 'AbortError' || error.name === 'TimeoutError' || /timed out/i.test(error.message)) {
+    return 'retryable'
+  }
+  // fetch() rejects with TypeError('fetch failed') and the socket error as cause
+  const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return 'retryable'
+  if (error instanceof TypeError && error.message === 'fetch failed') return 'retryable'
+  return 'fatal'
+}
+
+/**
+ * Failures tied to the API key rather than the job: a rejected key, no Anlas left,
+ * or a rate limit that outlasted the retries. Another key may still succeed.
+ */
+export function isKeyError(error: unknown): boolean {
+  return error instanceof HttpStatusError && [401, 402, 403, 429].includes(error.status)
+}
+
+/**
+ * Wait before retry number `attempt` (1-based): exponential growth from
+ * `baseDelayMs`, capped at `maxDelayMs`, with "equal jitter" so the wait is
+ * always at least half the exponential step.
+ */
+export function retryDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(exponential / 2 + random() * (exponential / 2))
+}
@@ -30,6 +30,7 @@ const en = {
     gallery: 'Gallery',
     metadata: 'Metadata',
     bundles: 'Bundles',
+    queue: 'Queue',
     settings: 'Settings',
   },
   error: {
@@ -77,6 +78,9 @@ const en = {
     enterApiKey: 'Enter your NAI API key...',
     generationSettings: 'Generation Settings',
     delayLabel: 'Delay between generations:',
+    maxRetriesLabel: 'Automatic retries for transient errors:',
+    maxRetriesHelp: 'Rate limits (429), server errors (5xx), timeouts and network errors are retried with exponential backoff. Invalid keys, missing Anlas and bad parameters stop the queue immediately.',
+    maxRetryDelayLabel: 'Longest wait between retries:',
     saved: 'Settings saved',
     saveFailed: 'Failed to save settings',
     saveSettings: 'Save Settings',
@@ -106,6 +110,16 @@ const en = {
     apiKeyEmpty: 'Please enter an API key first',
     apiKeyNetworkError: 'Could not connect to NAI server',
     apiKeyUnknownError: 'Validation failed',
+    apiKeyPool: 'Additional API Keys',
+    apiKeyPoolDesc: 'Each enabled key runs its own generation worker, so batches are split across subscriptions. A key that is rejected or out of Anlas is skipped until the queue is resumed.',
+    apiKeyName: 'Name',
+    apiKeyEnabled: 'Use this key',
+    apiKeyAdded: 'API key added',
+    localBackends: 'Local Backends',
+    localBackendsDesc: 'Endpoints for projects whose generation backend is ComfyUI or A1111 WebUI.',
+    comfyuiUrl: 'ComfyUI URL',
+    comfyuiCheckpoint: 'ComfyUI checkpoint',
+    a1111Url: 'A1111 WebUI URL',
   },
   gallery: {
     title: 'Gallery',
@@ -165,6 +179,8 @@ const en = {
     sampler: 'Sampler',
     generalPrompt: 'General Prompt',
     negativePrompt: 'Negative Prompt',
+    bundlePicks: 'Random Bundle Picks',
+    wildcards: 'Wildcard Picks',
     naiMetadata: 'NAI Image Metadata',
     parsing: 'Parsing...',
     noNaiMetadata: 'No NAI metadata found in this image.',
@@ -175,6 +191,7 @@ const en = {
     setProjectThumbSuccess: 'Set as project thumbnail',
     setProjectThumbFailed: 'Failed to set project thumbnail',
     model: 'Model',
+    backend: 'Backend',
     positive: 'Positive',
     negative: 'Negative',
     character: 'Character {{n}}',
@@ -184,6 +201,28 @@ const en = {
     deleteDesc: 'This image and its file will be permanently deleted. This cannot be undone.',
     deleted: 'Image deleted',
     deleteFailed: 'Failed to delete image',
+    lineage: 'Lineage',
+    sourceImage: 'Source',
+    uploadedSource: 'Uploaded source image',
+    derivedImages: 'Derived ({{count}})',
+    img2img: 'Image to Image',
+    inpaint: 'Inpaint',
+    rerunInpaint: 'Inpaint again',
+    inpaintMask: 'Inpaint mask',
+    characterReferences: 'Character References',
+  },
+  variations: {
+    title: 'Variations',
+    modeSeed: 'Nearby seeds',
+    modeTags: 'Tag changes',
+    modeSampler: 'Other samplers',
+    modeSeedHint: 'Same prompt with the seeds next to this one.',
+    modeTagsHint: 'Same seed with a few tags dropped or reweighted.',
+    modeSamplerHint: 'Same seed and prompt with each selected sampler.',
+    create: 'More like this',
+    started: 'Variations queued',
+    compare: 'Compare',
+    variationOf: 'Variation of',
   },
   metadata: {
     title: 'Metadata',
@@ -248,6 +287,22 @@ const en = {
     charPromptPlaceholder: '{{name}} prompt with \\\\placeholders\\\\...',
     negativePromptPlaceholder: 'Enter negative prompt...',
     charNegativePlaceholder: '{{name}} negative...',
+    tokenCount: '~{{count}} / {{limit}} tokens',
+    tokenCountHint: 'Rough T5 token estimate for this template — the real count may differ. The Prompt Preview estimates the resolved prompt.',
+    position: 'Position',
+    positionAuto: 'Auto',
+    positionHint: 'Where this character is placed. Setting any position turns on NAI coordinates for the image.',
+    positionInherited: 'Character default: {{value}}',
+    positionReset: 'Use character default',
+    positionSaveFailed: 'Failed to save position',
+    characterReference: 'Character Reference',
+    characterReferenceHint: 'Upload a reference image to keep this character consistent across scenes.',
+    referenceUpload: 'Upload image',
+    referenceReplace: 'Replace image',
+    referenceStyleAware: 'Style aware',
+    referenceStrength: 'Strength',
+    referenceFidelity: 'Fidelity',
+    referenceSaveFailed: 'Failed to save character reference',
   },
   scene: {
     reserve: 'Reserve',
@@ -313,6 +368,12 @@ const en = {
     templateName: 'Template name',
     convertSuccess: 'Template created',
     convertFailed: 'Failed to create template',
+    parameterOverrides: 'Parameter Overrides',
+    parameterOverridesDesc: 'Leave a field empty to use the project setting.',
+    resetParameterOverrides: 'Use project settings',
+    inheritParameter: 'Project ({{value}})',
+    parameterOverridesBadge: 'Overrides: {{params}}',
+    failedToSaveParameters: 'Failed to save parameter overrides',
   },
   templates: {
     title: 'Scene Templates',
@@ -409,6 +470,19 @@ const en = {
     parameters: 'Parameters',
     generationParameters: 'Generation Parameters',
     perImg: '/img',
+    retrying: 'Retrying',
+    retryIn: 'Retry {{attempt}}/{{max}} in {{seconds}}s',
+    workerImages: '{{count}} img',
+    workerFailed: 'Key failed',
+    anlasCost: '{{cost}} Anlas',
+    anlasFree: 'Free',
+    anlasBalance: 'Balance: {{balance}} Anlas',
+    anlasBalanceUnavailable: 'Balance unavailable',
+    anlasOpusFree: 'Free with Opus up to 1024×1024 and 28 steps',
+    anlasInsufficient: 'Not enough Anlas: this batch needs about {{cost}}, balance is {{balance}}',
+    tokenMax: 'Max ~{{count}} / {{limit}} tokens (estimated)',
+    tokenScene: '~{{total}} · negative ~{{negative}}',
+    tokensOverLimit: 'Likely over the {{limit}}-token limit (estimated), NAI may cut off the end of the prompt: {{scenes}}',
   },
   placeholder: {
     keys: 'Keys',
@@ -429,6 +503,14 @@ const en = {
     filledCount: '{{filled}}/{{total}} filled',
     unfilledCount: '{{unfilled}}/{{total}} unfilled',
     defaultValue: 'Default',
+    projectDefault: 'Project default',
+    projectDefaultHint: 'Used in every scene that leaves this key empty.',
+    usingDefault: 'Using default: {{value}}',
+    normalizedHint: 'Normalization is on — struck-through tags are removed before generating.',
+    tokens: '~{{count}} tokens',
+    tokenTotal: 'Prompt ~{{total}} / {{limit}} · Negative ~{{negative}} / {{limit}} tokens (estimated)',
+    tokenOverLimit: 'Likely over the {{limit}}-token limit (estimated) — NAI may cut off the end of the prompt.',
+    characterPositions: 'Character Positions',
   },
   quickGenerate: {
     title: 'Quick Generate',
@@ -457,6 +539,39 @@ const en = {
     noMetadata: 'No NAI metadata found in this image',
     importApply: 'Apply',
     imported: 'Settings imported from image',
+    sourceImage: 'Source Image',
+    sourceImageHint: 'Upload an image or pick one from history to generate image-to-image.',
+    uploadSource: 'Upload source image',
+    clearSource: 'Remove source image',
+    useAsSource: 'Use as source',
+    sourceSet: 'Source image set',
+    strength: 'Strength',
+    noise: 'Noise',
+  },
+  inpaint: {
+    title: 'Inpaint',
+    brush: 'Brush',
+    eraser: 'Eraser',
+    brushSize: 'Size',
+    strength: 'Strength',
+    hint: 'Paint over the area to regenerate.',
+  },
+  vibe: {
+    title: 'Vibe Transfer',
+    short: 'Vibe',
+    sceneTitle: 'Vibe Transfer (this scene)',
+    fromProject: 'From project',
+    empty: 'No reference images attached. Pick one from the library below.',
+    strength: 'Str.',
+    strengthHelp: 'Reference strength — how strongly the vibe is applied',
+    informationExtracted: 'Info',
+    informationExtractedHelp: 'Information extracted — how much detail is taken from the reference',
+    library: 'Reference library',
+    libraryEmpty: 'Upload an image to start the library.',
+    upload: 'Upload reference image',
+    uploadFailed: 'Failed to upload reference image',
+    deleteTitle: 'Delete Reference Image',
+    deleteDesc: 'The reference is removed from the library and from every project and scene using it.',
   },
   history: {
     title: 'History',
@@ -466,6 +581,8 @@ const en = {
   params: {
     model: 'Model',
     modelHelp: 'AI model used for image generation',
+    backend: 'Backend',
+    backendHelp: 'Service that renders the images. Local backends are configured in Settings; Mock draws placeholders without any network.',
     resolution: 'Resolution',
     resolutionHelp: 'Image resolution in pixels',
     steps: 'Steps',
@@ -481,9 +598,19 @@ const en = {
     ucPreset: 'UC Preset',
     ucPresetHelp: 'Undesired Content preset',
     seed: 'Seed',
-    seedHelp: 'Fixed seed for reproducible generation. Leave off for random.',
-    seedFixed: 'Fixed Seed',
+    seedHelp: 'How each image picks its seed. Fixed, incrementing and listed seeds make generations reproducible.',
     seedRandom: 'Random',
+    seedModeFixed: 'Fixed',
+    seedModeIncrement: 'Increment',
+    seedModeList: 'Seed list',
+    seedModeScene: 'Same as scene',
+    seedBase: 'Starting seed',
+    seedIncrementHint: 'Each image uses the previous seed + 1.',
+    seedListHint: '{{count}} seeds, used in order. Images past the end get random seeds.',
+    seedSceneSelect: 'Select a scene',
+    seedSceneHint: "Reuses the seeds of that scene's latest images, so scenes can be compared on equal seeds.",
+    normalizePrompts: 'Normalize Prompts',
+    normalizePromptsHelp: 'Remove duplicate tags, empty tags and extra whitespace after bundles and placeholders are expanded',
     width: 'Width',
     height: 'Height',
     portrait: 'Portrait',
@@ -537,12 +664,75 @@ const en = {
     setThumbnail: 'Set Thumbnail',
     thumbnailSet: 'Thumbnail set',
     thumbnailFailed: 'Failed to set thumbnail',
+    randomHint: 'Add :random to pick one line per image, or :random:N for N lines.',
+    parameterHint: 'Use $1, $2 or $name in the content to take arguments: @{name(red, long)} or @{name(color=red)}.',
+    expandedPreview: 'Expanded Preview',
+    dependencies: 'Dependencies',
+    randomBadge: 'random',
+    missingBadge: 'not found',
+    cycleBadge: 'cycle',
     searchBundles: 'Search bundles...',
     selectBundle: 'Select a bundle to edit',
     contentPlaceholder: 'Enter prompt text...',
     descriptionPlaceholder: 'Description (optional)',
     usage: 'Usage: @{{{name}}}',
   },
+  queue: {
+    title: 'Queue',
+    description: 'Generation jobs from every project and quick generation, in run order.',
+    running: 'Running',
+    queued: 'Queued',
+    recent: 'Recent',
+    noActiveJobs: 'No jobs are queued',
+    noRecentJobs: 'No finished jobs yet',
+    quickGenerate: 'Quick Generate',
+    progress: '{{completed}}/{{total}} images',
+    dragHint: 'Drag jobs to change the run order.',
+    priority: 'Priority',
+    priorityHigh: 'High',
+    priorityNormal: 'Normal',
+    priorityLow: 'Low',
+    moveToFront: 'Move to front',
+    moveFailed: 'Failed to reorder the queue',
+    jobCancelled: 'Job cancelled',
+    jobRetried: 'Job queued again',
+    paused: 'Queue paused',
+    stoppedOnError: 'Queue stopped after an error',
+    statusCompleted: 'Completed',
+    statusFailed: 'Failed',
+    statusCancelled: 'Cancelled',
+  },
+  sweep: {
+    title: 'Sweep',
+    description: 'Render one scene across up to three axes of parameter or placeholder values with a fixed seed, laid out as a labeled grid.',
+    selectScene: 'Select a scene',
+    seed: 'Seed',
+    randomSeed: 'Random seed',
+    selectAxis: 'Parameter or placeholder',
+    parameters: 'Parameters',
+    placeholders: 'Placeholders',
+    addAxis: 'Add axis',
+    removeAxis: 'Remove axis',
+    rangeHint: '4, 5.5, 7 or 4-8 (+0.5) or 4-8 [5]',
+    listHint: 'Comma-separated values',
+    valueCount: '{{count}} values',
+    cellCount: '{{count}}/{{max}} images',
+    create: 'Create',
+    created: 'Sweep queued: {{count}} images',
+    createFailed: 'Failed to create sweep',
+    noSweeps: 'No sweeps yet',
+    selectSweep: 'Create or select a sweep to see its grid',
+    deletedScene: 'Deleted scene',
+    seedValue: 'seed {{seed}}',
+    openGrid: 'Open grid image',
+    recompose: 'Rebuild grid',
+    composeFailed: 'Failed to build the grid image',
+    delete: 'Delete sweep',
+    deleteTitle: 'Delete sweep?',
+    deleteDescription: 'The grid images are deleted. The generated images stay in the gallery.',
+    deleted: 'Sweep deleted',
+    deleteFailed: 'Failed to delete sweep',
+  },
   onboarding: {
     welcome: {
       title: 'Welcome to 87 Studio',
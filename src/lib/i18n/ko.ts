@@ -33,6 +33,7 @@ const ko: DeepStringify<typeof en> = {
     gallery: '갤러리',
     metadata: '메타데이터',
     bundles: '번들',
+    queue: '큐',
     settings: '설정',
   },
   error: {
@@ -80,6 +81,9 @@ const ko: DeepStringify<typeof en> = {
     enterApiKey: 'NAI API 키를 입력하세요...',
     generationSettings: '생성 설정',
     delayLabel: '생성 간 딜레이:',
+    maxRetriesLabel: '일시적 오류 자동 재시도 횟수:',
+    maxRetriesHelp: '요청 제한(429), 서버 오류(5xx), 타임아웃, 네트워크 오류는 지수 백오프로 재시도합니다. 잘못된 키, Anlas 부족, 잘못된 파라미터는 즉시 큐를 멈춥니다.',
+    maxRetryDelayLabel: '재시도 간 최대 대기:',
     saved: '설정이 저장되었습니다',
     saveFailed: '설정 저장에 실패했습니다',
     saveSettings: '설정 저장',
@@ -109,6 +113,16 @@ const ko: DeepStringify<typeof en> = {
     apiKeyEmpty: 'API 키를 먼저 입력하세요',
     apiKeyNetworkError: 'NAI 서버에 연결할 수 없습니다',
     apiKeyUnknownError: '검증에 실패했습니다',
+    apiKeyPool: '추가 API 키',
+    apiKeyPoolDesc: '활성화된 키마다 생성 작업자가 하나씩 실행되어 배치를 여러 구독에 나눠 처리합니다. 거부되거나 Anlas가 부족한 키는 큐를 재개할 때까지 제외됩니다.',
+    apiKeyName: '이름',
+    apiKeyEnabled: '이 키 사용',
+    apiKeyAdded: 'API 키가 추가되었습니다',
+    localBackends: '로컬 백엔드',
+    localBackendsDesc: '생성 백엔드가 ComfyUI 또는 A1111 WebUI인 프로젝트가 사용할 주소입니다.',
+    comfyuiUrl: 'ComfyUI 주소',
+    comfyuiCheckpoint: 'ComfyUI 체크포인트',
+    a1111Url: 'A1111 WebUI 주소',
   },
   gallery: {
     title: '갤러리',
@@ -168,6 +182,8 @@ const ko: DeepStringify<typeof en> = {
     sampler: '샘플러',
     generalPrompt: '일반 프롬프트',
     negativePrompt: '네거티브 프롬프트',
+    bundlePicks: '랜덤 번들 선택',
+    wildcards: '와일드카드 선택',
     naiMetadata: 'NAI 이미지 메타데이터',
     parsing: '파싱 중...',
     noNaiMetadata: '이 이미지에서 NAI 메타데이터를 찾을 수 없습니다.',
@@ -178,6 +194,7 @@ const ko: DeepStringify<typeof en> = {
     setProjectThumbSuccess: '프로젝트 썸네일로 설정되었습니다',
     setProjectThumbFailed: '프로젝트 썸네일 설정에 실패했습니다',
     model: '모델',
+    backend: '백엔드',
     positive: '포지티브',
     negative: '네거티브',
     character: '캐릭터 {{n}}',
@@ -187,6 +204,28 @@ const ko: DeepStringify<typeof en> = {
     deleteDesc: '이미지와 파일이 영구적으로 삭제됩니다. 되돌릴 수 없습니다.',
     deleted: '이미지가 삭제되었습니다',
     deleteFailed: '이미지 삭제에 실패했습니다',
+    lineage: '계보',
+    sourceImage: '원본',
+    uploadedSource: '업로드한 원본 이미지',
+    derivedImages: '파생 이미지 ({{count}})',
+    img2img: '이미지 투 이미지',
+    inpaint: '인페인트',
+    rerunInpaint: '다시 인페인트',
+    inpaintMask: '인페인트 마스크',
+    characterReferences: '캐릭터 레퍼런스',
+  },
+  variations: {
+    title: '변형',
+    modeSeed: '인접 시드',
+    modeTags: '태그 변경',
+    modeSampler: '다른 샘플러',
+    modeSeedHint: '같은 프롬프트로 이 이미지 시드의 앞뒤 시드를 사용합니다.',
+    modeTagsHint: '같은 시드로 태그 몇 개를 빼거나 가중치를 바꿉니다.',
+    modeSamplerHint: '같은 시드와 프롬프트로 선택한 샘플러마다 생성합니다.',
+    create: '비슷하게 더 만들기',
+    started: '변형 대기열에 추가됨',
+    compare: '비교',
+    variationOf: '원본 이미지',
   },
   metadata: {
     title: '메타데이터',
@@ -251,6 +290,22 @@ const ko: DeepStringify<typeof en> = {
     charPromptPlaceholder: '{{name}} 프롬프트 (\\\\placeholders\\\\ 사용 가능)...',
     negativePromptPlaceholder: '네거티브 프롬프트를 입력하세요...',
     charNegativePlaceholder: '{{name}} 네거티브...',
+    tokenCount: '약 {{count}} / {{limit}} 토큰',
+    tokenCountHint: '이 템플릿의 대략적인 T5 토큰 추정치로, 실제 토큰 수와 다를 수 있습니다. 치환된 프롬프트의 추정치는 프롬프트 미리보기에서 확인하세요.',
+    position: '위치',
+    positionAuto: '자동',
+    positionHint: '이 캐릭터가 배치될 위치입니다. 위치를 하나라도 지정하면 해당 이미지에 NAI 좌표가 적용됩니다.',
+    positionInherited: '캐릭터 기본값: {{value}}',
+    positionReset: '캐릭터 기본값 사용',
+    positionSaveFailed: '위치 저장에 실패했습니다',
+    characterReference: '캐릭터 레퍼런스',
+    characterReferenceHint: '레퍼런스 이미지를 업로드하면 씬이 바뀌어도 캐릭터를 일관되게 유지합니다.',
+    referenceUpload: '이미지 업로드',
+    referenceReplace: '이미지 교체',
+    referenceStyleAware: '스타일 반영',
+    referenceStrength: '강도',
+    referenceFidelity: '충실도',
+    referenceSaveFailed: '캐릭터 레퍼런스 저장에 실패했습니다',
   },
   scene: {
     reserve: '예약',
@@ -316,6 +371,12 @@ const ko: DeepStringify<typeof en> = {
     templateName: '템플릿 이름',
     convertSuccess: '템플릿이 생성되었습니다',
     convertFailed: '템플릿 생성에 실패했습니다',
+    parameterOverrides: '파라미터 오버라이드',
+    parameterOverridesDesc: '비워 두면 프로젝트 설정을 사용합니다.',
+    resetParameterOverrides: '프로젝트 설정 사용',
+    inheritParameter: '프로젝트 ({{value}})',
+    parameterOverridesBadge: '오버라이드: {{params}}',
+    failedToSaveParameters: '파라미터 오버라이드 저장에 실패했습니다',
   },
   templates: {
     title: '씬 템플릿',
@@ -412,6 +473,19 @@ const ko: DeepStringify<typeof en> = {
     parameters: '파라미터',
     generationParameters: '생성 파라미터',
     perImg: '/장',
+    retrying: '재시도 중',
+    retryIn: '{{seconds}}초 후 재시도 ({{attempt}}/{{max}})',
+    workerImages: '{{count}}장',
+    workerFailed: '키 오류',
+    anlasCost: '{{cost}} Anlas',
+    anlasFree: '무료',
+    anlasBalance: '잔액: {{balance}} Anlas',
+    anlasBalanceUnavailable: '잔액을 불러올 수 없음',
+    anlasOpusFree: 'Opus는 1024×1024, 28스텝 이하 무료',
+    anlasInsufficient: 'Anlas 부족: 이 배치에 약 {{cost}}이 필요하지만 잔액은 {{balance}}입니다',
+    tokenMax: '최대 약 {{count}} / {{limit}} 토큰 (추정)',
+    tokenScene: '약 {{total}} · 네거티브 약 {{negative}}',
+    tokensOverLimit: '{{limit}} 토큰 제한 초과 추정, NAI가 프롬프트 끝부분을 잘라낼 수 있습니다: {{scenes}}',
   },
   placeholder: {
     keys: '키',
@@ -432,6 +506,14 @@ const ko: DeepStringify<typeof en> = {
     filledCount: '{{filled}}/{{total}} 입력됨',
     unfilledCount: '{{unfilled}}/{{total}} 미입력',
     defaultValue: '기본값',
+    projectDefault: '프로젝트 기본값',
+    projectDefaultHint: '이 키를 비워 둔 모든 씬에서 사용됩니다.',
+    usingDefault: '기본값 사용 중: {{value}}',
+    normalizedHint: '프롬프트 정리 사용 중 — 취소선 태그는 생성 전에 제거됩니다.',
+    tokens: '약 {{count}} 토큰',
+    tokenTotal: '프롬프트 약 {{total}} / {{limit}} · 네거티브 약 {{negative}} / {{limit}} 토큰 (추정)',
+    tokenOverLimit: '{{limit}} 토큰 제한 초과로 추정됩니다 — NAI가 프롬프트 끝부분을 잘라낼 수 있습니다.',
+    characterPositions: '캐릭터 위치',
   },
   quickGenerate: {
     title: '빠른 생성',
@@ -460,6 +542,39 @@ const ko: DeepStringify<typeof en> = {
     noMetadata: '이 이미지에서 NAI 메타데이터를 찾을 수 없습니다',
     importApply: '적용',
     imported: '이미지에서 설정을 가져왔습니다',
+    sourceImage: '원본 이미지',
+    sourceImageHint: '이미지를 업로드하거나 기록에서 선택하면 이미지 투 이미지로 생성합니다.',
+    uploadSource: '원본 이미지 업로드',
+    clearSource: '원본 이미지 제거',
+    useAsSource: '원본으로 사용',
+    sourceSet: '원본 이미지를 설정했습니다',
+    strength: '강도',
+    noise: '노이즈',
+  },
+  inpaint: {
+    title: '인페인트',
+    brush: '브러시',
+    eraser: '지우개',
+    brushSize: '크기',
+    strength: '강도',
+    hint: '다시 생성할 영역을 칠하세요.',
+  },
+  vibe: {
+    title: '바이브 트랜스퍼',
+    short: '바이브',
+    sceneTitle: '바이브 트랜스퍼 (이 씬)',
+    fromProject: '프로젝트에서 상속',
+    empty: '첨부된 레퍼런스 이미지가 없습니다. 아래 라이브러리에서 선택하세요.',
+    strength: '강도',
+    strengthHelp: '레퍼런스 강도 — 바이브가 적용되는 세기',
+    informationExtracted: '정보',
+    informationExtractedHelp: '정보 추출량 — 레퍼런스에서 가져오는 디테일의 양',
+    library: '레퍼런스 라이브러리',
+    libraryEmpty: '이미지를 업로드해 라이브러리를 시작하세요.',
+    upload: '레퍼런스 이미지 업로드',
+    uploadFailed: '레퍼런스 이미지 업로드에 실패했습니다',
+    deleteTitle: '레퍼런스 이미지 삭제',
+    deleteDesc: '라이브러리와 이 레퍼런스를 사용하는 모든 프로젝트·씬에서 제거됩니다.',
   },
   history: {
     title: '히스토리',
@@ -469,6 +584,8 @@ const ko: DeepStringify<typeof en> = {
   params: {
     model: '모델',
     modelHelp: '이미지 생성에 사용할 AI 모델',
+    backend: '백엔드',
+    backendHelp: '이미지를 생성할 서비스. 로컬 백엔드는 설정에서 지정하며, Mock은 네트워크 없이 자리표시 이미지를 그립니다.',
     resolution: '해상도',
     resolutionHelp: '이미지 해상도 (픽셀)',
     steps: '스텝',
@@ -484,9 +601,19 @@ const ko: DeepStringify<typeof en> = {
     ucPreset: 'UC 프리셋',
     ucPresetHelp: '언디자이어드 콘텐츠 프리셋',
     seed: '시드',
-    seedHelp: '재현 가능한 생성을 위한 고정 시드. 끄면 랜덤.',
-    seedFixed: '시드 고정',
+    seedHelp: '이미지마다 시드를 정하는 방식. 고정·증가·목록 시드는 재현 가능한 생성에 사용합니다.',
     seedRandom: '랜덤',
+    seedModeFixed: '고정',
+    seedModeIncrement: '증가',
+    seedModeList: '시드 목록',
+    seedModeScene: '다른 씬과 동일',
+    seedBase: '시작 시드',
+    seedIncrementHint: '이미지마다 이전 시드 + 1을 사용합니다.',
+    seedListHint: '시드 {{count}}개를 순서대로 사용합니다. 목록을 넘는 이미지는 랜덤 시드를 사용합니다.',
+    seedSceneSelect: '씬 선택',
+    seedSceneHint: '선택한 씬의 최근 이미지 시드를 그대로 사용해 같은 시드로 씬을 비교할 수 있습니다.',
+    normalizePrompts: '프롬프트 정리',
+    normalizePromptsHelp: '번들·플레이스홀더 치환 후 중복 태그, 빈 태그, 불필요한 공백을 제거',
     width: '너비',
     height: '높이',
     portrait: '세로',
@@ -540,12 +667,75 @@ const ko: DeepStringify<typeof en> = {
     setThumbnail: '썸네일 설정',
     thumbnailSet: '썸네일이 설정되었습니다',
     thumbnailFailed: '썸네일 설정에 실패했습니다',
+    randomHint: ':random을 붙이면 이미지마다 한 줄을, :random:N이면 N줄을 랜덤으로 선택합니다.',
+    parameterHint: '내용에 $1, $2 또는 $이름 을 쓰면 인자를 받습니다: @{name(red, long)} 또는 @{name(color=red)}.',
+    expandedPreview: '전개 미리보기',
+    dependencies: '참조 번들',
+    randomBadge: '랜덤',
+    missingBadge: '없음',
+    cycleBadge: '순환',
     searchBundles: '번들 검색...',
     selectBundle: '편집할 번들을 선택하세요',
     contentPlaceholder: '프롬프트 텍스트를 입력하세요...',
     descriptionPlaceholder: '설명 (선택)',
     usage: '사용법: @{{{name}}}',
   },
+  queue: {
+    title: '큐',
+    description: '모든 프로젝트와 빠른 생성의 생성 작업을 실행 순서대로 보여줍니다.',
+    running: '실행 중',
+    queued: '대기 중',
+    recent: '최근 작업',
+    noActiveJobs: '대기 중인 작업이 없습니다',
+    noRecentJobs: '완료된 작업이 아직 없습니다',
+    quickGenerate: '빠른 생성',
+    progress: '{{completed}}/{{total}}장',
+    dragHint: '작업을 드래그해서 실행 순서를 바꿀 수 있습니다.',
+    priority: '우선순위',
+    priorityHigh: '높음',
+    priorityNormal: '보통',
+    priorityLow: '낮음',
+    moveToFront: '맨 앞으로',
+    moveFailed: '큐 순서 변경에 실패했습니다',
+    jobCancelled: '작업이 취소되었습니다',
+    jobRetried: '작업을 다시 대기열에 추가했습니다',
+    paused: '큐가 일시정지되었습니다',
+    stoppedOnError: '오류로 큐가 멈췄습니다',
+    statusCompleted: '완료',
+    statusFailed: '실패',
+    statusCancelled: '취소됨',
+  },
+  sweep: {
+    title: '스윕',
+    description: '고정 시드로 한 씬을 최대 세 축의 파라미터·플레이스홀더 값 조합으로 생성하고 라벨이 붙은 그리드로 정리합니다.',
+    selectScene: '씬 선택',
+    seed: '시드',
+    randomSeed: '랜덤 시드',
+    selectAxis: '파라미터 또는 플레이스홀더',
+    parameters: '파라미터',
+    placeholders: '플레이스홀더',
+    addAxis: '축 추가',
+    removeAxis: '축 삭제',
+    rangeHint: '4, 5.5, 7 또는 4-8 (+0.5) 또는 4-8 [5]',
+    listHint: '쉼표로 구분한 값',
+    valueCount: '값 {{count}}개',
+    cellCount: '이미지 {{count}}/{{max}}장',
+    create: '생성',
+    created: '스윕 대기열 추가: 이미지 {{count}}장',
+    createFailed: '스윕 생성 실패',
+    noSweeps: '아직 스윕이 없습니다',
+    selectSweep: '스윕을 만들거나 선택하면 그리드가 표시됩니다',
+    deletedScene: '삭제된 씬',
+    seedValue: '시드 {{seed}}',
+    openGrid: '그리드 이미지 열기',
+    recompose: '그리드 다시 만들기',
+    composeFailed: '그리드 이미지 생성 실패',
+    delete: '스윕 삭제',
+    deleteTitle: '스윕을 삭제할까요?',
+    deleteDescription: '그리드 이미지가 삭제됩니다. 생성된 이미지는 갤러리에 남습니다.',
+    deleted: '스윕 삭제됨',
+    deleteFailed: '스윕 삭제 실패',
+  },
   onboarding: {
     welcome: {
       title: '87 Studio에 오신 것을 환영합니다',
@@ -0,0 +1,14 @@
+/**
+ * Keys job creation adds to the resolved parameters it snapshots: the seed
+ * strategy and the vibe and character references of that moment. They describe
+ * one job, so parameters taken from an image or a job must drop them before
+ * they are edited or sent to a new job.
+ */
+export const JOB_SNAPSHOT_KEYS = ['seedStrategy', 'vibeReferences', 'characterReferences'] as const
+
+/** Copy of `parameters` without the job snapshot keys */
+export function withoutJobSnapshot(parameters: Record<string, unknown>): Record<string, unknown> {
+  const editable = { ...parameters }
+  for (const key of JOB_SNAPSHOT_KEYS) delete editable[key]
+  return editable
+}
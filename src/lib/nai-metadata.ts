@@ -20,6 +20,9 @@ export interface NAIV4Prompt {
     base_caption?: string
     char_captions?: NAICharacterCaption[]
   }
+  /** When false, char_captions centers are placeholders and carry no position */
+  use_coords?: boolean
+  use_order?: boolean
 }
 
 export interface NAIVibeTransferInfo {
@@ -27,6 +30,14 @@ export interface NAIVibeTransferInfo {
   informationExtracted: number
 }
 
+export interface NAICharacterReferenceInfo {
+  strength: number
+  /** NAI stores 1 - fidelity as the secondary strength */
+  fidelity: number
+  /** From the reference description (`character&style` vs `character`), when present */
+  styleAware?: boolean
+}
+
 export interface NAIMetadata {
   prompt?: string
   negativePrompt?: string
@@ -54,7 +65,7 @@ export interface NAIMetadata {
   hasVibeTransfer?: boolean
   hasCharacterReference?: boolean
   vibeTransferInfo?: NAIVibeTransferInfo[]
-  characterReferenceInfo?: NAIVibeTransferInfo[]
+  characterReferenceInfo?: Array<NAICharacterReferenceInfo>
 
   source?: 'text_chunk' | 'stealth_alpha'
   raw?: Record<string, unknown>
@@ -405,10 +416,15 @@ function convertNAIFormat(data: Record<string, unknown>): NAIMetadata {
     metadata.hasCharacterReference = true
     const strengths = data.director_reference_strengths as number[]
     const secondary = (data.director_reference_secondary_strengths as number[]) || []
-    metadata.characterReferenceInfo = strengths.map((strength, i) => ({
-      strength,
-      informationExtracted: secondary[i] ?? 1.0,
-    }))
+    const descriptions = (data.director_reference_descriptions ?? []) as Array<{ caption?: { base_caption?: string } }>
+    metadata.characterReferenceInfo = strengths.map((strength, i) => {
+      const caption = descriptions[i]?.caption?.base_caption
+      return {
+        strength,
+        fidelity: Math.round((1 - (secondary[i] ?? 0)) * 100) / 100,
+        ...(caption != null && { styleAware: caption.includes('style') }),
+      }
+    })
   }
 
   return metadata
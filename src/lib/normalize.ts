@@ -0,0 +1,58 @@
+export interface PromptTag {
+  text: string
+  /** Repeats an earlier tag and is dropped by normalization */
+  duplicate: boolean
+}
+
+/**
+ * Split a prompt on top-level commas. Commas inside {}, [], () or a
+ * `1.2::tag, tag::` weight group stay with their tag.
+ */
+export function splitPromptTags(prompt: string): Array<string> {
+  const tags: Array<string> = []
+  let current = ''
+  let depth = 0
+  let inWeightGroup = false
+
+  for (let i = 0; i < prompt.length; i++) {
+    const ch = prompt[i]
+    if (ch === ':' && prompt[i + 1] === ':') {
+      inWeightGroup = !inWeightGroup
+      current += '::'
+      i++
+      continue
+    }
+    if (ch === '{' || ch === '[' || ch === '(') depth++
+    else if ((ch === '}' || ch === ']' || ch === ')') && depth > 0) depth--
+    else if (ch === ',' && depth === 0 && !inWeightGroup) {
+      tags.push(current)
+      current = ''
+      continue
+    }
+    current += ch
+  }
+  tags.push(current)
+  return tags
+}
+
+/** Tags of a prompt with whitespace collapsed and empty tags dropped; repeats are flagged */
+export function normalizePromptTags(prompt: string): Array<PromptTag> {
+  const seen = new Set<string>()
+  const result: Array<PromptTag> = []
+  for (const raw of splitPromptTags(prompt)) {
+    const text = raw.replace(/\s+/g, ' ').trim()
+    if (!text) continue
+    const key = text.toLowerCase()
+    result.push({ text, duplicate: seen.has(key) })
+    seen.add(key)
+  }
+  return result
+}
+
+/** Keep the first occurrence of each tag, collapse empty tags and whitespace */
+export function normalizePrompt(prompt: string): string {
+  return normalizePromptTags(prompt)
+    .filter((tag) => !tag.duplicate)
+    .map((tag) => tag.text)
+    .join(', ')
+}
@@ -1,16 +1,81 @@
-const PLACEHOLDER_RE = /\\\\(\w+)\\\\/g
+// \\key\\ or \\key|inline default\\
+const PLACEHOLDER_RE = /\\\\(\w+)(?:\|([^\\]*))?\\\\/g
+
+// [if key]...[/if] or [if !key]...[/if] — innermost block (no [if inside the body)
+const CONDITIONAL_RE = /\[if (!?)(\w+)\]((?:(?!\[if [!\w])[\s\S])*?)\[\/if\]/
+const CONDITION_KEY_RE = /\[if !?(\w+)\]/g
+
+// Marks where a block was dropped, so the commas around it can be tidied (a private-use character)
+const REMOVED = '\uE000'
 
 export function extractPlaceholders(template: string): string[] {
   const keys = new Set<string>()
   for (const match of template.matchAll(PLACEHOLDER_RE)) {
     keys.add(match[1])
   }
+  for (const match of template.matchAll(CONDITION_KEY_RE)) {
+    keys.add(match[1])
+  }
   return [...keys]
 }
 
+/** Inline defaults from \\key|default\\ — the first one wins when a key repeats */
+export function extractPlaceholderDefaults(template: string): Record<string, string> {
+  const defaults: Record<string, string> = {}
+  for (const match of template.matchAll(PLACEHOLDER_RE)) {
+    // Undefined when the placeholder has no |default part
+    const fallback = match.at(2)
+    if (fallback !== undefined && !(match[1] in defaults)) defaults[match[1]] = fallback
+  }
+  return defaults
+}
+
+/**
+ * Layer placeholder value maps, e.g. project defaults → scene values → character overrides.
+ * Later layers win, but empty strings never hide a value from an earlier layer.
+ */
+export function mergePlaceholderValues(
+  ...layers: Array<Record<string, string>>
+): Record<string, string> {
+  const merged: Record<string, string> = {}
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== '' || !(key in merged)) merged[key] = value
+    }
+  }
+  return merged
+}
+
+/**
+ * Evaluate [if key]...[/if] and [if !key]...[/if] blocks. A key is set when its value is non-empty.
+ * Blocks nest; a dropped block takes one adjacent comma with it so no `, ,` is left behind.
+ */
+export function resolveConditionals(
+  template: string,
+  values: Record<string, string>,
+): string {
+  let text = template
+  let match: RegExpMatchArray | null
+  while ((match = text.match(CONDITIONAL_RE)) !== null) {
+    const [block, negate, key, body] = match
+    const keep = !!values[key] !== (negate === '!')
+    text = text.slice(0, match.index) + (keep ? body : REMOVED) + text.slice(match.index! + block.length)
+  }
+  if (!text.includes(REMOVED)) return text
+
+  return text
+    .replace(/^(?:\s*\uE000\s*,?)+\s*/, '')
+    .replace(/,?\s*\uE000\s*(?=,|$)/g, '')
+    .replace(/\uE000/g, '')
+}
+
+/** Missing or empty values fall back to the inline default, then to an empty string */
 export function resolvePlaceholders(
   template: string,
   values: Record<string, string>,
 ): string {
-  return template.replace(PLACEHOLDER_RE, (_, key) => values[key] ?? '')
+  return resolveConditionals(template, values).replace(
+    PLACEHOLDER_RE,
+    (_, key: string, fallback: string | undefined) => values[key] || (fallback ?? ''),
+  )
 }
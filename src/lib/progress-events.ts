@@ -0,0 +1,37 @@
+import type { generatedImages } from '@/server/db/schema'
+
+/**
+ * Events pushed to the UI over the progress stream while the generation queue
+ * runs. The server emits them from the queue (see services/progress-events);
+ * pages subscribe with useProgressStream.
+ */
+
+export const PROGRESS_STREAM_PATH = '/api/events'
+
+export type ProgressEvent =
+  | {
+      type: 'job-started'
+      jobId: number
+      projectId: number | null
+      projectSceneId: number | null
+      completedCount: number
+      totalCount: number
+    }
+  | {
+      type: 'image-completed'
+      jobId: number
+      projectId: number | null
+      projectSceneId: number | null
+      completedCount: number
+      totalCount: number
+      /** The new generated_images row */
+      image: typeof generatedImages.$inferSelect
+    }
+  | { type: 'job-failed'; jobId: number; error: string }
+  | {
+      type: 'queue-state'
+      processing: boolean
+      queueLength: number
+      queueStopped: 'error' | 'paused' | null
+      stoppedJobId: number | null
+    }
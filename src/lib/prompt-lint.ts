@@ -0,0 +1,153 @@
+import { parseBundleReference } from './bundle'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export interface PromptDiagnostic {
+  from: number
+  to: number
+  severity: LintSeverity
+  code: 'unknown-bundle' | 'empty-placeholder' | 'unbalanced-weight' | 'weight-range' | 'unknown-tag'
+  message: string
+}
+
+export interface PromptLintContext {
+  /** Existing bundle names; unknown @{name} references are errors */
+  bundleNames?: Iterable<string>
+  /** Placeholder keys with a value in at least one scene (or a project default) */
+  filledPlaceholders?: Iterable<string>
+  /** Known danbooru tags, underscores or spaces; skipped when empty */
+  knownTags?: ReadonlySet<string>
+  /** Set to false to skip the weight checks, e.g. to run them on bundle-expanded text instead */
+  weights?: boolean
+}
+
+/** Weights outside this range are flagged */
+export const WEIGHT_MIN = -3
+export const WEIGHT_MAX = 3
+
+const BUNDLE_RE = /@\{([^}]+)\}/g
+const PLACEHOLDER_RE = /\\\\(\w+)(\|[^\\]*)?\\\\/g
+// Leading N:: of a {3::a|b} wildcard option — a choice weight, not a weight group
+const WILDCARD_WEIGHT_RE = /(?<=[{|]\s*)-?\d+(?:\.\d+)?::(?![^{}|]*::)/g
+const NUMBER_BEFORE_RE = /(?<![a-zA-Z_\d.])(-?\d+(?:\.\d+)?)$/
+
+/** Replace matches with spaces so later passes keep their offsets */
+function mask(text: string, re: RegExp): string {
+  return text.replace(re, (m) => ' '.repeat(m.length))
+}
+
+function lintBundles(text: string, names: Set<string>): Array<PromptDiagnostic> {
+  const result: Array<PromptDiagnostic> = []
+  for (const match of text.matchAll(BUNDLE_RE)) {
+    const { name } = parseBundleReference(match[1])
+    if (names.has(name)) continue
+    result.push({
+      from: match.index,
+      to: match.index + match[0].length,
+      severity: 'error',
+      code: 'unknown-bundle',
+      message: `Unknown bundle "${name}"`,
+    })
+  }
+  return result
+}
+
+function lintPlaceholders(text: string, filled: Set<string>): Array<PromptDiagnostic> {
+  const result: Array<PromptDiagnostic> = []
+  for (const match of text.matchAll(PLACEHOLDER_RE)) {
+    // Inline defaults always provide a value
+    if (match.at(2) !== undefined || filled.has(match[1])) continue
+    result.push({
+      from: match.index,
+      to: match.index + match[0].length,
+      severity: 'warning',
+      code: 'empty-placeholder',
+      message: `Placeholder "${match[1]}" has no value in any scene`,
+    })
+  }
+  return result
+}
+
+function lintWeights(text: string): Array<PromptDiagnostic> {
+  const result: Array<PromptDiagnostic> = []
+  const masked = mask(text, WILDCARD_WEIGHT_RE)
+  let open: number | null = null
+
+  for (const match of masked.matchAll(/::/g)) {
+    const pos = match.index
+    if (open !== null) {
+      open = null
+      continue
+    }
+    open = pos
+    const number = masked.slice(0, pos).match(NUMBER_BEFORE_RE)
+    if (!number) continue
+    const weight = parseFloat(number[1])
+    if (weight < WEIGHT_MIN || weight > WEIGHT_MAX) {
+      result.push({
+        from: pos - number[1].length,
+        to: pos + 2,
+        severity: 'warning',
+        code: 'weight-range',
+        message: `Weight ${weight} is outside ${WEIGHT_MIN}..${WEIGHT_MAX}`,
+      })
+    }
+  }
+
+  if (open !== null) {
+    result.push({
+      from: open,
+      to: open + 2,
+      severity: 'error',
+      code: 'unbalanced-weight',
+      message: 'Weight group is never closed with "::"',
+    })
+  }
+  return result
+}
+
+function lintTags(text: string, knownTags: ReadonlySet<string>): Array<PromptDiagnostic> {
+  const result: Array<PromptDiagnostic> = []
+  // Blank out everything that isn't a plain tag, keeping offsets
+  let masked = mask(text, BUNDLE_RE)
+  masked = mask(masked, PLACEHOLDER_RE)
+  masked = mask(masked, /\[if !?\w+\]|\[\/if\]/g)
+  masked = mask(masked, /\{[^{}]*\|[^{}]*\}/g)
+  masked = mask(masked, /-?\d+(?:\.\d+)?::|::/g)
+  masked = mask(masked, /[{}[\]()]/g)
+
+  let offset = 0
+  for (const segment of masked.split(/[,\n]/)) {
+    const tag = segment.trim()
+    if (tag && !/[$|\\]/.test(tag)) {
+      // NAI writes artist tags as artist:name
+      const name = tag.toLowerCase().replace(/^artist:\s*/, '')
+      if (!knownTags.has(name.replace(/\s+/g, '_')) && !knownTags.has(name)) {
+        const from = offset + segment.indexOf(tag)
+        result.push({
+          from,
+          to: from + tag.length,
+          severity: 'info',
+          code: 'unknown-tag',
+          message: `"${tag}" is not a known danbooru tag`,
+        })
+      }
+    }
+    offset += segment.length + 1
+  }
+  return result
+}
+
+/** Static checks for a prompt template; checks without context are skipped */
+export function lintPrompt(text: string, context: PromptLintContext = {}): Array<PromptDiagnostic> {
+  const diagnostics: Array<PromptDiagnostic> = []
+  if (context.bundleNames) diagnostics.push(...lintBundles(text, new Set(context.bundleNames)))
+  if (context.filledPlaceholders) {
+    diagnostics.push(...lintPlaceholders(text, new Set(context.filledPlaceholders)))
+  }
+  if (context.weights !== false) diagnostics.push(...lintWeights(text))
+  if (context.knownTags && context.knownTags.size > 0) {
+    diagnostics.push(...lintTags(text, context.knownTags))
+  }
+  return diagnostics.sort((a, b) => a.from - b.from)
+}
@@ -0,0 +1,57 @@
+/**
+ * Generation queue ordering. Jobs run by priority (high first), then by their
+ * persisted queue position, so a restart restores the order set on the queue page.
+ */
+
+export const PRIORITY_LEVELS = { high: 1, normal: 0, low: -1 } as const
+
+export type PriorityLevel = keyof typeof PRIORITY_LEVELS
+
+export function priorityLevel(priority: number): PriorityLevel {
+  if (priority > 0) return 'high'
+  return priority < 0 ? 'low' : 'normal'
+}
+
+export interface QueueEntry {
+  id: number
+  priority: number
+  /** Null for jobs queued before positions existed; they run after positioned ones */
+  queuePosition: number | null
+}
+
+export function compareQueueEntries(a: QueueEntry, b: QueueEntry): number {
+  if (a.priority !== b.priority) return b.priority - a.priority
+  if (a.queuePosition !== b.queuePosition) {
+    if (a.queuePosition == null) return 1
+    if (b.queuePosition == null) return -1
+    return a.queuePosition - b.queuePosition
+  }
+  return a.id - b.id
+}
+
+export function sortQueue<T extends QueueEntry>(entries: Array<T>): Array<T> {
+  return [...entries].sort(compareQueueEntries)
+}
+
+/**
+ * Moves one job to `index` of the ordered queue and renumbers positions.
+ * A job dropped among jobs of another priority takes on their priority, so the
+ * result still reads top to bottom in run order.
+ */
+export function moveQueueEntry<T extends QueueEntry>(entries: Array<T>, jobId: number, index: number): Array<T> {
+  const ordered = sortQueue(entries)
+  const from = ordered.findIndex((e) => e.id === jobId)
+  if (from === -1) return ordered
+
+  const [moved] = ordered.splice(from, 1)
+  const to = Math.max(0, Math.min(index, ordered.length))
+  const before = ordered[to - 1] as T | undefined
+  const after = ordered[to] as T | undefined
+
+  let priority = moved.priority
+  if (before && priority > before.priority) priority = before.priority
+  if (after && priority < after.priority) priority = after.priority
+
+  ordered.splice(to, 0, { ...moved, priority })
+  return ordered.map((entry, position) => ({ ...entry, queuePosition: position }))
+}
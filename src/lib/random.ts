@@ -0,0 +1,18 @@
+/**
+ * Seedable PRNG (mulberry32). The same seed always yields the same sequence,
+ * so per-image prompt picks can be reproduced from the image seed.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32)
+}
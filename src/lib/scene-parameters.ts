@@ -0,0 +1,78 @@
+/**
+ * Scene-level generation parameter overrides. A scene stores only the keys it
+ * changes; everything else comes from the project's parameters when its jobs
+ * are created.
+ */
+
+export interface SceneParameterOverrides {
+  width?: number
+  height?: number
+  steps?: number
+  scale?: number
+  cfgRescale?: number
+  sampler?: string
+  scheduler?: string
+  seed?: number
+}
+
+export type SceneParameterKey = keyof SceneParameterOverrides
+
+const NUMERIC_KEYS = ['width', 'height', 'steps', 'scale', 'cfgRescale', 'seed'] as const
+const STRING_KEYS = ['sampler', 'scheduler'] as const
+
+export const SCENE_PARAMETER_KEYS: ReadonlyArray<SceneParameterKey> = [...NUMERIC_KEYS, ...STRING_KEYS]
+
+/** Values the generator uses when the project leaves a key unset; seed has none (random) */
+export const SCENE_PARAMETER_DEFAULTS: Omit<Required<SceneParameterOverrides>, 'seed'> = {
+  width: 832,
+  height: 1216,
+  steps: 28,
+  scale: 5,
+  cfgRescale: 0,
+  sampler: 'k_euler_ancestral',
+  scheduler: 'karras',
+}
+
+/** Reads stored overrides, dropping unknown keys and values of the wrong type */
+export function parseSceneParameters(json: string | null | undefined): SceneParameterOverrides {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json || '{}')
+  } catch {
+    return {}
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {}
+
+  const record = raw as Record<string, unknown>
+  const overrides: SceneParameterOverrides = {}
+  for (const key of NUMERIC_KEYS) {
+    const value = record[key]
+    if (typeof value === 'number' && Number.isFinite(value)) overrides[key] = value
+  }
+  for (const key of STRING_KEYS) {
+    const value = record[key]
+    if (typeof value === 'string' && value !== '') overrides[key] = value
+  }
+  return overrides
+}
+
+/** Project parameters with the scene's overrides applied on top */
+export function mergeSceneParameters(
+  parameters: Record<string, unknown>,
+  overrides: SceneParameterOverrides,
+): Record<string, unknown> {
+  return { ...parameters, ...overrides }
+}
+
+/** Override keys whose value differs from what the project would generate with */
+export function deviatingSceneParameters(
+  parameters: Record<string, unknown>,
+  overrides: SceneParameterOverrides,
+): Array<SceneParameterKey> {
+  return SCENE_PARAMETER_KEYS.filter((key) => {
+    const value = overrides[key]
+    if (value === undefined) return false
+    const base = parameters[key] ?? (key === 'seed' ? undefined : SCENE_PARAMETER_DEFAULTS[key])
+    return value !== base
+  })
+}
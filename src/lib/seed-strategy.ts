@@ -0,0 +1,98 @@
+/**
+ * How a job picks the seed of each image. Editors store flat settings next to
+ * `seed` (`seedMode`, `seedList`, `seedSceneId`); job creation snapshots them as a
+ * `seedStrategy` in the resolved parameters, so a resumed job continues the same
+ * sequence from its completed count.
+ */
+
+export const MAX_SEED = 4294967295
+
+export type SeedMode = 'random' | 'fixed' | 'increment' | 'list' | 'scene'
+
+export type SeedStrategy =
+  | { type: 'random' }
+  | { type: 'fixed'; seed: number }
+  /** Image i uses base + i */
+  | { type: 'increment'; base: number }
+  /** Seeds used in order; images past the end get random seeds */
+  | { type: 'list'; seeds: Array<number> }
+  /** Seeds of another scene's latest images, filled in when the job is created */
+  | { type: 'scene'; projectSceneId: number; seeds: Array<number> }
+
+function isSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED
+}
+
+function seedArray(value: unknown): Array<number> {
+  return Array.isArray(value) ? value.filter(isSeed) : []
+}
+
+/** Mode of the flat seed settings: `seedMode` for the sequence modes, else fixed when a seed is set */
+export function seedMode(parameters: Record<string, unknown>): SeedMode {
+  const mode = parameters.seedMode
+  if (mode === 'increment' || mode === 'list' || mode === 'scene') return mode
+  return isSeed(parameters.seed) ? 'fixed' : 'random'
+}
+
+/** The job's seed strategy: its snapshot when present, else derived from the flat settings */
+export function readSeedStrategy(parameters: Record<string, unknown>): SeedStrategy {
+  const snapshot = parameters.seedStrategy as Partial<Record<string, unknown>> | undefined
+  if (snapshot && typeof snapshot === 'object') {
+    switch (snapshot.type) {
+      case 'fixed':
+        if (isSeed(snapshot.seed)) return { type: 'fixed', seed: snapshot.seed }
+        break
+      case 'increment':
+        if (isSeed(snapshot.base)) return { type: 'increment', base: snapshot.base }
+        break
+      case 'list':
+        return { type: 'list', seeds: seedArray(snapshot.seeds) }
+      case 'scene':
+        if (typeof snapshot.projectSceneId === 'number') {
+          return { type: 'scene', projectSceneId: snapshot.projectSceneId, seeds: seedArray(snapshot.seeds) }
+        }
+        break
+    }
+    return { type: 'random' }
+  }
+
+  const seed = isSeed(parameters.seed) ? parameters.seed : 0
+  switch (seedMode(parameters)) {
+    case 'fixed':
+      return { type: 'fixed', seed }
+    case 'increment':
+      return { type: 'increment', base: seed }
+    case 'list':
+      return { type: 'list', seeds: seedArray(parameters.seedList) }
+    case 'scene':
+      return typeof parameters.seedSceneId === 'number'
+        ? { type: 'scene', projectSceneId: parameters.seedSceneId, seeds: [] }
+        : { type: 'random' }
+    default:
+      return { type: 'random' }
+  }
+}
+
+/** Seed of the image at `index` within its job; undefined means pick a random one */
+export function seedForImage(strategy: SeedStrategy, index: number): number | undefined {
+  switch (strategy.type) {
+    case 'fixed':
+      return strategy.seed
+    case 'increment':
+      return (strategy.base + index) % (MAX_SEED + 1)
+    case 'list':
+    case 'scene':
+      return strategy.seeds.at(index)
+    default:
+      return undefined
+  }
+}
+
+/** Seeds typed as a comma, space or newline separated list; invalid entries are skipped */
+export function parseSeedList(text: string): Array<number> {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(isSeed)
+}
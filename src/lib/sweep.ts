@@ -0,0 +1,138 @@
+/**
+ * X/Y/Z sweeps: up to three axes, each a generation parameter or a placeholder
+ * with a list of values. Every combination becomes one single-image job with the
+ * same seed, and the results are laid out as a grid (one page per Z value).
+ */
+
+export const SWEEP_NUMERIC_KEYS = ['scale', 'steps', 'cfgRescale', 'width', 'height'] as const
+export const SWEEP_STRING_KEYS = ['sampler', 'scheduler'] as const
+
+export type SweepParameterKey = (typeof SWEEP_NUMERIC_KEYS)[number] | (typeof SWEEP_STRING_KEYS)[number]
+
+export type SweepAxis =
+  | { kind: 'parameter'; key: SweepParameterKey; values: Array<number | string> }
+  | { kind: 'placeholder'; key: string; values: Array<string> }
+
+/** Position of a cell: column (X), row (Y) and page (Z); 0 on axes the sweep doesn't use */
+export type SweepCellIndex = [number, number, number]
+
+export interface SweepCell {
+  index: SweepCellIndex
+  /** Parameter values this cell sets over the scene's parameters */
+  parameters: Record<string, number | string>
+  /** Placeholder values this cell sets over the scene's placeholders */
+  placeholders: Record<string, string>
+}
+
+export const MAX_SWEEP_AXES = 3
+export const MAX_SWEEP_CELLS = 100
+
+export function isNumericSweepKey(key: string): boolean {
+  return (SWEEP_NUMERIC_KEYS as ReadonlyArray<string>).includes(key)
+}
+
+const NUMBER = String.raw`-?\d+(?:\.\d+)?`
+// `4-8`, `4-8 (+0.5)` (step) or `4-8 [5]` (value count), as in A1111's X/Y/Z plot
+const RANGE = new RegExp(String.raw`^(${NUMBER})\s*-\s*(${NUMBER})(?:\s*\(\s*\+?(${NUMBER})\s*\)|\s*\[\s*(\d+)\s*\])?$`)
+
+// Ranges add floats step by step; keep values like 0.7 from turning into 0.7000000000000001
+function roundValue(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+function expandRange(start: number, end: number, step: number): Array<number> {
+  if (step === 0) throw new Error('Range step must not be zero')
+  const direction = end >= start ? 1 : -1
+  const size = Math.abs(step) * direction
+  const values: Array<number> = []
+  for (let i = 0; ; i++) {
+    const value = roundValue(start + size * i)
+    if (direction > 0 ? value > end + 1e-9 : value < end - 1e-9) break
+    values.push(value)
+    if (values.length > MAX_SWEEP_CELLS) throw new Error(`Range ${start}-${end} has too many values`)
+  }
+  return values
+}
+
+/**
+ * Values typed for an axis, comma separated. Numeric axes also take ranges:
+ * `4-8` (step 1), `4-8 (+0.5)` or `4-8 [5]` (five evenly spaced values).
+ */
+export function parseSweepValues(text: string, numeric: boolean): Array<number | string> {
+  const tokens = text.split(',').map((token) => token.trim()).filter(Boolean)
+  if (!numeric) return tokens
+
+  const values: Array<number> = []
+  for (const token of tokens) {
+    const range = RANGE.exec(token)
+    if (range) {
+      const start = Number(range[1])
+      const end = Number(range[2])
+      if (range[4]) {
+        const count = Number(range[4])
+        if (count < 1) throw new Error(`Invalid value count in "${token}"`)
+        values.push(...(count === 1 ? [start] : Array.from({ length: count }, (_, i) => roundValue(start + ((end - start) * i) / (count - 1)))))
+      } else {
+        values.push(...expandRange(start, end, range[3] ? Number(range[3]) : 1))
+      }
+      continue
+    }
+    const value = Number(token)
+    if (!Number.isFinite(value)) throw new Error(`"${token}" is not a number`)
+    values.push(value)
+  }
+  return values
+}
+
+/** Columns, rows and pages of the grid */
+export function sweepDimensions(axes: Array<SweepAxis>): SweepCellIndex {
+  return [0, 1, 2].map((i) => axes[i]?.values.length ?? 1) as SweepCellIndex
+}
+
+/** Throws when the sweep can't be run: too many axes or cells, unknown, empty or repeated axes */
+export function validateSweep(axes: Array<SweepAxis>) {
+  if (axes.length === 0) throw new Error('Add at least one axis')
+  if (axes.length > MAX_SWEEP_AXES) throw new Error(`A sweep has at most ${MAX_SWEEP_AXES} axes`)
+  const seen = new Set<string>()
+  for (const axis of axes) {
+    if (!axis.key) throw new Error('Every axis needs a parameter or placeholder')
+    if (axis.kind === 'parameter' && !isNumericSweepKey(axis.key) && !(SWEEP_STRING_KEYS as ReadonlyArray<string>).includes(axis.key)) {
+      throw new Error(`"${axis.key}" can't be swept`)
+    }
+    if (axis.values.length === 0) throw new Error(`Axis "${axis.key}" has no values`)
+    const id = `${axis.kind}:${axis.key}`
+    if (seen.has(id)) throw new Error(`"${axis.key}" is used by more than one axis`)
+    seen.add(id)
+  }
+  const [x, y, z] = sweepDimensions(axes)
+  if (x * y * z > MAX_SWEEP_CELLS) {
+    throw new Error(`A sweep is limited to ${MAX_SWEEP_CELLS} images (this one has ${x * y * z})`)
+  }
+}
+
+/** Every combination of axis values, page by page, row by row */
+export function expandSweep(axes: Array<SweepAxis>): Array<SweepCell> {
+  validateSweep(axes)
+  const [nx, ny, nz] = sweepDimensions(axes)
+  const cells: Array<SweepCell> = []
+  for (let z = 0; z < nz; z++) {
+    for (let y = 0; y < ny; y++) {
+      for (let x = 0; x < nx; x++) {
+        const index: SweepCellIndex = [x, y, z]
+        const cell: SweepCell = { index, parameters: {}, placeholders: {} }
+        axes.forEach((axis, i) => {
+          const value = axis.values[index[i]]
+          if (axis.kind === 'parameter') cell.parameters[axis.key] = value
+          else cell.placeholders[axis.key] = String(value)
+        })
+        cells.push(cell)
+      }
+    }
+  }
+  return cells
+}
+
+/** Grid label for one value of an axis, e.g. `scale: 5.5` */
+export function sweepValueLabel(axis: SweepAxis, valueIndex: number): string {
+  return `${axis.key}: ${axis.values[valueIndex]}`
+}
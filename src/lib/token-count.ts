@@ -0,0 +1,64 @@
+/** NAI V4 reads at most 512 T5 tokens — base caption and character captions combined */
+export const NAI_TOKEN_LIMIT = 512
+
+// Weight syntax and emphasis brackets are stripped by NAI before encoding
+const WEIGHT_RE = /-?\d+(?:\.\d+)?::|::/g
+const EMPHASIS_RE = /[{}[\]]/g
+// Word pieces, digit runs, single symbols, single non-Latin characters
+const PIECE_RE = /[A-Za-z]+|\d+|[^\sA-Za-z\d]/g
+
+// Whole-word vocabulary entries cover most short words; longer words split into pieces
+const LETTERS_PER_TOKEN = 6
+const DIGITS_PER_TOKEN = 2
+
+/**
+ * Rough offline estimate of T5 SentencePiece token counts — no vocabulary is shipped,
+ * so real counts can differ either way. Only for hints and warnings, never to reject a prompt.
+ * Counts the trailing </s> token, so any non-empty caption is at least 2 tokens.
+ */
+export function estimateTokens(text: string): number {
+  const stripped = text.replace(WEIGHT_RE, ' ').replace(EMPHASIS_RE, ' ')
+  let count = 0
+  for (const [piece] of stripped.matchAll(PIECE_RE)) {
+    if (/^[A-Za-z]/.test(piece)) count += Math.ceil(piece.length / LETTERS_PER_TOKEN)
+    else if (/^\d/.test(piece)) count += Math.ceil(piece.length / DIGITS_PER_TOKEN)
+    else count += 1
+  }
+  return count > 0 ? count + 1 : 0
+}
+
+export interface PromptTokenEstimate {
+  general: number
+  negative: number
+  characters: Array<{ name: string; prompt: number; negative: number }>
+  /** Base caption plus every character caption — what NAI_TOKEN_LIMIT applies to */
+  total: number
+  negativeTotal: number
+  /** The estimate passes the limit — the real count may not */
+  overLimit: boolean
+}
+
+/** Per-field token estimates for one scene's resolved prompts */
+export function estimatePromptTokens(prompts: {
+  generalPrompt: string
+  negativePrompt: string
+  characterPrompts: Array<{ name: string; prompt: string; negative: string }>
+}): PromptTokenEstimate {
+  const general = estimateTokens(prompts.generalPrompt)
+  const negative = estimateTokens(prompts.negativePrompt)
+  const characters = prompts.characterPrompts.map((c) => ({
+    name: c.name,
+    prompt: estimateTokens(c.prompt),
+    negative: estimateTokens(c.negative),
+  }))
+  const total = general + characters.reduce((sum, c) => sum + c.prompt, 0)
+  const negativeTotal = negative + characters.reduce((sum, c) => sum + c.negative, 0)
+  return {
+    general,
+    negative,
+    characters,
+    total,
+    negativeTotal,
+    overLimit: total > NAI_TOKEN_LIMIT || negativeTotal > NAI_TOKEN_LIMIT,
+  }
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query'
+import { getAnlasBalance } from '@/server/functions/settings'
+
+/** Live Anlas balance of the saved API key; null while loading or when unavailable */
+export function useAnlasBalance() {
+  const { data, refetch } = useQuery({
+    queryKey: ['anlasBalance'],
+    queryFn: () => getAnlasBalance(),
+    staleTime: 30_000,
+  })
+
+  return {
+    balance: data ?? null,
+    refresh: async () => (await refetch()).data ?? null,
+  }
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react'
+import { PROGRESS_STREAM_PATH } from './progress-events'
+import type { ProgressEvent } from './progress-events'
+
+interface ProgressStreamOptions {
+  /** Subscribe (or poll) only while true, e.g. while this page has jobs running */
+  enabled: boolean
+  /** Reloads the page's job state; runs after every event and on each fallback poll */
+  refresh: () => Promise<unknown> | void
+  /** Sees each event before the refresh, e.g. to show a new image right away */
+  onEvent?: (event: ProgressEvent) => void
+  /** Poll interval while the stream is not connected */
+  pollIntervalMs?: number
+}
+
+/**
+ * Live generation progress: refreshes when the server pushes a progress event,
+ * and polls instead whenever the event stream is down or reconnecting.
+ */
+export function useProgressStream({ enabled, refresh, onEvent, pollIntervalMs = 2000 }: ProgressStreamOptions) {
+  const refreshRef = useRef(refresh)
+  refreshRef.current = refresh
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    let refreshing = false
+    let refreshAgain = false
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+
+    // Refreshes never overlap; events that arrive during one trigger a single follow-up
+    async function runRefresh() {
+      if (refreshing) {
+        refreshAgain = true
+        return
+      }
+      refreshing = true
+      try {
+        await refreshRef.current()
+      } catch {
+        // ignore refresh errors
+      } finally {
+        refreshing = false
+      }
+      if (refreshAgain && !cancelled) {
+        refreshAgain = false
+        runRefresh()
+      }
+    }
+
+    function startPolling() {
+      pollTimer ??= setInterval(() => {
+        if (!cancelled) runRefresh()
+      }, pollIntervalMs)
+    }
+
+    function stopPolling() {
+      if (pollTimer != null) clearInterval(pollTimer)
+      pollTimer = null
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+      return () => {
+        cancelled = true
+        stopPolling()
+      }
+    }
+
+    // Poll until the stream is open; EventSource reconnects by itself after a drop
+    startPolling()
+    const source = new EventSource(PROGRESS_STREAM_PATH)
+    source.onopen = () => {
+      stopPolling()
+      // Catch up on anything missed while disconnected
+      runRefresh()
+    }
+    source.onerror = () => startPolling()
+    source.onmessage = (message) => {
+      let event: ProgressEvent
+      try {
+        event = JSON.parse(message.data)
+      } catch {
+        return
+      }
+      onEventRef.current?.(event)
+      runRefresh()
+    }
+
+    return () => {
+      cancelled = true
+      source.close()
+      stopPolling()
+    }
+  }, [enabled, pollIntervalMs])
+}
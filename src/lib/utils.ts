@@ -16,3 +16,15 @@ export function useStableArray<T>(arr: T[]): T[] {
   }
   return ref.current
 }
+
+export function useStableRecord<T>(record: Record<string, T>): Record<string, T> {
+  const ref = useRef(record)
+  const keys = Object.keys(record)
+  if (
+    keys.length !== Object.keys(ref.current).length ||
+    keys.some((key) => !(key in ref.current) || record[key] !== ref.current[key])
+  ) {
+    ref.current = record
+  }
+  return ref.current
+}
@@ -0,0 +1,109 @@
+/**
+ * "More like this": new images close to an existing one. Each variation keeps
+ * the image's prompts and parameters and changes one thing — the seed, a few
+ * tags of the general prompt, or the sampler.
+ */
+
+import { MAX_SEED } from './seed-strategy'
+import { splitPromptTags } from './normalize'
+
+export type VariationMode = 'seed' | 'tags' | 'sampler'
+
+export const VARIATION_MODES: ReadonlyArray<VariationMode> = ['seed', 'tags', 'sampler']
+export const MAX_VARIATIONS = 16
+
+export interface VariationPlan {
+  seed: number
+  /** Replacement general prompt (tags mode) */
+  generalPrompt?: string
+  /** Replacement sampler (sampler mode) */
+  sampler?: string
+  /** What this variation changed, e.g. `seed 1235` or `-smile, 1.2::red hair::` */
+  change: string
+}
+
+// Chance per tag of being dropped or reweighted in tags mode
+const DROP_CHANCE = 0.15
+const REWEIGHT_CHANCE = 0.2
+const WEIGHTS = [0.7, 0.8, 0.9, 1.1, 1.2, 1.3]
+
+/** Seeds next to `seed`, alternating above and below: +1, -1, +2, -2, … */
+export function nearbySeeds(seed: number, count: number): Array<number> {
+  return Array.from({ length: count }, (_, i) => {
+    const offset = Math.floor(i / 2) + 1
+    const next = seed + (i % 2 === 0 ? offset : -offset)
+    return ((next % (MAX_SEED + 1)) + MAX_SEED + 1) % (MAX_SEED + 1)
+  })
+}
+
+// Emphasis, weight groups and wildcards keep their own weighting; only plain tags get a new one
+function isPlainTag(tag: string): boolean {
+  return !/::|[{}[\]()|]/.test(tag)
+}
+
+/**
+ * Drop or reweight a few top-level tags of the prompt (as `1.2::tag::`). At
+ * least one tag changes and at least one tag is kept.
+ */
+export function perturbPrompt(prompt: string, random: () => number): { prompt: string; changes: Array<string> } {
+  const tags = splitPromptTags(prompt).map((tag) => tag.trim()).filter(Boolean)
+  if (tags.length === 0) return { prompt, changes: [] }
+
+  const result: Array<string | null> = [...tags]
+  const changes: Array<string> = []
+  const drop = (i: number) => {
+    result[i] = null
+    changes.push(`-${tags[i]}`)
+  }
+  const reweight = (i: number) => {
+    const weight = WEIGHTS[Math.floor(random() * WEIGHTS.length)]
+    result[i] = `${weight}::${tags[i]}::`
+    changes.push(result[i])
+  }
+
+  tags.forEach((tag, i) => {
+    const roll = random()
+    if (roll < DROP_CHANCE && result.filter(Boolean).length > 1) drop(i)
+    else if (roll < DROP_CHANCE + REWEIGHT_CHANCE && isPlainTag(tag)) reweight(i)
+  })
+
+  if (changes.length === 0) {
+    const i = Math.floor(random() * tags.length)
+    if (isPlainTag(tags[i])) reweight(i)
+    else if (tags.length > 1) drop(i)
+  }
+
+  return { prompt: result.filter((tag) => tag !== null).join(', '), changes }
+}
+
+/**
+ * What each of the `count` variations changes. Tags and sampler variations keep
+ * the image's seed; sampler variations are capped at the samplers offered.
+ */
+export function planVariations(input: {
+  mode: VariationMode
+  count: number
+  seed: number
+  generalPrompt: string
+  sampler?: string
+  samplers?: Array<string>
+  random: () => number
+}): Array<VariationPlan> {
+  const count = Math.min(Math.max(Math.floor(input.count), 1), MAX_VARIATIONS)
+  switch (input.mode) {
+    case 'seed':
+      return nearbySeeds(input.seed, count).map((seed) => ({ seed, change: `seed ${seed}` }))
+    case 'tags':
+      return Array.from({ length: count }, () => {
+        const { prompt, changes } = perturbPrompt(input.generalPrompt, input.random)
+        return { seed: input.seed, generalPrompt: prompt, change: changes.join(', ') }
+      })
+    case 'sampler': {
+      const samplers = [...new Set(input.samplers ?? [])].filter((s) => s && s !== input.sampler)
+      if (samplers.length === 0) throw new Error('Choose at least one other sampler')
+      return samplers.slice(0, count).map((sampler) => ({ seed: input.seed, sampler, change: sampler }))
+    }
+    default:
+      throw new Error(`Unknown variation mode "${String(input.mode)}"`)
+  }
+}
@@ -0,0 +1,65 @@
+// {red|blue|green} — one option picked per image. Requires at least one `|`,
+// so plain NAI emphasis braces like {masterpiece} are left untouched.
+// Only innermost groups match; nested groups resolve from the inside out.
+const WILDCARD_RE = /\{([^{}]*\|[^{}]*)\}/
+
+// Weighted option: {3::red|blue}. A leading `N::` only counts as a choice
+// weight when no other `::` follows, so {1.2::red hair::|blue} keeps the
+// NAI weight group intact.
+const WEIGHTED_OPTION_RE = /^\s*(\d+(?:\.\d+)?)::(?![\s\S]*::)([\s\S]*)$/
+
+export interface WildcardOption {
+  text: string
+  weight: number
+}
+
+export interface WildcardChoice {
+  /** The wildcard group as written, e.g. `{red|blue}` */
+  source: string
+  /** The option that was picked */
+  choice: string
+}
+
+export function hasWildcards(template: string): boolean {
+  return WILDCARD_RE.test(template)
+}
+
+export function parseWildcardOptions(body: string): Array<WildcardOption> {
+  return body.split('|').map((raw) => {
+    const weighted = raw.match(WEIGHTED_OPTION_RE)
+    if (weighted) {
+      return { text: weighted[2].trim(), weight: Number(weighted[1]) }
+    }
+    return { text: raw.trim(), weight: 1 }
+  })
+}
+
+export function pickWeighted(
+  options: Array<WildcardOption>,
+  random: () => number = Math.random,
+): WildcardOption {
+  const total = options.reduce((sum, o) => sum + Math.max(0, o.weight), 0)
+  if (total <= 0) return options[Math.floor(random() * options.length)]
+
+  let roll = random() * total
+  for (const option of options) {
+    roll -= Math.max(0, option.weight)
+    if (roll < 0) return option
+  }
+  return options[options.length - 1]
+}
+
+export function resolveWildcards(
+  template: string,
+  random: () => number = Math.random,
+): { text: string; choices: Array<WildcardChoice> } {
+  const choices: Array<WildcardChoice> = []
+  let text = template
+  let match
+  while ((match = text.match(WILDCARD_RE)) !== null) {
+    const picked = pickWeighted(parseWildcardOptions(match[1]), random)
+    choices.push({ source: match[0], choice: picked.text })
+    text = text.slice(0, match.index) + picked.text + text.slice(match.index! + match[0].length)
+  }
+  return { text, choices }
+}
@@ -11,11 +11,13 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as SettingsIndexRouteImport } from './routes/settings/index'
+import { Route as QueueIndexRouteImport } from './routes/queue/index'
 import { Route as MetadataIndexRouteImport } from './routes/metadata/index'
 import { Route as GenerateIndexRouteImport } from './routes/generate/index'
 import { Route as GalleryIndexRouteImport } from './routes/gallery/index'
 import { Route as BundlesIndexRouteImport } from './routes/bundles/index'
 import { Route as GalleryImageIdRouteImport } from './routes/gallery/$imageId'
+import { Route as ApiEventsRouteImport } from './routes/api/events'
 import { Route as WorkspaceProjectIdRouteRouteImport } from './routes/workspace/$projectId/route'
 import { Route as WorkspaceProjectIdIndexRouteImport } from './routes/workspace/$projectId/index'
 import { Route as WorkspaceProjectIdScenesSceneIdRouteImport } from './routes/workspace/$projectId/scenes/$sceneId'
@@ -30,6 +32,11 @@ const SettingsIndexRoute = SettingsIndexRouteImport.update({
   path: '/settings/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const QueueIndexRoute = QueueIndexRouteImport.update({
+  id: '/queue/',
+  path: '/queue/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const MetadataIndexRoute = MetadataIndexRouteImport.update({
   id: '/metadata/',
   path: '/metadata/',
@@ -55,6 +62,11 @@ const GalleryImageIdRoute = GalleryImageIdRouteImport.update({
   path: '/gallery/$imageId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiEventsRoute = ApiEventsRouteImport.update({
+  id: '/api/events',
+  path: '/api/events',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const WorkspaceProjectIdRouteRoute = WorkspaceProjectIdRouteRouteImport.update({
   id: '/workspace/$projectId',
   path: '/workspace/$projectId',
@@ -75,22 +87,26 @@ const WorkspaceProjectIdScenesSceneIdRoute =
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/workspace/$projectId': typeof WorkspaceProjectIdRouteRouteWithChildren
+  '/api/events': typeof ApiEventsRoute
   '/gallery/$imageId': typeof GalleryImageIdRoute
   '/bundles/': typeof BundlesIndexRoute
   '/gallery/': typeof GalleryIndexRoute
   '/generate/': typeof GenerateIndexRoute
   '/metadata/': typeof MetadataIndexRoute
+  '/queue/': typeof QueueIndexRoute
   '/settings/': typeof SettingsIndexRoute
   '/workspace/$projectId/': typeof WorkspaceProjectIdIndexRoute
   '/workspace/$projectId/scenes/$sceneId': typeof WorkspaceProjectIdScenesSceneIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/api/events': typeof ApiEventsRoute
   '/gallery/$imageId': typeof GalleryImageIdRoute
   '/bundles': typeof BundlesIndexRoute
   '/gallery': typeof GalleryIndexRoute
   '/generate': typeof GenerateIndexRoute
   '/metadata': typeof MetadataIndexRoute
+  '/queue': typeof QueueIndexRoute
   '/settings': typeof SettingsIndexRoute
   '/workspace/$projectId': typeof WorkspaceProjectIdIndexRoute
   '/workspace/$projectId/scenes/$sceneId': typeof WorkspaceProjectIdScenesSceneIdRoute
@@ -99,11 +115,13 @@ export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/workspace/$projectId': typeof WorkspaceProjectIdRouteRouteWithChildren
+  '/api/events': typeof ApiEventsRoute
   '/gallery/$imageId': typeof GalleryImageIdRoute
   '/bundles/': typeof BundlesIndexRoute
   '/gallery/': typeof GalleryIndexRoute
   '/generate/': typeof GenerateIndexRoute
   '/metadata/': typeof MetadataIndexRoute
+  '/queue/': typeof QueueIndexRoute
   '/settings/': typeof SettingsIndexRoute
   '/workspace/$projectId/': typeof WorkspaceProjectIdIndexRoute
   '/workspace/$projectId/scenes/$sceneId': typeof WorkspaceProjectIdScenesSceneIdRoute
@@ -113,22 +131,26 @@ export interface FileRouteTypes {
   fullPaths:
     | '/'
     | '/workspace/$projectId'
+    | '/api/events'
     | '/gallery/$imageId'
     | '/bundles/'
     | '/gallery/'
     | '/generate/'
     | '/metadata/'
+    | '/queue/'
     | '/settings/'
     | '/workspace/$projectId/'
     | '/workspace/$projectId/scenes/$sceneId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/api/events'
     | '/gallery/$imageId'
     | '/bundles'
     | '/gallery'
     | '/generate'
     | '/metadata'
+    | '/queue'
     | '/settings'
     | '/workspace/$projectId'
     | '/workspace/$projectId/scenes/$sceneId'
@@ -136,11 +158,13 @@ export interface FileRouteTypes {
     | '__root__'
     | '/'
     | '/workspace/$projectId'
+    | '/api/events'
     | '/gallery/$imageId'
     | '/bundles/'
     | '/gallery/'
     | '/generate/'
     | '/metadata/'
+    | '/queue/'
     | '/settings/'
     | '/workspace/$projectId/'
     | '/workspace/$projectId/scenes/$sceneId'
@@ -149,11 +173,13 @@ export interface FileRouteTypes {
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   WorkspaceProjectIdRouteRoute: typeof WorkspaceProjectIdRouteRouteWithChildren
+  ApiEventsRoute: typeof ApiEventsRoute
   GalleryImageIdRoute: typeof GalleryImageIdRoute
   BundlesIndexRoute: typeof BundlesIndexRoute
   GalleryIndexRoute: typeof GalleryIndexRoute
   GenerateIndexRoute: typeof GenerateIndexRoute
   MetadataIndexRoute: typeof MetadataIndexRoute
+  QueueIndexRoute: typeof QueueIndexRoute
   SettingsIndexRoute: typeof SettingsIndexRoute
 }
 
@@ -173,6 +199,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SettingsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/queue/': {
+      id: '/queue/'
+      path: '/queue'
+      fullPath: '/queue/'
+      preLoaderRoute: typeof QueueIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/metadata/': {
       id: '/metadata/'
       path: '/metadata'
@@ -208,6 +241,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof GalleryImageIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/events': {
+      id: '/api/events'
+      path: '/api/events'
+      fullPath: '/api/events'
+      preLoaderRoute: typeof ApiEventsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/workspace/$projectId': {
       id: '/workspace/$projectId'
       path: '/workspace/$projectId'
@@ -251,11 +291,13 @@ const WorkspaceProjectIdRouteRouteWithChildren =
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   WorkspaceProjectIdRouteRoute: WorkspaceProjectIdRouteRouteWithChildren,
+  ApiEventsRoute: ApiEventsRoute,
   GalleryImageIdRoute: GalleryImageIdRoute,
   BundlesIndexRoute: BundlesIndexRoute,
   GalleryIndexRoute: GalleryIndexRoute,
   GenerateIndexRoute: GenerateIndexRoute,
   MetadataIndexRoute: MetadataIndexRoute,
+  QueueIndexRoute: QueueIndexRoute,
   SettingsIndexRoute: SettingsIndexRoute,
 }
 export const routeTree = rootRouteImport
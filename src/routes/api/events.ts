@@ -0,0 +1,10 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { progressEventStream } from '@/server/api/progress-events'
+
+export const Route = createFileRoute('/api/events')({
+  server: {
+    handlers: {
+      GET: ({ request }) => progressEventStream(request),
+    },
+  },
+})
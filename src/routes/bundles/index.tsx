@@ -1,5 +1,5 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { lazy, Suspense, useState, useEffect, useRef, useCallback } from 'react'
+import { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { HugeiconsIcon } from '@hugeicons/react'
 import {
@@ -9,6 +9,7 @@ import {
   Search01Icon,
   Image02Icon,
 } from '@hugeicons/core-free-icons'
+import type { BundleTreeNode } from '@/lib/bundle'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -19,6 +20,12 @@ import { ConfirmDialog } from '@/components/common/confirm-dialog'
 import { PageHeader } from '@/components/common/page-header'
 import { useTranslation } from '@/lib/i18n'
 import { useBundleNames } from '@/lib/use-bundles'
+import {
+  buildBundleTree,
+  extractBundleParameters,
+  formatBundleSignature,
+  resolveBundlesWithUsage,
+} from '@/lib/bundle'
 import {
   listBundles,
   getBundle,
@@ -213,6 +220,37 @@ function BundlesPage() {
     toast.success(t('common.copied'))
   }
 
+  const signature = useMemo(
+    () => formatBundleSignature(extractBundleParameters(editContent)),
+    [editContent],
+  )
+
+  // Other bundles from the server, with the one being edited swapped for local edits
+  const editorBundleMap = useMemo(() => {
+    const map: Record<string, string> = {}
+    for (const b of bundleNamesForEditor) map[b.name] = b.content
+    if (detail) {
+      delete map[detail.name]
+      map[editName.trim()] = editContent
+    }
+    return map
+  }, [bundleNamesForEditor, detail, editName, editContent])
+
+  const dependencyTree = useMemo(
+    () => (detail ? buildBundleTree(editContent, editorBundleMap, [editName.trim()]) : []),
+    [detail, editContent, editorBundleMap, editName],
+  )
+
+  const expansion = useMemo(() => {
+    if (dependencyTree.length === 0) return null
+    try {
+      const { text } = resolveBundlesWithUsage(editContent, editorBundleMap, [editName.trim()])
+      return { text, error: null }
+    } catch (err) {
+      return { text: '', error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [dependencyTree, editContent, editorBundleMap, editName])
+
   const filtered = search
     ? bundles.filter((b) => b.name.toLowerCase().includes(search.toLowerCase()))
     : bundles
@@ -356,18 +394,26 @@ function BundlesPage() {
               </div>
 
               {/* Usage hint */}
-              <div className="flex items-center gap-2">
-                <code className="text-xs bg-secondary/50 px-2 py-1 rounded font-mono">
-                  @{'{' + detail.name + '}'}
-                </code>
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  onClick={() => handleCopyUsage(detail.name)}
-                  title={t('common.copied')}
-                >
-                  <HugeiconsIcon icon={Copy01Icon} className="size-4" />
-                </Button>
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <code className="text-xs bg-secondary/50 px-2 py-1 rounded font-mono">
+                    @{'{' + detail.name + signature + '}'}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleCopyUsage(detail.name)}
+                    title={t('common.copied')}
+                  >
+                    <HugeiconsIcon icon={Copy01Icon} className="size-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('bundles.randomHint')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {t('bundles.parameterHint')}
+                </p>
               </div>
 
               <Separator />
@@ -386,6 +432,32 @@ function BundlesPage() {
                 />
               </div>
 
+              {/* Nested bundles: expanded preview + dependency tree */}
+              {expansion && (
+                <div className="space-y-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-sm text-muted-foreground uppercase tracking-wider">
+                      {t('bundles.expandedPreview')}
+                    </Label>
+                    {expansion.error ? (
+                      <p className="text-sm text-destructive bg-destructive/10 p-2 rounded-md font-mono">
+                        {expansion.error}
+                      </p>
+                    ) : (
+                      <p className="text-sm font-mono text-foreground/80 whitespace-pre-wrap bg-secondary/50 p-2 rounded-md max-h-40 overflow-y-auto">
+                        {expansion.text}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-sm text-muted-foreground uppercase tracking-wider">
+                      {t('bundles.dependencies')}
+                    </Label>
+                    <BundleTreeList nodes={dependencyTree} />
+                  </div>
+                </div>
+              )}
+
               <Separator />
 
               {/* Linked images */}
@@ -452,3 +524,36 @@ function BundlesPage() {
     </div>
   )
 }
+
+// ─── Dependency tree of nested bundle references ────────────────────────────
+
+function BundleTreeList({ nodes }: { nodes: Array<BundleTreeNode> }) {
+  const { t } = useTranslation()
+  return (
+    <ul className="space-y-0.5 text-sm font-mono">
+      {nodes.map((node) => (
+        <li key={node.name}>
+          <div className="flex items-center gap-1.5">
+            <span className={node.missing || node.cycle ? 'text-destructive' : 'text-foreground/80'}>
+              @{'{' + node.name + '}'}
+            </span>
+            {node.random && (
+              <Badge variant="secondary" className="text-[10px] h-4 px-1.5">{t('bundles.randomBadge')}</Badge>
+            )}
+            {node.missing && (
+              <Badge variant="destructive" className="text-[10px] h-4 px-1.5">{t('bundles.missingBadge')}</Badge>
+            )}
+            {node.cycle && (
+              <Badge variant="destructive" className="text-[10px] h-4 px-1.5">{t('bundles.cycleBadge')}</Badge>
+            )}
+          </div>
+          {node.children.length > 0 && (
+            <div className="pl-4 border-l border-border ml-1.5 mt-0.5">
+              <BundleTreeList nodes={node.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
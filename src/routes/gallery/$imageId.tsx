@@ -9,6 +9,9 @@ import { Badge } from '@/components/ui/badge'
 import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
 import { ConfirmDialog } from '@/components/common/confirm-dialog'
+import { InpaintDialog } from '@/components/gallery/inpaint-dialog'
+import { VariationsSection } from '@/components/gallery/variations-section'
+import { NumberStepper } from '@/components/ui/number-stepper'
 import {
   getImageDetailPage,
   updateImage,
@@ -16,10 +19,13 @@ import {
   removeTag,
   bulkUpdateImages,
 } from '@/server/functions/gallery'
+import { createInpaintJob, rerunInpaintJob } from '@/server/functions/generation'
 import { updateProjectScene } from '@/server/functions/project-scenes'
 import { updateProject } from '@/server/functions/projects'
 import { parseNAIMetadata, getUcPresetLabel } from '@/lib/nai-metadata'
 import type { NAIMetadata } from '@/lib/nai-metadata'
+import { BACKEND_LABELS, resolveBackendId } from '@/lib/generation-backend'
+import { withoutJobSnapshot } from '@/lib/job-snapshot'
 import { Skeleton } from '@/components/ui/skeleton'
 import { useTranslation } from '@/lib/i18n'
 
@@ -143,6 +149,8 @@ function ImageDetailPage() {
 
   const [detail, setDetail] = useState(data)
   const [memo, setMemo] = useState(data.memo || '')
+  const [inpaintOpen, setInpaintOpen] = useState(false)
+  const [rerunCount, setRerunCount] = useState(4)
   const [newTag, setNewTag] = useState('')
   const [refExpanded, setRefExpanded] = useState(false)
   const [naiExpanded, setNaiExpanded] = useState(false)
@@ -249,6 +257,46 @@ function ImageDetailPage() {
     }
   }
 
+  function handleImg2Img() {
+    // Quick generate keeps its own backend, seed settings and references
+    let parameters: Record<string, unknown> | undefined
+    if (meta?.parameters) {
+      const { backend: _, ...editable } = withoutJobSnapshot(meta.parameters)
+      parameters = editable
+    }
+    navigate({
+      to: '/generate',
+      state: {
+        generalPrompt: meta?.prompts?.generalPrompt,
+        negativePrompt: meta?.prompts?.negativePrompt,
+        characterPrompts: meta?.prompts?.characterPrompts,
+        parameters,
+        sourceImageId: detail.id,
+        sourceImagePath: detail.filePath,
+      } as any,
+    })
+  }
+
+  async function handleInpaint(input: { maskData: string; count: number; strength: number }) {
+    try {
+      await createInpaintJob({ data: { imageId: detail.id, ...input } })
+      toast.success(t('generation.generationStarted', { count: input.count }))
+    } catch (err) {
+      toast.error(t('generation.generationFailed'))
+      throw err
+    }
+  }
+
+  async function handleRerunInpaint() {
+    if (!detail.jobId) return
+    try {
+      await rerunInpaintJob({ data: { jobId: detail.jobId, count: rerunCount } })
+      toast.success(t('generation.generationStarted', { count: rerunCount }))
+    } catch {
+      toast.error(t('generation.generationFailed'))
+    }
+  }
+
   async function handleToggleNai() {
     const willExpand = !naiExpanded
     setNaiExpanded(willExpand)
@@ -406,8 +454,103 @@ function ImageDetailPage() {
           </>
         )}
 
-        {/* Favorite */}
-        <div className="mb-4">
+        {/* Lineage (img2img source and derived images) */}
+        {(detail.lineage.parent || detail.lineage.sourceImagePath || detail.lineage.children.length > 0) && (
+          <>
+            <div className="mb-4 space-y-3">
+              <label className="text-sm text-muted-foreground block">
+                {t('imageDetail.lineage')}
+              </label>
+              {(detail.lineage.parent || detail.lineage.sourceImagePath) && (
+                <div>
+                  <span className="text-xs text-muted-foreground block mb-1">{t('imageDetail.sourceImage')}</span>
+                  <div className="flex gap-1">
+                    {detail.lineage.parent ? (
+                      <Link
+                        to="/gallery/$imageId"
+                        params={{ imageId: String(detail.lineage.parent.id) }}
+                        className="block size-16 rounded-md overflow-hidden bg-secondary/30 hover:ring-2 hover:ring-primary transition-shadow"
+                      >
+                        {detail.lineage.parent.thumbnailPath && (
+                          <img
+                            src={`/api/thumbnails/${detail.lineage.parent.thumbnailPath.replace('data/thumbnails/', '')}`}
+                            alt=""
+                            className="size-full object-cover"
+                          />
+                        )}
+                      </Link>
+                    ) : (
+                      <img
+                        src={`/api/sources/${detail.lineage.sourceImagePath!.replace('data/sources/', '')}`}
+                        alt=""
+                        className="size-16 rounded-md object-cover bg-secondary/30"
+                        title={t('imageDetail.uploadedSource')}
+                      />
+                    )}
+                    {detail.lineage.maskPath && (
+                      <img
+                        src={`/api/sources/${detail.lineage.maskPath.replace('data/sources/', '')}`}
+                        alt=""
+                        className="size-16 rounded-md object-cover bg-secondary/30"
+                        title={t('imageDetail.inpaintMask')}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+              {detail.lineage.children.length > 0 && (
+                <div>
+                  <span className="text-xs text-muted-foreground block mb-1">
+                    {t('imageDetail.derivedImages', { count: detail.lineage.children.length })}
+                  </span>
+                  <div className="grid grid-cols-4 gap-1">
+                    {detail.lineage.children.map((child) => (
+                      <Link
+                        key={child.id}
+                        to="/gallery/$imageId"
+                        params={{ imageId: String(child.id) }}
+                        className="aspect-square rounded-md overflow-hidden bg-secondary/30 hover:ring-2 hover:ring-primary transition-shadow"
+                      >
+                        {child.thumbnailPath && (
+                          <img
+                            src={`/api/thumbnails/${child.thumbnailPath.replace('data/thumbnails/', '')}`}
+                            alt=""
+                            className="size-full object-cover"
+                          />
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <Separator className="mb-4" />
+          </>
+        )}
+
+        {/* Image to image / Inpaint / Favorite */}
+        <div className="mb-4 space-y-2">
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleImg2Img} className="flex-1">
+              {t('imageDetail.img2img')}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setInpaintOpen(true)} className="flex-1">
+              {t('imageDetail.inpaint')}
+            </Button>
+          </div>
+          {detail.lineage.maskPath && (
+            <div className="flex items-center gap-2">
+              <NumberStepper
+                value={rerunCount}
+                onChange={(v) => setRerunCount(Math.max(1, v ?? 1))}
+                min={1}
+                max={100}
+              />
+              <Button size="sm" variant="outline" onClick={handleRerunInpaint} className="flex-1">
+                {t('imageDetail.rerunInpaint')}
+              </Button>
+            </div>
+          )}
           <Button
             size="sm"
             variant={detail.isFavorite ? 'default' : 'outline'}
@@ -418,6 +561,20 @@ function ImageDetailPage() {
           </Button>
         </div>
 
+        {/* Variations ("more like this") */}
+        {(meta?.prompts || detail.variations.origin || detail.variations.sets.length > 0) && (
+          <>
+            <Separator className="mb-4" />
+            <VariationsSection
+              image={detail}
+              sampler={meta?.parameters?.sampler}
+              initialSets={detail.variations.sets}
+              origin={detail.variations.origin}
+            />
+            <Separator className="mb-4" />
+          </>
+        )}
+
         {/* Rating */}
         <div className="mb-4">
           <label className="text-sm text-muted-foreground mb-1.5 block">
@@ -527,6 +684,7 @@ function ImageDetailPage() {
                 </label>
                 <div className="text-sm space-y-1 text-muted-foreground">
                   <p>{t('imageDetail.seed')}: {detail.seed ?? 'N/A'}</p>
+                  <p>{t('imageDetail.backend')}: {BACKEND_LABELS[resolveBackendId(detail)]}</p>
                   <p>
                     {t('imageDetail.created')}: {new Date(detail.createdAt!).toLocaleString()}
                   </p>
@@ -566,6 +724,65 @@ function ImageDetailPage() {
                 </div>
               )}
 
+              {meta?.bundlePicks?.length > 0 && (
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1.5 block">
+                    {t('imageDetail.bundlePicks')}
+                  </label>
+                  <div className="text-sm space-y-0.5">
+                    {meta.bundlePicks.map((p: { field: string; name: string; lines: Array<string> }, i: number) => (
+                      <p key={i} className="font-mono text-xs">
+                        <span className="text-muted-foreground">@{'{' + p.name + '}'}</span>
+                        {' \u2192 '}
+                        <span className="text-foreground/80">{p.lines.join(', ') || '\u2205'}</span>
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {meta?.wildcards?.length > 0 && (
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1.5 block">
+                    {t('imageDetail.wildcards')}
+                  </label>
+                  <div className="text-sm space-y-0.5">
+                    {meta.wildcards.map((w: { field: string; source: string; choice: string }, i: number) => (
+                      <p key={i} className="font-mono text-xs">
+                        <span className="text-muted-foreground">{w.source}</span>
+                        {' \u2192 '}
+                        <span className="text-foreground/80">{w.choice || '\u2205'}</span>
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {meta?.parameters?.characterReferences?.length > 0 && (
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1.5 block">
+                    {t('imageDetail.characterReferences')}
+                  </label>
+                  <div className="space-y-1">
+                    {meta.parameters.characterReferences.map(
+                      (r: { characterId: number; name: string; filePath: string; strength: number; fidelity: number; styleAware: boolean }) => (
+                        <div key={r.characterId} className="flex items-center gap-2">
+                          <img
+                            src={`/api/references/${r.filePath.replace('data/references/', '')}`}
+                            alt=""
+                            className="size-8 rounded object-cover bg-secondary/30"
+                          />
+                          <span className="text-sm truncate flex-1">{r.name}</span>
+                          <span className="text-xs font-mono text-muted-foreground">
+                            {r.strength.toFixed(2)} / {r.fidelity.toFixed(2)}{r.styleAware ? ` / ${t('workspace.referenceStyleAware')}` : ''}
+                          </span>
+                        </div>
+                      ),
+                    )}
+                  </div>
+                </div>
+              )}
+
               {meta?.prompts?.negativePrompt && (
                 <div>
                   <label className="text-sm text-muted-foreground mb-1.5 block">
@@ -631,6 +848,13 @@ function ImageDetailPage() {
           />
         </div>
       </div>
+
+      <InpaintDialog
+        open={inpaintOpen}
+        onOpenChange={setInpaintOpen}
+        imageSrc={imageSrc}
+        onSubmit={handleInpaint}
+      />
     </div>
   )
 }
@@ -739,7 +963,8 @@ function GalleryNaiMetadata({ metadata }: { metadata: NAIMetadata }) {
             ))}
             {metadata.hasCharacterReference && metadata.characterReferenceInfo?.map((cr, i) => (
               <p key={`cr-${i}`}>
-                CharRef {i + 1}: str {cr.strength.toFixed(2)}, info {cr.informationExtracted.toFixed(2)}
+                CharRef {i + 1}: str {cr.strength.toFixed(2)}, fidelity {cr.fidelity.toFixed(2)}
+                {cr.styleAware != null && (cr.styleAware ? ', style aware' : ', character only')}
               </p>
             ))}
           </div>
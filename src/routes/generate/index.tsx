@@ -13,6 +13,7 @@ import {
   PlayIcon,
   Upload01Icon,
 } from '@hugeicons/core-free-icons'
+import type { BatchTimingInfo } from '@/components/workspace/generation-progress'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -29,14 +30,19 @@ import {
 import { WorkspaceLayout } from '@/components/workspace/workspace-layout'
 import { ParameterPopover } from '@/components/workspace/parameter-popover'
 import { GenerationProgress } from '@/components/workspace/generation-progress'
+import { AnlasEstimate } from '@/components/workspace/anlas-estimate'
 import { GridSizeToggle } from '@/components/common/grid-size-toggle'
 import { useImageGridSize, type GridSize } from '@/lib/use-image-grid-size'
 import { useVirtualizer } from '@tanstack/react-virtual'
 import { useTranslation } from '@/lib/i18n'
 import { useBundleNames } from '@/lib/use-bundles'
+import { useAnlasBalance } from '@/lib/use-anlas-balance'
+import { useProgressStream } from '@/lib/use-progress-stream'
+import { estimateBatchCost } from '@/lib/anlas-cost'
+import { resolveBackendId } from '@/lib/generation-backend'
 import { parseMetadataFromFile } from '@/lib/nai-metadata'
 import type { NAIMetadata } from '@/lib/nai-metadata'
-import { createQuickGenerationJob, listQuickImages, listQuickJobs } from '@/server/functions/quick-generation'
+import { createImg2ImgJob, createQuickGenerationJob, listQuickImages, listQuickJobs } from '@/server/functions/quick-generation'
 import { cancelJobs, pauseGeneration, resumeGeneration, dismissGenerationError } from '@/server/functions/generation'
 import { updateImage } from '@/server/functions/gallery'
 
@@ -89,8 +95,21 @@ interface QuickGenerateState {
   characters: CharacterEntry[]
   parameters: Record<string, unknown>
   count: number
+  /** img2img strength/noise, kept between sessions like the other parameters */
+  strength?: number
+  noise?: number
 }
 
+/** img2img source — a gallery image or an uploaded file (not persisted) */
+interface SourceImage {
+  imageId?: number
+  data?: string
+  previewUrl: string
+}
+
+const DEFAULT_STRENGTH = 0.7
+const DEFAULT_NOISE = 0
+
 function loadState(): QuickGenerateState {
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
@@ -120,6 +139,7 @@ function QuickGeneratePage() {
   const [leftOpen, setLeftOpen] = useState(false)
   const [rightOpen, setRightOpen] = useState(false)
   const [generating, setGenerating] = useState(false)
+  const [source, setSource] = useState<SourceImage | null>(null)
 
   // Image history
   const [images, setImages] = useState<Array<{
@@ -143,13 +163,9 @@ function QuickGeneratePage() {
     errorMessage?: string | null
     sceneName: string | null
   }>>([])
-  const [batchTiming, setBatchTiming] = useState<{
-    startedAt: number
-    totalImages: number
-    completedImages: number
-    avgImageDurationMs: number | null
-  } | null>(null)
+  const [batchTiming, setBatchTiming] = useState<BatchTimingInfo | null>(null)
   const [queueStopped, setQueueStopped] = useState<'error' | 'paused' | null>(null)
+  const { balance: anlasBalance, refresh: refreshAnlasBalance } = useAnlasBalance()
 
   // DnD import
   const [dragging, setDragging] = useState(false)
@@ -204,13 +220,12 @@ function QuickGeneratePage() {
     }
   }, [])
 
-  // Polling ref
-  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null)
-
-  // ── Router state (from metadata page) ──
+  // ── Router state (from metadata page / gallery img2img) ──
   useEffect(() => {
     const routerState = (router.state.location.state as any) ?? {}
-    if (routerState.generalPrompt != null || routerState.negativePrompt != null || routerState.characterPrompts != null) {
+    const hasPrompts = routerState.generalPrompt != null || routerState.negativePrompt != null || routerState.characterPrompts != null
+    const hasSource = routerState.sourceImageId != null && !!routerState.sourceImagePath
+    if (hasPrompts) {
       setState((prev) => {
         const next = { ...prev }
         if (routerState.generalPrompt != null) next.generalPrompt = routerState.generalPrompt
@@ -229,6 +244,14 @@ function QuickGeneratePage() {
         saveState(next)
         return next
       })
+    }
+    if (hasSource) {
+      setSource({
+        imageId: routerState.sourceImageId,
+        previewUrl: `/api/images/${routerState.sourceImagePath.replace('data/images/', '')}`,
+      })
+    }
+    if (hasPrompts || hasSource) {
       // Clear the router state to prevent re-applying on navigation
       window.history.replaceState({}, '')
     }
@@ -249,54 +272,48 @@ function QuickGeneratePage() {
     })
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
-  // ── Polling ──
-  const startPolling = useCallback(() => {
-    if (pollingRef.current) return
-    pollingRef.current = setInterval(async () => {
-      try {
-        const [newImages, jobData] = await Promise.all([
-          listQuickImages({ data: { limit: 100 } }),
-          listQuickJobs(),
-        ])
-
-        setImages((prev) => {
-          if (newImages.length > prev.length || (newImages.length > 0 && newImages[0].id !== prev[0]?.id)) {
-            // Auto-select newest image (polling only runs during generation)
-            if (newImages[0]) {
-              setSelectedImageId(newImages[0].id)
-            }
-            return newImages
+  // ── Live progress ──
+  useProgressStream({
+    enabled: generating,
+    pollIntervalMs: 1000,
+    onEvent: (event) => {
+      // Show the new image before the refresh lands
+      if (event.type === 'image-completed' && event.projectId == null) {
+        setImages((prev) => [event.image, ...prev])
+        setSelectedImageId(event.image.id)
+      }
+    },
+    refresh: async () => {
+      const [newImages, jobData] = await Promise.all([
+        listQuickImages({ data: { limit: 100 } }),
+        listQuickJobs(),
+      ])
+
+      setImages((prev) => {
+        if (newImages.length > prev.length || (newImages.length > 0 && newImages[0].id !== prev[0]?.id)) {
+          // Auto-select newest image (only refreshed during generation)
+          if (newImages[0]) {
+            setSelectedImageId(newImages[0].id)
           }
-          return prev
-        })
-
-        const mappedJobs = jobData.jobs.map((j) => ({
-          ...j,
-          sceneName: 'Quick Generate' as string | null,
-        }))
-        setActiveJobs(mappedJobs)
-        setBatchTiming(jobData.batchTiming)
-        setQueueStopped(jobData.queueStatus.queueStopped)
-
-        // Stop polling if no more active jobs
-        if (mappedJobs.length === 0 && !jobData.queueStatus.processing) {
-          stopPolling()
-          setGenerating(false)
+          return newImages
         }
-      } catch { /* ignore polling errors */ }
-    }, 1000)
-  }, [])
+        return prev
+      })
 
-  const stopPolling = useCallback(() => {
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
-      pollingRef.current = null
-    }
-  }, [])
+      const mappedJobs = jobData.jobs.map((j) => ({
+        ...j,
+        sceneName: 'Quick Generate' as string | null,
+      }))
+      setActiveJobs(mappedJobs)
+      setBatchTiming(jobData.batchTiming)
+      setQueueStopped(jobData.queueStatus.queueStopped)
 
-  useEffect(() => {
-    return () => stopPolling()
-  }, [stopPolling])
+      // Done once no active jobs remain
+      if (mappedJobs.length === 0 && !jobData.queueStatus.processing) {
+        setGenerating(false)
+      }
+    },
+  })
 
   // Check if there are active jobs on mount
   useEffect(() => {
@@ -311,11 +328,17 @@ function QuickGeneratePage() {
 
       if (mappedJobs.length > 0 || jobData.queueStatus.processing) {
         setGenerating(true)
-        startPolling()
       }
     })
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
+  function estimateCost(balance: typeof anlasBalance) {
+    return estimateBatchCost(state.parameters, state.count, {
+      opus: balance?.opus ?? false,
+      strength: source ? (state.strength ?? DEFAULT_STRENGTH) : undefined,
+    })
+  }
+
   // ── Handlers ──
   async function handleGenerate() {
     if (!state.generalPrompt.trim()) {
@@ -323,23 +346,42 @@ function QuickGeneratePage() {
       return
     }
 
+    if (resolveBackendId(state.parameters) === 'nai') {
+      const balance = await refreshAnlasBalance()
+      const cost = estimateCost(balance)
+      if (balance && cost > balance.anlas) {
+        toast.error(t('generation.anlasInsufficient', { cost: cost.toLocaleString(), balance: balance.anlas.toLocaleString() }))
+        return
+      }
+    }
+
     setGenerating(true)
+    const input = {
+      generalPrompt: state.generalPrompt,
+      negativePrompt: state.negativePrompt,
+      characterPrompts: state.characters.map((c) => ({
+        name: c.name,
+        prompt: c.prompt,
+        negative: c.negative,
+      })),
+      parameters: state.parameters,
+      count: state.count,
+    }
     try {
-      await createQuickGenerationJob({
-        data: {
-          generalPrompt: state.generalPrompt,
-          negativePrompt: state.negativePrompt,
-          characterPrompts: state.characters.map((c) => ({
-            name: c.name,
-            prompt: c.prompt,
-            negative: c.negative,
-          })),
-          parameters: state.parameters,
-          count: state.count,
-        },
-      })
+      if (source) {
+        await createImg2ImgJob({
+          data: {
+            ...input,
+            sourceImageId: source.imageId,
+            sourceImageData: source.data,
+            strength: state.strength ?? DEFAULT_STRENGTH,
+            noise: state.noise ?? DEFAULT_NOISE,
+          },
+        })
+      } else {
+        await createQuickGenerationJob({ data: input })
+      }
       toast.success(t('generation.generationStarted', { count: state.count }))
-      startPolling()
     } catch {
       toast.error(t('generation.generationFailed'))
       setGenerating(false)
@@ -353,7 +395,6 @@ function QuickGeneratePage() {
       toast.success(t('generation.cancelled'))
       setActiveJobs([])
       setGenerating(false)
-      stopPolling()
     })
   }
 
@@ -362,11 +403,11 @@ function QuickGeneratePage() {
   }
 
   function handleResume() {
-    resumeGeneration().then(() => startPolling())
+    resumeGeneration().then(() => setGenerating(true))
   }
 
   function handleDismissError() {
-    dismissGenerationError().then(() => startPolling())
+    dismissGenerationError().then(() => setGenerating(true))
   }
 
   function addCharacter() {
@@ -480,6 +521,8 @@ function QuickGeneratePage() {
           <PromptPanelLocal
             state={state}
             setState={setState}
+            source={source}
+            onSourceChange={setSource}
             addCharacter={addCharacter}
             removeCharacter={removeCharacter}
             updateCharacterField={updateCharacterField}
@@ -491,6 +534,13 @@ function QuickGeneratePage() {
             imageParams={imageParams}
             onToggleFavorite={handleToggleFavorite}
             onSetRating={handleSetRating}
+            onUseAsSource={(img) => {
+              setSource({
+                imageId: img.id,
+                previewUrl: `/api/images/${img.filePath.replace('data/images/', '')}`,
+              })
+              toast.success(t('quickGenerate.sourceSet'))
+            }}
           />
         }
         rightPanel={
@@ -521,6 +571,9 @@ function QuickGeneratePage() {
               />
             </div>
             <div className="flex items-center justify-center lg:justify-end gap-1.5 col-span-2 lg:col-span-1">
+              {resolveBackendId(state.parameters) === 'nai' && (
+                <AnlasEstimate cost={estimateCost(anlasBalance)} balance={anlasBalance} />
+              )}
               <NumberStepper
                 value={state.count}
                 onChange={(v) => setState((prev) => ({ ...prev, count: Math.max(1, v ?? 1) }))}
@@ -592,18 +645,35 @@ function QuickGenerateHeader({
 function PromptPanelLocal({
   state,
   setState,
+  source,
+  onSourceChange,
   addCharacter,
   removeCharacter,
   updateCharacterField,
 }: {
   state: QuickGenerateState
   setState: React.Dispatch<React.SetStateAction<QuickGenerateState>>
+  source: SourceImage | null
+  onSourceChange: (source: SourceImage | null) => void
   addCharacter: () => void
   removeCharacter: (id: string) => void
   updateCharacterField: (id: string, field: keyof CharacterEntry, value: string) => void
 }) {
   const { t } = useTranslation()
   const bundleNames = useBundleNames()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !file.type.startsWith('image/')) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      const data = reader.result as string
+      onSourceChange({ data, previewUrl: data })
+    }
+    reader.readAsDataURL(file)
+  }
 
   return (
     <div className="p-3 space-y-3">
@@ -687,6 +757,82 @@ function PromptPanelLocal({
           </div>
         ))}
       </div>
+
+      {/* Source Image (img2img) */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm text-muted-foreground uppercase tracking-wider">
+            {t('quickGenerate.sourceImage')}
+          </Label>
+          <div className="flex items-center gap-1">
+            {source && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="text-muted-foreground hover:text-destructive"
+                onClick={() => onSourceChange(null)}
+                title={t('quickGenerate.clearSource')}
+              >
+                <HugeiconsIcon icon={Delete02Icon} className="size-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => fileInputRef.current?.click()}
+              title={t('quickGenerate.uploadSource')}
+            >
+              <HugeiconsIcon icon={Upload01Icon} className="size-5" />
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleUpload}
+          />
+        </div>
+
+        {source ? (
+          <div className="rounded-lg border border-border p-2 space-y-2">
+            <img
+              src={source.previewUrl}
+              alt=""
+              className="w-full max-h-48 object-contain rounded bg-secondary/30"
+              draggable={false}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t('quickGenerate.strength')}</Label>
+                <Input
+                  type="number"
+                  min={0.01}
+                  max={0.99}
+                  step={0.01}
+                  value={state.strength ?? DEFAULT_STRENGTH}
+                  onChange={(e) => setState((prev) => ({ ...prev, strength: Number(e.target.value) }))}
+                  className="h-7 text-sm font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t('quickGenerate.noise')}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={0.99}
+                  step={0.01}
+                  value={state.noise ?? DEFAULT_NOISE}
+                  onChange={(e) => setState((prev) => ({ ...prev, noise: Number(e.target.value) }))}
+                  className="h-7 text-sm font-mono"
+                />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">{t('quickGenerate.sourceImageHint')}</p>
+        )}
+      </div>
     </div>
   )
 }
@@ -698,6 +844,7 @@ function CenterPreview({
   imageParams,
   onToggleFavorite,
   onSetRating,
+  onUseAsSource,
 }: {
   selectedImage: {
     id: number
@@ -710,6 +857,7 @@ function CenterPreview({
   imageParams: Record<string, unknown> | null
   onToggleFavorite: () => void
   onSetRating: (rating: number) => void
+  onUseAsSource: (image: { id: number; filePath: string }) => void
 }) {
   const { t } = useTranslation()
 
@@ -782,6 +930,14 @@ function CenterPreview({
 
         <div className="flex-1" />
 
+        {/* img2img from this image */}
+        <button
+          onClick={() => onUseAsSource(selectedImage)}
+          className="text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          {t('quickGenerate.useAsSource')}
+        </button>
+
         {/* View in gallery */}
         <Link
           to="/gallery/$imageId"
@@ -1,5 +1,5 @@
 import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
-import { useState, useEffect, useRef } from 'react'
+import { useEffect, useState } from 'react'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -23,7 +23,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { listProjects, createProject, deleteProject, duplicateProject, updateProject } from '@/server/functions/projects'
 import { listJobs } from '@/server/functions/generation'
-import { getSetting } from '@/server/functions/settings'
+import { hasApiKey } from '@/server/functions/api-keys'
 import { Skeleton } from '@/components/ui/skeleton'
 import { HugeiconsIcon } from '@hugeicons/react'
 import {
@@ -38,6 +38,7 @@ import {
 } from '@hugeicons/core-free-icons'
 import { useTranslation, type TranslationKeys } from '@/lib/i18n'
 import { useOnboardingMaybe } from '@/lib/onboarding'
+import { useProgressStream } from '@/lib/use-progress-stream'
 
 type TFn = (key: TranslationKeys, params?: Record<string, string | number>) => string
 
@@ -92,17 +93,17 @@ function PendingComponent() {
 
 export const Route = createFileRoute('/')({
   loader: async () => {
-    const [projectList, jobs, apiKey] = await Promise.all([
+    const [projectList, jobs, apiKeyConfigured] = await Promise.all([
       listProjects(),
       listJobs(),
-      getSetting({ data: 'nai_api_key' }),
+      hasApiKey(),
     ])
     return {
       projects: projectList,
       activeJobs: jobs.filter(
         (j) => j.status === 'running' || j.status === 'pending',
       ),
-      hasApiKey: !!apiKey && apiKey.length > 0,
+      hasApiKey: apiKeyConfigured,
     }
   },
   component: ProjectSelectorPage,
@@ -128,34 +129,20 @@ function ProjectSelectorPage() {
     setLiveJobs(data.activeJobs)
   }, [data.activeJobs])
 
-  // Poll active jobs for real-time progress
-  const pollingRef = useRef(false)
-  useEffect(() => {
-    if (liveJobs.length === 0) return
-    let cancelled = false
-
-    const interval = setInterval(async () => {
-      if (cancelled || pollingRef.current) return
-      pollingRef.current = true
-      try {
-        const jobs = await listJobs()
-        if (cancelled) return
-        const active = jobs.filter(
-          (j) => j.status === 'running' || j.status === 'pending',
-        )
-        setLiveJobs(active)
-        if (active.length === 0) {
-          router.invalidate()
-        }
-      } catch {
-        // ignore poll errors
-      } finally {
-        pollingRef.current = false
+  // Live progress for active jobs (pushed, or polled while the stream is down)
+  useProgressStream({
+    enabled: liveJobs.length > 0,
+    refresh: async () => {
+      const jobs = await listJobs()
+      const active = jobs.filter(
+        (j) => j.status === 'running' || j.status === 'pending',
+      )
+      setLiveJobs(active)
+      if (active.length === 0) {
+        router.invalidate()
       }
-    }, 2000)
-
-    return () => { cancelled = true; clearInterval(interval) }
-  }, [liveJobs.length > 0, router])
+    },
+  })
 
   async function handleCreate() {
     if (!name.trim()) {
@@ -19,6 +19,7 @@ import {
 } from '@/components/ui/dialog'
 import { parseMetadataFromFile, getUcPresetLabel } from '@/lib/nai-metadata'
 import type { NAIMetadata } from '@/lib/nai-metadata'
+import { formatCharacterPosition } from '@/lib/character-position'
 import { createProjectFromMetadata } from '@/server/functions/inspect'
 import { useTranslation } from '@/lib/i18n'
 
@@ -422,7 +423,8 @@ function MetadataViewer({ metadata }: { metadata: NAIMetadata }) {
                 <div className="space-y-1 mt-1">
                   {metadata.characterReferenceInfo.map((cr, i) => (
                     <div key={i} className="text-sm text-foreground/80">
-                      Ref {i + 1}: Strength {cr.strength.toFixed(2)}, Info Extracted {cr.informationExtracted.toFixed(2)}
+                      Ref {i + 1}: Strength {cr.strength.toFixed(2)}, Fidelity {cr.fidelity.toFixed(2)}
+                      {cr.styleAware != null && (cr.styleAware ? ', Style Aware' : ', Character Only')}
                     </div>
                   ))}
                 </div>
@@ -508,14 +510,17 @@ function CreateProjectDialog({
       }
 
       // Characters from V4 char_captions
-      const chars: Array<{ name: string; charPrompt: string; charNegative?: string }> = []
+      const chars: Array<{ name: string; charPrompt: string; charNegative?: string; position?: string }> = []
       if (fields.characters && hasV4Chars) {
+        const useCoords = !!metadata.v4_prompt!.use_coords
         metadata.v4_prompt!.caption!.char_captions!.forEach((cc, i) => {
           const negChar = metadata.v4_negative_prompt?.caption?.char_captions?.[i]
+          const center = cc.centers.at(0)
           chars.push({
             name: `Character ${i + 1}`,
             charPrompt: cc.char_caption,
             charNegative: negChar?.char_caption ?? '',
+            ...(useCoords && center && { position: formatCharacterPosition(center) }),
           })
         })
       }
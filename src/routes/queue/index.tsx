@@ -0,0 +1,369 @@
+import { Link, createFileRoute, useRouter } from '@tanstack/react-router'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { HugeiconsIcon } from '@hugeicons/react'
+import {
+  ArrowUpDoubleIcon,
+  Cancel01Icon,
+  DragDropVerticalIcon,
+  PauseIcon,
+  PlayIcon,
+  RefreshIcon,
+} from '@hugeicons/core-free-icons'
+import type { ReactNode } from 'react'
+import type { TranslationKeys } from '@/lib/i18n'
+import type { PriorityLevel } from '@/lib/queue-order'
+import { PageHeader } from '@/components/common/page-header'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTranslation } from '@/lib/i18n'
+import { priorityLevel } from '@/lib/queue-order'
+import { useProgressStream } from '@/lib/use-progress-stream'
+import { cn } from '@/lib/utils'
+import {
+  cancelJobs,
+  dismissGenerationError,
+  pauseGeneration,
+  resumeGeneration,
+  retryJob,
+} from '@/server/functions/generation'
+import { listQueue, moveJob, moveJobToFront, updateJobPriority } from '@/server/functions/queue'
+
+type QueueData = Awaited<ReturnType<typeof listQueue>>
+type QueueJob = QueueData['queued'][number]
+
+const PRIORITY_KEYS: Record<PriorityLevel, TranslationKeys> = {
+  high: 'queue.priorityHigh',
+  normal: 'queue.priorityNormal',
+  low: 'queue.priorityLow',
+}
+
+const STATUS_KEYS: Partial<Record<string, TranslationKeys>> = {
+  running: 'generation.generating',
+  pending: 'queue.queued',
+  completed: 'queue.statusCompleted',
+  failed: 'queue.statusFailed',
+  cancelled: 'queue.statusCancelled',
+}
+
+export const Route = createFileRoute('/queue/')({
+  component: QueuePage,
+  loader: () => listQueue(),
+})
+
+function QueuePage() {
+  const data = Route.useLoaderData()
+  const router = useRouter()
+  const { t } = useTranslation()
+  const { queueStatus } = data
+
+  // Local copy so a drop shows the new order before the server round trip
+  const [queued, setQueued] = useState(data.queued)
+  useEffect(() => setQueued(data.queued), [data.queued])
+  const [draggingId, setDraggingId] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const hasActiveJobs = data.running.length > 0 || data.queued.length > 0
+  const draggingRef = useRef(draggingId)
+  draggingRef.current = draggingId
+  // Always subscribed: jobs queued from other pages show up here too
+  useProgressStream({
+    enabled: true,
+    refresh: async () => {
+      // Don't reload the list under an active drag
+      if (draggingRef.current == null) await router.invalidate()
+    },
+  })
+
+  async function runAction(action: () => Promise<unknown>, successKey?: TranslationKeys) {
+    try {
+      await action()
+      if (successKey) toast.success(t(successKey))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error.unknown'))
+    }
+    router.invalidate()
+  }
+
+  async function handleDrop(index: number) {
+    const jobId = draggingId
+    setDraggingId(null)
+    setDropIndex(null)
+    if (jobId == null) return
+    const from = queued.findIndex((j) => j.id === jobId)
+    // Dropping below itself shifts the target up by one once the job is removed
+    const to = from !== -1 && from < index ? index - 1 : index
+    if (from === -1 || from === to) return
+
+    const next = [...queued]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    setQueued(next)
+    try {
+      await moveJob({ data: { jobId, index: to } })
+    } catch {
+      toast.error(t('queue.moveFailed'))
+    }
+    router.invalidate()
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title={t('queue.title')}
+        description={t('queue.description')}
+        actions={
+          queueStatus.queueStopped ? (
+            <>
+              {queueStatus.queueStopped === 'error' && (
+                <Button variant="outline" size="sm" onClick={() => runAction(() => dismissGenerationError())}>
+                  {t('generation.skip')}
+                </Button>
+              )}
+              <Button size="sm" onClick={() => runAction(() => resumeGeneration())}>
+                <HugeiconsIcon icon={PlayIcon} className="size-4" />
+                {t('generation.resume')}
+              </Button>
+            </>
+          ) : (
+            hasActiveJobs && (
+              <Button variant="outline" size="sm" onClick={() => runAction(() => pauseGeneration())}>
+                <HugeiconsIcon icon={PauseIcon} className="size-4" />
+                {t('generation.pause')}
+              </Button>
+            )
+          )
+        }
+      />
+
+      {queueStatus.queueStopped && (
+        <div
+          className={cn(
+            'mb-4 rounded-lg border px-3 py-2 text-base',
+            queueStatus.queueStopped === 'error'
+              ? 'border-destructive/30 bg-destructive/5 text-destructive'
+              : 'border-border bg-muted/40 text-muted-foreground',
+          )}
+        >
+          {queueStatus.queueStopped === 'error' ? t('queue.stoppedOnError') : t('queue.paused')}
+        </div>
+      )}
+
+      <section className="mb-6">
+        <h2 className="text-sm font-medium text-muted-foreground mb-2">{t('queue.running')}</h2>
+        {data.running.length === 0 && queued.length === 0 ? (
+          <p className="text-base text-muted-foreground py-6 text-center">{t('queue.noActiveJobs')}</p>
+        ) : (
+          <div className="space-y-1.5">
+            {data.running.map((job) => (
+              <JobRow key={job.id} job={job} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {queued.length > 0 && (
+        <section className="mb-6">
+          <div className="flex items-baseline justify-between gap-2 mb-2">
+            <h2 className="text-sm font-medium text-muted-foreground">
+              {t('queue.queued')} · {queued.length}
+            </h2>
+            <span className="text-sm text-muted-foreground/70">{t('queue.dragHint')}</span>
+          </div>
+          <div
+            className="space-y-1.5"
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropIndex(null)
+            }}
+          >
+            {queued.map((job, index) => (
+              <div
+                key={job.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggingId(job.id)
+                }}
+                onDragEnd={() => {
+                  setDraggingId(null)
+                  setDropIndex(null)
+                }}
+                onDragOver={(e) => {
+                  if (draggingId == null) return
+                  e.preventDefault()
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1)
+                }}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  if (dropIndex != null) handleDrop(dropIndex)
+                }}
+                className={cn(
+                  'relative',
+                  draggingId === job.id && 'opacity-50',
+                  dropIndex === index && 'before:absolute before:inset-x-0 before:-top-1 before:h-0.5 before:rounded-full before:bg-primary',
+                  dropIndex === index + 1 && index === queued.length - 1 && 'after:absolute after:inset-x-0 after:-bottom-1 after:h-0.5 after:rounded-full after:bg-primary',
+                )}
+              >
+                <JobRow
+                  job={job}
+                  leading={
+                    <HugeiconsIcon
+                      icon={DragDropVerticalIcon}
+                      className="size-4 shrink-0 text-muted-foreground cursor-grab"
+                    />
+                  }
+                  actions={
+                    <>
+                      <Select
+                        value={priorityLevel(job.priority)}
+                        onValueChange={(v) =>
+                          runAction(() => updateJobPriority({ data: { jobId: job.id, priority: v as PriorityLevel } }))
+                        }
+                      >
+                        <SelectTrigger size="sm" className="w-24" aria-label={t('queue.priority')}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PRIORITY_KEYS) as Array<PriorityLevel>).map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {t(PRIORITY_KEYS[level])}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title={t('queue.moveToFront')}
+                        aria-label={t('queue.moveToFront')}
+                        disabled={index === 0}
+                        onClick={() => runAction(() => moveJobToFront({ data: job.id }))}
+                      >
+                        <HugeiconsIcon icon={ArrowUpDoubleIcon} className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title={t('generation.cancel')}
+                        aria-label={t('generation.cancel')}
+                        onClick={() => runAction(() => cancelJobs({ data: [job.id] }), 'queue.jobCancelled')}
+                      >
+                        <HugeiconsIcon icon={Cancel01Icon} className="size-4" />
+                      </Button>
+                    </>
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-sm font-medium text-muted-foreground mb-2">{t('queue.recent')}</h2>
+        {data.recent.length === 0 ? (
+          <p className="text-base text-muted-foreground py-6 text-center">{t('queue.noRecentJobs')}</p>
+        ) : (
+          <div className="space-y-1.5">
+            {data.recent.map((job) => (
+              <JobRow
+                key={job.id}
+                job={job}
+                actions={
+                  job.status === 'failed' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runAction(() => retryJob({ data: job.id }), 'queue.jobRetried')}
+                    >
+                      <HugeiconsIcon icon={RefreshIcon} className="size-4" />
+                      {t('generation.retry')}
+                    </Button>
+                  )
+                }
+              />
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
+
+function JobRow({
+  job,
+  leading,
+  actions,
+}: {
+  job: QueueJob
+  leading?: ReactNode
+  actions?: ReactNode
+}) {
+  const { t } = useTranslation()
+  const statusKey = STATUS_KEYS[job.status ?? '']
+  const label =
+    job.projectId != null && job.projectName
+      ? `${job.projectName}${job.sceneName ? ` / ${job.sceneName}` : ''}`
+      : job.prompt || t('queue.quickGenerate')
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 rounded-lg border px-3 py-2',
+        job.status === 'running' ? 'border-primary/20 bg-primary/5' : 'border-border bg-background',
+      )}
+    >
+      {leading}
+      <div
+        className={cn(
+          'size-2 rounded-full shrink-0',
+          job.status === 'running' && 'bg-primary animate-pulse',
+          job.status === 'pending' && 'bg-muted-foreground/40',
+          job.status === 'completed' && 'bg-emerald-500',
+          job.status === 'failed' && 'bg-destructive',
+          job.status === 'cancelled' && 'bg-muted-foreground/20',
+        )}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          {job.projectId != null ? (
+            <Link
+              to="/workspace/$projectId"
+              params={{ projectId: String(job.projectId) }}
+              className="text-base font-medium truncate hover:underline"
+            >
+              {label}
+            </Link>
+          ) : (
+            <span className="text-base font-medium truncate">{label}</span>
+          )}
+          {job.projectId == null && (
+            <Badge variant="outline" className="text-sm shrink-0">
+              {t('queue.quickGenerate')}
+            </Badge>
+          )}
+          {statusKey && job.status !== 'pending' && (
+            <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'} className="text-sm shrink-0">
+              {t(statusKey)}
+            </Badge>
+          )}
+        </div>
+        {job.errorMessage && job.status === 'failed' && (
+          <p className="text-sm text-destructive truncate">{job.errorMessage}</p>
+        )}
+      </div>
+      <span className="text-sm text-muted-foreground tabular-nums shrink-0">
+        {t('queue.progress', { completed: String(job.completedCount ?? 0), total: String(job.totalCount ?? 0) })}
+      </span>
+      {actions && <div className="flex items-center gap-1 shrink-0">{actions}</div>}
+    </div>
+  )
+}
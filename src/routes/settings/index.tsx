@@ -1,6 +1,8 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute, useRouter } from '@tanstack/react-router'
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { toast } from 'sonner'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { Delete02Icon } from '@hugeicons/core-free-icons'
 import { PageHeader } from '@/components/common/page-header'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -8,11 +10,14 @@ import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Slider } from '@/components/ui/slider'
+import { Checkbox } from '@/components/ui/checkbox'
 import { getSetting, setSetting, validateApiKey } from '@/server/functions/settings'
 import { getStorageStats, cleanupOrphanFiles } from '@/server/functions/storage'
+import { createApiKey, deleteApiKey, listApiKeys, updateApiKey } from '@/server/functions/api-keys'
 import { useTranslation } from '@/lib/i18n'
 import type { Locale } from '@/lib/i18n'
 import { useOnboardingMaybe } from '@/lib/onboarding'
+import { DEFAULT_RETRY_POLICY } from '@/lib/generation-retry'
 
 function PendingComponent() {
   return (
@@ -44,11 +49,28 @@ function PendingComponent() {
 
 export const Route = createFileRoute('/settings/')({
   loader: async () => {
-    const [apiKey, delay] = await Promise.all([
+    const [apiKey, delay, maxRetries, maxRetryDelay, comfyuiUrl, comfyuiCheckpoint, a1111Url, apiKeys] = await Promise.all([
       getSetting({ data: 'nai_api_key' }),
       getSetting({ data: 'generation_delay' }),
+      getSetting({ data: 'retry_max_attempts' }),
+      getSetting({ data: 'retry_max_delay' }),
+      getSetting({ data: 'comfyui_url' }),
+      getSetting({ data: 'comfyui_checkpoint' }),
+      getSetting({ data: 'a1111_url' }),
+      listApiKeys(),
     ])
-    return { apiKey: apiKey ?? '', delay: delay ?? '500' }
+    return {
+      apiKey: apiKey ?? '',
+      delay: delay ?? '500',
+      maxRetries: Number(maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries),
+      maxRetryDelay: Number(maxRetryDelay ?? DEFAULT_RETRY_POLICY.maxDelayMs),
+      localBackends: {
+        comfyui_url: comfyuiUrl ?? '',
+        comfyui_checkpoint: comfyuiCheckpoint ?? '',
+        a1111_url: a1111Url ?? '',
+      },
+      apiKeys,
+    }
   },
   component: SettingsPage,
   pendingComponent: PendingComponent,
@@ -62,11 +84,162 @@ function formatBytes(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`
 }
 
+// Local backend settings, saved on blur
+const LOCAL_BACKEND_FIELDS = [
+  { key: 'comfyui_url', label: 'settings.comfyuiUrl', placeholder: 'http://127.0.0.1:8188' },
+  { key: 'comfyui_checkpoint', label: 'settings.comfyuiCheckpoint', placeholder: 'model.safetensors' },
+  { key: 'a1111_url', label: 'settings.a1111Url', placeholder: 'http://127.0.0.1:7860' },
+] as const
+
+function LocalBackendsCard({ initial }: { initial: Record<(typeof LOCAL_BACKEND_FIELDS)[number]['key'], string> }) {
+  const { t } = useTranslation()
+  const [values, setValues] = useState(initial)
+  const lastSaved = useRef(initial)
+
+  useEffect(() => {
+    setValues(initial)
+    lastSaved.current = initial
+  }, [initial])
+
+  async function save(key: keyof typeof initial) {
+    const value = values[key].trim()
+    if (value === lastSaved.current[key]) return
+    lastSaved.current = { ...lastSaved.current, [key]: value }
+    try {
+      await setSetting({ data: { key, value } })
+      toast.success(t('settings.saved'))
+    } catch {
+      toast.error(t('settings.saveFailed'))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.localBackends')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">{t('settings.localBackendsDesc')}</p>
+        {LOCAL_BACKEND_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={field.key}>{t(field.label)}</Label>
+            <Input
+              id={field.key}
+              value={values[field.key]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              onBlur={() => save(field.key)}
+              placeholder={field.placeholder}
+              className="font-mono"
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+type NamedApiKey = Awaited<ReturnType<typeof listApiKeys>>[number]
+
+// Extra keys for the queue; each enabled key runs its own worker
+function ApiKeysCard({ keys }: { keys: Array<NamedApiKey> }) {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [key, setKey] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  async function handleAdd() {
+    if (!name.trim() || !key.trim()) return
+    setAdding(true)
+    try {
+      const result = await validateApiKey({ data: key.trim() })
+      if (!result.valid) {
+        toast.error(
+          result.error === 'unauthorized'
+            ? t('settings.apiKeyInvalid')
+            : result.error === 'network'
+              ? t('settings.apiKeyNetworkError')
+              : t('settings.apiKeyUnknownError'),
+        )
+        return
+      }
+      await createApiKey({ data: { name, apiKey: key } })
+      setName('')
+      setKey('')
+      toast.success(t('settings.apiKeyAdded'))
+      router.invalidate()
+    } catch {
+      toast.error(t('settings.saveFailed'))
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  async function handleToggle(id: number, enabled: boolean) {
+    await updateApiKey({ data: { id, enabled } })
+    router.invalidate()
+  }
+
+  async function handleDelete(id: number) {
+    await deleteApiKey({ data: id })
+    router.invalidate()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.apiKeyPool')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">{t('settings.apiKeyPoolDesc')}</p>
+        {keys.length > 0 && (
+          <div className="divide-y divide-border rounded-md border border-border">
+            {keys.map((k) => (
+              <div key={k.id} className="flex items-center gap-3 px-3 py-2">
+                <Checkbox
+                  checked={k.enabled}
+                  onCheckedChange={(checked) => handleToggle(k.id, checked === true)}
+                  aria-label={t('settings.apiKeyEnabled')}
+                />
+                <span className="text-sm font-medium truncate">{k.name}</span>
+                <span className="text-xs font-mono text-muted-foreground">{k.maskedKey}</span>
+                <div className="flex-1" />
+                <Button variant="ghost" size="icon-sm" onClick={() => handleDelete(k.id)} title={t('common.delete')}>
+                  <HugeiconsIcon icon={Delete02Icon} className="size-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('settings.apiKeyName')}
+            className="w-36 shrink-0"
+          />
+          <Input
+            type="password"
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            placeholder={t('settings.enterApiKey')}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={adding || !name.trim() || !key.trim()}>
+            {adding ? t('settings.validating') : t('common.add')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 function SettingsPage() {
-  const { apiKey: initialApiKey, delay: initialDelay } = Route.useLoaderData()
+  const { apiKey: initialApiKey, delay: initialDelay, maxRetries: initialMaxRetries, maxRetryDelay: initialMaxRetryDelay, localBackends, apiKeys } = Route.useLoaderData()
   const [apiKey, setApiKey] = useState(initialApiKey)
   const [showKey, setShowKey] = useState(false)
   const [delay, setDelay] = useState(Number(initialDelay))
+  const [maxRetries, setMaxRetries] = useState(initialMaxRetries)
+  const [maxRetryDelay, setMaxRetryDelay] = useState(initialMaxRetryDelay)
   const [validating, setValidating] = useState(false)
   const { t, locale, setLocale } = useTranslation()
   const onboarding = useOnboardingMaybe()
@@ -82,6 +255,11 @@ function SettingsPage() {
   const [scanning, setScanning] = useState(false)
   const [cleaningUp, setCleaningUp] = useState(false)
 
+  useEffect(() => {
+    setMaxRetries(initialMaxRetries)
+    setMaxRetryDelay(initialMaxRetryDelay)
+  }, [initialMaxRetries, initialMaxRetryDelay])
+
   useEffect(() => {
     setApiKey(initialApiKey)
     setDelay(Number(initialDelay))
@@ -111,6 +289,15 @@ function SettingsPage() {
     }
   }, [t])
 
+  async function saveNumberSetting(key: string, value: number) {
+    try {
+      await setSetting({ data: { key, value: String(value) } })
+      toast.success(t('settings.saved'))
+    } catch {
+      toast.error(t('settings.saveFailed'))
+    }
+  }
+
   async function handleScan() {
     setScanning(true)
     try {
@@ -198,6 +385,8 @@ function SettingsPage() {
           </CardContent>
         </Card>
 
+        <ApiKeysCard keys={apiKeys} />
+
         <Card>
           <CardHeader>
             <CardTitle>{t('settings.generationSettings')}</CardTitle>
@@ -221,9 +410,43 @@ function SettingsPage() {
                 <span>30s</span>
               </div>
             </div>
+            <div className="space-y-3 pt-2">
+              <Label>
+                {t('settings.maxRetriesLabel')} <span className="font-mono text-primary">{maxRetries}</span>
+              </Label>
+              <Slider
+                value={[maxRetries]}
+                onValueChange={([v]) => setMaxRetries(v)}
+                onValueCommit={([v]) => saveNumberSetting('retry_max_attempts', v)}
+                min={0}
+                max={10}
+                step={1}
+              />
+              <p className="text-sm text-muted-foreground">{t('settings.maxRetriesHelp')}</p>
+            </div>
+            <div className="space-y-3 pt-2">
+              <Label>
+                {t('settings.maxRetryDelayLabel')} <span className="font-mono text-primary">{maxRetryDelay / 1000}s</span>
+              </Label>
+              <Slider
+                value={[maxRetryDelay]}
+                onValueChange={([v]) => setMaxRetryDelay(v)}
+                onValueCommit={([v]) => saveNumberSetting('retry_max_delay', v)}
+                min={5000}
+                max={300000}
+                step={5000}
+                disabled={maxRetries === 0}
+              />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>5s</span>
+                <span>5m</span>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
+        <LocalBackendsCard initial={localBackends} />
+
         <Card>
           <CardHeader>
             <CardTitle>{t('settings.language')}</CardTitle>
@@ -1,13 +1,21 @@
 import { createFileRoute, useRouter, useNavigate } from '@tanstack/react-router'
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import { extractPlaceholders } from '@/lib/placeholder'
-import { useStableArray } from '@/lib/utils'
+import type { SceneTokenEstimate } from '@/components/workspace/token-estimate'
+import type { BatchTimingInfo } from '@/components/workspace/generation-progress'
+import { extractPlaceholderDefaults, extractPlaceholders, mergePlaceholderValues } from '@/lib/placeholder'
+import { useStableArray, useStableRecord } from '@/lib/utils'
 import { toast } from 'sonner'
 import { useTranslation } from '@/lib/i18n'
+import { estimateBatchCost } from '@/lib/anlas-cost'
+import { NAI_TOKEN_LIMIT } from '@/lib/token-count'
+import { mergeSceneParameters, parseSceneParameters } from '@/lib/scene-parameters'
+import { resolveBackendId } from '@/lib/generation-backend'
+import { useAnlasBalance } from '@/lib/use-anlas-balance'
+import { useProgressStream } from '@/lib/use-progress-stream'
 import { getWorkspaceData, listProjectJobs, getRecentImages, getSceneImageCounts } from '@/server/functions/workspace'
 import { updateProject } from '@/server/functions/projects'
-import { createGenerationJob, cancelJobs, pauseGeneration, resumeGeneration, dismissGenerationError } from '@/server/functions/generation'
-import { getSetting } from '@/server/functions/settings'
+import { cancelJobs, createGenerationJob, dismissGenerationError, pauseGeneration, previewBatchTokens, resumeGeneration } from '@/server/functions/generation'
+import { hasApiKey } from '@/server/functions/api-keys'
 import {
   addProjectScene,
   deleteProjectScene,
@@ -22,7 +30,11 @@ import { PromptPanel } from '@/components/workspace/prompt-panel'
 import { ScenePanel } from '@/components/workspace/scene-panel'
 import { HistoryPanel } from '@/components/workspace/history-panel'
 import { ParameterPopover } from '@/components/workspace/parameter-popover'
+import { VibeTransferPopover } from '@/components/workspace/vibe-transfer-popover'
 import { ScenePackDialog } from '@/components/workspace/scene-pack-dialog'
+import { SweepDialog } from '@/components/workspace/sweep-dialog'
+import { AnlasEstimate } from '@/components/workspace/anlas-estimate'
+import { TokenEstimate } from '@/components/workspace/token-estimate'
 import { GenerationProgress } from '@/components/workspace/generation-progress'
 import { DownloadDialog } from '@/components/common/download-dialog'
 import { HugeiconsIcon } from '@hugeicons/react'
@@ -128,6 +140,9 @@ function WorkspacePage() {
   const [params, setParams] = useState<Record<string, unknown>>(
     JSON.parse(data.project.parameters || '{}'),
   )
+  const [placeholderDefaults, setPlaceholderDefaults] = useState<Record<string, string>>(
+    JSON.parse(data.project.placeholderDefaults || '{}'),
+  )
 
   // Sync only when navigating to a different project (not on every router.invalidate())
   // Local state is authoritative during editing; auto-save + invalidate should not overwrite unsaved edits
@@ -135,6 +150,7 @@ function WorkspacePage() {
     setGeneralPrompt(data.project.generalPrompt ?? '')
     setNegativePrompt(data.project.negativePrompt ?? '')
     setParams(JSON.parse(data.project.parameters || '{}'))
+    setPlaceholderDefaults(JSON.parse(data.project.placeholderDefaults || '{}'))
   }, [data.project.id])
 
   // ── Stable placeholder key arrays (only change when actual keys change, not on every keystroke) ──
@@ -158,6 +174,18 @@ function WorkspacePage() {
     [data.characters],
   )
 
+  // ── Fallback per key: project default, else the first inline \\key|default\\ ──
+  const rawEffectiveDefaults = useMemo(
+    () => mergePlaceholderValues(
+      extractPlaceholderDefaults(
+        [generalPrompt, negativePrompt, ...data.characters.flatMap((c) => [c.charPrompt, c.charNegative])].join('\n'),
+      ),
+      placeholderDefaults,
+    ),
+    [generalPrompt, negativePrompt, data.characters, placeholderDefaults],
+  )
+  const effectivePlaceholderDefaults = useStableRecord(rawEffectiveDefaults)
+
   // ── Auto-save ──
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined)
@@ -168,6 +196,7 @@ function WorkspacePage() {
       generalPrompt?: string
       negativePrompt?: string
       parameters?: string
+      placeholderDefaults?: string
     }) => {
       setSaveStatus('saving')
       try {
@@ -207,6 +236,13 @@ function WorkspacePage() {
     debouncedSave({ parameters: JSON.stringify(newParams) })
   }
 
+  function handlePlaceholderDefaultChange(key: string, value: string) {
+    const { [key]: _, ...rest } = placeholderDefaults
+    const next = value ? { ...rest, [key]: value } : rest
+    setPlaceholderDefaults(next)
+    saveProject({ placeholderDefaults: JSON.stringify(next) })
+  }
+
   // ── Live images (updated incrementally during generation) ──
   const [liveImages, setLiveImages] = useState(data.recentImages)
   useEffect(() => {
@@ -261,9 +297,26 @@ function WorkspacePage() {
 
   // ── Character overrides (loaded for matrix view) ──
   const [characterOverrides, setCharacterOverrides] = useState<
-    Record<number, Array<{ projectSceneId: number; characterId: number; placeholders: string }>>
+    Record<number, Array<{ projectSceneId: number; characterId: number; placeholders: string; position: string | null }>>
   >({})
 
+  // ── Keys with a value in some scene, character override or project default (prompt linter) ──
+  const rawFilledKeys = useMemo(() => {
+    const keys = new Set<string>()
+    function add(values: Record<string, string>) {
+      for (const [key, value] of Object.entries(values)) if (value) keys.add(key)
+    }
+    for (const pack of data.scenePacks) {
+      for (const scene of pack.scenes) add(JSON.parse(scene.placeholders || '{}'))
+    }
+    for (const overrides of Object.values(characterOverrides)) {
+      for (const o of overrides) add(JSON.parse(o.placeholders || '{}'))
+    }
+    add(placeholderDefaults)
+    return [...keys].sort()
+  }, [data.scenePacks, characterOverrides, placeholderDefaults])
+  const filledPlaceholderKeys = useStableArray(rawFilledKeys)
+
   const loadCharacterOverrides = useCallback(async () => {
     const allSceneIds = data.scenePacks.flatMap((p) => p.scenes.map((s) => s.id))
     if (allSceneIds.length === 0 || data.characters.length === 0) {
@@ -272,13 +325,14 @@ function WorkspacePage() {
     }
     try {
       const overrides = await getAllCharacterOverrides({ data: allSceneIds })
-      const grouped: Record<number, Array<{ projectSceneId: number; characterId: number; placeholders: string }>> = {}
+      const grouped: Record<number, Array<{ projectSceneId: number; characterId: number; placeholders: string; position: string | null }>> = {}
       for (const o of overrides) {
         if (!grouped[o.projectSceneId]) grouped[o.projectSceneId] = []
         grouped[o.projectSceneId].push({
           projectSceneId: o.projectSceneId,
           characterId: o.characterId,
           placeholders: o.placeholders ?? '{}',
+          position: o.position,
         })
       }
       setCharacterOverrides(grouped)
@@ -331,15 +385,12 @@ function WorkspacePage() {
     () => data.activeJobs.reduce((sum, j) => sum + (j.totalCount ?? 0), 0),
   )
   const [activeJobs, setActiveJobs] = useState(data.activeJobs)
-  const [batchTimingData, setBatchTimingData] = useState<{
-    startedAt: number
-    totalImages: number
-    completedImages: number
-    avgImageDurationMs: number | null
-  } | null>(data.batchTiming)
+  const [batchTimingData, setBatchTimingData] = useState<BatchTimingInfo | null>(data.batchTiming)
   const [queueStopped, setQueueStopped] = useState<'error' | 'paused' | null>(
     data.queueStatus?.queueStopped ?? null,
   )
+  const [queueRetry, setQueueRetry] = useState(data.queueStatus.retry ?? null)
+  const { balance: anlasBalance, refresh: refreshAnlasBalance } = useAnlasBalance()
 
   // Sync generation state when loader data changes (e.g. page refresh reconnects to running jobs)
   useEffect(() => {
@@ -356,10 +407,57 @@ function WorkspacePage() {
     pack.scenes.map((s) => ({ ...s, packName: pack.name })),
   )
 
+  // Scenes whose seeds the parameter editor can reuse
+  const seedScenes = useMemo(
+    () => scenePacks.flatMap((pack) => pack.scenes.map((s) => ({ id: s.id, name: s.name }))),
+    [scenePacks],
+  )
+
+  // Placeholders a sweep axis can vary: the prompt's and every character's
+  const sweepPlaceholderKeys = useMemo(
+    () => [...new Set([...stableGeneralKeys, ...characterPlaceholderKeys.flatMap((c) => c.keys)])],
+    [stableGeneralKeys, characterPlaceholderKeys],
+  )
+
   function getSceneCount(sceneId: number) {
     return sceneCounts[sceneId] ?? countPerScene
   }
 
+  // Summed per scene: scene overrides can change resolution and steps
+  function estimateCost(balance: typeof anlasBalance) {
+    const options = {
+      opus: balance?.opus ?? false,
+      characterReferences: data.characters.filter((c) => c.referenceImagePath).length,
+    }
+    return allScenes.reduce((sum, s) => {
+      const sceneParams = mergeSceneParameters(params, parseSceneParameters(s.parameters))
+      return sum + estimateBatchCost(sceneParams, getSceneCount(s.id), options)
+    }, 0)
+  }
+
+  // Server-resolved token estimates of the scenes the batch would queue
+  const [sceneTokens, setSceneTokens] = useState<Array<SceneTokenEstimate>>([])
+  async function loadSceneTokens(sceneIds: Array<number>): Promise<Array<SceneTokenEstimate>> {
+    const counts = await previewBatchTokens({ data: { projectId, projectSceneIds: sceneIds } })
+    const names = new Map(allScenes.map((s) => [s.id, s.name]))
+    return counts.map((c) => ({ ...c, name: names.get(c.projectSceneId) ?? '' }))
+  }
+
+  // Refreshed once edits have been saved (the save itself waits a second)
+  const queuedSceneKey = allScenes.filter((s) => getSceneCount(s.id) > 0).map((s) => s.id).join(',')
+  useEffect(() => {
+    if (!queuedSceneKey) {
+      setSceneTokens([])
+      return
+    }
+    const timeout = setTimeout(() => {
+      loadSceneTokens(queuedSceneKey.split(',').map(Number))
+        .then(setSceneTokens)
+        .catch(() => setSceneTokens([]))
+    }, 1500)
+    return () => clearTimeout(timeout)
+  }, [queuedSceneKey, generalPrompt, negativePrompt, params.normalizePrompts, scenePacks, data.characters])
+
   const handleSceneCountChange = useCallback((sceneId: number, count: number | null) => {
     setSceneCounts((prev) => {
       if (count === null) {
@@ -370,63 +468,58 @@ function WorkspacePage() {
     })
   }, [])
 
-  // Poll during generation (stop polling when queue is stopped — no server-side changes in that state)
+  // Live progress during generation (paused while the queue is stopped — no server-side changes in that state)
   const prevCompletedRef = useRef(0)
-  useEffect(() => {
-    if (!generating || queueStopped) return
-    let cancelled = false
-    let busy = false
-
-    const interval = setInterval(async () => {
-      if (cancelled || busy) return
-      busy = true
-      try {
-        const [jobsResult, imgs, counts] = await Promise.all([
-          listProjectJobs({ data: projectId }),
-          getRecentImages({ data: projectId }),
-          getSceneImageCounts({ data: projectId }),
-        ])
-        if (cancelled) return
-
-        const { jobs, batchTiming, queueStatus } = jobsResult
-        setActiveJobs(jobs)
-        setBatchTimingData(batchTiming)
-        setLiveImages(imgs)
-        setLiveSceneCounts(counts)
-
-        // Detect queue stop (error or pause)
-        if (queueStatus?.queueStopped) {
-          setQueueStopped(queueStatus.queueStopped)
-          if (queueStatus.queueStopped === 'error') {
-            const failedJob = jobs.find((j) => j.status === 'failed')
-            if (failedJob?.errorMessage) {
-              toast.error(failedJob.errorMessage)
-            }
+  useProgressStream({
+    enabled: generating && !queueStopped,
+    onEvent: (event) => {
+      // Show the new thumbnail before the refresh lands
+      if (event.type === 'image-completed' && event.projectId === projectId) {
+        const { id, thumbnailPath, seed, projectSceneId, isFavorite, createdAt } = event.image
+        setLiveImages((prev) => [{ id, thumbnailPath, seed, projectSceneId, isFavorite, createdAt }, ...prev])
+      }
+    },
+    refresh: async () => {
+      const [jobsResult, imgs, counts] = await Promise.all([
+        listProjectJobs({ data: projectId }),
+        getRecentImages({ data: projectId }),
+        getSceneImageCounts({ data: projectId }),
+      ])
+
+      const { jobs, batchTiming, queueStatus } = jobsResult
+      setActiveJobs(jobs)
+      setBatchTimingData(batchTiming)
+      setLiveImages(imgs)
+      setLiveSceneCounts(counts)
+
+      setQueueRetry(queueStatus.retry ?? null)
+
+      // Detect queue stop (error or pause)
+      if (queueStatus.queueStopped) {
+        setQueueStopped(queueStatus.queueStopped)
+        if (queueStatus.queueStopped === 'error') {
+          const failedJob = jobs.find((j) => j.status === 'failed')
+          if (failedJob?.errorMessage) {
+            toast.error(failedJob.errorMessage)
           }
-          return
-        }
-
-        const totalCompleted = jobs.reduce((sum, j) => sum + (j.completedCount ?? 0), 0)
-        if (totalCompleted !== prevCompletedRef.current) {
-          prevCompletedRef.current = totalCompleted
         }
+        return
+      }
 
-        if (jobs.length === 0 && !queueStatus?.queueStopped) {
-          setGenerating(false)
-          setQueueStopped(null)
-          setBatchTimingData(null)
-          prevCompletedRef.current = 0
-          router.invalidate()
-        }
-      } catch {
-        // ignore poll errors
-      } finally {
-        busy = false
+      const totalCompleted = jobs.reduce((sum, j) => sum + (j.completedCount ?? 0), 0)
+      if (totalCompleted !== prevCompletedRef.current) {
+        prevCompletedRef.current = totalCompleted
       }
-    }, 2000)
 
-    return () => { cancelled = true; clearInterval(interval) }
-  }, [generating, queueStopped, projectId, router])
+      if (jobs.length === 0) {
+        setGenerating(false)
+        setQueueStopped(null)
+        setBatchTimingData(null)
+        prevCompletedRef.current = 0
+        router.invalidate()
+      }
+    },
+  })
 
   async function handleGenerate() {
     const candidateIds = allScenes.map((s) => s.id)
@@ -440,8 +533,7 @@ function WorkspacePage() {
       return
     }
 
-    const apiKey = await getSetting({ data: 'nai_api_key' })
-    if (!apiKey) {
+    if (!(await hasApiKey())) {
       toast.error(t('generation.apiKeyNotSet'), {
         action: {
           label: t('nav.settings'),
@@ -460,7 +552,24 @@ function WorkspacePage() {
       })
     }
 
+    // NAI cuts off prompts past the limit: worth a warning before queuing, not a block
+    const tokens = await loadSceneTokens(sceneIds)
+    setSceneTokens(tokens)
+    const overLimit = tokens.filter((s) => s.tokens.overLimit)
+    if (overLimit.length > 0) {
+      toast.warning(t('generation.tokensOverLimit', { limit: NAI_TOKEN_LIMIT, scenes: overLimit.map((s) => s.name).join(', ') }))
+    }
+
     const batchTotal = sceneIds.reduce((sum, id) => sum + getSceneCount(id), 0)
+    if (resolveBackendId(params) === 'nai') {
+      const balance = await refreshAnlasBalance()
+      const cost = estimateCost(balance)
+      if (balance && cost > balance.anlas) {
+        toast.error(t('generation.anlasInsufficient', { cost: cost.toLocaleString(), balance: balance.anlas.toLocaleString() }))
+        return
+      }
+    }
+
     setGenerationTotal(batchTotal)
     setGenerating(true)
     try {
@@ -476,8 +585,8 @@ function WorkspacePage() {
       window.dispatchEvent(new CustomEvent('onboarding:generation-started'))
       const { jobs } = await listProjectJobs({ data: projectId })
       setActiveJobs(jobs)
-    } catch {
-      toast.error(t('generation.generationFailed'))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('generation.generationFailed'))
       setGenerating(false)
     }
   }
@@ -567,6 +676,9 @@ function WorkspacePage() {
           onGeneralPromptChange={handleGeneralPromptChange}
           onNegativePromptChange={handleNegativePromptChange}
           projectId={projectId}
+          placeholderDefaults={placeholderDefaults}
+          onPlaceholderDefaultChange={handlePlaceholderDefaultChange}
+          filledPlaceholders={filledPlaceholderKeys}
         />
       }
       centerPanel={
@@ -574,6 +686,7 @@ function WorkspacePage() {
           scenePacks={scenePacks}
           projectId={projectId}
           projectName={data.project.name}
+          projectParameters={params}
           generalPlaceholderKeys={stableGeneralKeys}
           characterPlaceholderKeys={characterPlaceholderKeys}
           characters={data.characters}
@@ -595,6 +708,8 @@ function WorkspacePage() {
           selectedSceneId={selectedSceneId}
           onSelectedSceneChange={setSelectedSceneId}
           getPrompts={getPrompts}
+          placeholderDefaults={effectivePlaceholderDefaults}
+          normalizePrompts={!!params.normalizePrompts}
         />
       }
       rightPanel={
@@ -610,13 +725,28 @@ function WorkspacePage() {
           onGenerate={handleGenerate}
           generating={generating}
           totalImages={totalImages}
-
+          costEstimate={
+            totalImages > 0 && (
+              <>
+                <TokenEstimate scenes={sceneTokens} />
+                {resolveBackendId(params) === 'nai' && (
+                  <AnlasEstimate cost={estimateCost(anlasBalance)} balance={anlasBalance} />
+                )}
+              </>
+            )
+          }
           parameterPopover={
-            <ParameterPopover params={params} onChange={handleParamsChange} />
+            <ParameterPopover params={params} onChange={handleParamsChange} seedScenes={seedScenes} />
+          }
+          vibePopover={
+            <VibeTransferPopover projectId={projectId} />
           }
           scenePackDialog={
             <ScenePackDialog projectId={projectId} />
           }
+          sweepDialog={
+            <SweepDialog projectId={projectId} scenes={seedScenes} placeholderKeys={sweepPlaceholderKeys} />
+          }
           downloadButton={
             <DownloadDialog
               trigger={
@@ -637,6 +767,7 @@ function WorkspacePage() {
               batchTotal={generationTotal}
               batchTiming={batchTimingData}
               queueStopped={queueStopped}
+              retry={queueRetry}
               onCancel={handleCancelJobs}
               onPause={handlePause}
               onResume={handleResume}
@@ -1,6 +1,7 @@
 import { createFileRoute, Link, useRouter, useNavigate } from '@tanstack/react-router'
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { toast } from 'sonner'
+import type { BatchTimingInfo } from '@/components/workspace/generation-progress'
 import { useTranslation } from '@/lib/i18n'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { ArrowLeft02Icon, Menu01Icon } from '@hugeicons/core-free-icons'
@@ -10,11 +11,13 @@ import { getScenePageContext, listProjectJobs } from '@/server/functions/workspa
 import { cancelJobs, pauseGeneration, resumeGeneration, dismissGenerationError } from '@/server/functions/generation'
 import { updateProjectScene } from '@/server/functions/project-scenes'
 import { updateProject } from '@/server/functions/projects'
-import { extractPlaceholders } from '@/lib/placeholder'
-import { useStableArray } from '@/lib/utils'
+import { extractPlaceholderDefaults, extractPlaceholders, mergePlaceholderValues } from '@/lib/placeholder'
+import { useStableArray, useStableRecord } from '@/lib/utils'
+import { useProgressStream } from '@/lib/use-progress-stream'
 import { SceneDetail } from '@/components/workspace/scene-detail'
 import { PromptPanel } from '@/components/workspace/prompt-panel'
 import { ScenePlaceholderPanel } from '@/components/workspace/scene-placeholder-panel'
+import { VibeTransferPopover } from '@/components/workspace/vibe-transfer-popover'
 import { Skeleton } from '@/components/ui/skeleton'
 
 function PendingComponent() {
@@ -102,9 +105,14 @@ function SceneDetailPage() {
   const [generalPrompt, setGeneralPrompt] = useState(data.project.generalPrompt ?? '')
   const [negativePrompt, setNegativePrompt] = useState(data.project.negativePrompt ?? '')
 
+  const [placeholderDefaults, setPlaceholderDefaults] = useState<Record<string, string>>(
+    JSON.parse(data.project.placeholderDefaults || '{}'),
+  )
+
   useEffect(() => {
     setGeneralPrompt(data.project.generalPrompt ?? '')
     setNegativePrompt(data.project.negativePrompt ?? '')
+    setPlaceholderDefaults(JSON.parse(data.project.placeholderDefaults || '{}'))
   }, [data.project])
 
   // ── Stable placeholder key arrays ──
@@ -123,6 +131,23 @@ function SceneDetailPage() {
     [data.characters],
   )
 
+  // ── Fallback per key: project default, else the first inline \\key|default\\ ──
+  const rawEffectiveDefaults = useMemo(
+    () => mergePlaceholderValues(
+      extractPlaceholderDefaults(
+        [generalPrompt, negativePrompt, ...data.characters.flatMap((c) => [c.charPrompt, c.charNegative])].join('\n'),
+      ),
+      placeholderDefaults,
+    ),
+    [generalPrompt, negativePrompt, data.characters, placeholderDefaults],
+  )
+  const effectivePlaceholderDefaults = useStableRecord(rawEffectiveDefaults)
+
+  const projectParameters = useMemo<Record<string, unknown>>(
+    () => JSON.parse(data.project.parameters || '{}'),
+    [data.project.parameters],
+  )
+
   // ── Stable getPrompts callback for PlaceholderEditor preview (ref-based, no re-renders) ──
   const promptsRef = useRef({ generalPrompt, negativePrompt })
   promptsRef.current = { generalPrompt, negativePrompt }
@@ -145,7 +170,7 @@ function SceneDetailPage() {
   const savedClearRef = useRef<ReturnType<typeof setTimeout>>(undefined)
 
   const saveProject = useCallback(
-    async (fields: { generalPrompt?: string; negativePrompt?: string }) => {
+    async (fields: { generalPrompt?: string; negativePrompt?: string; placeholderDefaults?: string }) => {
       setSaveStatus('saving')
       try {
         await updateProject({ data: { id: projectId, ...fields } })
@@ -179,6 +204,13 @@ function SceneDetailPage() {
     debouncedSave({ negativePrompt: value })
   }
 
+  function handlePlaceholderDefaultChange(key: string, value: string) {
+    const { [key]: _, ...rest } = placeholderDefaults
+    const next = value ? { ...rest, [key]: value } : rest
+    setPlaceholderDefaults(next)
+    saveProject({ placeholderDefaults: JSON.stringify(next) })
+  }
+
   function handlePlaceholdersChange() {
     router.invalidate()
   }
@@ -196,18 +228,14 @@ function SceneDetailPage() {
       .catch(() => toast.error(t('imageDetail.setProjectThumbFailed')))
   }
 
-  // ── Generation polling ──
+  // ── Generation progress ──
   const [activeJobs, setActiveJobs] = useState(data.activeJobs)
-  const [batchTimingData, setBatchTimingData] = useState<{
-    startedAt: number
-    totalImages: number
-    completedImages: number
-    avgImageDurationMs: number | null
-  } | null>(data.batchTiming)
+  const [batchTimingData, setBatchTimingData] = useState<BatchTimingInfo | null>(data.batchTiming)
   const [refreshKey, setRefreshKey] = useState(0)
   const [queueStopped, setQueueStopped] = useState<'error' | 'paused' | null>(
     data.queueStatus?.queueStopped ?? null,
   )
+  const [queueRetry, setQueueRetry] = useState(data.queueStatus.retry ?? null)
 
   useEffect(() => {
     const stopped = data.queueStatus?.queueStopped ?? null
@@ -217,48 +245,36 @@ function SceneDetailPage() {
     }
   }, [data.activeJobs, data.queueStatus])
 
-  const pollingRef = useRef(false)
   const hasActiveJobs = activeJobs.length > 0
-  useEffect(() => {
-    if (!hasActiveJobs || queueStopped) return
-    let cancelled = false
-
-    const interval = setInterval(async () => {
-      if (cancelled || pollingRef.current) return
-      pollingRef.current = true
-      try {
-        const { jobs, batchTiming, queueStatus } = await listProjectJobs({ data: projectId })
-        if (cancelled) return
-        setActiveJobs(jobs)
-        setBatchTimingData(batchTiming)
-        setRefreshKey((k) => k + 1)
-
-        // Detect queue stop
-        if (queueStatus?.queueStopped) {
-          setQueueStopped(queueStatus.queueStopped)
-          if (queueStatus.queueStopped === 'error') {
-            const failedJob = jobs.find((j) => j.status === 'failed')
-            if (failedJob?.errorMessage) {
-              toast.error(failedJob.errorMessage)
-            }
+  useProgressStream({
+    enabled: hasActiveJobs && !queueStopped,
+    refresh: async () => {
+      const { jobs, batchTiming, queueStatus } = await listProjectJobs({ data: projectId })
+      setActiveJobs(jobs)
+      setBatchTimingData(batchTiming)
+      setRefreshKey((k) => k + 1)
+
+      setQueueRetry(queueStatus.retry ?? null)
+
+      // Detect queue stop
+      if (queueStatus.queueStopped) {
+        setQueueStopped(queueStatus.queueStopped)
+        if (queueStatus.queueStopped === 'error') {
+          const failedJob = jobs.find((j) => j.status === 'failed')
+          if (failedJob?.errorMessage) {
+            toast.error(failedJob.errorMessage)
           }
-          return
-        }
-
-        if (jobs.length === 0 && !queueStatus?.queueStopped) {
-          setQueueStopped(null)
-          setBatchTimingData(null)
-          router.invalidate()
         }
-      } catch {
-        // ignore poll errors
-      } finally {
-        pollingRef.current = false
+        return
       }
-    }, 2000)
 
-    return () => { cancelled = true; clearInterval(interval) }
-  }, [hasActiveJobs, queueStopped, projectId, router])
+      if (jobs.length === 0) {
+        setQueueStopped(null)
+        setBatchTimingData(null)
+        router.invalidate()
+      }
+    },
+  })
 
   async function handleCancelJobs() {
     const jobIds = activeJobs.map((j) => j.id)
@@ -337,6 +353,7 @@ function SceneDetailPage() {
           <div className="text-sm text-muted-foreground">{data.packName}</div>
           <h1 className="text-base font-semibold truncate">{data.sceneName}</h1>
         </div>
+        <VibeTransferPopover projectId={projectId} projectSceneId={sceneId} />
         {saveIndicator && (
           <span className={`text-sm ${saveStatus === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
             {saveIndicator}
@@ -348,6 +365,7 @@ function SceneDetailPage() {
             batchTotal={activeJobs.reduce((sum, j) => sum + (j.totalCount ?? 0), 0)}
             batchTiming={batchTimingData}
             queueStopped={queueStopped}
+            retry={queueRetry}
             onCancel={handleCancelJobs}
             onPause={handlePause}
             onResume={handleResume}
@@ -375,6 +393,8 @@ function SceneDetailPage() {
             onGeneralPromptChange={handleGeneralPromptChange}
             onNegativePromptChange={handleNegativePromptChange}
             projectId={projectId}
+            placeholderDefaults={placeholderDefaults}
+            onPlaceholderDefaultChange={handlePlaceholderDefaultChange}
           />
         </aside>
 
@@ -389,6 +409,8 @@ function SceneDetailPage() {
             characters={data.characters}
             onPlaceholdersChange={handlePlaceholdersChange}
             getPrompts={getPrompts}
+            placeholderDefaults={effectivePlaceholderDefaults}
+            normalizePrompts={!!projectParameters.normalizePrompts}
           />
         </div>
 
@@ -399,6 +421,7 @@ function SceneDetailPage() {
             characters={data.characters}
             generalPlaceholderKeys={stableGeneralKeys}
             projectId={projectId}
+            projectParameters={projectParameters}
             thumbnailImageId={data.thumbnailImageId}
             onThumbnailChange={handleThumbnailChange}
             projectThumbnailImageId={data.projectThumbnailImageId}
@@ -0,0 +1,56 @@
+import { onProgressEvent } from '../services/progress-events'
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 15_000
+// Reconnect delay the browser uses after the stream drops
+const RECONNECT_MS = 3_000
+
+/**
+ * Server-sent events stream of queue progress, served at /api/events
+ * (routes/api/events.ts). Each event is one JSON-encoded ProgressEvent.
+ */
+export function progressEventStream(request: Request): Response {
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // Stream already closed
+          close()
+        }
+      }
+
+      const unsubscribe = onProgressEvent((event) => send(`data: ${JSON.stringify(event)}\n\n`))
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS)
+      close = () => {
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener('abort', () => {
+        close()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+
+      send(`retry: ${RECONNECT_MS}\n: connected\n\n`)
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
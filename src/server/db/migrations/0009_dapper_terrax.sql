@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `placeholder_defaults` text DEFAULT '{}';
\ No newline at end of file
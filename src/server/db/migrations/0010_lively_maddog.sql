@@ -0,0 +1,2 @@
+ALTER TABLE `character_scene_overrides` ADD `position` text;--> statement-breakpoint
+ALTER TABLE `characters` ADD `position` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `generated_images` ADD `parent_image_id` integer REFERENCES generated_images(id) ON UPDATE no action ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `generated_images_parent_idx` ON `generated_images` (`parent_image_id`);--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `source_image_path` text;--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `source_image_id` integer REFERENCES generated_images(id) ON UPDATE no action ON DELETE set null;
\ No newline at end of file
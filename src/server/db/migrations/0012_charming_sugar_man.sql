@@ -0,0 +1 @@
+ALTER TABLE `generation_jobs` ADD `mask_path` text;
\ No newline at end of file
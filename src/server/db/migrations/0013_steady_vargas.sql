@@ -0,0 +1,23 @@
+CREATE TABLE `reference_images` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`file_path` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now'))
+);
+--> statement-breakpoint
+CREATE TABLE `vibe_attachments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`reference_image_id` integer NOT NULL,
+	`project_id` integer NOT NULL,
+	`project_scene_id` integer,
+	`strength` real DEFAULT 0.6 NOT NULL,
+	`information_extracted` real DEFAULT 1 NOT NULL,
+	`sort_order` integer DEFAULT 0,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`reference_image_id`) REFERENCES `reference_images`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`project_scene_id`) REFERENCES `project_scenes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `vibe_attachments_project_idx` ON `vibe_attachments` (`project_id`);--> statement-breakpoint
+CREATE INDEX `vibe_attachments_scene_idx` ON `vibe_attachments` (`project_scene_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `characters` ADD `reference_image_path` text;--> statement-breakpoint
+ALTER TABLE `characters` ADD `reference_strength` real DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `characters` ADD `reference_fidelity` real DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `characters` ADD `reference_style_aware` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `generated_images` ADD `backend` text DEFAULT 'nai' NOT NULL;--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `backend` text DEFAULT 'nai' NOT NULL;
\ No newline at end of file
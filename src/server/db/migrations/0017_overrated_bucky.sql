@@ -0,0 +1,2 @@
+ALTER TABLE `generation_jobs` ADD `priority` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `queue_position` integer;
\ No newline at end of file
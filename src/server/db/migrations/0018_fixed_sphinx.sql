@@ -0,0 +1,2 @@
+ALTER TABLE `project_scenes` ADD `parameters` text DEFAULT '{}';--> statement-breakpoint
+ALTER TABLE `scenes` ADD `parameters` text DEFAULT '{}';
\ No newline at end of file
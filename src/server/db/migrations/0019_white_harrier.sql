@@ -0,0 +1,16 @@
+CREATE TABLE `sweeps` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`project_scene_id` integer,
+	`axes` text NOT NULL,
+	`seed` integer NOT NULL,
+	`grid_image_paths` text,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`project_scene_id`) REFERENCES `project_scenes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `sweeps_project_id_idx` ON `sweeps` (`project_id`);--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `sweep_id` integer REFERENCES sweeps(id) ON UPDATE no action ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `sweep_cell` text;--> statement-breakpoint
+CREATE INDEX `generation_jobs_sweep_id_idx` ON `generation_jobs` (`sweep_id`);
\ No newline at end of file
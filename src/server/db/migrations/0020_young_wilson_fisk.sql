@@ -0,0 +1,12 @@
+CREATE TABLE `variation_sets` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`image_id` integer NOT NULL,
+	`mode` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`image_id`) REFERENCES `generated_images`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `variation_sets_image_id_idx` ON `variation_sets` (`image_id`);--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `variation_set_id` integer REFERENCES variation_sets(id) ON UPDATE no action ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `variation_change` text;--> statement-breakpoint
+CREATE INDEX `generation_jobs_variation_set_idx` ON `generation_jobs` (`variation_set_id`);
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { sqliteTable, text, integer, uniqueIndex, index, primaryKey } from 'drizzle-orm/sqlite-core'
+import { index, integer, primaryKey, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
 
 // ─── Projects ───────────────────────────────────────────────────────────────
@@ -9,6 +10,7 @@ export const projects = sqliteTable('projects', {
   generalPrompt: text('general_prompt').default(''),
   negativePrompt: text('negative_prompt').default(''),
   parameters: text('parameters').default('{}'),
+  placeholderDefaults: text('placeholder_defaults').default('{}'),
   thumbnailImageId: integer('thumbnail_image_id'),
   createdAt: text('created_at').default(sql`(datetime('now'))`),
   updatedAt: text('updated_at').default(sql`(datetime('now'))`),
@@ -26,6 +28,13 @@ export const characters = sqliteTable(
     name: text('name').notNull(),
     charPrompt: text('char_prompt').notNull().default(''),
     charNegative: text('char_negative').notNull().default(''),
+    // Grid cell (`C3`) or `x,y` coordinates; null lets NAI place the character
+    position: text('position'),
+    // Character reference image under data/references; null = no reference
+    referenceImagePath: text('reference_image_path'),
+    referenceStrength: real('reference_strength').notNull().default(1),
+    referenceFidelity: real('reference_fidelity').notNull().default(1),
+    referenceStyleAware: integer('reference_style_aware').notNull().default(1),
     createdAt: text('created_at').default(sql`(datetime('now'))`),
     updatedAt: text('updated_at').default(sql`(datetime('now'))`),
   },
@@ -55,6 +64,8 @@ export const scenes = sqliteTable(
     name: text('name').notNull(),
     description: text('description'),
     placeholders: text('placeholders').default('{}'),
+    // Partial generation parameters merged over the project's (see lib/scene-parameters)
+    parameters: text('parameters').default('{}'),
     sortOrder: integer('sort_order').default(0),
     createdAt: text('created_at').default(sql`(datetime('now'))`),
     updatedAt: text('updated_at').default(sql`(datetime('now'))`),
@@ -95,6 +106,8 @@ export const projectScenes = sqliteTable(
     }),
     name: text('name').notNull(),
     placeholders: text('placeholders').default('{}'),
+    // Partial generation parameters merged over the project's (see lib/scene-parameters)
+    parameters: text('parameters').default('{}'),
     thumbnailImageId: integer('thumbnail_image_id'),
     sortOrder: integer('sort_order').default(0),
     createdAt: text('created_at').default(sql`(datetime('now'))`),
@@ -118,6 +131,7 @@ export const characterSceneOverrides = sqliteTable(
       .notNull()
       .references(() => characters.id, { onDelete: 'cascade' }),
     placeholders: text('placeholders').default('{}'),
+    position: text('position'), // overrides characters.position for this scene
   },
   (table) => [
     uniqueIndex('char_scene_override_unique_idx').on(table.projectSceneId, table.characterId),
@@ -126,6 +140,73 @@ export const characterSceneOverrides = sqliteTable(
   ],
 )
 
+// ─── Reference Images (vibe transfer library, files under data/references) ──
+export const referenceImages = sqliteTable('reference_images', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  filePath: text('file_path').notNull(),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+})
+
+// ─── Vibe Attachments (reference images attached to a project or one scene) ──
+export const vibeAttachments = sqliteTable(
+  'vibe_attachments',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    referenceImageId: integer('reference_image_id')
+      .notNull()
+      .references(() => referenceImages.id, { onDelete: 'cascade' }),
+    projectId: integer('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    // null = applies to every scene in the project
+    projectSceneId: integer('project_scene_id')
+      .references(() => projectScenes.id, { onDelete: 'cascade' }),
+    strength: real('strength').notNull().default(0.6),
+    informationExtracted: real('information_extracted').notNull().default(1),
+    sortOrder: integer('sort_order').default(0),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('vibe_attachments_project_idx').on(table.projectId),
+    index('vibe_attachments_scene_idx').on(table.projectSceneId),
+  ],
+)
+
+// ─── Sweeps (X/Y/Z parameter grids, one single-image job per cell) ──────────
+export const sweeps = sqliteTable(
+  'sweeps',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    projectId: integer('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    projectSceneId: integer('project_scene_id').references(() => projectScenes.id, {
+      onDelete: 'set null',
+    }),
+    axes: text('axes').notNull(), // JSON Array<SweepAxis> (see lib/sweep)
+    seed: integer('seed').notNull(),
+    // JSON array of grid image paths under data/images, one per Z value; set once composed
+    gridImagePaths: text('grid_image_paths'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('sweeps_project_id_idx').on(table.projectId)],
+)
+
+// ─── Variation Sets (new images close to a gallery image, see lib/variations) ──
+export const variationSets = sqliteTable(
+  'variation_sets',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    imageId: integer('image_id')
+      .notNull()
+      .references((): AnySQLiteColumn => generatedImages.id, { onDelete: 'cascade' }),
+    mode: text('mode').notNull(), // 'seed' | 'tags' | 'sampler'
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('variation_sets_image_id_idx').on(table.imageId)],
+)
+
 // ─── Generation Jobs ────────────────────────────────────────────────────────
 export const generationJobs = sqliteTable(
   'generation_jobs',
@@ -140,6 +221,24 @@ export const generationJobs = sqliteTable(
     }),
     resolvedPrompts: text('resolved_prompts').notNull(),
     resolvedParameters: text('resolved_parameters').notNull(),
+    // img2img: copy of the source image under data/sources, plus the gallery image it came from
+    sourceImagePath: text('source_image_path'),
+    sourceImageId: integer('source_image_id').references((): AnySQLiteColumn => generatedImages.id, {
+      onDelete: 'set null',
+    }),
+    // Inpainting: black/white mask (white = repaint) under data/sources, kept so the inpaint can be re-run
+    maskPath: text('mask_path'),
+    // Generation backend the job runs on (see lib/generation-backend)
+    backend: text('backend').notNull().default('nai'),
+    // Queue order: higher priority first, then ascending position (see lib/queue-order)
+    priority: integer('priority').notNull().default(0),
+    queuePosition: integer('queue_position'),
+    // Sweep cell this job renders: JSON [x, y, z] within the sweep's grid
+    sweepId: integer('sweep_id').references(() => sweeps.id, { onDelete: 'set null' }),
+    sweepCell: text('sweep_cell'),
+    // Variation this job renders, with what it changed from the set's image
+    variationSetId: integer('variation_set_id').references(() => variationSets.id, { onDelete: 'set null' }),
+    variationChange: text('variation_change'),
     totalCount: integer('total_count').default(1),
     completedCount: integer('completed_count').default(0),
     status: text('status').default('pending'),
@@ -151,6 +250,8 @@ export const generationJobs = sqliteTable(
     index('generation_jobs_status_idx').on(table.status),
     index('generation_jobs_project_id_idx').on(table.projectId),
     index('generation_jobs_scene_id_idx').on(table.projectSceneId),
+    index('generation_jobs_sweep_id_idx').on(table.sweepId),
+    index('generation_jobs_variation_set_idx').on(table.variationSetId),
   ],
 )
 
@@ -171,7 +272,12 @@ export const generatedImages = sqliteTable(
     }),
     filePath: text('file_path').notNull(),
     thumbnailPath: text('thumbnail_path'),
+    // Gallery image this one was derived from (img2img); null for uploads and plain generations
+    parentImageId: integer('parent_image_id').references((): AnySQLiteColumn => generatedImages.id, {
+      onDelete: 'set null',
+    }),
     seed: integer('seed'),
+    backend: text('backend').notNull().default('nai'),
     metadata: text('metadata').default('{}'),
     isFavorite: integer('is_favorite').default(0),
     rating: integer('rating'),
@@ -186,6 +292,7 @@ export const generatedImages = sqliteTable(
     index('generated_images_source_scene_idx').on(table.sourceSceneId),
     index('generated_images_favorite_idx').on(table.isFavorite),
     index('generated_images_job_id_idx').on(table.jobId),
+    index('generated_images_parent_idx').on(table.parentImageId),
     index('generated_images_project_created_idx').on(table.projectId, table.createdAt),
     index('generated_images_favorite_created_idx').on(table.isFavorite, table.createdAt),
   ],
@@ -272,3 +379,13 @@ export const settings = sqliteTable('settings', {
   value: text('value').notNull(),
   updatedAt: text('updated_at').default(sql`(datetime('now'))`),
 })
+
+// ─── API Keys (named NAI keys besides the default one; one queue worker each) ──
+export const apiKeys = sqliteTable('api_keys', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  apiKey: text('api_key').notNull(),
+  enabled: integer('enabled').notNull().default(1),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+})
@@ -0,0 +1,183 @@
+/**
+ * Local stand-in for the NovelAI image API, for development and integration tests.
+ *
+ * Answers `POST /ai/generate-image` with the same zip-wrapped PNG as the real
+ * endpoint (a deterministic placeholder from the mock backend) and
+ * `POST /ai/encode-vibe` with a fake encoding. Failures are scripted per request:
+ * status codes (429, 500, ...), slow responses and connections that never answer.
+ *
+ * Run it standalone with `npx tsx src/server/dev/fake-nai-server.ts` and start the
+ * app with `NAI_BASE_URL=http://127.0.0.1:8787`. While it runs, the behaviour can be
+ * changed over HTTP:
+ *   POST /__fake/default   {"type":"error","status":500}      every later request
+ *   POST /__fake/enqueue   [{"type":"error","status":429}]    the next N requests
+ *   GET  /__fake/requests                                     requests received so far
+ */
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+import { pathToFileURL } from 'node:url'
+import { zipSync } from 'fflate'
+import { renderPlaceholder } from '../services/mock-backend'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+export type FakeNaiBehavior =
+  /** Normal response, optionally after a delay */
+  | { type: 'ok'; delayMs?: number }
+  /** Error status with a text body, like NAI's 429 rate limit or 500s */
+  | { type: 'error'; status: number; body?: string; delayMs?: number }
+  /** Accept the request and never answer, so the client times out */
+  | { type: 'hang' }
+
+/** The parts of a request body the fake reads; the rest is recorded untouched */
+export interface FakeNaiRequestBody {
+  input?: string
+  parameters?: Record<string, unknown>
+  image?: string
+}
+
+export interface FakeNaiRequest {
+  path: string
+  authorization: string | undefined
+  body: FakeNaiRequestBody
+}
+
+export interface FakeNaiServer {
+  /** Base URL to put in NAI_BASE_URL */
+  url: string
+  requests: Array<FakeNaiRequest>
+  /** Behaviours for the next requests, used once each in order */
+  enqueue: (...behaviors: Array<FakeNaiBehavior>) => void
+  /** Behaviour once the enqueued ones are used up */
+  setDefault: (behavior: FakeNaiBehavior) => void
+  /** Answer 401 for any other key; null accepts every key */
+  setValidKeys: (keys: Array<string> | null) => void
+  close: () => Promise<void>
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Array<Buffer> = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+async function generateResponse(body: FakeNaiRequestBody): Promise<Uint8Array> {
+  const parameters = body.parameters ?? {}
+  const png = await renderPlaceholder(
+    {
+      generalPrompt: String(body.input ?? ''),
+      negativePrompt: String(parameters.negative_prompt ?? ''),
+      characterPrompts: [],
+    },
+    Number(parameters.seed ?? 0),
+    Number(parameters.width ?? 832),
+    Number(parameters.height ?? 1216),
+  )
+  return zipSync({ 'image_0.png': png })
+}
+
+export async function startFakeNaiServer(
+  options: { port?: number; defaultBehavior?: FakeNaiBehavior } = {},
+): Promise<FakeNaiServer> {
+  const pending: Array<FakeNaiBehavior> = []
+  let fallback: FakeNaiBehavior = options.defaultBehavior ?? { type: 'ok' }
+  const requests: Array<FakeNaiRequest> = []
+  let validKeys: Array<string> | null = null
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url ?? '/').split('?')[0]
+    const raw = await readBody(req)
+
+    // Control endpoints for standalone use
+    if (path === '/__fake/default' && req.method === 'POST') {
+      fallback = JSON.parse(raw)
+      res.writeHead(204).end()
+      return
+    }
+    if (path === '/__fake/enqueue' && req.method === 'POST') {
+      const parsed = JSON.parse(raw)
+      pending.push(...(Array.isArray(parsed) ? parsed : [parsed]))
+      res.writeHead(204).end()
+      return
+    }
+    if (path === '/__fake/requests' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(requests))
+      return
+    }
+
+    if (req.method !== 'POST' || (path !== '/ai/generate-image' && path !== '/ai/encode-vibe')) {
+      res.writeHead(404).end('Not found')
+      return
+    }
+
+    let body: FakeNaiRequestBody
+    try {
+      body = JSON.parse(raw) as FakeNaiRequestBody
+    } catch {
+      res.writeHead(400).end('Invalid JSON')
+      return
+    }
+    requests.push({ path, authorization: req.headers.authorization, body })
+
+    const behavior = pending.shift() ?? fallback
+    if (behavior.type === 'hang') return
+    if (behavior.delayMs) await new Promise((resolve) => setTimeout(resolve, behavior.delayMs))
+    if (res.destroyed) return
+
+    if (behavior.type === 'error') {
+      res.writeHead(behavior.status, { 'Content-Type': 'text/plain' })
+        .end(behavior.body ?? `Simulated error ${behavior.status}`)
+      return
+    }
+
+    const token = req.headers.authorization?.startsWith('Bearer ') ? req.headers.authorization.slice(7) : null
+    if (!token || (validKeys && !validKeys.includes(token))) {
+      res.writeHead(401).end('Unauthorized')
+      return
+    }
+
+    if (path === '/ai/encode-vibe') {
+      const encoding = createHash('sha256').update(String(body.image ?? '')).digest()
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(encoding)
+      return
+    }
+
+    const zip = await generateResponse(body)
+    res.writeHead(200, { 'Content-Type': 'application/x-zip-compressed' }).end(Buffer.from(zip))
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (!res.headersSent) res.writeHead(500).end(String(error))
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    enqueue: (...behaviors) => pending.push(...behaviors),
+    setDefault: (behavior) => {
+      fallback = behavior
+    },
+    setValidKeys: (keys) => {
+      validKeys = keys
+    },
+    close: () =>
+      new Promise((resolve) => {
+        // Hanging requests would otherwise keep the server open
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }),
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = await startFakeNaiServer({ port: Number(process.env.FAKE_NAI_PORT) || 8787 })
+  console.log(`Fake NAI API listening on ${server.url}`)
+}
@@ -0,0 +1,61 @@
+import { createServerFn } from '@tanstack/react-start'
+import { asc, eq } from 'drizzle-orm'
+import { db } from '../db'
+import { apiKeys } from '../db/schema'
+import { loadKeyPool, maskApiKey } from '../services/api-keys'
+import { syncKeyPool } from '../services/generation'
+import { createLogger } from '../services/logger'
+
+const log = createLogger('fn.apiKeys')
+
+/** Named keys with the key itself masked */
+export const listApiKeys = createServerFn({ method: 'GET' }).handler(() => {
+  return db
+    .select()
+    .from(apiKeys)
+    .orderBy(asc(apiKeys.id))
+    .all()
+    .map(({ apiKey, ...row }) => ({ ...row, enabled: row.enabled === 1, maskedKey: maskApiKey(apiKey) }))
+})
+
+/** Whether any key, the default one or a named one, can run NAI jobs */
+export const hasApiKey = createServerFn({ method: 'GET' }).handler(() => {
+  return loadKeyPool().length > 0
+})
+
+export const createApiKey = createServerFn({ method: 'POST' })
+  .inputValidator((data: { name: string; apiKey: string }) => data)
+  .handler(({ data }) => {
+    const name = data.name.trim()
+    const apiKey = data.apiKey.trim()
+    if (!name || !apiKey) throw new Error('Name and key are required')
+
+    const row = db.insert(apiKeys).values({ name, apiKey }).returning().get()
+    log.info('create', 'API key added', { apiKeyId: row.id, name })
+    syncKeyPool()
+    return { id: row.id }
+  })
+
+export const updateApiKey = createServerFn({ method: 'POST' })
+  .inputValidator((data: { id: number; name?: string; enabled?: boolean }) => data)
+  .handler(({ data }) => {
+    const setValues: Record<string, unknown> = { updatedAt: new Date().toISOString() }
+    if (data.name !== undefined) setValues.name = data.name.trim()
+    if (data.enabled !== undefined) setValues.enabled = data.enabled ? 1 : 0
+
+    db.update(apiKeys).set(setValues).where(eq(apiKeys.id, data.id)).run()
+    log.info('update', 'API key updated', { apiKeyId: data.id, name: data.name, enabled: data.enabled })
+    // A disabled key's worker stops after its current job
+    syncKeyPool()
+    return { success: true }
+  })
+
+export const deleteApiKey = createServerFn({ method: 'POST' })
+  .inputValidator((id: number) => id)
+  .handler(({ data: id }) => {
+    db.delete(apiKeys).where(eq(apiKeys.id, id)).run()
+    log.info('delete', 'API key deleted', { apiKeyId: id })
+    // Its worker stops after its current job; a failed one leaves the status list right away
+    syncKeyPool()
+    return { success: true }
+  })
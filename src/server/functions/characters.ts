@@ -3,6 +3,7 @@ import { db } from '../db'
 import { characters } from '../db/schema'
 import { eq, max } from 'drizzle-orm'
 import { createLogger } from '../services/logger'
+import { saveReferenceImage } from '../services/image'
 
 const log = createLogger('fn.characters')
 
@@ -43,7 +44,18 @@ export const createCharacter = createServerFn({ method: 'POST' })
   })
 
 export const updateCharacter = createServerFn({ method: 'POST' })
-  .inputValidator((data: { id: number; name?: string; charPrompt?: string; charNegative?: string }) => data)
+  .inputValidator(
+    (data: {
+      id: number
+      name?: string
+      charPrompt?: string
+      charNegative?: string
+      position?: string | null
+      referenceStrength?: number
+      referenceFidelity?: number
+      referenceStyleAware?: number
+    }) => data,
+  )
   .handler(async ({ data }) => {
     const { id, ...updates } = data
     db.update(characters)
@@ -53,6 +65,25 @@ export const updateCharacter = createServerFn({ method: 'POST' })
     return { success: true }
   })
 
+/** Set (from base64 or a data URL) or clear a character's reference image */
+export const setCharacterReference = createServerFn({ method: 'POST' })
+  .inputValidator((data: { id: number; imageData: string | null }) => data)
+  .handler(async ({ data }) => {
+    // Old files are kept — queued jobs and image metadata still point at them
+    const referenceImagePath = data.imageData
+      ? await saveReferenceImage(Buffer.from(data.imageData.replace(/^data:[^,]*,/, ''), 'base64'))
+      : null
+    db.update(characters)
+      .set({ referenceImagePath, updatedAt: new Date().toISOString() })
+      .where(eq(characters.id, data.id))
+      .run()
+    log.info('setReference', referenceImagePath ? 'Character reference set' : 'Character reference cleared', {
+      characterId: data.id,
+      referenceImagePath,
+    })
+    return { referenceImagePath }
+  })
+
 export const deleteCharacter = createServerFn({ method: 'POST' })
   .inputValidator((id: number) => id)
   .handler(async ({ data: id }) => {
@@ -1,9 +1,10 @@
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
-import { generatedImages, tags, imageTags, projects, projectScenes, imageBundles, promptBundles } from '../db/schema'
+import { generatedImages, generationJobs, imageBundles, imageTags, projectScenes, projects, promptBundles, tags } from '../db/schema'
 import { eq, desc, asc, and, sql, inArray, isNull } from 'drizzle-orm'
 import { createLogger } from '../services/logger'
 import { deleteImageFiles } from '../services/image'
+import { listVariationSets, variationOrigin } from '../services/variations'
 
 const log = createLogger('fn.gallery')
 
@@ -264,6 +265,29 @@ export const getImageDetailPage = createServerFn({ method: 'GET' })
       .where(eq(imageBundles.imageId, data.imageId))
       .all()
 
+    // img2img lineage: the source image (gallery image or uploaded file) and images derived from this one
+    const parent = image.parentImageId
+      ? db
+          .select({ id: generatedImages.id, thumbnailPath: generatedImages.thumbnailPath })
+          .from(generatedImages)
+          .where(eq(generatedImages.id, image.parentImageId))
+          .get() ?? null
+      : null
+    const job = image.jobId
+      ? db
+          .select({ sourceImagePath: generationJobs.sourceImagePath, maskPath: generationJobs.maskPath })
+          .from(generationJobs)
+          .where(eq(generationJobs.id, image.jobId))
+          .get()
+      : undefined
+    const children = db
+      .select({ id: generatedImages.id, thumbnailPath: generatedImages.thumbnailPath })
+      .from(generatedImages)
+      .where(eq(generatedImages.parentImageId, data.imageId))
+      .orderBy(desc(generatedImages.id))
+      .limit(24)
+      .all()
+
     return {
       ...image,
       tags: imgTags,
@@ -272,6 +296,16 @@ export const getImageDetailPage = createServerFn({ method: 'GET' })
       prevId: prevResult?.id ?? null,
       nextId: nextResult?.id ?? null,
       bundles: linkedBundles,
+      lineage: {
+        parent,
+        sourceImagePath: job?.sourceImagePath ?? null,
+        maskPath: job?.maskPath ?? null,
+        children,
+      },
+      variations: {
+        origin: variationOrigin(image.jobId),
+        sets: listVariationSets(data.imageId),
+      },
     }
   })
 
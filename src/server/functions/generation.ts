@@ -1,10 +1,19 @@
+import { readFileSync } from 'node:fs'
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
-import { generationJobs, projectScenes, projects } from '../db/schema'
+import { generatedImages, generationJobs, projectScenes, projects } from '../db/schema'
 import { eq, desc } from 'drizzle-orm'
-import { synthesizePrompts } from '../services/prompt'
+import { assertProjectPromptsQueueable, normalizeResolvedPrompts, synthesizePrompts } from '../services/prompt'
 import { enqueueJob, cancelPendingJobs, getQueueStatus, pauseQueue, resumeQueue, dismissError } from '../services/generation'
+import { saveMaskImage, saveSourceImage } from '../services/image'
+import { resolveCharacterReferences, resolveSceneVibes } from '../services/vibe'
+import { latestSceneSeeds } from '../services/seeds'
 import { createLogger } from '../services/logger'
+import type { SeedStrategy } from '@/lib/seed-strategy'
+import { NAI_TOKEN_LIMIT, estimatePromptTokens } from '@/lib/token-count'
+import { resolveBackendId } from '@/lib/generation-backend'
+import { mergeSceneParameters, parseSceneParameters } from '@/lib/scene-parameters'
+import { readSeedStrategy } from '@/lib/seed-strategy'
 
 const log = createLogger('fn.generation')
 
@@ -25,19 +34,50 @@ export const createGenerationJob = createServerFn({ method: 'POST' })
       .get()
     const parameters = JSON.parse(project?.parameters || '{}')
 
+    const seedStrategy = readSeedStrategy(parameters)
+    if (seedStrategy.type === 'scene' && latestSceneSeeds(seedStrategy.projectSceneId, 1).length === 0) {
+      throw new Error('The scene to reuse seeds from has no images yet')
+    }
+
+    // Mostly the editor linter's checks, see lintProjectPrompts
+    assertProjectPromptsQueueable(data.projectId)
+
     const jobs = []
 
     for (const sceneId of data.projectSceneIds) {
       const count = data.sceneCounts?.[sceneId] ?? data.countPerScene
       if (count <= 0) continue
 
-      const prompts = synthesizePrompts(data.projectId, sceneId)
+      const synthesized = synthesizePrompts(data.projectId, sceneId)
+      const prompts = parameters.normalizePrompts ? normalizeResolvedPrompts(synthesized) : synthesized
+
+      // NAI silently truncates past the limit, and the count is only an estimate — a warning, not a failure
+      const tokens = estimatePromptTokens(prompts)
+      if (tokens.overLimit) {
+        log.warn('tokens', 'Prompt likely exceeds token limit (estimated)', {
+          projectSceneId: sceneId,
+          total: tokens.total,
+          negativeTotal: tokens.negativeTotal,
+          limit: NAI_TOKEN_LIMIT,
+        })
+      }
 
       const scene = db
         .select()
         .from(projectScenes)
         .where(eq(projectScenes.id, sceneId))
         .get()
+      const sceneParameters = mergeSceneParameters(parameters, parseSceneParameters(scene?.parameters))
+
+      // Snapshotted so a resumed job continues the same seed sequence
+      const sceneSeedStrategy = readSeedStrategy(sceneParameters)
+      if (sceneSeedStrategy.type === 'scene') {
+        sceneSeedStrategy.seeds = latestSceneSeeds(sceneSeedStrategy.projectSceneId, count)
+      }
+
+      // Vibe and character references are snapshotted so later edits don't change queued jobs
+      const vibeReferences = resolveSceneVibes(data.projectId, sceneId)
+      const characterReferences = resolveCharacterReferences(prompts.characterPrompts.map((c) => c.characterId))
 
       const job = db
         .insert(generationJobs)
@@ -46,7 +86,13 @@ export const createGenerationJob = createServerFn({ method: 'POST' })
           projectSceneId: sceneId,
           sourceSceneId: scene?.sourceSceneId,
           resolvedPrompts: JSON.stringify(prompts),
-          resolvedParameters: JSON.stringify(parameters),
+          resolvedParameters: JSON.stringify({
+            ...sceneParameters,
+            seedStrategy: sceneSeedStrategy,
+            ...(vibeReferences.length > 0 && { vibeReferences }),
+            ...(characterReferences.length > 0 && { characterReferences }),
+          }),
+          backend: resolveBackendId(sceneParameters),
           totalCount: count,
           completedCount: 0,
           status: 'pending',
@@ -81,6 +127,7 @@ export const listJobs = createServerFn({ method: 'GET' }).handler(async () => {
       completedCount: generationJobs.completedCount,
       status: generationJobs.status,
       errorMessage: generationJobs.errorMessage,
+      backend: generationJobs.backend,
       createdAt: generationJobs.createdAt,
       updatedAt: generationJobs.updatedAt,
       projectName: projects.name,
@@ -145,7 +192,35 @@ export const previewPrompts = createServerFn({ method: 'GET' })
     (data: { projectId: number; projectSceneId: number }) => data,
   )
   .handler(async ({ data }) => {
-    return synthesizePrompts(data.projectId, data.projectSceneId)
+    const project = db
+      .select({ parameters: projects.parameters })
+      .from(projects)
+      .where(eq(projects.id, data.projectId))
+      .get()
+    const synthesized = synthesizePrompts(data.projectId, data.projectSceneId)
+    const prompts = JSON.parse(project?.parameters || '{}').normalizePrompts
+      ? normalizeResolvedPrompts(synthesized)
+      : synthesized
+    return { ...prompts, tokens: estimatePromptTokens(prompts) }
+  })
+
+/** Token estimates of each scene in a batch, resolved the way createGenerationJob resolves them */
+export const previewBatchTokens = createServerFn({ method: 'GET' })
+  .inputValidator(
+    (data: { projectId: number; projectSceneIds: Array<number> }) => data,
+  )
+  .handler(({ data }) => {
+    const project = db
+      .select({ parameters: projects.parameters })
+      .from(projects)
+      .where(eq(projects.id, data.projectId))
+      .get()
+    const normalize = !!JSON.parse(project?.parameters || '{}').normalizePrompts
+    return data.projectSceneIds.map((projectSceneId) => {
+      const synthesized = synthesizePrompts(data.projectId, projectSceneId)
+      const prompts = normalize ? normalizeResolvedPrompts(synthesized) : synthesized
+      return { projectSceneId, tokens: estimatePromptTokens(prompts) }
+    })
   })
 
 export const retryJob = createServerFn({ method: 'POST' })
@@ -166,6 +241,10 @@ export const retryJob = createServerFn({ method: 'POST' })
         sourceSceneId: job.sourceSceneId,
         resolvedPrompts: job.resolvedPrompts,
         resolvedParameters: job.resolvedParameters,
+        sourceImagePath: job.sourceImagePath,
+        sourceImageId: job.sourceImageId,
+        maskPath: job.maskPath,
+        backend: job.backend,
         totalCount: job.totalCount,
         completedCount: 0,
         status: 'pending',
@@ -177,3 +256,103 @@ export const retryJob = createServerFn({ method: 'POST' })
     enqueueJob(newJob.id)
     return newJob
   })
+
+export const createInpaintJob = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: {
+      imageId: number
+      /** Black/white PNG (white = repaint) as base64 or a data URL, at the image's size */
+      maskData: string
+      count: number
+      strength?: number
+    }) => data,
+  )
+  .handler(async ({ data }) => {
+    const image = db
+      .select()
+      .from(generatedImages)
+      .where(eq(generatedImages.id, data.imageId))
+      .get()
+    if (!image) throw new Error('Image not found')
+
+    // Re-use the exact prompts and parameters the image was generated with
+    const meta = image.metadata ? JSON.parse(image.metadata) : null
+    if (!meta?.prompts) throw new Error('Image has no generation metadata')
+    const parameters: Record<string, unknown> = { ...meta.parameters }
+    delete parameters.seed
+    delete parameters.noise
+    // The image's seed strategy snapshot would repeat its seed for every sample
+    parameters.seedStrategy = { type: 'random' } satisfies SeedStrategy
+    if (data.strength != null) parameters.strength = data.strength
+    else delete parameters.strength
+
+    const sourceImagePath = await saveSourceImage(readFileSync(image.filePath))
+    const maskPath = await saveMaskImage(
+      Buffer.from(data.maskData.replace(/^data:[^,]*,/, ''), 'base64'),
+    )
+
+    const job = db
+      .insert(generationJobs)
+      .values({
+        projectId: image.projectId,
+        projectSceneId: image.projectSceneId,
+        sourceSceneId: image.sourceSceneId,
+        resolvedPrompts: JSON.stringify(meta.prompts),
+        resolvedParameters: JSON.stringify(parameters),
+        sourceImagePath,
+        sourceImageId: image.id,
+        maskPath,
+        backend: image.backend,
+        totalCount: data.count,
+        completedCount: 0,
+        status: 'pending',
+      })
+      .returning()
+      .get()
+
+    log.info('createInpaintJob', 'Inpaint job created', {
+      jobId: job.id,
+      imageId: image.id,
+      count: data.count,
+    })
+    enqueueJob(job.id)
+    return job
+  })
+
+/** Queue an earlier inpaint again with the same source and mask, e.g. for more samples */
+export const rerunInpaintJob = createServerFn({ method: 'POST' })
+  .inputValidator((data: { jobId: number; count: number }) => data)
+  .handler(({ data }) => {
+    const job = db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.id, data.jobId))
+      .get()
+    if (!job?.maskPath) throw new Error('Inpaint job not found')
+
+    // Fresh seeds, also for inpaints queued with the source image's seed strategy
+    const parameters = { ...JSON.parse(job.resolvedParameters), seedStrategy: { type: 'random' } satisfies SeedStrategy }
+
+    const newJob = db
+      .insert(generationJobs)
+      .values({
+        projectId: job.projectId,
+        projectSceneId: job.projectSceneId,
+        sourceSceneId: job.sourceSceneId,
+        resolvedPrompts: job.resolvedPrompts,
+        resolvedParameters: JSON.stringify(parameters),
+        sourceImagePath: job.sourceImagePath,
+        sourceImageId: job.sourceImageId,
+        maskPath: job.maskPath,
+        backend: job.backend,
+        totalCount: data.count,
+        completedCount: 0,
+        status: 'pending',
+      })
+      .returning()
+      .get()
+
+    log.info('rerunInpaintJob', 'Re-running inpaint job', { originalJobId: data.jobId, newJobId: newJob.id, count: data.count })
+    enqueueJob(newJob.id)
+    return newJob
+  })
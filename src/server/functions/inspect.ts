@@ -29,6 +29,7 @@ export const createProjectFromMetadata = createServerFn({ method: 'POST' })
         name: string
         charPrompt: string
         charNegative?: string
+        position?: string
       }>
     }) => data,
   )
@@ -73,6 +74,7 @@ export const createProjectFromMetadata = createServerFn({ method: 'POST' })
               name: char.name,
               charPrompt: char.charPrompt,
               charNegative: char.charNegative ?? '',
+              position: char.position ?? null,
             })
             .run()
         }
@@ -1,6 +1,6 @@
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
-import { projectScenePacks, projectScenes, characterSceneOverrides, generatedImages } from '../db/schema'
+import { characterSceneOverrides, generatedImages, projectScenePacks, projectScenes, vibeAttachments } from '../db/schema'
 import { eq, sql, inArray } from 'drizzle-orm'
 import { deleteImageFiles } from '../services/image'
 
@@ -28,7 +28,13 @@ export const listProjectScenePacks = createServerFn({ method: 'GET' })
 
 export const updateProjectScene = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: { id: number; name?: string; placeholders?: string; thumbnailImageId?: number | null }) => data,
+    (data: {
+      id: number
+      name?: string
+      placeholders?: string
+      parameters?: string
+      thumbnailImageId?: number | null
+    }) => data,
   )
   .handler(async ({ data }) => {
     const { id, ...updates } = data
@@ -68,6 +74,26 @@ export const upsertCharacterOverride = createServerFn({ method: 'POST' })
     return { success: true }
   })
 
+/** Per-scene character position; null falls back to the character's own position */
+export const setCharacterPositionOverride = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: { projectSceneId: number; characterId: number; position: string | null }) => data,
+  )
+  .handler(({ data }) => {
+    db.insert(characterSceneOverrides)
+      .values({
+        projectSceneId: data.projectSceneId,
+        characterId: data.characterId,
+        position: data.position,
+      })
+      .onConflictDoUpdate({
+        target: [characterSceneOverrides.projectSceneId, characterSceneOverrides.characterId],
+        set: { position: data.position },
+      })
+      .run()
+    return { success: true }
+  })
+
 export const addProjectScene = createServerFn({ method: 'POST' })
   .inputValidator((data: { projectId: number; name: string }) => data)
   .handler(async ({ data }) => {
@@ -182,6 +208,7 @@ export const duplicateProjectScene = createServerFn({ method: 'POST' })
         sourceSceneId: scene.sourceSceneId,
         name: `${scene.name} (Copy)`,
         placeholders: scene.placeholders,
+        parameters: scene.parameters,
         sortOrder: (maxSort?.max ?? -1) + 1,
       })
       .returning()
@@ -200,6 +227,27 @@ export const duplicateProjectScene = createServerFn({ method: 'POST' })
           projectSceneId: newScene.id,
           characterId: override.characterId,
           placeholders: override.placeholders,
+          position: override.position,
+        })
+        .run()
+    }
+
+    // Copy scene-level vibe attachments
+    const vibes = db
+      .select()
+      .from(vibeAttachments)
+      .where(eq(vibeAttachments.projectSceneId, projectSceneId))
+      .all()
+
+    for (const vibe of vibes) {
+      db.insert(vibeAttachments)
+        .values({
+          referenceImageId: vibe.referenceImageId,
+          projectId: vibe.projectId,
+          projectSceneId: newScene.id,
+          strength: vibe.strength,
+          informationExtracted: vibe.informationExtracted,
+          sortOrder: vibe.sortOrder,
         })
         .run()
     }
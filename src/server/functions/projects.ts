@@ -1,9 +1,10 @@
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
-import { projects, projectScenePacks, projectScenes, scenes, scenePacks, generatedImages, characters, characterSceneOverrides } from '../db/schema'
+import { characterSceneOverrides, characters, generatedImages, projectScenePacks, projectScenes, projects, scenePacks, scenes, vibeAttachments } from '../db/schema'
 import { eq, desc, inArray, count, max } from 'drizzle-orm'
 import { createLogger } from '../services/logger'
 import { deleteImageFiles } from '../services/image'
+import { projectSweepFiles } from '../services/sweep'
 
 const log = createLogger('fn.projects')
 
@@ -88,6 +89,7 @@ export const updateProject = createServerFn({ method: 'POST' })
       generalPrompt?: string
       negativePrompt?: string
       parameters?: string
+      placeholderDefaults?: string
       thumbnailImageId?: number | null
     }) => data,
   )
@@ -109,6 +111,7 @@ export const deleteProject = createServerFn({ method: 'POST' })
       .from(generatedImages)
       .where(eq(generatedImages.projectId, id))
       .all()
+    files.push(...projectSweepFiles(id))
     log.info('delete', 'Project deleted', { projectId: id, imageFiles: files.length })
     db.delete(projects).where(eq(projects.id, id)).run()
     deleteImageFiles(files)
@@ -151,6 +154,7 @@ export const assignScenePack = createServerFn({ method: 'POST' })
           sourceSceneId: scene.id,
           name: scene.name,
           placeholders: scene.placeholders,
+          parameters: scene.parameters,
           sortOrder: scene.sortOrder,
         })
         .run()
@@ -181,6 +185,7 @@ export const duplicateProject = createServerFn({ method: 'POST' })
         generalPrompt: source.generalPrompt,
         negativePrompt: source.negativePrompt,
         parameters: source.parameters,
+        placeholderDefaults: source.placeholderDefaults,
         thumbnailImageId: null,
       })
       .returning()
@@ -203,6 +208,11 @@ export const duplicateProject = createServerFn({ method: 'POST' })
           name: ch.name,
           charPrompt: ch.charPrompt,
           charNegative: ch.charNegative,
+          position: ch.position,
+          referenceImagePath: ch.referenceImagePath,
+          referenceStrength: ch.referenceStrength,
+          referenceFidelity: ch.referenceFidelity,
+          referenceStyleAware: ch.referenceStyleAware,
         })
         .returning()
         .get()
@@ -216,6 +226,7 @@ export const duplicateProject = createServerFn({ method: 'POST' })
       .where(eq(projectScenePacks.projectId, id))
       .all()
 
+    const sceneIdMap = new Map<number, number>()
     for (const pack of sourcePacks) {
       const newPack = db
         .insert(projectScenePacks)
@@ -241,11 +252,13 @@ export const duplicateProject = createServerFn({ method: 'POST' })
             sourceSceneId: scene.sourceSceneId,
             name: scene.name,
             placeholders: scene.placeholders,
+            parameters: scene.parameters,
             thumbnailImageId: null,
             sortOrder: scene.sortOrder,
           })
           .returning()
           .get()
+        sceneIdMap.set(scene.id, newScene.id)
 
         // Copy character scene overrides
         const overrides = db
@@ -262,6 +275,7 @@ export const duplicateProject = createServerFn({ method: 'POST' })
                 projectSceneId: newScene.id,
                 characterId: newCharId,
                 placeholders: ovr.placeholders,
+                position: ovr.position,
               })
               .run()
           }
@@ -269,6 +283,28 @@ export const duplicateProject = createServerFn({ method: 'POST' })
       }
     }
 
+    // 4. Copy vibe attachments (project-wide and per scene)
+    const sourceVibes = db
+      .select()
+      .from(vibeAttachments)
+      .where(eq(vibeAttachments.projectId, id))
+      .all()
+
+    for (const vibe of sourceVibes) {
+      const newSceneId = vibe.projectSceneId != null ? sceneIdMap.get(vibe.projectSceneId) : null
+      if (newSceneId === undefined) continue
+      db.insert(vibeAttachments)
+        .values({
+          referenceImageId: vibe.referenceImageId,
+          projectId: newProject.id,
+          projectSceneId: newSceneId,
+          strength: vibe.strength,
+          informationExtracted: vibe.informationExtracted,
+          sortOrder: vibe.sortOrder,
+        })
+        .run()
+    }
+
     log.info('duplicate', 'Project duplicated', {
       sourceId: id,
       newProjectId: newProject.id,
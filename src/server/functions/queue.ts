@@ -0,0 +1,45 @@
+import { createServerFn } from '@tanstack/react-start'
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { generationJobs } from '../db/schema'
+import { getBatchTiming, moveQueuedJob, setJobPriority } from '../services/generation'
+import { listQueueJobs } from '../services/queue'
+import { createLogger } from '../services/logger'
+import type { PriorityLevel } from '@/lib/queue-order'
+import { PRIORITY_LEVELS } from '@/lib/queue-order'
+
+const log = createLogger('fn.queue')
+
+/** Jobs of every project and quick generation, for the queue page */
+export const listQueue = createServerFn({ method: 'GET' }).handler(() => {
+  return { ...listQueueJobs(), batchTiming: getBatchTiming() }
+})
+
+export const moveJob = createServerFn({ method: 'POST' })
+  .inputValidator((data: { jobId: number; index: number }) => data)
+  .handler(({ data }) => {
+    moveQueuedJob(data.jobId, data.index)
+    return { success: true }
+  })
+
+export const moveJobToFront = createServerFn({ method: 'POST' })
+  .inputValidator((jobId: number) => jobId)
+  .handler(({ data: jobId }) => {
+    moveQueuedJob(jobId, 0)
+    return { success: true }
+  })
+
+export const updateJobPriority = createServerFn({ method: 'POST' })
+  .inputValidator((data: { jobId: number; priority: PriorityLevel }) => data)
+  .handler(({ data }) => {
+    const job = db
+      .select({ status: generationJobs.status })
+      .from(generationJobs)
+      .where(eq(generationJobs.id, data.jobId))
+      .get()
+    if (job?.status !== 'pending') throw new Error('Only queued jobs can change priority')
+
+    setJobPriority(data.jobId, PRIORITY_LEVELS[data.priority])
+    log.info('updateJobPriority', 'Job priority updated', { jobId: data.jobId, priority: data.priority })
+    return { success: true }
+  })
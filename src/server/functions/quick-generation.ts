@@ -1,37 +1,108 @@
+import { readFileSync } from 'node:fs'
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
 import { generationJobs, generatedImages } from '../db/schema'
 import { and, desc, eq, inArray, isNull } from 'drizzle-orm'
 import { enqueueJob, getQueueStatus, getBatchTiming } from '../services/generation'
+import { saveSourceImage } from '../services/image'
 import { createLogger } from '../services/logger'
-import { resolveBundlesInRawPrompts, type ResolvedPrompts } from '../services/prompt'
+import { normalizeResolvedPrompts, resolveBundlesInRawPrompts } from '../services/prompt'
+import type { ResolvedPrompts } from '../services/prompt'
+import { resolveBackendId } from '@/lib/generation-backend'
+import { withoutJobSnapshot } from '@/lib/job-snapshot'
 
 const log = createLogger('fn.quickGeneration')
 
+interface QuickGenerationInput {
+  generalPrompt: string
+  negativePrompt: string
+  characterPrompts: Array<{ name: string; prompt: string; negative: string }>
+  parameters: Record<string, unknown>
+  count: number
+}
+
+function resolveQuickPrompts(data: QuickGenerationInput): ResolvedPrompts {
+  const rawPrompts: ResolvedPrompts = {
+    generalPrompt: data.generalPrompt,
+    negativePrompt: data.negativePrompt,
+    characterPrompts: data.characterPrompts.map((c, i) => ({
+      characterId: -(i + 1),
+      name: c.name,
+      prompt: c.prompt,
+      negative: c.negative,
+    })),
+  }
+
+  // Resolve @{bundle} references server-side
+  const bundled = resolveBundlesInRawPrompts(rawPrompts)
+  return data.parameters.normalizePrompts ? normalizeResolvedPrompts(bundled) : bundled
+}
+
 export const createQuickGenerationJob = createServerFn({ method: 'POST' })
+  .inputValidator((data: QuickGenerationInput) => data)
+  .handler(({ data }) => {
+    const resolvedPrompts = resolveQuickPrompts(data)
+    // Editor state may still carry an image's job snapshot from an img2img hand-off;
+    // quick jobs go by the editor's seed settings and have no references of their own
+    const parameters = withoutJobSnapshot(data.parameters)
+
+    const job = db
+      .insert(generationJobs)
+      .values({
+        projectId: null,
+        projectSceneId: null,
+        sourceSceneId: null,
+        resolvedPrompts: JSON.stringify(resolvedPrompts),
+        resolvedParameters: JSON.stringify(parameters),
+        backend: resolveBackendId(parameters),
+        totalCount: data.count,
+        completedCount: 0,
+        status: 'pending',
+      })
+      .returning()
+      .get()
+
+    enqueueJob(job.id)
+
+    log.info('createQuickJob', 'Quick generation job created', {
+      jobId: job.id,
+      count: data.count,
+    })
+
+    return job
+  })
+
+export const createImg2ImgJob = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: {
-      generalPrompt: string
-      negativePrompt: string
-      characterPrompts: Array<{ name: string; prompt: string; negative: string }>
-      parameters: Record<string, unknown>
-      count: number
+    (data: QuickGenerationInput & {
+      /** Gallery image to start from; results link back to it */
+      sourceImageId?: number
+      /** Uploaded source as base64 or a data URL, used when sourceImageId is not set */
+      sourceImageData?: string
+      strength: number
+      noise: number
     }) => data,
   )
   .handler(async ({ data }) => {
-    const rawPrompts: ResolvedPrompts = {
-      generalPrompt: data.generalPrompt,
-      negativePrompt: data.negativePrompt,
-      characterPrompts: data.characterPrompts.map((c, i) => ({
-        characterId: -(i + 1),
-        name: c.name,
-        prompt: c.prompt,
-        negative: c.negative,
-      })),
+    let sourceBytes: Uint8Array
+    if (data.sourceImageId != null) {
+      const source = db
+        .select({ filePath: generatedImages.filePath })
+        .from(generatedImages)
+        .where(eq(generatedImages.id, data.sourceImageId))
+        .get()
+      if (!source) throw new Error('Source image not found')
+      sourceBytes = readFileSync(source.filePath)
+    } else if (data.sourceImageData) {
+      sourceBytes = Buffer.from(data.sourceImageData.replace(/^data:[^,]*,/, ''), 'base64')
+    } else {
+      throw new Error('No source image')
     }
 
-    // Resolve @{bundle} references server-side
-    const resolvedPrompts = resolveBundlesInRawPrompts(rawPrompts)
+    // Snapshot the source so the job survives the original being deleted
+    const sourceImagePath = await saveSourceImage(sourceBytes)
+    // Same as createQuickGenerationJob: the editor's settings, not the source image's snapshot
+    const parameters = withoutJobSnapshot(data.parameters)
 
     const job = db
       .insert(generationJobs)
@@ -39,8 +110,11 @@ export const createQuickGenerationJob = createServerFn({ method: 'POST' })
         projectId: null,
         projectSceneId: null,
         sourceSceneId: null,
-        resolvedPrompts: JSON.stringify(resolvedPrompts),
-        resolvedParameters: JSON.stringify(data.parameters),
+        resolvedPrompts: JSON.stringify(resolveQuickPrompts(data)),
+        resolvedParameters: JSON.stringify({ ...parameters, strength: data.strength, noise: data.noise }),
+        sourceImagePath,
+        sourceImageId: data.sourceImageId ?? null,
+        backend: resolveBackendId(parameters),
         totalCount: data.count,
         completedCount: 0,
         status: 'pending',
@@ -50,8 +124,11 @@ export const createQuickGenerationJob = createServerFn({ method: 'POST' })
 
     enqueueJob(job.id)
 
-    log.info('createQuickJob', 'Quick generation job created', {
+    log.info('createImg2ImgJob', 'Image-to-image job created', {
       jobId: job.id,
+      sourceImageId: data.sourceImageId ?? null,
+      strength: data.strength,
+      noise: data.noise,
       count: data.count,
     })
 
@@ -86,6 +86,7 @@ export const createScenePackFromProjectScenes = createServerFn({ method: 'POST'
           scenePackId: pack.id,
           name: ps.name,
           placeholders: ps.placeholders || '{}',
+          parameters: ps.parameters || '{}',
           sortOrder: i,
         })
         .run()
@@ -5,8 +5,13 @@ import { eq, max } from 'drizzle-orm'
 
 export const createScene = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: { scenePackId: number; name: string; description?: string; placeholders?: string }) =>
-      data,
+    (data: {
+      scenePackId: number
+      name: string
+      description?: string
+      placeholders?: string
+      parameters?: string
+    }) => data,
   )
   .handler(async ({ data }) => {
     const maxOrder = db
@@ -23,6 +28,7 @@ export const createScene = createServerFn({ method: 'POST' })
         name: data.name,
         description: data.description,
         placeholders: data.placeholders ?? '{}',
+        parameters: data.parameters ?? '{}',
         sortOrder,
       })
       .returning()
@@ -32,7 +38,13 @@ export const createScene = createServerFn({ method: 'POST' })
 
 export const updateScene = createServerFn({ method: 'POST' })
   .inputValidator(
-    (data: { id: number; name?: string; description?: string; placeholders?: string }) => data,
+    (data: {
+      id: number
+      name?: string
+      description?: string
+      placeholders?: string
+      parameters?: string
+    }) => data,
   )
   .handler(async ({ data }) => {
     const { id, ...updates } = data
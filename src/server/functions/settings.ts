@@ -3,6 +3,10 @@ import { db } from '../db'
 import { settings } from '../db/schema'
 import { eq } from 'drizzle-orm'
 import { createLogger } from '../services/logger'
+import { getSubscription } from '../services/nai'
+import { loadKeyPool } from '../services/api-keys'
+import type { AnlasBalance } from '@/lib/anlas-cost'
+import { HttpStatusError } from '@/lib/generation-retry'
 
 const log = createLogger('fn.settings')
 
@@ -38,23 +42,43 @@ export const validateApiKey = createServerFn({ method: 'POST' })
     }
 
     try {
-      const response = await fetch('https://api.novelai.net/user/subscription', {
-        headers: { Authorization: `Bearer ${apiKey}` },
-      })
-
-      if (response.ok) {
-        return { valid: true, error: null }
+      await getSubscription(apiKey)
+      return { valid: true, error: null }
+    } catch (error) {
+      if (error instanceof HttpStatusError) {
+        return { valid: false, error: error.status === 401 ? ('unauthorized' as const) : ('unknown' as const) }
       }
+      return { valid: false, error: 'network' as const }
+    }
+  })
 
-      if (response.status === 401) {
-        return { valid: false, error: 'unauthorized' as const }
-      }
+/**
+ * Combined Anlas of every key in the pool, since a batch is spread across them.
+ * Null when no key is set or no balance could be fetched.
+ */
+export const getAnlasBalance = createServerFn({ method: 'GET' }).handler(async (): Promise<AnlasBalance | null> => {
+  const pool = loadKeyPool()
+  if (pool.length === 0) return null
 
-      return { valid: false, error: 'unknown' as const }
-    } catch {
-      return { valid: false, error: 'network' as const }
+  const results = await Promise.allSettled(pool.map((key) => getSubscription(key.apiKey)))
+  const balances: Array<AnlasBalance> = []
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      balances.push(result.value)
+    } else {
+      log.warn('getAnlasBalance', 'Could not fetch subscription', {
+        key: pool[i].name,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      })
     }
   })
+  if (balances.length === 0) return null
+
+  return {
+    anlas: balances.reduce((sum, b) => sum + b.anlas, 0),
+    opus: balances.every((b) => b.opus),
+  }
+})
 
 export const getAllSettings = createServerFn({ method: 'GET' }).handler(async () => {
   return db.select().from(settings).all()
@@ -1,6 +1,6 @@
 import { createServerFn } from '@tanstack/react-start'
 import { db } from '../db'
-import { generatedImages } from '../db/schema'
+import { generatedImages, sweeps } from '../db/schema'
 import { createLogger } from '../services/logger'
 import { getAllStoredFiles, getFileSize } from '../services/image'
 import { unlinkSync, existsSync, readdirSync, rmSync } from 'node:fs'
@@ -20,6 +20,10 @@ export const getStorageStats = createServerFn({ method: 'GET' }).handler(async (
     dbFilePaths.add(img.filePath)
     if (img.thumbnailPath) dbFilePaths.add(img.thumbnailPath)
   }
+  // Sweep grids are stored next to the images without an image record
+  for (const sweep of db.select({ gridImagePaths: sweeps.gridImagePaths }).from(sweeps).all()) {
+    for (const path of JSON.parse(sweep.gridImagePaths || '[]') as Array<string>) dbFilePaths.add(path)
+  }
 
   // Get all files from filesystem
   const stored = getAllStoredFiles()
@@ -61,6 +65,10 @@ export const cleanupOrphanFiles = createServerFn({ method: 'POST' }).handler(asy
     dbFilePaths.add(img.filePath)
     if (img.thumbnailPath) dbFilePaths.add(img.thumbnailPath)
   }
+  // Sweep grids are stored next to the images without an image record
+  for (const sweep of db.select({ gridImagePaths: sweeps.gridImagePaths }).from(sweeps).all()) {
+    for (const path of JSON.parse(sweep.gridImagePaths || '[]') as Array<string>) dbFilePaths.add(path)
+  }
 
   const stored = getAllStoredFiles()
   const allFiles = [...stored.images, ...stored.thumbnails]
@@ -0,0 +1,30 @@
+import { createServerFn } from '@tanstack/react-start'
+import { composeSweepGrid } from '../services/sweep-grid'
+import { createSweep as createSweepJobs, listSweeps as listProjectSweeps, deleteSweep as removeSweep } from '../services/sweep'
+import type { SweepAxis } from '@/lib/sweep'
+
+export const createSweep = createServerFn({ method: 'POST' })
+  .inputValidator((data: { projectId: number; projectSceneId: number; axes: Array<SweepAxis>; seed: number }) => data)
+  .handler(({ data }) => {
+    return createSweepJobs(data)
+  })
+
+export const listSweeps = createServerFn({ method: 'GET' })
+  .inputValidator((projectId: number) => projectId)
+  .handler(({ data: projectId }) => {
+    return listProjectSweeps(projectId)
+  })
+
+/** Re-compose the grid, e.g. after some cells were cancelled or regenerated */
+export const composeSweep = createServerFn({ method: 'POST' })
+  .inputValidator((sweepId: number) => sweepId)
+  .handler(async ({ data: sweepId }) => {
+    return composeSweepGrid(sweepId)
+  })
+
+export const deleteSweep = createServerFn({ method: 'POST' })
+  .inputValidator((sweepId: number) => sweepId)
+  .handler(({ data: sweepId }) => {
+    removeSweep(sweepId)
+    return { success: true }
+  })
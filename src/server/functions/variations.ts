@@ -0,0 +1,15 @@
+import { createServerFn } from '@tanstack/react-start'
+import { createVariationSet, listVariationSets } from '../services/variations'
+import type { VariationMode } from '@/lib/variations'
+
+export const createVariations = createServerFn({ method: 'POST' })
+  .inputValidator((data: { imageId: number; mode: VariationMode; count: number; samplers?: Array<string> }) => data)
+  .handler(({ data }) => {
+    return createVariationSet(data)
+  })
+
+export const listVariations = createServerFn({ method: 'GET' })
+  .inputValidator((imageId: number) => imageId)
+  .handler(({ data: imageId }) => {
+    return listVariationSets(imageId)
+  })
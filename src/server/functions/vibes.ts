@@ -0,0 +1,136 @@
+import { createServerFn } from '@tanstack/react-start'
+import { and, asc, desc, eq, inArray, isNull, max, or } from 'drizzle-orm'
+import { db } from '../db'
+import { generationJobs, referenceImages, vibeAttachments } from '../db/schema'
+import { deleteImageFiles, saveReferenceImage } from '../services/image'
+import { createLogger } from '../services/logger'
+
+const log = createLogger('fn.vibes')
+
+export const listReferenceImages = createServerFn({ method: 'GET' }).handler(() => {
+  return db
+    .select()
+    .from(referenceImages)
+    .orderBy(desc(referenceImages.id))
+    .all()
+})
+
+export const uploadReferenceImage = createServerFn({ method: 'POST' })
+  .inputValidator((data: { name: string; imageData: string }) => data)
+  .handler(async ({ data }) => {
+    const filePath = await saveReferenceImage(
+      Buffer.from(data.imageData.replace(/^data:[^,]*,/, ''), 'base64'),
+    )
+    const result = db
+      .insert(referenceImages)
+      .values({ name: data.name, filePath })
+      .returning()
+      .get()
+    log.info('upload', 'Reference image added', { referenceImageId: result.id, name: data.name })
+    return result
+  })
+
+export const deleteReferenceImage = createServerFn({ method: 'POST' })
+  .inputValidator((id: number) => id)
+  .handler(({ data: id }) => {
+    const ref = db
+      .select()
+      .from(referenceImages)
+      .where(eq(referenceImages.id, id))
+      .get()
+    if (!ref) throw new Error('Reference image not found')
+
+    // Attachments cascade. Jobs only snapshot the path, so the file is kept while one that can still run reads it
+    db.delete(referenceImages).where(eq(referenceImages.id, id)).run()
+    const inUse = db
+      .select({ resolvedParameters: generationJobs.resolvedParameters })
+      .from(generationJobs)
+      .where(inArray(generationJobs.status, ['pending', 'running', 'failed']))
+      .all()
+      .some((job) => {
+        const refs: Array<{ filePath: string }> = JSON.parse(job.resolvedParameters).vibeReferences ?? []
+        return refs.some((r) => r.filePath === ref.filePath)
+      })
+    if (!inUse) deleteImageFiles([{ filePath: ref.filePath, thumbnailPath: null }])
+    log.info('delete', 'Reference image deleted', { referenceImageId: id, fileKept: inUse })
+    return { success: true }
+  })
+
+/** Attachments visible from a project or one of its scenes (scene view includes the project-wide ones) */
+export const listVibeAttachments = createServerFn({ method: 'GET' })
+  .inputValidator((data: { projectId: number; projectSceneId?: number }) => data)
+  .handler(({ data }) => {
+    return db
+      .select({
+        id: vibeAttachments.id,
+        referenceImageId: vibeAttachments.referenceImageId,
+        projectSceneId: vibeAttachments.projectSceneId,
+        strength: vibeAttachments.strength,
+        informationExtracted: vibeAttachments.informationExtracted,
+        name: referenceImages.name,
+        filePath: referenceImages.filePath,
+      })
+      .from(vibeAttachments)
+      .innerJoin(referenceImages, eq(vibeAttachments.referenceImageId, referenceImages.id))
+      .where(
+        and(
+          eq(vibeAttachments.projectId, data.projectId),
+          data.projectSceneId != null
+            ? or(isNull(vibeAttachments.projectSceneId), eq(vibeAttachments.projectSceneId, data.projectSceneId))
+            : isNull(vibeAttachments.projectSceneId),
+        ),
+      )
+      .orderBy(asc(vibeAttachments.sortOrder), asc(vibeAttachments.id))
+      .all()
+  })
+
+export const attachVibe = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: { projectId: number; projectSceneId?: number; referenceImageId: number }) => data,
+  )
+  .handler(({ data }) => {
+    const maxOrder = db
+      .select({ max: max(vibeAttachments.sortOrder) })
+      .from(vibeAttachments)
+      .where(eq(vibeAttachments.projectId, data.projectId))
+      .get()
+
+    const result = db
+      .insert(vibeAttachments)
+      .values({
+        projectId: data.projectId,
+        projectSceneId: data.projectSceneId ?? null,
+        referenceImageId: data.referenceImageId,
+        sortOrder: (maxOrder?.max ?? -1) + 1,
+      })
+      .returning()
+      .get()
+    log.info('attach', 'Vibe attached', {
+      attachmentId: result.id,
+      projectId: data.projectId,
+      projectSceneId: data.projectSceneId ?? null,
+      referenceImageId: data.referenceImageId,
+    })
+    return result
+  })
+
+export const updateVibeAttachment = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (data: { id: number; strength?: number; informationExtracted?: number }) => data,
+  )
+  .handler(({ data }) => {
+    const { id, ...updates } = data
+    db.update(vibeAttachments)
+      .set(updates)
+      .where(eq(vibeAttachments.id, id))
+      .run()
+    return { success: true }
+  })
+
+export const detachVibe = createServerFn({ method: 'POST' })
+  .inputValidator((id: number) => id)
+  .handler(({ data: id }) => {
+    db.delete(vibeAttachments).where(eq(vibeAttachments.id, id)).run()
+    log.info('detach', 'Vibe detached', { attachmentId: id })
+    return { success: true }
+  })
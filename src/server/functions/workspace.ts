@@ -361,6 +361,8 @@ export const getScenePageContext = createServerFn({ method: 'GET' })
         name: projects.name,
         generalPrompt: projects.generalPrompt,
         negativePrompt: projects.negativePrompt,
+        parameters: projects.parameters,
+        placeholderDefaults: projects.placeholderDefaults,
         thumbnailImageId: projects.thumbnailImageId,
       })
       .from(projects)
@@ -392,6 +394,7 @@ export const getScenePageContext = createServerFn({ method: 'GET' })
       .select({
         characterId: characterSceneOverrides.characterId,
         placeholders: characterSceneOverrides.placeholders,
+        position: characterSceneOverrides.position,
       })
       .from(characterSceneOverrides)
       .where(eq(characterSceneOverrides.projectSceneId, data.sceneId))
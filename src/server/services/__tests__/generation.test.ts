@@ -0,0 +1,848 @@
+import { existsSync, mkdtempSync, rmSync, statSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import sharp from 'sharp'
+import { eq } from 'drizzle-orm'
+import { progressEventStream } from '../../api/progress-events'
+import { startFakeNaiServer } from '../../dev/fake-nai-server'
+import { emitProgressEvent, onProgressEvent } from '../progress-events'
+import type { FakeNaiServer } from '../../dev/fake-nai-server'
+import type { db as Database } from '../../db'
+import type * as Schema from '../../db/schema'
+import type * as Generation from '../generation'
+import type { ProgressEvent } from '@/lib/progress-events'
+import type { SweepAxis } from '@/lib/sweep'
+import type { VariationMode } from '@/lib/variations'
+import { PRIORITY_LEVELS, sortQueue } from '@/lib/queue-order'
+
+// Integration tests: the real queue and NAI client against the local fake server,
+// with a fresh SQLite database and data directory per run.
+
+// Server functions run their handler in-process, without Start's request context
+vi.mock('@tanstack/react-start', () => ({
+  createServerFn: () => {
+    const builder = {
+      inputValidator: () => builder,
+      handler: (fn: (opts: { data: unknown }) => unknown) => (opts: { data: unknown }) => fn(opts),
+    }
+    return builder
+  },
+}))
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../db/migrations', import.meta.url))
+
+let fake: FakeNaiServer
+let originalCwd: string
+let workDir: string
+let db: typeof Database
+let schema: typeof Schema
+let generation: typeof Generation
+
+function insertJob(
+  values: { totalCount?: number; status?: string; completedCount?: number; parameters?: Record<string, unknown> } = {},
+) {
+  return db
+    .insert(schema.generationJobs)
+    .values({
+      resolvedPrompts: JSON.stringify({ generalPrompt: '1girl', negativePrompt: 'lowres', characterPrompts: [] }),
+      resolvedParameters: JSON.stringify({ width: 64, height: 64, ...values.parameters }),
+      totalCount: values.totalCount ?? 1,
+      completedCount: values.completedCount ?? 0,
+      status: values.status ?? 'pending',
+    })
+    .returning()
+    .get()
+}
+
+function getJob(id: number) {
+  return db.select().from(schema.generationJobs).where(eq(schema.generationJobs.id, id)).get()!
+}
+
+function imagesOf(jobId: number) {
+  return db.select().from(schema.generatedImages).where(eq(schema.generatedImages.jobId, jobId)).all()
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 4000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+const idle = () => !generation.getQueueStatus().processing
+
+function setSetting(key: string, value: string) {
+  db.update(schema.settings).set({ value }).where(eq(schema.settings.key, key)).run()
+}
+
+beforeAll(async () => {
+  originalCwd = process.cwd()
+  workDir = mkdtempSync(join(tmpdir(), '87studio-generation-'))
+  process.chdir(workDir)
+
+  fake = await startFakeNaiServer()
+  process.env.NAI_BASE_URL = fake.url
+  process.env.NAI_TIMEOUT_MS = '500'
+
+  // The db module opens ./data/studio.db on import, so it is loaded after the chdir
+  ;({ db } = await import('../../db'))
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator')
+  migrate(db, { migrationsFolder: MIGRATIONS_DIR })
+  schema = await import('../../db/schema')
+  generation = await import('../generation')
+
+  db.insert(schema.settings)
+    .values([
+      { key: 'nai_api_key', value: 'test-key' },
+      { key: 'generation_delay', value: '0' },
+      // Retrying is covered separately; by default every error stops the queue
+      { key: 'retry_max_attempts', value: '0' },
+      { key: 'retry_max_delay', value: '50' },
+    ])
+    .run()
+})
+
+afterAll(async () => {
+  await fake.close()
+  process.chdir(originalCwd)
+  rmSync(workDir, { recursive: true, force: true })
+  delete process.env.NAI_BASE_URL
+  delete process.env.NAI_TIMEOUT_MS
+})
+
+describe('generation queue against the fake NAI server', () => {
+  // Must run first: recovery only happens on the first queue access
+  it('recovers running and pending jobs after a restart', async () => {
+    const interrupted = insertJob({ status: 'running', totalCount: 2, completedCount: 1 })
+    const waiting = insertJob()
+
+    generation.recoverJobs()
+    await waitFor(() => getJob(waiting.id).status === 'completed' && idle())
+
+    expect(getJob(interrupted.id)).toMatchObject({ status: 'completed', completedCount: 2 })
+    // Only the missing image is generated for the interrupted job
+    expect(imagesOf(interrupted.id)).toHaveLength(1)
+    expect(imagesOf(waiting.id)).toHaveLength(1)
+  })
+
+  it('generates every image of a job and records it', async () => {
+    const requestsBefore = fake.requests.length
+    const job = insertJob({ totalCount: 2 })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+
+    const images = imagesOf(job.id)
+    expect(images).toHaveLength(2)
+    for (const image of images) {
+      expect(existsSync(image.filePath)).toBe(true)
+      expect(existsSync(image.thumbnailPath!)).toBe(true)
+      expect(image.backend).toBe('nai')
+    }
+
+    const requests = fake.requests.slice(requestsBefore)
+    expect(requests).toHaveLength(2)
+    expect(requests[0].path).toBe('/ai/generate-image')
+    expect(requests[0].authorization).toBe('Bearer test-key')
+    expect(requests[0].body.input).toBe('1girl')
+    expect(requests[0].body.parameters).toMatchObject({ width: 64, height: 64, negative_prompt: 'lowres' })
+    expect(images.map((i) => i.seed).sort()).toEqual(requests.map((r) => r.body.parameters?.seed).sort())
+  })
+
+  it('stops the queue on a server error and resumes the failed job', async () => {
+    fake.enqueue({ type: 'error', status: 500 })
+    const job = insertJob({ totalCount: 2 })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+    expect(getJob(job.id).errorMessage).toContain('NAI API error 500')
+    expect(generation.getQueueStatus()).toMatchObject({ queueStopped: 'error', stoppedJobId: job.id })
+
+    generation.resumeQueue()
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(imagesOf(job.id)).toHaveLength(2)
+    expect(generation.getQueueStatus().queueStopped).toBeNull()
+  })
+
+  it('holds later jobs after a rate limit until the error is dismissed', async () => {
+    fake.enqueue({ type: 'error', status: 429, body: 'Too many requests' })
+    const limited = insertJob()
+    const next = insertJob()
+    generation.enqueueJob(limited.id)
+    generation.enqueueJob(next.id)
+    await waitFor(() => getJob(limited.id).status === 'failed' && idle())
+
+    expect(getJob(limited.id).errorMessage).toContain('429')
+    expect(getJob(next.id).status).toBe('pending')
+    expect(generation.getQueueStatus().queuedJobIds).toEqual([next.id])
+
+    generation.dismissError()
+    await waitFor(() => getJob(next.id).status === 'completed' && idle())
+    expect(getJob(limited.id).status).toBe('failed')
+    expect(imagesOf(limited.id)).toHaveLength(0)
+  })
+
+  it('fails the job when the request times out', async () => {
+    fake.enqueue({ type: 'hang' })
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+    expect(getJob(job.id).errorMessage).toMatch(/timed out/)
+    generation.dismissError()
+  })
+
+  it('pauses between images of a slow job and resumes where it left off', async () => {
+    fake.setDefault({ type: 'ok', delayMs: 100 })
+    try {
+      const requestsBefore = fake.requests.length
+      const job = insertJob({ totalCount: 3 })
+      generation.enqueueJob(job.id)
+      await waitFor(() => (getJob(job.id).completedCount ?? 0) >= 1)
+
+      generation.pauseQueue()
+      await waitFor(() => getJob(job.id).status === 'pending' && idle())
+      const paused = getJob(job.id).completedCount ?? 0
+      expect(paused).toBeGreaterThanOrEqual(1)
+      expect(paused).toBeLessThan(3)
+      expect(generation.getQueueStatus()).toMatchObject({ queueStopped: 'paused', queuedJobIds: [job.id] })
+
+      generation.resumeQueue()
+      await waitFor(() => getJob(job.id).status === 'completed' && idle())
+      expect(imagesOf(job.id)).toHaveLength(3)
+      expect(fake.requests.length - requestsBefore).toBe(3)
+    } finally {
+      fake.setDefault({ type: 'ok' })
+    }
+  })
+
+  it('fails without calling the API when no key is configured', async () => {
+    setSetting('nai_api_key', '')
+    try {
+      const requestsBefore = fake.requests.length
+      const job = insertJob()
+      generation.enqueueJob(job.id)
+      await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+      expect(fake.requests.length).toBe(requestsBefore)
+      generation.dismissError()
+    } finally {
+      setSetting('nai_api_key', 'test-key')
+    }
+  })
+})
+
+describe('automatic retries', () => {
+  beforeAll(() => setSetting('retry_max_attempts', '2'))
+  afterAll(() => setSetting('retry_max_attempts', '0'))
+
+  it('retries transient errors and completes the job', async () => {
+    fake.enqueue({ type: 'error', status: 429 }, { type: 'error', status: 502 })
+    const requestsBefore = fake.requests.length
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+
+    expect(imagesOf(job.id)).toHaveLength(1)
+    expect(fake.requests.length - requestsBefore).toBe(3)
+    expect(generation.getQueueStatus()).toMatchObject({ queueStopped: null, retry: null })
+  })
+
+  it('retries a request that times out', async () => {
+    fake.enqueue({ type: 'hang' })
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(imagesOf(job.id)).toHaveLength(1)
+  })
+
+  it('fails immediately on a fatal error', async () => {
+    fake.enqueue({ type: 'error', status: 402, body: 'Insufficient Anlas' })
+    const requestsBefore = fake.requests.length
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+    expect(fake.requests.length - requestsBefore).toBe(1)
+    expect(getJob(job.id).errorMessage).toContain('402')
+    generation.dismissError()
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    fake.enqueue(...Array.from({ length: 3 }, () => ({ type: 'error', status: 500 }) as const))
+    const requestsBefore = fake.requests.length
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+    expect(fake.requests.length - requestsBefore).toBe(3)
+    expect(generation.getQueueStatus()).toMatchObject({ queueStopped: 'error', stoppedJobId: job.id })
+    generation.dismissError()
+  })
+
+  it('reports the pending retry and can be paused during the backoff', async () => {
+    setSetting('retry_max_delay', '1000')
+    try {
+      fake.enqueue({ type: 'error', status: 503 })
+      const job = insertJob()
+      generation.enqueueJob(job.id)
+      await waitFor(() => generation.getQueueStatus().retry != null)
+
+      expect(generation.getQueueStatus().retry).toMatchObject({ jobId: job.id, attempt: 1, maxRetries: 2 })
+      expect(generation.getQueueStatus().retry!.error).toContain('503')
+
+      generation.pauseQueue()
+      await waitFor(() => getJob(job.id).status === 'pending' && idle())
+      expect(generation.getQueueStatus()).toMatchObject({ queueStopped: 'paused', retry: null })
+
+      generation.resumeQueue()
+      await waitFor(() => getJob(job.id).status === 'completed' && idle())
+      expect(imagesOf(job.id)).toHaveLength(1)
+    } finally {
+      setSetting('retry_max_delay', '50')
+    }
+  })
+})
+
+describe('key pool', () => {
+  beforeAll(() => {
+    db.insert(schema.apiKeys)
+      .values([
+        { name: 'Team A', apiKey: 'key-a' },
+        { name: 'Team B', apiKey: 'key-b' },
+      ])
+      .run()
+  })
+  afterAll(() => {
+    db.delete(schema.apiKeys).run()
+    fake.setValidKeys(null)
+  })
+
+  it('runs one worker per key and spreads jobs across them', async () => {
+    fake.setDefault({ type: 'ok', delayMs: 100 })
+    try {
+      const requestsBefore = fake.requests.length
+      const jobs = [insertJob({ totalCount: 2 }), insertJob({ totalCount: 2 }), insertJob({ totalCount: 2 })]
+      for (const job of jobs) generation.enqueueJob(job.id)
+
+      await waitFor(() => generation.getQueueStatus().workers.filter((w) => w.status === 'busy').length === 3)
+      await waitFor(() => jobs.every((j) => getJob(j.id).status === 'completed') && idle())
+
+      const keys = new Set(fake.requests.slice(requestsBefore).map((r) => r.authorization))
+      expect(keys).toEqual(new Set(['Bearer test-key', 'Bearer key-a', 'Bearer key-b']))
+
+      const timing = generation.getBatchTiming()!
+      expect(timing.completedImages).toBe(6)
+      expect(timing.workers.map((w) => w.name)).toEqual(['Default', 'Team A', 'Team B'])
+      expect(timing.workers.reduce((sum, w) => sum + w.completedImages, 0)).toBe(6)
+    } finally {
+      fake.setDefault({ type: 'ok' })
+    }
+  })
+
+  it('takes a rejected key out of rotation and lets the others finish', async () => {
+    fake.setValidKeys(['test-key', 'key-b'])
+    const jobs = [insertJob(), insertJob(), insertJob()]
+    for (const job of jobs) generation.enqueueJob(job.id)
+    await waitFor(() => jobs.every((j) => getJob(j.id).status === 'completed') && idle())
+
+    for (const job of jobs) expect(imagesOf(job.id)).toHaveLength(1)
+    const status = generation.getQueueStatus()
+    expect(status.queueStopped).toBeNull()
+    expect(status.workers.find((w) => w.name === 'Team A')).toMatchObject({ status: 'failed' })
+    expect(status.workers.find((w) => w.name === 'Team A')!.lastError).toContain('401')
+    expect(status.workers.filter((w) => w.status !== 'failed')).toHaveLength(2)
+  })
+
+  it('stops the queue once every key has failed, and resumes with all keys', async () => {
+    fake.setValidKeys([])
+    const job = insertJob()
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+    expect(generation.getQueueStatus()).toMatchObject({ queueStopped: 'error', stoppedJobId: job.id })
+    expect(generation.getQueueStatus().workers.every((w) => w.status === 'failed')).toBe(true)
+
+    fake.setValidKeys(null)
+    generation.resumeQueue()
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(generation.getQueueStatus().workers.some((w) => w.status === 'failed')).toBe(false)
+  })
+
+  it('drops a deleted key from the running batch', async () => {
+    const { createApiKey, deleteApiKey } = await import('../../functions/api-keys')
+    const { id } = await createApiKey({ data: { name: 'Team C', apiKey: 'key-c' } })
+    fake.setValidKeys(['test-key', 'key-a', 'key-b'])
+    fake.setDefault({ type: 'ok', delayMs: 100 })
+    try {
+      const jobs = Array.from({ length: 9 }, () => insertJob())
+      for (const job of jobs) generation.enqueueJob(job.id)
+      await waitFor(() => generation.getQueueStatus().workers.some((w) => w.name === 'Team C' && w.status === 'failed'))
+
+      await deleteApiKey({ data: id })
+      const status = generation.getQueueStatus()
+      expect(status.processing).toBe(true)
+      expect(status.workers.map((w) => w.name)).toEqual(['Default', 'Team A', 'Team B'])
+
+      await waitFor(() => jobs.every((j) => getJob(j.id).status === 'completed') && idle())
+    } finally {
+      fake.setDefault({ type: 'ok' })
+      fake.setValidKeys(null)
+    }
+  })
+})
+
+describe('queue order', () => {
+  it('runs queued jobs in the order set by moves and priorities, and persists it', async () => {
+    fake.setDefault({ type: 'ok', delayMs: 100 })
+    try {
+      // Keeps the worker busy while the rest of the queue is rearranged
+      const blocker = insertJob()
+      generation.enqueueJob(blocker.id)
+      await waitFor(() => getJob(blocker.id).status === 'running')
+
+      const [a, b, c] = [insertJob(), insertJob(), insertJob()]
+      for (const job of [a, b, c]) generation.enqueueJob(job.id)
+      expect(generation.getQueueStatus().queuedJobIds).toEqual([a.id, b.id, c.id])
+
+      generation.moveQueuedJob(c.id, 0)
+      expect(generation.getQueueStatus().queuedJobIds).toEqual([c.id, a.id, b.id])
+      generation.setJobPriority(b.id, PRIORITY_LEVELS.high)
+      expect(generation.getQueueStatus().queuedJobIds).toEqual([b.id, c.id, a.id])
+
+      // Recovery after a restart sorts by the stored priority and position
+      const stored = [a, b, c].map((job) => getJob(job.id))
+      expect(sortQueue(stored).map((job) => job.id)).toEqual([b.id, c.id, a.id])
+
+      await waitFor(() => [a, b, c].every((job) => getJob(job.id).status === 'completed') && idle())
+      const runOrder = [blocker, a, b, c]
+        .map((job) => ({ jobId: job.id, imageId: imagesOf(job.id)[0].id }))
+        .sort((x, y) => x.imageId - y.imageId)
+        .map((entry) => entry.jobId)
+      expect(runOrder).toEqual([blocker.id, b.id, c.id, a.id])
+    } finally {
+      fake.setDefault({ type: 'ok' })
+    }
+  })
+
+  it('resumes a failed job at its place in the queue, behind jobs of higher priority', async () => {
+    fake.enqueue({ type: 'error', status: 500, delayMs: 100 })
+    const failed = insertJob()
+    generation.enqueueJob(failed.id)
+    await waitFor(() => getJob(failed.id).status === 'running')
+
+    // Queued while the failing job runs, so the error holds them
+    const [later, urgent] = [insertJob(), insertJob()]
+    for (const job of [later, urgent]) generation.enqueueJob(job.id)
+    generation.setJobPriority(urgent.id, PRIORITY_LEVELS.high)
+    await waitFor(() => getJob(failed.id).status === 'failed' && idle())
+
+    generation.resumeQueue()
+    await waitFor(() => [failed, later, urgent].every((job) => getJob(job.id).status === 'completed') && idle())
+    const runOrder = [failed, later, urgent]
+      .map((job) => ({ jobId: job.id, imageId: imagesOf(job.id)[0].id }))
+      .sort((x, y) => x.imageId - y.imageId)
+      .map((entry) => entry.jobId)
+    expect(runOrder).toEqual([urgent.id, failed.id, later.id])
+  })
+
+  it('rejects moving a job that is not queued', () => {
+    const job = insertJob({ status: 'completed' })
+    expect(() => generation.moveQueuedJob(job.id, 0)).toThrow('Job is not in the queue')
+  })
+})
+
+describe('seed strategies', () => {
+  function seedsOf(jobId: number) {
+    return imagesOf(jobId)
+      .sort((a, b) => a.id - b.id)
+      .map((image) => image.seed)
+  }
+
+  it('continues an incrementing sequence from the completed count on resume', async () => {
+    const job = insertJob({
+      totalCount: 4,
+      completedCount: 2,
+      status: 'running',
+      parameters: { seedStrategy: { type: 'increment', base: 1000 } },
+    })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(seedsOf(job.id)).toEqual([1002, 1003])
+  })
+
+  it('uses listed seeds in order, then random ones', async () => {
+    const job = insertJob({ totalCount: 3, parameters: { seedStrategy: { type: 'list', seeds: [11, 22] } } })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    const seeds = seedsOf(job.id)
+    expect(seeds.slice(0, 2)).toEqual([11, 22])
+    expect(seeds[2]).toEqual(expect.any(Number))
+  })
+
+  it('treats a bare seed as fixed for jobs without a strategy', async () => {
+    const job = insertJob({ totalCount: 2, parameters: { seed: 77 } })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(seedsOf(job.id)).toEqual([77, 77])
+  })
+
+  it('gives inpaints and their reruns fresh seeds instead of the source image strategy', async () => {
+    const { createInpaintJob, rerunInpaintJob } = await import('../../functions/generation')
+    const source = insertJob({ parameters: { seedStrategy: { type: 'fixed', seed: 4242 } } })
+    generation.enqueueJob(source.id)
+    await waitFor(() => getJob(source.id).status === 'completed' && idle())
+    const [image] = imagesOf(source.id)
+    expect(image.seed).toBe(4242)
+
+    const mask = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#fff' } }).png().toBuffer()
+    const inpaint = await createInpaintJob({ data: { imageId: image.id, maskData: mask.toString('base64'), count: 2 } })
+    await waitFor(() => getJob(inpaint.id).status === 'completed' && idle())
+    expect(seedsOf(inpaint.id)).not.toContain(4242)
+    expect(new Set(seedsOf(inpaint.id)).size).toBe(2)
+
+    // Inpaint jobs queued by older versions still carry the source's strategy
+    db.update(schema.generationJobs)
+      .set({ resolvedParameters: JSON.stringify({ width: 64, height: 64, seedStrategy: { type: 'fixed', seed: 4242 } }) })
+      .where(eq(schema.generationJobs.id, inpaint.id))
+      .run()
+    const rerun = await rerunInpaintJob({ data: { jobId: inpaint.id, count: 2 } })
+    await waitFor(() => getJob(rerun.id).status === 'completed' && idle())
+    expect(seedsOf(rerun.id)).not.toContain(4242)
+  })
+
+  it('drops an image job snapshot carried into quick and img2img jobs', async () => {
+    const { createImg2ImgJob, createQuickGenerationJob } = await import('../../functions/quick-generation')
+    const source = insertJob()
+    generation.enqueueJob(source.id)
+    await waitFor(() => getJob(source.id).status === 'completed' && idle())
+
+    // Quick generate state as left by an img2img hand-off from an image with a fixed seed and a vibe
+    const parameters = {
+      width: 64,
+      height: 64,
+      seed: 77,
+      seedStrategy: { type: 'fixed', seed: 4242 },
+      vibeReferences: [{ referenceImageId: 1, filePath: 'data/references/gone.png', strength: 0.6, informationExtracted: 1 }],
+    }
+    const prompts = { generalPrompt: '1girl', negativePrompt: '', characterPrompts: [], count: 1 }
+    const quick = await createQuickGenerationJob({ data: { ...prompts, parameters } })
+    const img2img = await createImg2ImgJob({
+      data: { ...prompts, parameters, sourceImageId: imagesOf(source.id)[0].id, strength: 0.7, noise: 0 },
+    })
+    await waitFor(() => [quick, img2img].every((job) => getJob(job.id).status === 'completed') && idle())
+
+    for (const job of [quick, img2img]) {
+      expect(seedsOf(job.id)).toEqual([77])
+      expect(JSON.parse(getJob(job.id).resolvedParameters)).not.toHaveProperty('vibeReferences')
+    }
+  })
+})
+
+describe('random bundle lines', () => {
+  it('resolves placeholders and conditionals in lines with the values of the field using them', async () => {
+    const { resolvePromptsForImage, synthesizePrompts } = await import('../prompt')
+    db.insert(schema.promptBundles).values({ name: 'outfit', content: '\\\\color\\\\ dress[if hat], hat[/if]' }).run()
+    const project = db
+      .insert(schema.projects)
+      .values({ name: 'Bundles', generalPrompt: 'blue dress, @{outfit:random}', placeholderDefaults: JSON.stringify({ color: 'red' }) })
+      .returning()
+      .get()
+    const pack = db.insert(schema.projectScenePacks).values({ projectId: project.id, name: 'Pack' }).returning().get()
+    const scene = db
+      .insert(schema.projectScenes)
+      .values({ projectScenePackId: pack.id, name: 'Scene', placeholders: JSON.stringify({ color: 'blue' }) })
+      .returning()
+      .get()
+    const character = db
+      .insert(schema.characters)
+      .values({ projectId: project.id, name: 'Alice', charPrompt: '@{outfit:random}' })
+      .returning()
+      .get()
+    db.insert(schema.characterSceneOverrides)
+      .values({ projectSceneId: scene.id, characterId: character.id, placeholders: JSON.stringify({ color: 'green', hat: 'yes' }) })
+      .run()
+
+    const synthesized = synthesizePrompts(project.id, scene.id)
+    expect(synthesized.randomBundles?.outfit.lines).toEqual(['blue dress'])
+    expect(synthesized.characterPrompts[0].randomBundles?.outfit.lines).toEqual(['green dress, hat'])
+
+    const { prompts } = resolvePromptsForImage(synthesized, () => 0)
+    expect(prompts.generalPrompt).toBe('blue dress, blue dress')
+    expect(prompts.characterPrompts[0]).not.toHaveProperty('randomBundles')
+    expect(prompts.characterPrompts[0].prompt).toBe('green dress, hat')
+    // Normalizing after the pick removes the duplicate the line brought in
+    expect(resolvePromptsForImage(synthesized, () => 0, true).prompts.generalPrompt).toBe('blue dress')
+  })
+})
+
+describe('project prompt lint', () => {
+  it('checks weights after bundle expansion and only warns about unknown bundles', async () => {
+    const { lintProjectPrompts } = await import('../prompt')
+    db.insert(schema.promptBundles).values({ name: 'close', content: 'red hair::' }).run()
+    const project = db
+      .insert(schema.projects)
+      .values({ name: 'Lint', generalPrompt: '1girl, 1.2::@{close}, @{missing}', negativePrompt: '1.2::lowres' })
+      .returning()
+      .get()
+
+    expect(lintProjectPrompts(project.id).map((d) => [d.field, d.code, d.severity])).toEqual([
+      ['general', 'unknown-bundle', 'warning'],
+      ['negative', 'unbalanced-weight', 'error'],
+    ])
+  })
+
+  it('queues prompts the token estimate puts over the limit', async () => {
+    const { createGenerationJob } = await import('../../functions/generation')
+    const long = Array.from({ length: 300 }, () => 'cat').join(', ')
+    const project = db
+      .insert(schema.projects)
+      .values({ name: 'Long', generalPrompt: long, parameters: JSON.stringify({ width: 64, height: 64 }) })
+      .returning()
+      .get()
+    const pack = db.insert(schema.projectScenePacks).values({ projectId: project.id, name: 'Pack' }).returning().get()
+    const scene = db.insert(schema.projectScenes).values({ projectScenePackId: pack.id, name: 'Scene' }).returning().get()
+
+    const [job] = await createGenerationJob({ data: { projectId: project.id, projectSceneIds: [scene.id], countPerScene: 1 } })
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+  })
+})
+
+describe('sweeps', () => {
+  it('renders every cell with the same seed and composes a labeled grid', async () => {
+    const { createSweep } = await import('../sweep')
+    const project = db
+      .insert(schema.projects)
+      .values({ name: 'Sweep', generalPrompt: '1girl, \\\\hair\\\\ hair', parameters: JSON.stringify({ width: 64, height: 64 }) })
+      .returning()
+      .get()
+    const pack = db.insert(schema.projectScenePacks).values({ projectId: project.id, name: 'Pack' }).returning().get()
+    const scene = db
+      .insert(schema.projectScenes)
+      .values({ projectScenePackId: pack.id, name: 'Scene', placeholders: JSON.stringify({ hair: 'black' }) })
+      .returning()
+      .get()
+
+    const requestsBefore = fake.requests.length
+    const sweep = createSweep({
+      projectId: project.id,
+      projectSceneId: scene.id,
+      axes: [
+        { kind: 'parameter', key: 'scale', values: [4, 6] },
+        { kind: 'placeholder', key: 'hair', values: ['red', 'blue'] },
+      ],
+      seed: 1234,
+    })
+    const sweepRow = () => db.select().from(schema.sweeps).where(eq(schema.sweeps.id, sweep.id)).get()!
+    await waitFor(() => sweepRow().gridImagePaths !== null && idle(), 8000)
+
+    const requests = fake.requests.slice(requestsBefore)
+    expect(requests.map((r) => [r.body.parameters?.scale, r.body.input])).toEqual([
+      [4, '1girl, red hair'],
+      [6, '1girl, red hair'],
+      [4, '1girl, blue hair'],
+      [6, '1girl, blue hair'],
+    ])
+    expect(new Set(requests.map((r) => r.body.parameters?.seed))).toEqual(new Set([1234]))
+
+    const [gridPath] = JSON.parse(sweepRow().gridImagePaths!)
+    expect(existsSync(gridPath)).toBe(true)
+    // Row labels on the left, column labels on top, 64px cells with a 4px gap
+    const { width, height } = await sharp(gridPath).metadata()
+    expect([width, height]).toEqual([220 + 64 * 2 + 4, 48 + 64 * 2 + 4])
+  })
+
+  it('composes the grid once when the last cell fails', async () => {
+    const { createSweep } = await import('../sweep')
+    const { composeSweepIfDone } = await import('../sweep-grid')
+    const project = db
+      .insert(schema.projects)
+      .values({ name: 'Failed sweep', generalPrompt: '1girl', parameters: JSON.stringify({ width: 64, height: 64 }) })
+      .returning()
+      .get()
+    const pack = db.insert(schema.projectScenePacks).values({ projectId: project.id, name: 'Pack' }).returning().get()
+    const scene = db.insert(schema.projectScenes).values({ projectScenePackId: pack.id, name: 'Scene' }).returning().get()
+
+    fake.enqueue({ type: 'ok' }, { type: 'error', status: 500 })
+    const sweep = createSweep({
+      projectId: project.id,
+      projectSceneId: scene.id,
+      axes: [{ kind: 'parameter', key: 'scale', values: [4, 6] }],
+      seed: 1234,
+    })
+    const sweepRow = () => db.select().from(schema.sweeps).where(eq(schema.sweeps.id, sweep.id)).get()!
+    await waitFor(() => sweepRow().gridImagePaths !== null && idle(), 8000)
+    expect(generation.getQueueStatus().queueStopped).toBe('error')
+
+    const [gridPath] = JSON.parse(sweepRow().gridImagePaths!)
+    const { width, height } = await sharp(gridPath).metadata()
+    expect([width, height]).toEqual([64 * 2 + 4, 48 + 64])
+
+    // Nothing changed since: further calls, even concurrent ones, leave the grid alone
+    const composedAt = statSync(gridPath).mtimeMs
+    await Promise.all([composeSweepIfDone(sweep.id), composeSweepIfDone(sweep.id)])
+    expect(statSync(gridPath).mtimeMs).toBe(composedAt)
+
+    generation.dismissError()
+  })
+
+  it('rejects a scene of another project and prompts with lint errors before queueing anything', async () => {
+    const { createSweep } = await import('../sweep')
+    const [project, other] = db
+      .insert(schema.projects)
+      .values([
+        { name: 'Broken sweep', generalPrompt: '1girl, 1.2::red hair', parameters: JSON.stringify({ width: 64, height: 64 }) },
+        { name: 'Other', generalPrompt: '1girl' },
+      ])
+      .returning()
+      .all()
+    const pack = db.insert(schema.projectScenePacks).values({ projectId: project.id, name: 'Pack' }).returning().get()
+    const scene = db.insert(schema.projectScenes).values({ projectScenePackId: pack.id, name: 'Scene' }).returning().get()
+    const sweepsBefore = db.select().from(schema.sweeps).all().length
+    const jobsBefore = db.select().from(schema.generationJobs).all().length
+
+    const axes: Array<SweepAxis> = [{ kind: 'parameter', key: 'scale', values: [4, 6] }]
+    expect(() => createSweep({ projectId: other.id, projectSceneId: scene.id, axes, seed: 1 })).toThrow('Scene not found')
+    expect(() => createSweep({ projectId: project.id, projectSceneId: scene.id, axes, seed: 1 })).toThrow('Prompt errors')
+    expect(db.select().from(schema.sweeps).all()).toHaveLength(sweepsBefore)
+    expect(db.select().from(schema.generationJobs).all()).toHaveLength(jobsBefore)
+  })
+})
+
+describe('variations', () => {
+  async function generatedImage() {
+    const job = insertJob({ parameters: { seed: 500, sampler: 'k_euler' } })
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    return imagesOf(job.id)[0]
+  }
+
+  async function runVariations(input: { mode: VariationMode; count: number; samplers?: Array<string> }) {
+    const { createVariationSet, listVariationSets } = await import('../variations')
+    const image = await generatedImage()
+    const requestsBefore = fake.requests.length
+    createVariationSet({ imageId: image.id, ...input })
+    const done = () => listVariationSets(image.id)[0].variations.every((v) => v.image !== null)
+    await waitFor(() => done() && idle())
+    return { sets: listVariationSets(image.id), requests: fake.requests.slice(requestsBefore) }
+  }
+
+  it('renders the same prompt with nearby seeds', async () => {
+    const { sets, requests } = await runVariations({ mode: 'seed', count: 3 })
+    expect(requests.map((r) => r.body.parameters?.seed)).toEqual([501, 499, 502])
+    expect(requests.every((r) => r.body.input === '1girl')).toBe(true)
+    expect(sets[0].variations.map((v) => v.change)).toEqual(['seed 501', 'seed 499', 'seed 502'])
+  })
+
+  it('keeps the seed and prompt with other samplers', async () => {
+    const { requests } = await runVariations({ mode: 'sampler', count: 4, samplers: ['k_euler', 'k_dpmpp_2m'] })
+    expect(requests.map((r) => [r.body.parameters?.seed, r.body.parameters?.sampler, r.body.input])).toEqual([
+      [500, 'k_dpmpp_2m', '1girl'],
+    ])
+  })
+
+  it('links variations back to the image they came from', async () => {
+    const { variationOrigin } = await import('../variations')
+    const { sets } = await runVariations({ mode: 'seed', count: 1 })
+    const variation = sets[0].variations[0]
+    expect(variationOrigin(variation.jobId)).toMatchObject({ imageId: sets[0].imageId, change: variation.change })
+  })
+})
+
+describe('vibe references', () => {
+  async function uploadReference() {
+    const { uploadReferenceImage } = await import('../../functions/vibes')
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#f00' } }).png().toBuffer()
+    return uploadReferenceImage({ data: { name: 'Red', imageData: png.toString('base64') } })
+  }
+
+  function vibeReference(ref: { id: number; filePath: string }) {
+    return { referenceImageId: ref.id, filePath: ref.filePath, strength: 0.6, informationExtracted: 1 }
+  }
+
+  it('keeps a deleted reference file while a queued job still reads it', async () => {
+    const { deleteReferenceImage } = await import('../../functions/vibes')
+    const ref = await uploadReference()
+    const job = insertJob({ parameters: { vibeReferences: [vibeReference(ref)] } })
+
+    deleteReferenceImage({ data: ref.id })
+    expect(existsSync(ref.filePath)).toBe(true)
+
+    const requestsBefore = fake.requests.length
+    generation.enqueueJob(job.id)
+    await waitFor(() => getJob(job.id).status === 'completed' && idle())
+    expect(fake.requests.slice(requestsBefore).map((r) => r.path)).toEqual(['/ai/encode-vibe', '/ai/generate-image'])
+  })
+
+  it('deletes the file when no unfinished job reads it, and later reruns go without it', async () => {
+    const { deleteReferenceImage } = await import('../../functions/vibes')
+    const ref = await uploadReference()
+    insertJob({ status: 'completed', completedCount: 1, parameters: { vibeReferences: [vibeReference(ref)] } })
+
+    deleteReferenceImage({ data: ref.id })
+    expect(existsSync(ref.filePath)).toBe(false)
+
+    const rerun = insertJob({ parameters: { vibeReferences: [vibeReference(ref)] } })
+    const requestsBefore = fake.requests.length
+    generation.enqueueJob(rerun.id)
+    await waitFor(() => getJob(rerun.id).status === 'completed' && idle())
+    expect(fake.requests.slice(requestsBefore).map((r) => r.path)).toEqual(['/ai/generate-image'])
+  })
+})
+
+describe('progress events', () => {
+  it('emits job, image and queue events while a job runs', async () => {
+    const events: Array<ProgressEvent> = []
+    const unsubscribe = onProgressEvent((event) => events.push(event))
+    try {
+      const job = insertJob({ totalCount: 2 })
+      generation.enqueueJob(job.id)
+      await waitFor(() => getJob(job.id).status === 'completed' && idle())
+
+      const jobEvents = events.filter((e) => 'jobId' in e && e.jobId === job.id)
+      expect(jobEvents.map((e) => e.type)).toEqual(['job-started', 'image-completed', 'image-completed'])
+      expect(jobEvents[2]).toMatchObject({ completedCount: 2, totalCount: 2 })
+      const imageIds = jobEvents.flatMap((e) => (e.type === 'image-completed' ? [e.image.id] : []))
+      expect(imageIds).toEqual(imagesOf(job.id).map((image) => image.id))
+      expect(events.at(-1)).toMatchObject({ type: 'queue-state', processing: false, queueLength: 0, queueStopped: null })
+    } finally {
+      unsubscribe()
+    }
+  })
+
+  it('emits job-failed and the stopped queue state', async () => {
+    const events: Array<ProgressEvent> = []
+    const unsubscribe = onProgressEvent((event) => events.push(event))
+    try {
+      fake.enqueue({ type: 'error', status: 500 })
+      const job = insertJob()
+      generation.enqueueJob(job.id)
+      await waitFor(() => getJob(job.id).status === 'failed' && idle())
+
+      expect(events.find((e) => e.type === 'job-failed')).toMatchObject({ jobId: job.id })
+      expect(events.at(-1)).toMatchObject({ type: 'queue-state', queueStopped: 'error', stoppedJobId: job.id })
+      generation.dismissError()
+    } finally {
+      unsubscribe()
+    }
+  })
+
+  it('streams events as server-sent events until the client disconnects', async () => {
+    const controller = new AbortController()
+    const response = progressEventStream(new Request('http://localhost/api/events', { signal: controller.signal }))
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    const read = async () => decoder.decode((await reader.read()).value)
+    expect(await read()).toContain('retry: 3000')
+
+    emitProgressEvent({ type: 'job-failed', jobId: 1, error: 'boom' })
+    expect(await read()).toBe('data: {"type":"job-failed","jobId":1,"error":"boom"}\n\n')
+
+    controller.abort()
+    expect((await reader.read()).done).toBe(true)
+  })
+})
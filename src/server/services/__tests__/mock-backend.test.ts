@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import sharp from 'sharp'
+import { mockBackend, renderPlaceholder } from '../mock-backend'
+import type { ResolvedPrompts } from '../prompt'
+
+const prompts: ResolvedPrompts = {
+  generalPrompt: '1girl, smile',
+  negativePrompt: 'lowres',
+  characterPrompts: [{ characterId: 1, name: 'A', prompt: 'red hair', negative: '' }],
+}
+
+describe('renderPlaceholder', () => {
+  it('renders a PNG at the requested size', async () => {
+    const png = await renderPlaceholder(prompts, 1, 64, 96)
+    const meta = await sharp(png).metadata()
+    expect(meta.format).toBe('png')
+    expect(meta.width).toBe(64)
+    expect(meta.height).toBe(96)
+  })
+
+  it('is deterministic for the same prompts and seed', async () => {
+    const a = await renderPlaceholder(prompts, 42, 64, 64)
+    const b = await renderPlaceholder(prompts, 42, 64, 64)
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(true)
+  })
+
+  it('changes with the seed', async () => {
+    const a = await renderPlaceholder(prompts, 1, 64, 64)
+    const b = await renderPlaceholder(prompts, 2, 64, 64)
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(false)
+  })
+
+  it('changes with the prompt', async () => {
+    const a = await renderPlaceholder(prompts, 1, 64, 64)
+    const b = await renderPlaceholder({ ...prompts, generalPrompt: '1boy' }, 1, 64, 64)
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(false)
+  })
+})
+
+describe('mockBackend', () => {
+  it('uses the job size and returns the requested seed', async () => {
+    const generate = await mockBackend.prepareJob({ parameters: { width: 128, height: 64 } })
+    const { imageData, seed } = await generate(prompts, 7)
+    const meta = await sharp(imageData).metadata()
+    expect(seed).toBe(7)
+    expect(meta.width).toBe(128)
+    expect(meta.height).toBe(64)
+  })
+})
@@ -0,0 +1,35 @@
+import { asc, eq } from 'drizzle-orm'
+import { db } from '../db'
+import { apiKeys, settings } from '../db/schema'
+
+/** Key id of the `nai_api_key` setting in the pool */
+export const DEFAULT_KEY_ID = 'default'
+
+export interface PoolKey {
+  /** 'default' for the settings key, otherwise `key-<api_keys.id>` */
+  id: string
+  name: string
+  apiKey: string
+}
+
+/**
+ * NAI keys the queue can use, one worker each: the key from the API key
+ * setting (if set) followed by the enabled named keys in creation order.
+ */
+export function loadKeyPool(): Array<PoolKey> {
+  const pool: Array<PoolKey> = []
+
+  const defaultKey = db.select().from(settings).where(eq(settings.key, 'nai_api_key')).get()?.value
+  if (defaultKey) pool.push({ id: DEFAULT_KEY_ID, name: 'Default', apiKey: defaultKey })
+
+  const rows = db.select().from(apiKeys).where(eq(apiKeys.enabled, 1)).orderBy(asc(apiKeys.id)).all()
+  for (const row of rows) {
+    if (row.apiKey) pool.push({ id: `key-${row.id}`, name: row.name, apiKey: row.apiKey })
+  }
+  return pool
+}
+
+/** Last characters of a key, enough to tell keys apart in the UI */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length > 8 ? `…${apiKey.slice(-4)}` : '…'
+}
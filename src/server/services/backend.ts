@@ -0,0 +1,89 @@
+import { generateImage } from './nai'
+import { loadCharacterReferences, loadVibes } from './vibe'
+import { a1111Backend, comfyuiBackend } from './local-backends'
+import { mockBackend } from './mock-backend'
+import { createLogger } from './logger'
+import type { ResolvedPrompts } from './prompt'
+import type { CharacterReference, VibeReference } from './vibe'
+import type { BackendId } from '@/lib/generation-backend'
+
+const log = createLogger('backend')
+
+/** The fields of a job's resolvedParameters snapshot that backends read */
+export interface BackendParameters {
+  model?: string
+  width?: number
+  height?: number
+  steps?: number
+  scale?: number
+  cfgRescale?: number
+  sampler?: string
+  scheduler?: string
+  ucPreset?: number
+  imageFormat?: string
+  /** img2img/inpaint strength */
+  strength?: number
+  noise?: number
+  vibeReferences?: Array<VibeReference>
+  characterReferences?: Array<CharacterReference>
+}
+
+/** What a backend gets for one job; loaded once before its first image */
+export interface BackendJobInput {
+  parameters: BackendParameters
+  /** img2img source as base64 PNG, already at the output size */
+  sourceImage?: string
+  /** Inpaint mask as base64 black/white PNG (white = repaint), already at the output size */
+  mask?: string
+  /** NAI key of the queue worker running the job; undefined when no key is configured */
+  apiKey?: string
+}
+
+export interface BackendImage {
+  /** Encoded image file (PNG unless the backend says otherwise) */
+  imageData: Uint8Array
+  /** Seed the backend actually used */
+  seed: number
+}
+
+export type ImageGenerator = (prompts: ResolvedPrompts, seed: number) => Promise<BackendImage>
+
+export interface GenerationBackend {
+  id: BackendId
+  /**
+   * Reads the backend's settings and prepares job-wide inputs, returning the
+   * function that renders one image. Throws when the backend is not configured.
+   */
+  prepareJob: (input: BackendJobInput) => Promise<ImageGenerator>
+}
+
+const naiBackend: GenerationBackend = {
+  id: 'nai',
+  async prepareJob({ parameters, sourceImage, mask, apiKey }) {
+    if (!apiKey) {
+      log.error('nai.noApiKey', 'No API key configured')
+      throw new Error('API 키가 설정되지 않았습니다')
+    }
+
+    const vibes = parameters.vibeReferences?.length
+      ? await loadVibes(apiKey, parameters.vibeReferences, parameters.model ?? 'nai-diffusion-4-5-full')
+      : undefined
+    const directorReferences = parameters.characterReferences?.length
+      ? await loadCharacterReferences(parameters.characterReferences)
+      : undefined
+
+    return (prompts, seed) =>
+      generateImage(apiKey, prompts, { ...parameters, seed, image: sourceImage, mask, vibes, directorReferences })
+  },
+}
+
+const backends: Record<BackendId, GenerationBackend> = {
+  nai: naiBackend,
+  comfyui: comfyuiBackend,
+  a1111: a1111Backend,
+  mock: mockBackend,
+}
+
+export function getBackend(id: BackendId): GenerationBackend {
+  return backends[id]
+}
@@ -1,24 +1,36 @@
+import { eq, inArray, sql } from 'drizzle-orm'
 import { db } from '../db'
 import { generationJobs, generatedImages, settings, imageBundles } from '../db/schema'
-import { eq } from 'drizzle-orm'
-import { generateImage } from './nai'
-import { saveImage, generateThumbnail } from './image'
+import { getBackend } from './backend'
+import { loadKeyPool } from './api-keys'
+import { resolvePromptsForImage } from './prompt'
+import { generateThumbnail, loadSourceImage, saveImage } from './image'
 import { createLogger } from './logger'
+import { emitProgressEvent } from './progress-events'
+import { composeSweepIfDone } from './sweep-grid'
+import type { BackendImage } from './backend'
+import type { RetryPolicy } from '@/lib/generation-retry'
+import type { QueueEntry } from '@/lib/queue-order'
+import { createRandom, randomSeed } from '@/lib/random'
+import { DEFAULT_BACKEND, isBackendId } from '@/lib/generation-backend'
+import { DEFAULT_RETRY_POLICY, classifyGenerationError, isKeyError, retryDelay } from '@/lib/generation-retry'
+import { moveQueueEntry, sortQueue } from '@/lib/queue-order'
+import { readSeedStrategy, seedForImage } from '@/lib/seed-strategy'
 
 const log = createLogger('generation')
 
 
 // ─── In-memory queue singleton ──────────────────────────────────────────────
 
-let processing = false
+let processing = false // true while any worker runs
 let recovered = false
-const queue: number[] = [] // job IDs
+const queue: Array<number> = [] // job IDs, in run order (see lib/queue-order)
 
 // Unified queue stop state: 'error' | 'paused' | null
 let queueStopped: 'error' | 'paused' | null = null
 let stoppedJobId: number | null = null
 
-// Batch-level timing (persists across jobs within a single processQueue run)
+// Batch-level timing (persists across jobs until the workers run out of queued jobs)
 interface BatchTiming {
   startedAt: number
   totalImages: number        // total images across all jobs in the batch
@@ -27,6 +39,33 @@ interface BatchTiming {
 }
 let batchTiming: BatchTiming | null = null
 
+// Set while a job waits to retry a transient API error
+interface RetryState {
+  jobId: number
+  attempt: number
+  maxRetries: number
+  retryAt: number
+  error: string
+}
+
+// One worker per pool key drains the shared queue; NAI runs one request per key at a time
+interface QueueWorker {
+  keyId: string
+  name: string
+  running: boolean
+  currentJobId: number | null
+  // Out of rotation after a key error, until the queue is resumed or a new batch starts
+  failed: boolean
+  lastError: string | null
+  completedImages: number   // this batch
+  totalGenerationMs: number // this batch
+  retry: RetryState | null
+}
+const workers = new Map<string, QueueWorker>()
+
+// Runs the queue when no key is configured: local backends still work, NAI jobs fail with a clear error
+const KEYLESS_WORKER_ID = 'none'
+
 // Recover pending/running jobs from DB on first access after server restart
 export function recoverJobs() {
   if (recovered) return
@@ -46,13 +85,14 @@ export function recoverJobs() {
       .run()
   }
 
-  // Re-enqueue all pending jobs (ordered by creation time)
-  const pending = db
-    .select({ id: generationJobs.id })
-    .from(generationJobs)
-    .where(eq(generationJobs.status, 'pending'))
-    .orderBy(generationJobs.createdAt)
-    .all()
+  // Re-enqueue all pending jobs in their persisted order
+  const pending = sortQueue(
+    db
+      .select({ id: generationJobs.id, priority: generationJobs.priority, queuePosition: generationJobs.queuePosition })
+      .from(generationJobs)
+      .where(eq(generationJobs.status, 'pending'))
+      .all(),
+  )
 
   if (pending.length > 0 || running.length > 0) {
     log.info('queue.recover', 'Recovering jobs after restart', {
@@ -65,29 +105,88 @@ export function recoverJobs() {
     queue.push(job.id)
   }
 
-  if (queue.length > 0 && !processing) processQueue()
+  if (queue.length > 0 && !processing) startWorkers()
 }
 
 export function enqueueJob(jobId: number) {
+  const job = db
+    .select({ totalCount: generationJobs.totalCount, queuePosition: generationJobs.queuePosition })
+    .from(generationJobs)
+    .where(eq(generationJobs.id, jobId))
+    .get()
+
+  // New jobs go to the end of their priority level
+  if (job && job.queuePosition == null) {
+    const last = db
+      .select({ position: sql<number | null>`max(${generationJobs.queuePosition})` })
+      .from(generationJobs)
+      .get()
+    db.update(generationJobs)
+      .set({ queuePosition: (last?.position ?? -1) + 1 })
+      .where(eq(generationJobs.id, jobId))
+      .run()
+  }
   queue.push(jobId)
+  sortQueuedJobs()
 
   // Add this job's totalCount to the running batch (only while actively processing)
   if (batchTiming && processing) {
-    const job = db
-      .select({ totalCount: generationJobs.totalCount })
-      .from(generationJobs)
-      .where(eq(generationJobs.id, jobId))
-      .get()
     batchTiming.totalImages += (job?.totalCount ?? 1)
   }
 
   log.debug('queue.enqueue', 'Job enqueued', { jobId, queueLength: queue.length })
 
-  if (!processing) processQueue()
+  // Also wakes workers that went idle while others are still busy
+  startWorkers()
+  emitQueueState()
+}
+
+function queueEntries(): Array<QueueEntry> {
+  if (queue.length === 0) return []
+  return db
+    .select({ id: generationJobs.id, priority: generationJobs.priority, queuePosition: generationJobs.queuePosition })
+    .from(generationJobs)
+    .where(inArray(generationJobs.id, queue))
+    .all()
+}
+
+// Re-sort the in-memory queue by the persisted priority and position
+function sortQueuedJobs() {
+  const sorted = sortQueue(queueEntries()).map((e) => e.id)
+  queue.splice(0, queue.length, ...sorted)
+}
+
+/** Moves a queued job to `index` (0 = runs next) and persists the new order */
+export function moveQueuedJob(jobId: number, index: number) {
+  if (!queue.includes(jobId)) throw new Error('Job is not in the queue')
+
+  const moved = moveQueueEntry(queueEntries(), jobId, index)
+  db.transaction((tx) => {
+    for (const entry of moved) {
+      tx.update(generationJobs)
+        .set({ priority: entry.priority, queuePosition: entry.queuePosition })
+        .where(eq(generationJobs.id, entry.id))
+        .run()
+    }
+  })
+  queue.splice(0, queue.length, ...moved.map((e) => e.id))
+  log.info('queue.move', 'Queued job moved', { jobId, index })
+  emitQueueState()
+}
+
+export function setJobPriority(jobId: number, priority: number) {
+  db.update(generationJobs)
+    .set({ priority, updatedAt: new Date().toISOString() })
+    .where(eq(generationJobs.id, jobId))
+    .run()
+  if (queue.includes(jobId)) sortQueuedJobs()
+  log.info('queue.priority', 'Job priority changed', { jobId, priority })
+  emitQueueState()
 }
 
 export function cancelPendingJobs(jobIds: number[]) {
   log.warn('queue.cancelPending', 'Cancelling pending jobs', { jobIds })
+  const sweepIds = new Set<number>()
   for (const id of jobIds) {
     const idx = queue.indexOf(id)
     if (idx !== -1) {
@@ -97,15 +196,24 @@ export function cancelPendingJobs(jobIds: number[]) {
     if (stoppedJobId === id) {
       stoppedJobId = null
     }
-    db.update(generationJobs)
+    const cancelled = db.update(generationJobs)
       .set({ status: 'cancelled', updatedAt: new Date().toISOString() })
       .where(eq(generationJobs.id, id))
-      .run()
+      .returning({ sweepId: generationJobs.sweepId })
+      .all()
+    for (const { sweepId } of cancelled) if (sweepId != null) sweepIds.add(sweepId)
+  }
+  // Cancelling a sweep's last waiting cells finishes it with what has rendered
+  for (const sweepId of sweepIds) {
+    composeSweepIfDone(sweepId).catch((error) => {
+      log.error('sweep.compose', 'Sweep grid composition failed', { sweepId }, error)
+    })
   }
 
   // Always clear queue stop state and batch timing after cancel
   queueStopped = null
   batchTiming = null
+  emitQueueState()
 }
 
 export function getQueueStatus() {
@@ -116,27 +224,51 @@ export function getQueueStatus() {
     queuedJobIds: [...queue],
     queueStopped,
     stoppedJobId,
+    // First pending retry, for the progress bar
+    retry: [...workers.values()].find((w) => w.retry)?.retry ?? null,
+    workers: [...workers.values()].map((w) => ({
+      keyId: w.keyId,
+      name: w.name,
+      status: workerStatus(w),
+      currentJobId: w.currentJobId,
+      lastError: w.lastError,
+    })),
   }
 }
 
+// Pushes the queue summary to open progress streams
+function emitQueueState() {
+  emitProgressEvent({ type: 'queue-state', processing, queueLength: queue.length, queueStopped, stoppedJobId })
+}
+
+function workerStatus(worker: QueueWorker): 'idle' | 'busy' | 'retrying' | 'failed' {
+  if (worker.failed) return 'failed'
+  if (worker.retry) return 'retrying'
+  return worker.currentJobId != null ? 'busy' : 'idle'
+}
+
 export function pauseQueue() {
   log.info('queue.pause', 'Queue pause requested')
   queueStopped = 'paused'
+  emitQueueState()
 }
 
 export function resumeQueue() {
   log.info('queue.resume', 'Queue resume requested', { previousState: queueStopped, stoppedJobId })
   if (queueStopped === 'error' && stoppedJobId != null) {
-    // Reset failed job to pending and re-enqueue at front
+    // Reset failed job to pending and re-enqueue at its persisted priority and position
     db.update(generationJobs)
       .set({ status: 'pending', errorMessage: null, updatedAt: new Date().toISOString() })
       .where(eq(generationJobs.id, stoppedJobId))
       .run()
-    queue.unshift(stoppedJobId)
+    queue.push(stoppedJobId)
+    sortQueuedJobs()
   }
   queueStopped = null
   stoppedJobId = null
-  if (!processing) processQueue()
+  readmitWorkers()
+  startWorkers()
+  emitQueueState()
 }
 
 export function dismissError() {
@@ -155,7 +287,19 @@ export function dismissError() {
   }
   queueStopped = null
   stoppedJobId = null
-  if (!processing && queue.length > 0) processQueue()
+  readmitWorkers()
+  startWorkers()
+  emitQueueState()
+}
+
+/** Lets keys added or re-enabled while a batch runs join it right away */
+export function syncKeyPool() {
+  if (processing) startWorkers()
+}
+
+// Give keys taken out of rotation another chance
+function readmitWorkers() {
+  for (const worker of workers.values()) worker.failed = false
 }
 
 export function getBatchTiming() {
@@ -167,13 +311,65 @@ export function getBatchTiming() {
     avgImageDurationMs: batchTiming.completedImages > 0
       ? Math.round(batchTiming.totalGenerationMs / batchTiming.completedImages)
       : null,
+    // Workers generating in parallel, for the ETA
+    activeWorkers: Math.max(1, [...workers.values()].filter((w) => w.running && !w.failed).length),
+    workers: [...workers.values()].map((w) => ({
+      keyId: w.keyId,
+      name: w.name,
+      status: workerStatus(w),
+      completedImages: w.completedImages,
+      avgImageDurationMs: w.completedImages > 0 ? Math.round(w.totalGenerationMs / w.completedImages) : null,
+    })),
   }
 }
 
-async function processQueue() {
-  if (processing) return
-  processing = true
-  queueStopped = null
+/**
+ * Starts a worker for every pool key that isn't running yet. The first call of a
+ * batch also resets batch timing and puts failed keys back into rotation.
+ */
+function startWorkers() {
+  if (queue.length === 0) return
+  if (processing && queueStopped) return
+
+  const pool = loadKeyPool()
+  const keys: Array<{ id: string; name: string }> = pool.length > 0 ? pool : [{ id: KEYLESS_WORKER_ID, name: '' }]
+
+  if (!processing) {
+    processing = true
+    queueStopped = null
+    beginBatch()
+  }
+
+  // Forget idle workers whose key was removed or disabled
+  for (const [id, worker] of workers) {
+    if (!worker.running && !keys.some((k) => k.id === id)) workers.delete(id)
+  }
+
+  for (const key of keys) {
+    let worker = workers.get(key.id)
+    if (!worker) {
+      worker = {
+        keyId: key.id,
+        name: key.name,
+        running: false,
+        currentJobId: null,
+        failed: false,
+        lastError: null,
+        completedImages: 0,
+        totalGenerationMs: 0,
+        retry: null,
+      }
+      workers.set(key.id, worker)
+    }
+    worker.name = key.name
+    if (!worker.running && !worker.failed) runWorker(worker)
+  }
+
+  if (![...workers.values()].some((w) => w.running)) processing = false
+}
+
+function beginBatch() {
+  for (const worker of workers.values()) worker.failed = false
 
   // Sum remaining images (totalCount - completedCount) from all initially queued jobs
   let initialTotal = 0
@@ -197,32 +393,130 @@ async function processQueue() {
       completedImages: 0,
       totalGenerationMs: 0,
     }
+    for (const worker of workers.values()) {
+      worker.completedImages = 0
+      worker.totalGenerationMs = 0
+    }
   }
 
   log.info('queue.start', 'Queue processing started', { queueLength: queue.length, totalImages: initialTotal })
+}
+
+// Key of a worker, or null once its key was removed or disabled (the keyless worker retires when keys appear)
+function workerApiKey(worker: QueueWorker): { apiKey: string | undefined } | null {
+  const pool = loadKeyPool()
+  if (worker.keyId === KEYLESS_WORKER_ID) return pool.length === 0 ? { apiKey: undefined } : null
+  const key = pool.find((k) => k.id === worker.keyId)
+  return key ? { apiKey: key.apiKey } : null
+}
+
+async function runWorker(worker: QueueWorker) {
+  worker.running = true
+  log.debug('worker.start', 'Worker started', { key: worker.name || worker.keyId })
 
   try {
-    while (queue.length > 0) {
+    while (queue.length > 0 && !worker.failed) {
       if (queueStopped) {
-        log.info('queue.stopped', 'Queue stopped', { reason: queueStopped })
+        log.info('queue.stopped', 'Queue stopped', { reason: queueStopped, key: worker.name || worker.keyId })
+        return
+      }
+      const key = workerApiKey(worker)
+      if (!key) {
+        log.info('worker.retired', 'API key removed from the pool', { key: worker.name || worker.keyId })
         return
       }
       const jobId = queue.shift()!
-      await processJob(jobId)
+      await processJob(jobId, worker, key.apiKey)
     }
-
-    const durationMs = batchTiming ? Date.now() - batchTiming.startedAt : 0
-    log.info('queue.complete', 'Queue processing completed', { totalImages: batchTiming?.completedImages ?? 0, durationMs })
   } catch (error) {
-    log.error('queue.unexpectedError', 'Unexpected error in queue processing', {}, error)
+    log.error('queue.unexpectedError', 'Unexpected error in queue processing', { key: worker.name || worker.keyId }, error)
+  } finally {
+    worker.running = false
+    worker.currentJobId = null
+    // Jobs handed back by a worker that left the rotation go to the others, even idle ones
+    if (queue.length > 0 && !queueStopped) startWorkers()
+
+    if (processing && ![...workers.values()].some((w) => w.running)) {
+      processing = false
+      // batchTiming is kept so the last poll can still read it.
+      // The next batch resets it (completedImages === totalImages → isResume=false).
+      if (!queueStopped) {
+        const durationMs = batchTiming ? Date.now() - batchTiming.startedAt : 0
+        log.info('queue.complete', 'Queue processing completed', { totalImages: batchTiming?.completedImages ?? 0, durationMs })
+      }
+      emitQueueState()
+    }
+  }
+}
+
+function readRetryPolicy(): RetryPolicy {
+  const rows = db.select().from(settings).all()
+  const value = (key: string) => rows.find((r) => r.key === key)?.value
+  const maxRetries = Number(value('retry_max_attempts') ?? DEFAULT_RETRY_POLICY.maxRetries)
+  const maxDelayMs = Number(value('retry_max_delay') ?? DEFAULT_RETRY_POLICY.maxDelayMs)
+  return {
+    maxRetries: Number.isFinite(maxRetries) ? Math.max(0, maxRetries) : DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: Number.isFinite(maxDelayMs) && maxDelayMs > 0 ? maxDelayMs : DEFAULT_RETRY_POLICY.maxDelayMs,
+  }
+}
+
+// Sleep for a retry backoff; resolves early (with true) on pause or cancel
+async function waitForRetry(jobId: number, delayMs: number): Promise<boolean> {
+  const until = Date.now() + delayMs
+  while (Date.now() < until) {
+    await new Promise((resolve) => setTimeout(resolve, Math.min(250, until - Date.now())))
+    if (queueStopped === 'paused') return true
+    const job = db
+      .select({ status: generationJobs.status })
+      .from(generationJobs)
+      .where(eq(generationJobs.id, jobId))
+      .get()
+    if (job?.status === 'cancelled') return true
+  }
+  return false
+}
+
+/**
+ * One image request with retries for transient failures (429, 5xx, timeouts, network).
+ * Fatal errors and the last failed retry are rethrown. Returns null when a pause or
+ * cancel arrives during a backoff wait.
+ */
+async function generateWithRetry(
+  worker: QueueWorker,
+  jobId: number,
+  run: () => Promise<BackendImage>,
+  policy: RetryPolicy,
+): Promise<(BackendImage & { durationMs: number }) | null> {
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const start = Date.now()
+      try {
+        const image = await run()
+        return { ...image, durationMs: Date.now() - start }
+      } catch (error) {
+        if (classifyGenerationError(error) === 'fatal' || attempt > policy.maxRetries) throw error
+
+        const delayMs = retryDelay(attempt, policy)
+        const message = error instanceof Error ? error.message : String(error)
+        log.warn('job.retry', 'Transient generation error, retrying', {
+          jobId, key: worker.name || worker.keyId, attempt, maxRetries: policy.maxRetries, delayMs, error: message,
+        })
+        worker.retry = { jobId, attempt, maxRetries: policy.maxRetries, retryAt: Date.now() + delayMs, error: message }
+        if (await waitForRetry(jobId, delayMs)) {
+          log.info('job.retryInterrupted', 'Retry wait interrupted', { jobId, attempt })
+          return null
+        }
+      }
+    }
   } finally {
-    processing = false
-    // batchTiming is kept so the last poll can still read it.
-    // Next processQueue() will reset it (completedImages === totalImages → isResume=false).
+    worker.retry = null
   }
 }
 
-async function processJob(jobId: number) {
+async function processJob(jobId: number, worker: QueueWorker, apiKey: string | undefined) {
+  worker.currentJobId = jobId
+  let sweepId: number | null = null
   try {
     const job = db
       .select()
@@ -230,28 +524,19 @@ async function processJob(jobId: number) {
       .where(eq(generationJobs.id, jobId))
       .get()
     if (!job || job.status === 'cancelled') return
+    sweepId = job.sweepId
+
+    const backend = getBackend(isBackendId(job.backend) ? job.backend : DEFAULT_BACKEND)
 
     log.info('job.start', 'Starting generation job', {
-      jobId, projectId: job.projectId, sceneId: job.projectSceneId, totalCount: job.totalCount ?? 1,
+      jobId,
+      projectId: job.projectId,
+      sceneId: job.projectSceneId,
+      totalCount: job.totalCount ?? 1,
+      backend: backend.id,
+      key: worker.name || worker.keyId,
     })
 
-    // Get API key
-    const apiKeyRow = db
-      .select()
-      .from(settings)
-      .where(eq(settings.key, 'nai_api_key'))
-      .get()
-    if (!apiKeyRow?.value) {
-      log.error('job.noApiKey', 'No API key configured', { jobId })
-      db.update(generationJobs)
-        .set({ status: 'failed', errorMessage: 'API 키가 설정되지 않았습니다', updatedAt: new Date().toISOString() })
-        .where(eq(generationJobs.id, jobId))
-        .run()
-      queueStopped = 'error'
-      stoppedJobId = jobId
-      return
-    }
-
     // Get delay setting
     const delayRow = db
       .select()
@@ -259,6 +544,7 @@ async function processJob(jobId: number) {
       .where(eq(settings.key, 'generation_delay'))
       .get()
     const delay = delayRow ? Number(delayRow.value) : 500
+    const retryPolicy = readRetryPolicy()
 
     // Mark as running
     db.update(generationJobs)
@@ -268,19 +554,35 @@ async function processJob(jobId: number) {
 
     const resolvedPrompts = JSON.parse(job.resolvedPrompts)
     const resolvedParameters = JSON.parse(job.resolvedParameters)
+    const seedStrategy = readSeedStrategy(resolvedParameters)
     const totalCount = job.totalCount ?? 1
 
     const startIndex = job.completedCount ?? 0
+    emitProgressEvent({
+      type: 'job-started',
+      jobId,
+      projectId: job.projectId,
+      projectSceneId: job.projectSceneId,
+      completedCount: startIndex,
+      totalCount,
+    })
+
+    // img2img source and inpaint mask, scaled to the output size once for the whole job
+    const sourceImage = job.sourceImagePath
+      ? await loadSourceImage(job.sourceImagePath, resolvedParameters.width ?? 832, resolvedParameters.height ?? 1216)
+      : undefined
+    const mask = job.maskPath
+      ? await loadSourceImage(job.maskPath, resolvedParameters.width ?? 832, resolvedParameters.height ?? 1216)
+      : undefined
+
+    // Throws (failing the job and stopping the queue) when the backend isn't configured, e.g. no NAI API key
+    const generate = await backend.prepareJob({ parameters: resolvedParameters, sourceImage, mask, apiKey })
 
     for (let i = startIndex; i < totalCount; i++) {
       // Check if paused
       if (queueStopped === 'paused') {
         log.info('job.paused', 'Job paused mid-generation', { jobId, completedCount: i })
-        db.update(generationJobs)
-          .set({ status: 'pending', updatedAt: new Date().toISOString() })
-          .where(eq(generationJobs.id, jobId))
-          .run()
-        queue.unshift(jobId)
+        requeueJob(jobId)
         return
       }
 
@@ -295,14 +597,21 @@ async function processJob(jobId: number) {
         return
       }
 
-      // Generate image via NAI API (with timing)
-      const imageStart = Date.now()
-      const { imageData, seed } = await generateImage(
-        apiKeyRow.value,
-        resolvedPrompts,
-        resolvedParameters,
-      )
-      const imageDuration = Date.now() - imageStart
+      // Seeds follow the job's strategy by image index, so a resumed job continues its sequence.
+      // Random bundle lines and {a|b} wildcards are picked fresh for every image,
+      // seeded from the image seed so the picks can be reproduced
+      const imageSeed = seedForImage(seedStrategy, i) ?? randomSeed()
+      const { prompts: imagePrompts, bundlePicks, wildcards } =
+        resolvePromptsForImage(resolvedPrompts, createRandom(imageSeed), !!resolvedParameters.normalizePrompts)
+
+      // Generate image via the job's backend (timing covers the successful attempt only)
+      const result = await generateWithRetry(worker, jobId, () => generate(imagePrompts, imageSeed), retryPolicy)
+      if (!result) {
+        // Paused or cancelled while waiting to retry: redo this index so the checks above handle it
+        i--
+        continue
+      }
+      const { imageData, seed, durationMs: imageDuration } = result
 
       log.info('job.progress', 'Image generated', { jobId, index: i + 1, seed, durationMs: imageDuration })
 
@@ -311,6 +620,8 @@ async function processJob(jobId: number) {
         batchTiming.totalGenerationMs += imageDuration
         batchTiming.completedImages += 1
       }
+      worker.totalGenerationMs += imageDuration
+      worker.completedImages += 1
 
       // Save image and thumbnail
       const { filePath, thumbnailPath } = saveImage(
@@ -330,10 +641,16 @@ async function processJob(jobId: number) {
           sourceSceneId: job.sourceSceneId,
           filePath,
           thumbnailPath,
+          parentImageId: job.sourceImageId,
           seed,
+          backend: backend.id,
           metadata: JSON.stringify({
-            prompts: resolvedPrompts,
+            prompts: imagePrompts,
             parameters: resolvedParameters,
+            ...(job.sourceImagePath && { sourceImagePath: job.sourceImagePath }),
+            ...(job.maskPath && { maskPath: job.maskPath }),
+            ...(bundlePicks.length > 0 && { bundlePicks }),
+            ...(wildcards.length > 0 && { wildcards }),
           }),
         })
         .returning()
@@ -356,6 +673,15 @@ async function processJob(jobId: number) {
         })
         .where(eq(generationJobs.id, jobId))
         .run()
+      emitProgressEvent({
+        type: 'image-completed',
+        jobId,
+        projectId: job.projectId,
+        projectSceneId: job.projectSceneId,
+        completedCount: i + 1,
+        totalCount,
+        image: insertedImage,
+      })
 
       // Delay between generations
       if (i < totalCount - 1 && delay > 0) {
@@ -370,14 +696,54 @@ async function processJob(jobId: number) {
       .set({ status: 'completed', updatedAt: new Date().toISOString() })
       .where(eq(generationJobs.id, jobId))
       .run()
+    if (sweepId != null) await composeSweepIfDone(sweepId)
+    emitQueueState()
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error)
-    log.error('job.failed', 'Generation job failed', { jobId }, error)
+    worker.lastError = errorMsg
+
+    if (isKeyError(error)) {
+      worker.failed = true
+      // Other keys can take over: hand the job back instead of stopping the queue
+      const poolIds = new Set(loadKeyPool().map((k) => k.id))
+      const others = [...workers.values()].some((w) => w !== worker && !w.failed && poolIds.has(w.keyId))
+      if (others) {
+        log.warn('worker.keyFailed', 'API key taken out of rotation', { jobId, key: worker.name || worker.keyId, error: errorMsg })
+        requeueJob(jobId)
+        return
+      }
+    }
+
+    // Another job already stopped the queue; keep this one for the resume
+    if (queueStopped === 'error') {
+      log.warn('job.requeued', 'Job interrupted while the queue is stopped', { jobId, error: errorMsg })
+      requeueJob(jobId)
+      return
+    }
+
+    log.error('job.failed', 'Generation job failed', { jobId, key: worker.name || worker.keyId }, error)
     db.update(generationJobs)
       .set({ status: 'failed', errorMessage: errorMsg, updatedAt: new Date().toISOString() })
       .where(eq(generationJobs.id, jobId))
       .run()
     queueStopped = 'error'
     stoppedJobId = jobId
+    emitProgressEvent({ type: 'job-failed', jobId, error: errorMsg })
+    emitQueueState()
+    // A failed last cell still completes the sweep's grid, with that cell left grey
+    if (sweepId != null) await composeSweepIfDone(sweepId)
+  } finally {
+    worker.currentJobId = null
   }
 }
+
+// Back into the queue as pending, keeping the images done so far. It takes its persisted
+// place, so a job queued at a higher priority in the meantime still runs first
+function requeueJob(jobId: number) {
+  db.update(generationJobs)
+    .set({ status: 'pending', updatedAt: new Date().toISOString() })
+    .where(eq(generationJobs.id, jobId))
+    .run()
+  queue.push(jobId)
+  sortQueuedJobs()
+}
@@ -11,6 +11,8 @@ function normalizePath(p: string): string {
 const log = createLogger('image')
 const IMAGES_DIR = './data/images'
 const THUMBNAILS_DIR = './data/thumbnails'
+const SOURCES_DIR = './data/sources'
+const REFERENCES_DIR = './data/references'
 
 export function saveImage(
   projectId: number | null,
@@ -35,6 +37,13 @@ export function saveImage(
   return { filePath: normalizePath(filePath), thumbnailPath: normalizePath(thumbnailPath) }
 }
 
+/** Grid image of a sweep page, stored with the project's generated images */
+export function sweepGridPath(projectId: number, sweepId: number, page: number): string {
+  const filePath = join(IMAGES_DIR, String(projectId), `sweep_${sweepId}_${page + 1}.png`)
+  mkdirSync(dirname(filePath), { recursive: true })
+  return normalizePath(filePath)
+}
+
 export async function generateThumbnail(
   sourcePath: string,
   thumbnailPath: string,
@@ -51,6 +60,70 @@ export async function generateThumbnail(
   }
 }
 
+/** Store an img2img source (any format sharp reads) as PNG under data/sources */
+export async function saveSourceImage(imageData: Uint8Array): Promise<string> {
+  const filename = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}.png`
+  const filePath = join(SOURCES_DIR, filename)
+  mkdirSync(SOURCES_DIR, { recursive: true })
+  await sharp(imageData).png().toFile(filePath)
+  log.info('saveSource', 'Source image saved', { filePath })
+  return normalizePath(filePath)
+}
+
+/** Base64 PNG of a source image, cropped and scaled to the generation size */
+export async function loadSourceImage(
+  sourcePath: string,
+  width: number,
+  height: number,
+): Promise<string> {
+  const data = await sharp(sourcePath)
+    .resize({ width, height, fit: 'cover' })
+    .png()
+    .toBuffer()
+  return data.toString('base64')
+}
+
+/** Store an inpaint mask as a black/white PNG next to the sources (white = area to repaint) */
+export async function saveMaskImage(maskData: Uint8Array): Promise<string> {
+  const filename = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}_mask.png`
+  const filePath = join(SOURCES_DIR, filename)
+  mkdirSync(SOURCES_DIR, { recursive: true })
+  await sharp(maskData).flatten({ background: '#000000' }).greyscale().threshold(128).png().toFile(filePath)
+  log.info('saveMask', 'Inpaint mask saved', { filePath })
+  return normalizePath(filePath)
+}
+
+/** Store a vibe transfer reference image as PNG under data/references */
+export async function saveReferenceImage(imageData: Uint8Array): Promise<string> {
+  const filename = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}.png`
+  const filePath = join(REFERENCES_DIR, filename)
+  mkdirSync(REFERENCES_DIR, { recursive: true })
+  await sharp(imageData).png().toFile(filePath)
+  log.info('saveReference', 'Reference image saved', { filePath })
+  return normalizePath(filePath)
+}
+
+// NAI only accepts character references on these canvases
+const CHARACTER_REFERENCE_CANVASES = [
+  { width: 1024, height: 1536 },
+  { width: 1536, height: 1024 },
+  { width: 1472, height: 1472 },
+]
+
+/** Base64 PNG of a character reference, letterboxed onto the canvas closest to its aspect ratio */
+export async function loadCharacterReferenceImage(filePath: string): Promise<string> {
+  const { width = 1, height = 1 } = await sharp(filePath).metadata()
+  const aspect = width / height
+  const canvas = CHARACTER_REFERENCE_CANVASES.reduce((best, c) =>
+    Math.abs(Math.log(c.width / c.height / aspect)) < Math.abs(Math.log(best.width / best.height / aspect)) ? c : best,
+  )
+  const data = await sharp(filePath)
+    .resize({ ...canvas, fit: 'contain', background: '#000000' })
+    .png()
+    .toBuffer()
+  return data.toString('base64')
+}
+
 /** Delete a single file, logging errors but not throwing */
 function safeUnlink(filePath: string): boolean {
   try {
@@ -0,0 +1,262 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { settings } from '../db/schema'
+import { createLogger } from './logger'
+import type { BackendParameters, GenerationBackend } from './backend'
+import type { ResolvedPrompts } from './prompt'
+import { HttpStatusError } from '@/lib/generation-retry'
+
+const comfyLog = createLogger('comfyui')
+const a1111Log = createLogger('a1111')
+
+const COMFYUI_POLL_INTERVAL_MS = 1000
+// Local GPUs can be slow; give a single image up to five minutes
+const LOCAL_TIMEOUT_MS = 300_000
+
+// NAI sampler/scheduler names (what the parameter form stores) → local equivalents
+const COMFYUI_SAMPLERS: Record<string, string> = {
+  k_euler_ancestral: 'euler_ancestral',
+  k_euler: 'euler',
+  k_dpmpp_2s_ancestral: 'dpmpp_2s_ancestral',
+  k_dpmpp_2m: 'dpmpp_2m',
+  k_dpmpp_sde: 'dpmpp_sde',
+  ddim_v3: 'ddim',
+}
+const COMFYUI_SCHEDULERS: Record<string, string> = {
+  native: 'normal',
+  karras: 'karras',
+  exponential: 'exponential',
+  polyexponential: 'exponential',
+}
+const A1111_SAMPLERS: Record<string, string> = {
+  k_euler_ancestral: 'Euler a',
+  k_euler: 'Euler',
+  k_dpmpp_2s_ancestral: 'DPM++ 2S a',
+  k_dpmpp_2m: 'DPM++ 2M',
+  k_dpmpp_sde: 'DPM++ SDE',
+  ddim_v3: 'DDIM',
+}
+const A1111_SCHEDULERS: Record<string, string> = {
+  native: 'Automatic',
+  karras: 'Karras',
+  exponential: 'Exponential',
+  polyexponential: 'Polyexponential',
+}
+
+function requireSetting(key: string, label: string): string {
+  const row = db.select().from(settings).where(eq(settings.key, key)).get()
+  if (!row?.value) throw new Error(`${label} is not configured`)
+  return row.value
+}
+
+// Unknown or unset names fall back to the backend's usual default
+function mapName(names: Record<string, string>, name: string | undefined, fallback: string): string {
+  return name !== undefined && Object.hasOwn(names, name) ? names[name] : fallback
+}
+
+function baseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '')
+}
+
+// Local models have no per-character prompts: characters are appended to the base prompt
+function flattenPrompts(prompts: ResolvedPrompts): { positive: string; negative: string } {
+  const join = (parts: Array<string>) => parts.map((p) => p.trim()).filter(Boolean).join(', ')
+  return {
+    positive: join([prompts.generalPrompt, ...prompts.characterPrompts.map((c) => c.prompt)]),
+    negative: join([prompts.negativePrompt, ...prompts.characterPrompts.map((c) => c.negative)]),
+  }
+}
+
+async function checkResponse(response: Response, label: string, log: ReturnType<typeof createLogger>) {
+  if (response.ok) return
+  const text = await response.text().catch(() => '')
+  log.error('api.error', `${label} error response`, { status: response.status, responseText: text.slice(0, 500) })
+  throw new HttpStatusError(`${label} error ${response.status}: ${text}`, response.status)
+}
+
+// ─── ComfyUI ────────────────────────────────────────────────────────────────
+
+interface ComfyImageRef {
+  filename: string
+  subfolder: string
+  type: string
+}
+
+async function comfyUpload(url: string, base64: string, name: string): Promise<string> {
+  const form = new FormData()
+  form.append('image', new Blob([Buffer.from(base64, 'base64')], { type: 'image/png' }), name)
+  form.append('overwrite', 'true')
+  const response = await fetch(`${url}/upload/image`, {
+    method: 'POST',
+    body: form,
+    signal: AbortSignal.timeout(60_000),
+  })
+  await checkResponse(response, 'ComfyUI upload', comfyLog)
+  const result = (await response.json()) as { name: string; subfolder?: string }
+  return result.subfolder ? `${result.subfolder}/${result.name}` : result.name
+}
+
+/** API-format workflow: checkpoint → text encoders → (empty | encoded source [+ mask]) latent → KSampler → save */
+function buildComfyWorkflow(input: {
+  checkpoint: string
+  positive: string
+  negative: string
+  parameters: BackendParameters
+  seed: number
+  sourceName?: string
+  maskName?: string
+}) {
+  const { parameters } = input
+  const graph: Record<string, { class_type: string; inputs: Record<string, unknown> }> = {
+    checkpoint: { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: input.checkpoint } },
+    positive: { class_type: 'CLIPTextEncode', inputs: { text: input.positive, clip: ['checkpoint', 1] } },
+    negative: { class_type: 'CLIPTextEncode', inputs: { text: input.negative, clip: ['checkpoint', 1] } },
+  }
+
+  if (input.sourceName) {
+    graph.source = { class_type: 'LoadImage', inputs: { image: input.sourceName } }
+    graph.encoded = { class_type: 'VAEEncode', inputs: { pixels: ['source', 0], vae: ['checkpoint', 2] } }
+    if (input.maskName) {
+      graph.mask = { class_type: 'LoadImageMask', inputs: { image: input.maskName, channel: 'red' } }
+      graph.latent = { class_type: 'SetLatentNoiseMask', inputs: { samples: ['encoded', 0], mask: ['mask', 0] } }
+    }
+  } else {
+    graph.latent = {
+      class_type: 'EmptyLatentImage',
+      inputs: { width: parameters.width ?? 832, height: parameters.height ?? 1216, batch_size: 1 },
+    }
+  }
+
+  const denoise = input.maskName ? (parameters.strength ?? 1) : input.sourceName ? (parameters.strength ?? 0.7) : 1
+  graph.sampler = {
+    class_type: 'KSampler',
+    inputs: {
+      seed: input.seed,
+      steps: parameters.steps ?? 28,
+      cfg: parameters.scale ?? 5,
+      sampler_name: mapName(COMFYUI_SAMPLERS, parameters.sampler, 'euler_ancestral'),
+      scheduler: mapName(COMFYUI_SCHEDULERS, parameters.scheduler, 'karras'),
+      denoise,
+      model: ['checkpoint', 0],
+      positive: ['positive', 0],
+      negative: ['negative', 0],
+      latent_image: ['latent' in graph ? 'latent' : 'encoded', 0],
+    },
+  }
+  graph.decode = { class_type: 'VAEDecode', inputs: { samples: ['sampler', 0], vae: ['checkpoint', 2] } }
+  graph.save = { class_type: 'SaveImage', inputs: { images: ['decode', 0], filename_prefix: '87studio' } }
+  return graph
+}
+
+async function comfyWaitForImage(url: string, promptId: string): Promise<ComfyImageRef> {
+  const deadline = Date.now() + LOCAL_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    const response = await fetch(`${url}/history/${promptId}`, { signal: AbortSignal.timeout(30_000) })
+    await checkResponse(response, 'ComfyUI history', comfyLog)
+    const history = (await response.json()) as Partial<Record<string, {
+      status?: { status_str?: string; messages?: Array<unknown> }
+      outputs?: Partial<Record<string, { images?: Array<ComfyImageRef> }>>
+    }>>
+    const entry = history[promptId]
+    if (entry?.status?.status_str === 'error') {
+      comfyLog.error('api.executionError', 'ComfyUI workflow failed', { promptId, messages: entry.status.messages })
+      throw new Error('ComfyUI workflow failed')
+    }
+    const image = entry?.outputs?.save?.images?.at(0)
+    if (image) return image
+    await new Promise((resolve) => setTimeout(resolve, COMFYUI_POLL_INTERVAL_MS))
+  }
+  throw new Error(`ComfyUI timed out after ${LOCAL_TIMEOUT_MS / 1000}s`)
+}
+
+export const comfyuiBackend: GenerationBackend = {
+  id: 'comfyui',
+  async prepareJob({ parameters, sourceImage, mask }) {
+    const url = baseUrl(requireSetting('comfyui_url', 'ComfyUI URL'))
+    const checkpoint = requireSetting('comfyui_checkpoint', 'ComfyUI checkpoint')
+
+    // Inputs are uploaded once and shared by every image of the job
+    const tag = `87studio_${Date.now()}`
+    const sourceName = sourceImage ? await comfyUpload(url, sourceImage, `${tag}_source.png`) : undefined
+    const maskName = sourceImage && mask ? await comfyUpload(url, mask, `${tag}_mask.png`) : undefined
+
+    return async (prompts, seed) => {
+      const { positive, negative } = flattenPrompts(prompts)
+      const workflow = buildComfyWorkflow({ checkpoint, positive, negative, parameters, seed, sourceName, maskName })
+
+      const start = Date.now()
+      const response = await fetch(`${url}/prompt`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt: workflow }),
+        signal: AbortSignal.timeout(30_000),
+      })
+      await checkResponse(response, 'ComfyUI', comfyLog)
+      const { prompt_id: promptId } = (await response.json()) as { prompt_id: string }
+      comfyLog.info('api.queued', 'ComfyUI prompt queued', { promptId, seed })
+
+      const image = await comfyWaitForImage(url, promptId)
+      const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type })
+      const view = await fetch(`${url}/view?${query}`, { signal: AbortSignal.timeout(60_000) })
+      await checkResponse(view, 'ComfyUI view', comfyLog)
+      const imageData = new Uint8Array(await view.arrayBuffer())
+
+      comfyLog.info('api.response', 'ComfyUI image ready', { promptId, durationMs: Date.now() - start })
+      return { imageData, seed }
+    }
+  },
+}
+
+// ─── A1111 / Forge WebUI ────────────────────────────────────────────────────
+
+export const a1111Backend: GenerationBackend = {
+  id: 'a1111',
+  prepareJob({ parameters, sourceImage, mask }) {
+    const url = baseUrl(requireSetting('a1111_url', 'A1111 URL'))
+
+    return Promise.resolve(async (prompts, seed) => {
+      const { positive, negative } = flattenPrompts(prompts)
+      const body = {
+        prompt: positive,
+        negative_prompt: negative,
+        width: parameters.width ?? 832,
+        height: parameters.height ?? 1216,
+        steps: parameters.steps ?? 28,
+        cfg_scale: parameters.scale ?? 5,
+        sampler_name: mapName(A1111_SAMPLERS, parameters.sampler, 'Euler a'),
+        scheduler: mapName(A1111_SCHEDULERS, parameters.scheduler, 'Karras'),
+        seed,
+        batch_size: 1,
+        n_iter: 1,
+        ...(sourceImage && {
+          init_images: [sourceImage],
+          denoising_strength: parameters.strength ?? (mask ? 1 : 0.7),
+        }),
+        ...(sourceImage && mask && { mask, inpainting_fill: 1, mask_blur: 4 }),
+      }
+
+      const start = Date.now()
+      const response = await fetch(`${url}/sdapi/v1/${sourceImage ? 'img2img' : 'txt2img'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(LOCAL_TIMEOUT_MS),
+      })
+      await checkResponse(response, 'A1111', a1111Log)
+      const result = (await response.json()) as { images?: Array<string>; info?: string }
+      const image = result.images?.[0]
+      if (!image) throw new Error('No image found in A1111 response')
+
+      // `info` is a JSON string carrying the seed that was actually used
+      let usedSeed = seed
+      try {
+        usedSeed = JSON.parse(result.info ?? '{}').seed ?? seed
+      } catch {
+        // keep the requested seed
+      }
+
+      a1111Log.info('api.response', 'A1111 image ready', { seed: usedSeed, durationMs: Date.now() - start })
+      return { imageData: new Uint8Array(Buffer.from(image, 'base64')), seed: usedSeed }
+    })
+  },
+}
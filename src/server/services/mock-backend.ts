@@ -0,0 +1,68 @@
+import sharp from 'sharp'
+import type { GenerationBackend } from './backend'
+import type { ResolvedPrompts } from './prompt'
+import { createRandom } from '@/lib/random'
+
+const BLOCK_COUNT = 6
+
+// FNV-1a, so the same prompt always maps to the same colours
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Placeholder PNG for the mock backend: a vertical gradient with a few blocks,
+ * fully determined by the prompts, seed and size.
+ */
+export async function renderPlaceholder(
+  prompts: ResolvedPrompts,
+  seed: number,
+  width: number,
+  height: number,
+): Promise<Uint8Array> {
+  const text = [prompts.generalPrompt, prompts.negativePrompt, ...prompts.characterPrompts.map((c) => c.prompt)].join('|')
+  const random = createRandom(hashString(text) ^ seed)
+  const color = () => [0, 0, 0].map(() => Math.floor(random() * 256))
+
+  const top = color()
+  const bottom = color()
+  const pixels = Buffer.alloc(width * height * 3)
+  for (let y = 0; y < height; y++) {
+    const t = height > 1 ? y / (height - 1) : 0
+    const row = top.map((c, i) => Math.round(c + (bottom[i] - c) * t))
+    for (let x = 0; x < width; x++) {
+      pixels.set(row, (y * width + x) * 3)
+    }
+  }
+
+  for (let b = 0; b < BLOCK_COUNT; b++) {
+    const fill = color()
+    const w = Math.max(1, Math.floor(random() * width * 0.4))
+    const h = Math.max(1, Math.floor(random() * height * 0.4))
+    const left = Math.floor(random() * (width - w))
+    const topEdge = Math.floor(random() * (height - h))
+    for (let y = topEdge; y < topEdge + h; y++) {
+      for (let x = left; x < left + w; x++) {
+        pixels.set(fill, (y * width + x) * 3)
+      }
+    }
+  }
+
+  const png = await sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer()
+  return new Uint8Array(png)
+}
+
+/** Offline backend for exercising the queue: no settings, no network */
+export const mockBackend: GenerationBackend = {
+  id: 'mock',
+  prepareJob({ parameters }) {
+    const width = parameters.width ?? 832
+    const height = parameters.height ?? 1216
+    return Promise.resolve(async (prompts, seed) => ({ imageData: await renderPlaceholder(prompts, seed, width, height), seed }))
+  },
+}
@@ -1,9 +1,50 @@
 import { unzipSync } from 'fflate'
 import type { ResolvedPrompts } from './prompt'
 import { createLogger } from './logger'
+import { HttpStatusError } from '@/lib/generation-retry'
 
 const log = createLogger('nai')
-const NAI_API_URL = 'https://image.novelai.net/ai/generate-image'
+const NAI_DEFAULT_BASE_URL = 'https://image.novelai.net'
+const NAI_DEFAULT_TIMEOUT_MS = 120_000 // 2 min
+// Account endpoints live on a different host than the image API
+const NAI_DEFAULT_ACCOUNT_URL = 'https://api.novelai.net'
+
+/**
+ * Image API base URL. NAI_BASE_URL points it elsewhere, e.g. at the local
+ * stand-in in src/server/dev/fake-nai-server.ts during development and tests.
+ */
+function naiBaseUrl(): string {
+  return (process.env.NAI_BASE_URL || NAI_DEFAULT_BASE_URL).replace(/\/+$/, '')
+}
+
+/** Account API base URL (subscription, Anlas), overridable with NAI_ACCOUNT_URL */
+function naiAccountUrl(): string {
+  return (process.env.NAI_ACCOUNT_URL || NAI_DEFAULT_ACCOUNT_URL).replace(/\/+$/, '')
+}
+
+function naiTimeoutMs(): number {
+  const value = Number(process.env.NAI_TIMEOUT_MS)
+  return value > 0 ? value : NAI_DEFAULT_TIMEOUT_MS
+}
+
+export interface VibeInput {
+  /** V4+: base64 encoding from encodeVibe. V3: the base64 reference image itself */
+  image: string
+  strength: number
+  /** Only for raw V3 references — V4 bakes it into the encoding */
+  informationExtracted?: number
+}
+
+/** Character reference (NAI's director reference) */
+export interface DirectorReferenceInput {
+  /** base64 PNG padded onto one of NAI's reference canvases */
+  image: string
+  strength: number
+  /** 0..1; sent as secondary strength = 1 - fidelity */
+  fidelity: number
+  /** Also transfer the reference's art style, not just the character */
+  styleAware: boolean
+}
 
 interface GenerationParams {
   model?: string
@@ -17,6 +58,19 @@ interface GenerationParams {
   seed?: number
   ucPreset?: number
   imageFormat?: string
+  /** img2img: base64 PNG at the generation size; switches the action to img2img */
+  image?: string
+  strength?: number
+  noise?: number
+  /** Inpainting: base64 black/white PNG (white = repaint) at the generation size; requires `image` */
+  mask?: string
+  vibes?: Array<VibeInput>
+  directorReferences?: Array<DirectorReferenceInput>
+}
+
+// Infill runs on the inpainting variant of the selected model
+function inpaintingModel(model: string): string {
+  return model.endsWith('-inpainting') ? model : `${model}-inpainting`
 }
 
 export async function generateImage(
@@ -26,27 +80,32 @@ export async function generateImage(
 ): Promise<{ imageData: Uint8Array; seed: number }> {
   const seed = params.seed ?? Math.floor(Math.random() * 2 ** 32)
 
+  // Positions only take effect with use_coords; unpositioned characters stay centered
+  const useCoords = prompts.characterPrompts.some((cp) => cp.center)
+  const centerOf = (cp: ResolvedPrompts['characterPrompts'][number]) => cp.center ?? { x: 0.5, y: 0.5 }
+
   // Build v4_prompt char_captions from character prompts
   const charCaptions = prompts.characterPrompts.map((cp) => ({
     char_caption: cp.prompt,
-    centers: [{ x: 0.5, y: 0.5 }],
+    centers: [centerOf(cp)],
   }))
 
   const negCharCaptions = prompts.characterPrompts.map((cp) => ({
     char_caption: cp.negative,
-    centers: [{ x: 0.5, y: 0.5 }],
+    centers: [centerOf(cp)],
   }))
 
+  const model = params.model ?? 'nai-diffusion-4-5-full'
   const body = {
     input: prompts.generalPrompt,
-    model: params.model ?? 'nai-diffusion-4-5-full',
-    action: 'generate',
+    model: params.mask ? inpaintingModel(model) : model,
+    action: params.mask ? 'infill' : params.image ? 'img2img' : 'generate',
     parameters: {
       add_original_image: true,
       autoSmea: false,
       cfg_rescale: params.cfgRescale,
       characterPrompts: prompts.characterPrompts.map((cp) => ({
-        center: { x: 0.5, y: 0.5 },
+        center: centerOf(cp),
         enabled: true,
         prompt: cp.prompt,
         uc: cp.negative,
@@ -57,7 +116,7 @@ export async function generateImage(
       width: params.width ?? 832,
       height: params.height ?? 1216,
       image_format: params.imageFormat ?? "png",
-      inpaintImg2ImgStrength: 1,
+      inpaintImg2ImgStrength: params.mask ? (params.strength ?? 1) : 1,
       legacy: false,
       legacy_uc: false,
       legacy_v3_extend: false,
@@ -74,13 +133,13 @@ export async function generateImage(
       skip_cfg_above_sigma: null,
       steps: params.steps ?? 28,
       ucPreset: params.ucPreset ?? 0,
-      use_coords: false,
+      use_coords: useCoords,
       v4_prompt: {
         caption: {
           base_caption: prompts.generalPrompt,
           char_captions: charCaptions,
         },
-        use_coords: false,
+        use_coords: useCoords,
         use_order: true
       },
       v4_negative_prompt: {
@@ -90,18 +149,60 @@ export async function generateImage(
         },
         legacy_uc: false
       },
+      ...(params.image && {
+        image: params.image,
+        strength: params.strength ?? (params.mask ? 1 : 0.7),
+        noise: params.noise ?? 0,
+        extra_noise_seed: seed,
+      }),
+      ...(params.mask && { mask: params.mask }),
+      ...(params.vibes?.length && {
+        reference_image_multiple: params.vibes.map((v) => v.image),
+        reference_strength_multiple: params.vibes.map((v) => v.strength),
+        ...(params.vibes.every((v) => v.informationExtracted != null) && {
+          reference_information_extracted_multiple: params.vibes.map((v) => v.informationExtracted),
+        }),
+      }),
+      ...(params.directorReferences?.length && {
+        director_reference_images: params.directorReferences.map((r) => r.image),
+        director_reference_descriptions: params.directorReferences.map((r) => ({
+          caption: { base_caption: r.styleAware ? 'character&style' : 'character', char_captions: [] },
+          legacy_uc: false,
+        })),
+        director_reference_information_extracted: params.directorReferences.map(() => 1),
+        director_reference_strength_values: params.directorReferences.map((r) => r.strength),
+        director_reference_secondary_strength_values: params.directorReferences.map(
+          (r) => Math.round((1 - r.fidelity) * 100) / 100,
+        ),
+      }),
     },
   }
 
-  log.info('api.request', 'Sending NAI API request', body)
+  // Keep base64 image payloads out of the log
+  log.info('api.request', 'Sending NAI API request', params.image || params.vibes?.length || params.directorReferences?.length
+    ? {
+        ...body,
+        parameters: {
+          ...body.parameters,
+          ...(params.image && { image: `<${params.image.length} chars>` }),
+          ...(params.mask && { mask: `<${params.mask.length} chars>` }),
+          ...(params.vibes?.length && {
+            reference_image_multiple: params.vibes.map((v) => `<${v.image.length} chars>`),
+          }),
+          ...(params.directorReferences?.length && {
+            director_reference_images: params.directorReferences.map((r) => `<${r.image.length} chars>`),
+          }),
+        },
+      }
+    : body)
 
   const fetchStart = Date.now()
   const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), 120_000) // 2 min timeout
+  const timeout = setTimeout(() => controller.abort(), naiTimeoutMs())
 
   let response: Response
   try {
-    response = await fetch(NAI_API_URL, {
+    response = await fetch(`${naiBaseUrl()}/ai/generate-image`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -130,7 +231,7 @@ export async function generateImage(
       responseText: text.slice(0, 500),
       durationMs: fetchDuration,
     })
-    throw new Error(`NAI API error ${response.status}: ${text}`)
+    throw new HttpStatusError(`NAI API error ${response.status}: ${text}`, response.status)
   }
 
   const zipData = new Uint8Array(await response.arrayBuffer())
@@ -158,3 +259,60 @@ export async function generateImage(
 
   return { imageData: imageEntry[1], seed }
 }
+
+/** Encode a reference image for V4 vibe transfer; returns the encoding as base64 (costs Anlas) */
+export async function encodeVibe(
+  apiKey: string,
+  image: string,
+  informationExtracted: number,
+  model: string,
+): Promise<string> {
+  const fetchStart = Date.now()
+  const response = await fetch(`${naiBaseUrl()}/ai/encode-vibe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({ image, information_extracted: informationExtracted, model }),
+    signal: AbortSignal.timeout(60_000),
+  })
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '')
+    log.error('api.encodeVibeError', 'NAI encode-vibe error response', {
+      status: response.status,
+      responseText: text.slice(0, 500),
+    })
+    throw new HttpStatusError(`NAI encode-vibe error ${response.status}: ${text}`, response.status)
+  }
+
+  const encoding = Buffer.from(await response.arrayBuffer()).toString('base64')
+  log.info('api.encodeVibe', 'Vibe encoded', { model, informationExtracted, durationMs: Date.now() - fetchStart })
+  return encoding
+}
+
+export interface NaiSubscription {
+  /** Subscription plus purchased Anlas */
+  anlas: number
+  /** Opus tier: normal-sized generations are free */
+  opus: boolean
+}
+
+/** Account subscription and Anlas balance; throws HttpStatusError (401 for a bad key) */
+export async function getSubscription(apiKey: string): Promise<NaiSubscription> {
+  const response = await fetch(`${naiAccountUrl()}/user/subscription`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+    signal: AbortSignal.timeout(15_000),
+  })
+  if (!response.ok) {
+    throw new HttpStatusError(`NAI subscription error ${response.status}`, response.status)
+  }
+
+  const body = await response.json()
+  const steps = body.trainingStepsLeft ?? {}
+  return {
+    anlas: Number(steps.fixedTrainingStepsLeft ?? 0) + Number(steps.purchasedTrainingSteps ?? 0),
+    opus: body.active === true && body.perks?.unlimitedImageGeneration === true,
+  }
+}
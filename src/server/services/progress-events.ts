@@ -0,0 +1,18 @@
+import { EventEmitter } from 'node:events'
+import type { ProgressEvent } from '@/lib/progress-events'
+
+// One bus per server process, shared by the queue and every open progress stream
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0)
+
+export function emitProgressEvent(event: ProgressEvent) {
+  emitter.emit('progress', event)
+}
+
+/** Calls `listener` for every progress event until the returned function is called */
+export function onProgressEvent(listener: (event: ProgressEvent) => void): () => void {
+  emitter.on('progress', listener)
+  return () => {
+    emitter.off('progress', listener)
+  }
+}
@@ -1,14 +1,28 @@
+import { eq, inArray } from 'drizzle-orm'
 import { db } from '../db'
 import {
   projects,
   characters,
+  projectScenePacks,
   projectScenes,
   characterSceneOverrides,
   promptBundles,
 } from '../db/schema'
-import { eq } from 'drizzle-orm'
-import { resolvePlaceholders } from '@/lib/placeholder'
-import { resolveBundles, extractBundleReferences } from '@/lib/bundle'
+import type { WildcardChoice } from '@/lib/wildcard'
+import type { PromptDiagnostic } from '@/lib/prompt-lint'
+import type { CharacterCenter } from '@/lib/character-position'
+import { mergePlaceholderValues, resolvePlaceholders } from '@/lib/placeholder'
+import {
+  extractRandomBundleReferences,
+  resolveBundles,
+  resolveBundlesWithUsage,
+  resolveRandomBundles,
+  splitBundleLines,
+} from '@/lib/bundle'
+import { resolveWildcards } from '@/lib/wildcard'
+import { normalizePrompt } from '@/lib/normalize'
+import { lintPrompt } from '@/lib/prompt-lint'
+import { parseCharacterPosition } from '@/lib/character-position'
 import { createLogger } from './logger'
 
 const log = createLogger('prompt')
@@ -21,8 +35,22 @@ export interface ResolvedPrompts {
     name: string
     prompt: string
     negative: string
+    /** Set when the character (or the scene's override) has a position */
+    center?: CharacterCenter
+    /** Random bundle lines resolved with this character's placeholder values */
+    randomBundles?: RandomBundleMap
   }>
   usedBundleIds?: number[]
+  /** Lines of bundles referenced as @{name:random}, snapshotted at job creation */
+  randomBundles?: RandomBundleMap
+}
+
+type RandomBundleMap = Record<string, { bundleId: number; lines: Array<string> }>
+
+export interface BundlePick {
+  field: string
+  name: string
+  lines: Array<string>
 }
 
 /** Load all bundles as name→{id, content} map */
@@ -34,26 +62,44 @@ function loadBundleMap(): Map<string, { id: number; content: string }> {
   return new Map(rows.map((r) => [r.name, { id: r.id, content: r.content }]))
 }
 
-/** Resolve @{bundleName} in a template and collect used bundle IDs */
+/**
+ * Resolve @{bundleName} in a template (including bundles nested in bundles) and
+ * collect the IDs of every bundle touched along the way.
+ * @{name:random} references stay in the text; their lines go into randomBundles,
+ * with `placeholders` resolved in them the same way as in the template.
+ */
 function resolveBundlesWithTracking(
   template: string,
   bundleMap: Map<string, { id: number; content: string }>,
   usedIds: Set<number>,
+  randomBundles: RandomBundleMap,
+  placeholders?: Record<string, string>,
 ): string {
   const contentMap: Record<string, string> = {}
-  for (const name of extractBundleReferences(template)) {
+  for (const [name, entry] of bundleMap) contentMap[name] = entry.content
+
+  const { text, usedNames } = resolveBundlesWithUsage(template, contentMap)
+  for (const name of usedNames) usedIds.add(bundleMap.get(name)!.id)
+
+  for (const name of extractRandomBundleReferences(text)) {
     const entry = bundleMap.get(name)
-    if (entry) {
-      contentMap[name] = entry.content
-      usedIds.add(entry.id)
-    }
+    if (!entry) continue
+    // Lines may reference other bundles too — expand them now
+    const lines = splitBundleLines(entry.content).map((line) => {
+      const expanded = resolveBundlesWithUsage(line, contentMap, [name])
+      for (const used of expanded.usedNames) usedIds.add(bundleMap.get(used)!.id)
+      return placeholders ? resolvePlaceholders(expanded.text, placeholders) : expanded.text
+    })
+    randomBundles[name] = { bundleId: entry.id, lines }
   }
-  return resolveBundles(template, contentMap)
+  return text
 }
 
+/** `placeholderOverrides` win over scene and character values, e.g. a sweep axis value */
 export function synthesizePrompts(
   projectId: number,
   projectSceneId: number,
+  placeholderOverrides: Record<string, string> = {},
 ): ResolvedPrompts {
   const project = db
     .select()
@@ -72,20 +118,26 @@ export function synthesizePrompts(
   const scenePlaceholders: Record<string, string> = JSON.parse(
     scene.placeholders || '{}',
   )
+  // Project defaults sit beneath scene values; inline \\key|default\\ is the last fallback
+  const projectDefaults: Record<string, string> = JSON.parse(
+    project.placeholderDefaults || '{}',
+  )
+  const generalPlaceholders = mergePlaceholderValues(projectDefaults, scenePlaceholders, placeholderOverrides)
 
   // Load bundle map for @{...} resolution
   const bundleMap = loadBundleMap()
   const usedBundleIds = new Set<number>()
+  const randomBundles: RandomBundleMap = {}
 
   // 1) Resolve @{bundles} first, then \\placeholders\\
   const generalPrompt = resolvePlaceholders(
-    resolveBundlesWithTracking(project.generalPrompt || '', bundleMap, usedBundleIds),
-    scenePlaceholders,
+    resolveBundlesWithTracking(project.generalPrompt || '', bundleMap, usedBundleIds, randomBundles, generalPlaceholders),
+    generalPlaceholders,
   )
 
   const negativePrompt = resolvePlaceholders(
-    resolveBundlesWithTracking(project.negativePrompt || '', bundleMap, usedBundleIds),
-    scenePlaceholders,
+    resolveBundlesWithTracking(project.negativePrompt || '', bundleMap, usedBundleIds, randomBundles, generalPlaceholders),
+    generalPlaceholders,
   )
 
   // Resolve character prompts
@@ -108,25 +160,31 @@ export function synthesizePrompts(
       JSON.parse(o.placeholders || '{}') as Record<string, string>,
     ]),
   )
+  const positionOverrides = new Map(charOverrides.map((o) => [o.characterId, o.position]))
 
   const characterPrompts = chars.map((char) => {
-    const charOverrides = overrideMap.get(char.id) || {}
     // General values as base, non-empty character overrides take priority
-    const nonEmptyOverrides = Object.fromEntries(
-      Object.entries(charOverrides).filter(([_, v]) => v !== ''),
+    const mergedPlaceholders = mergePlaceholderValues(
+      generalPlaceholders,
+      overrideMap.get(char.id) || {},
+      placeholderOverrides,
     )
-    const mergedPlaceholders = { ...scenePlaceholders, ...nonEmptyOverrides }
+    const center = parseCharacterPosition(positionOverrides.get(char.id) || char.position)
+    // The character's values can differ from the general ones, so its random lines are kept apart
+    const charRandomBundles: RandomBundleMap = {}
     return {
       characterId: char.id,
       name: char.name,
       prompt: resolvePlaceholders(
-        resolveBundlesWithTracking(char.charPrompt, bundleMap, usedBundleIds),
+        resolveBundlesWithTracking(char.charPrompt, bundleMap, usedBundleIds, charRandomBundles, mergedPlaceholders),
         mergedPlaceholders,
       ),
       negative: resolvePlaceholders(
-        resolveBundlesWithTracking(char.charNegative, bundleMap, usedBundleIds),
+        resolveBundlesWithTracking(char.charNegative, bundleMap, usedBundleIds, charRandomBundles, mergedPlaceholders),
         mergedPlaceholders,
       ),
+      ...(center && { center }),
+      ...(Object.keys(charRandomBundles).length > 0 && { randomBundles: charRandomBundles }),
     }
   })
 
@@ -143,6 +201,7 @@ export function synthesizePrompts(
     negativePrompt,
     characterPrompts,
     usedBundleIds: [...usedBundleIds],
+    ...(Object.keys(randomBundles).length > 0 && { randomBundles }),
   }
 }
 
@@ -150,13 +209,14 @@ export function synthesizePrompts(
 export function resolveBundlesInRawPrompts(prompts: ResolvedPrompts): ResolvedPrompts {
   const bundleMap = loadBundleMap()
   const usedBundleIds = new Set<number>()
+  const randomBundles: RandomBundleMap = {}
 
-  const generalPrompt = resolveBundlesWithTracking(prompts.generalPrompt, bundleMap, usedBundleIds)
-  const negativePrompt = resolveBundlesWithTracking(prompts.negativePrompt, bundleMap, usedBundleIds)
+  const generalPrompt = resolveBundlesWithTracking(prompts.generalPrompt, bundleMap, usedBundleIds, randomBundles)
+  const negativePrompt = resolveBundlesWithTracking(prompts.negativePrompt, bundleMap, usedBundleIds, randomBundles)
   const characterPrompts = prompts.characterPrompts.map((c) => ({
     ...c,
-    prompt: resolveBundlesWithTracking(c.prompt, bundleMap, usedBundleIds),
-    negative: resolveBundlesWithTracking(c.negative, bundleMap, usedBundleIds),
+    prompt: resolveBundlesWithTracking(c.prompt, bundleMap, usedBundleIds, randomBundles),
+    negative: resolveBundlesWithTracking(c.negative, bundleMap, usedBundleIds, randomBundles),
   }))
 
   return {
@@ -164,5 +224,159 @@ export function resolveBundlesInRawPrompts(prompts: ResolvedPrompts): ResolvedPr
     negativePrompt,
     characterPrompts,
     usedBundleIds: [...usedBundleIds],
+    ...(Object.keys(randomBundles).length > 0 && { randomBundles }),
   }
 }
+
+/**
+ * Lint a project's prompt templates with the same checks as the editor.
+ * The danbooru tag check only runs client-side, where the tag database lives.
+ * Weights are checked after bundle expansion, since a `::` group may open in a
+ * bundle and close in the template. Unknown bundles are only warnings here:
+ * they resolve to nothing, as they always have.
+ */
+export function lintProjectPrompts(
+  projectId: number,
+): Array<PromptDiagnostic & { field: string }> {
+  const project = db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .get()
+  if (!project) throw new Error('Project not found')
+
+  const chars = db
+    .select()
+    .from(characters)
+    .where(eq(characters.projectId, projectId))
+    .all()
+
+  const scenes = db
+    .select({ id: projectScenes.id, placeholders: projectScenes.placeholders })
+    .from(projectScenes)
+    .innerJoin(projectScenePacks, eq(projectScenes.projectScenePackId, projectScenePacks.id))
+    .where(eq(projectScenePacks.projectId, projectId))
+    .all()
+
+  const overrides = scenes.length > 0
+    ? db
+        .select({ placeholders: characterSceneOverrides.placeholders })
+        .from(characterSceneOverrides)
+        .where(inArray(characterSceneOverrides.projectSceneId, scenes.map((s) => s.id)))
+        .all()
+    : []
+
+  // A placeholder is filled if any scene, override or project default gives it a value
+  const filledPlaceholders = new Set<string>()
+  for (const json of [
+    project.placeholderDefaults,
+    ...scenes.map((s) => s.placeholders),
+    ...overrides.map((o) => o.placeholders),
+  ]) {
+    const values: Record<string, string> = JSON.parse(json || '{}')
+    for (const [key, value] of Object.entries(values)) if (value) filledPlaceholders.add(key)
+  }
+
+  const bundleMap = loadBundleMap()
+  const contentMap: Record<string, string> = {}
+  for (const [name, entry] of bundleMap) contentMap[name] = entry.content
+  const context = { bundleNames: [...bundleMap.keys()], filledPlaceholders, weights: false }
+  const fields: Array<[string, string]> = [
+    ['general', project.generalPrompt || ''],
+    ['negative', project.negativePrompt || ''],
+    ...chars.flatMap((c): Array<[string, string]> => [
+      [`character:${c.name}`, c.charPrompt],
+      [`character:${c.name}:negative`, c.charNegative],
+    ]),
+  ]
+  return fields.flatMap(([field, text]) =>
+    [...lintPrompt(text, context), ...lintPrompt(resolveBundles(text, contentMap))].map((d) => ({
+      ...d,
+      ...(d.code === 'unknown-bundle' && { severity: 'warning' as const }),
+      field,
+    })),
+  )
+}
+
+/** Queue-time gate over lintProjectPrompts: errors block, warnings are only logged */
+export function assertProjectPromptsQueueable(projectId: number) {
+  const diagnostics = lintProjectPrompts(projectId)
+  if (diagnostics.length > 0) {
+    log.warn('lint', 'Prompt lint findings', {
+      projectId,
+      diagnostics: diagnostics.map((d) => `${d.field}: ${d.message}`),
+    })
+  }
+  const errors = diagnostics.filter((d) => d.severity === 'error')
+  if (errors.length > 0) {
+    throw new Error(`Prompt errors — ${errors.map((d) => `${d.field}: ${d.message}`).join('; ')}`)
+  }
+}
+
+/** Opt-in cleanup of synthesized prompts: dedupe tags, drop empty ones, collapse whitespace */
+export function normalizeResolvedPrompts(prompts: ResolvedPrompts): ResolvedPrompts {
+  return {
+    ...prompts,
+    generalPrompt: normalizePrompt(prompts.generalPrompt),
+    negativePrompt: normalizePrompt(prompts.negativePrompt),
+    characterPrompts: prompts.characterPrompts.map((c) => ({
+      ...c,
+      prompt: normalizePrompt(c.prompt),
+      negative: normalizePrompt(c.negative),
+    })),
+  }
+}
+
+function linesByName(randomBundles: RandomBundleMap | undefined): Record<string, Array<string>> {
+  const linesMap: Record<string, Array<string>> = {}
+  for (const [name, entry] of Object.entries(randomBundles ?? {})) {
+    linesMap[name] = entry.lines
+  }
+  return linesMap
+}
+
+/**
+ * Per-image resolution, done at generation time: pick lines for @{name:random}
+ * bundles, then one option for every {a|b} wildcard group. With `normalize`,
+ * the picked prompts get the same cleanup as normalizeResolvedPrompts.
+ */
+export function resolvePromptsForImage(
+  prompts: ResolvedPrompts,
+  random: () => number = Math.random,
+  normalize = false,
+): {
+  prompts: ResolvedPrompts
+  bundlePicks: Array<BundlePick>
+  wildcards: Array<WildcardChoice & { field: string }>
+} {
+  const { randomBundles, ...rest } = prompts
+  const generalLines = linesByName(randomBundles)
+
+  const bundlePicks: Array<BundlePick> = []
+  const wildcards: Array<WildcardChoice & { field: string }> = []
+
+  function resolveField(field: string, template: string, linesMap: Record<string, Array<string>>): string {
+    const bundled = resolveRandomBundles(template, linesMap, random)
+    for (const p of bundled.picks) bundlePicks.push({ field, ...p })
+    const result = resolveWildcards(bundled.text, random)
+    for (const c of result.choices) wildcards.push({ field, ...c })
+    return result.text
+  }
+
+  const resolved: ResolvedPrompts = {
+    ...rest,
+    generalPrompt: resolveField('general', prompts.generalPrompt, generalLines),
+    negativePrompt: resolveField('negative', prompts.negativePrompt, generalLines),
+    characterPrompts: prompts.characterPrompts.map(({ randomBundles: charRandomBundles, ...c }) => {
+      // Jobs created before characters kept their own lines fall back to the shared ones
+      const linesMap = { ...generalLines, ...linesByName(charRandomBundles) }
+      return {
+        ...c,
+        prompt: resolveField(`character:${c.name}`, c.prompt, linesMap),
+        negative: resolveField(`character:${c.name}:negative`, c.negative, linesMap),
+      }
+    }),
+  }
+
+  return { prompts: normalize ? normalizeResolvedPrompts(resolved) : resolved, bundlePicks, wildcards }
+}
@@ -0,0 +1,70 @@
+import { desc, eq, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { generationJobs, projectScenes, projects } from '../db/schema'
+import { getQueueStatus } from './generation'
+
+const RECENT_JOB_LIMIT = 50
+
+function selectJobs() {
+  return db
+    .select({
+      id: generationJobs.id,
+      projectId: generationJobs.projectId,
+      projectName: projects.name,
+      projectSceneId: generationJobs.projectSceneId,
+      sceneName: projectScenes.name,
+      resolvedPrompts: generationJobs.resolvedPrompts,
+      status: generationJobs.status,
+      priority: generationJobs.priority,
+      totalCount: generationJobs.totalCount,
+      completedCount: generationJobs.completedCount,
+      errorMessage: generationJobs.errorMessage,
+      backend: generationJobs.backend,
+      createdAt: generationJobs.createdAt,
+      updatedAt: generationJobs.updatedAt,
+    })
+    .from(generationJobs)
+    .leftJoin(projects, eq(generationJobs.projectId, projects.id))
+    .leftJoin(projectScenes, eq(generationJobs.projectSceneId, projectScenes.id))
+}
+
+type JobRow = ReturnType<ReturnType<typeof selectJobs>['all']>[number]
+
+// The prompt is only needed as a label for quick-generate jobs
+function toQueueJob({ resolvedPrompts, ...row }: JobRow) {
+  let prompt = ''
+  try {
+    prompt = JSON.parse(resolvedPrompts).generalPrompt ?? ''
+  } catch {
+    // Malformed snapshot: no label
+  }
+  return { ...row, prompt: prompt.slice(0, 200) }
+}
+
+/**
+ * Every project's jobs plus quick generation: running and queued jobs in run
+ * order, then the most recently finished ones.
+ */
+export function listQueueJobs() {
+  const queueStatus = getQueueStatus()
+
+  const active = selectJobs()
+    .where(inArray(generationJobs.status, ['running', 'pending']))
+    .all()
+    .map(toQueueJob)
+  const running = active.filter((j) => j.status === 'running')
+  // Pending jobs outside the in-memory queue (e.g. held back after an error) go last
+  const order = new Map(queueStatus.queuedJobIds.map((id, index) => [id, index]))
+  const queued = active
+    .filter((j) => j.status === 'pending')
+    .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity) || a.id - b.id)
+
+  const recent = selectJobs()
+    .where(inArray(generationJobs.status, ['completed', 'failed', 'cancelled']))
+    .orderBy(desc(generationJobs.updatedAt), desc(generationJobs.id))
+    .limit(RECENT_JOB_LIMIT)
+    .all()
+    .map(toQueueJob)
+
+  return { running, queued, recent, queueStatus }
+}
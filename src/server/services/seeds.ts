@@ -0,0 +1,15 @@
+import { and, desc, eq, isNotNull } from 'drizzle-orm'
+import { db } from '../db'
+import { generatedImages } from '../db/schema'
+
+/** Seeds of the scene's latest `count` images, oldest first, for another scene to reuse */
+export function latestSceneSeeds(projectSceneId: number, count: number): Array<number> {
+  const rows = db
+    .select({ seed: generatedImages.seed })
+    .from(generatedImages)
+    .where(and(eq(generatedImages.projectSceneId, projectSceneId), isNotNull(generatedImages.seed)))
+    .orderBy(desc(generatedImages.id))
+    .limit(count)
+    .all()
+  return rows.map((row) => row.seed!).reverse()
+}
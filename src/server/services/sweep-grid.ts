@@ -0,0 +1,154 @@
+import sharp from 'sharp'
+import { asc, eq, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { generatedImages, generationJobs, sweeps } from '../db/schema'
+import { sweepGridPath } from './image'
+import { createLogger } from './logger'
+import type { SweepAxis } from '@/lib/sweep'
+import { sweepDimensions, sweepValueLabel } from '@/lib/sweep'
+
+const log = createLogger('sweep')
+
+// Cells are scaled down so the longer side fits this
+const CELL_MAX_SIZE = 512
+const HEADER_HEIGHT = 48
+const ROW_LABEL_WIDTH = 220
+const GAP = 4
+const FONT_SIZE = 22
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+/** A centered text label rendered to PNG, cut short with … when it doesn't fit */
+function labelImage(text: string, width: number, height: number, bold = false): Buffer {
+  const maxChars = Math.max(4, Math.floor(width / (FONT_SIZE * 0.55)))
+  const shown = text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" ` +
+    `font-size="${FONT_SIZE}" font-weight="${bold ? 'bold' : 'normal'}" fill="#111111">${escapeXml(shown)}</text></svg>`
+  return Buffer.from(svg)
+}
+
+/** First image of every finished cell, keyed by `x,y,z` */
+function cellImagePaths(sweepId: number): Map<string, string> {
+  const jobs = db
+    .select({ id: generationJobs.id, sweepCell: generationJobs.sweepCell })
+    .from(generationJobs)
+    .where(eq(generationJobs.sweepId, sweepId))
+    .all()
+  const cellByJob = new Map(jobs.map((job) => [job.id, (JSON.parse(job.sweepCell || '[0,0,0]') as Array<number>).join(',')]))
+  const paths = new Map<string, string>()
+  if (jobs.length === 0) return paths
+
+  const images = db
+    .select({ jobId: generatedImages.jobId, filePath: generatedImages.filePath })
+    .from(generatedImages)
+    .where(inArray(generatedImages.jobId, jobs.map((job) => job.id)))
+    .orderBy(asc(generatedImages.id))
+    .all()
+  for (const image of images) {
+    const cell = cellByJob.get(image.jobId)
+    if (cell && !paths.has(cell)) paths.set(cell, image.filePath)
+  }
+  return paths
+}
+
+/**
+ * Lay the sweep's images out as labeled grids, one per Z value: X values across
+ * the top, Y values down the left side, the Z value as the title. Cells without
+ * an image (failed or cancelled) stay grey. Returns the grid paths.
+ */
+export async function composeSweepGrid(sweepId: number): Promise<Array<string>> {
+  const sweep = db.select().from(sweeps).where(eq(sweeps.id, sweepId)).get()
+  if (!sweep) throw new Error('Sweep not found')
+  const axes: Array<SweepAxis> = JSON.parse(sweep.axes)
+  const [nx, ny, nz] = sweepDimensions(axes)
+
+  const images = cellImagePaths(sweepId)
+  const [firstPath] = images.values()
+  if (!firstPath) throw new Error('The sweep has no images yet')
+
+  const { width = CELL_MAX_SIZE, height = CELL_MAX_SIZE } = await sharp(firstPath).metadata()
+  const scale = Math.min(1, CELL_MAX_SIZE / Math.max(width, height))
+  const cellWidth = Math.round(width * scale)
+  const cellHeight = Math.round(height * scale)
+
+  const left = axes.length > 1 ? ROW_LABEL_WIDTH : 0
+  const titleHeight = axes.length > 2 ? HEADER_HEIGHT : 0
+  const top = titleHeight + HEADER_HEIGHT
+  const gridWidth = left + nx * cellWidth + (nx - 1) * GAP
+  const gridHeight = top + ny * cellHeight + (ny - 1) * GAP
+  const emptyCell = await sharp({
+    create: { width: cellWidth, height: cellHeight, channels: 3, background: '#e5e5e5' },
+  }).png().toBuffer()
+
+  const paths: Array<string> = []
+  for (let z = 0; z < nz; z++) {
+    const composites: Array<sharp.OverlayOptions> = []
+    if (axes.length > 2) {
+      composites.push({ input: labelImage(sweepValueLabel(axes[2], z), gridWidth, titleHeight, true), left: 0, top: 0 })
+    }
+    for (let x = 0; x < nx; x++) {
+      composites.push({
+        input: labelImage(sweepValueLabel(axes[0], x), cellWidth, HEADER_HEIGHT),
+        left: left + x * (cellWidth + GAP),
+        top: titleHeight,
+      })
+    }
+    for (let y = 0; y < ny; y++) {
+      const rowTop = top + y * (cellHeight + GAP)
+      if (axes.length > 1) {
+        composites.push({ input: labelImage(sweepValueLabel(axes[1], y), ROW_LABEL_WIDTH, cellHeight), left: 0, top: rowTop })
+      }
+      for (let x = 0; x < nx; x++) {
+        const imagePath = images.get(`${x},${y},${z}`)
+        const input = imagePath
+          ? await sharp(imagePath).resize(cellWidth, cellHeight, { fit: 'contain', background: '#ffffff' }).png().toBuffer()
+          : emptyCell
+        composites.push({ input, left: left + x * (cellWidth + GAP), top: rowTop })
+      }
+    }
+
+    const filePath = sweepGridPath(sweep.projectId, sweepId, z)
+    await sharp({ create: { width: gridWidth, height: gridHeight, channels: 3, background: '#ffffff' } })
+      .composite(composites)
+      .png()
+      .toFile(filePath)
+    paths.push(filePath)
+  }
+
+  db.update(sweeps).set({ gridImagePaths: JSON.stringify(paths) }).where(eq(sweeps.id, sweepId)).run()
+  log.info('grid', 'Sweep grid composed', { sweepId, pages: paths.length, cells: images.size })
+  return paths
+}
+
+// Cell job states each sweep's grid was last composed from
+const composedStates = new Map<number, string>()
+
+/**
+ * Compose the grid once no cell is waiting or running; a failed composition is only logged.
+ * Workers finishing the last cells together both call this: only the first one composes.
+ * A cell that finishes later (e.g. a failed one resumed) changes the state and recomposes.
+ */
+export async function composeSweepIfDone(sweepId: number) {
+  const jobs = db
+    .select({ id: generationJobs.id, status: generationJobs.status, completedCount: generationJobs.completedCount })
+    .from(generationJobs)
+    .where(eq(generationJobs.sweepId, sweepId))
+    .all()
+  if (jobs.some((job) => job.status === 'pending' || job.status === 'running')) return
+  // Every cell failed or was cancelled before rendering: nothing to lay out
+  if (!jobs.some((job) => (job.completedCount ?? 0) > 0)) return
+
+  const state = jobs.map((job) => `${job.id}:${job.status}:${job.completedCount}`).join(',')
+  if (composedStates.get(sweepId) === state) return
+  composedStates.set(sweepId, state)
+  try {
+    await composeSweepGrid(sweepId)
+  } catch (error) {
+    composedStates.delete(sweepId)
+    log.error('grid.failed', 'Sweep grid composition failed', { sweepId }, error)
+  }
+}
@@ -0,0 +1,173 @@
+import { and, asc, desc, eq, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { generatedImages, generationJobs, projectScenePacks, projectScenes, projects, sweeps } from '../db/schema'
+import { enqueueJob } from './generation'
+import { deleteImageFiles } from './image'
+import { assertProjectPromptsQueueable, normalizeResolvedPrompts, synthesizePrompts } from './prompt'
+import { resolveCharacterReferences, resolveSceneVibes } from './vibe'
+import { createLogger } from './logger'
+import type { SweepAxis, SweepCellIndex } from '@/lib/sweep'
+import { resolveBackendId } from '@/lib/generation-backend'
+import { mergeSceneParameters, parseSceneParameters } from '@/lib/scene-parameters'
+import { MAX_SEED } from '@/lib/seed-strategy'
+import { expandSweep } from '@/lib/sweep'
+
+const log = createLogger('sweep')
+
+function parseGridPaths(value: string | null): Array<string> {
+  return value ? JSON.parse(value) : []
+}
+
+/**
+ * Queue one single-image job per sweep cell. Every cell starts from the scene's
+ * prompts and parameters, applies its axis values and renders with the sweep's
+ * seed, so the only differences between cells are the swept values.
+ */
+export function createSweep(input: { projectId: number; projectSceneId: number; axes: Array<SweepAxis>; seed: number }) {
+  const cells = expandSweep(input.axes)
+  if (!Number.isInteger(input.seed) || input.seed < 0 || input.seed > MAX_SEED) throw new Error('Invalid seed')
+
+  const row = db
+    .select({ scene: projectScenes })
+    .from(projectScenes)
+    .innerJoin(projectScenePacks, eq(projectScenes.projectScenePackId, projectScenePacks.id))
+    .where(and(eq(projectScenes.id, input.projectSceneId), eq(projectScenePacks.projectId, input.projectId)))
+    .get()
+  if (!row) throw new Error('Scene not found')
+  const { scene } = row
+
+  // Same gate as createGenerationJob, before anything is inserted
+  assertProjectPromptsQueueable(input.projectId)
+
+  const project = db.select().from(projects).where(eq(projects.id, input.projectId)).get()
+  const parameters = mergeSceneParameters(JSON.parse(project?.parameters || '{}'), parseSceneParameters(scene.parameters))
+
+  const sweep = db
+    .insert(sweeps)
+    .values({ projectId: input.projectId, projectSceneId: scene.id, axes: JSON.stringify(input.axes), seed: input.seed })
+    .returning()
+    .get()
+  const vibeReferences = resolveSceneVibes(input.projectId, scene.id)
+
+  const jobIds: Array<number> = []
+  for (const cell of cells) {
+    const synthesized = synthesizePrompts(input.projectId, scene.id, cell.placeholders)
+    const prompts = parameters.normalizePrompts ? normalizeResolvedPrompts(synthesized) : synthesized
+    const characterReferences = resolveCharacterReferences(prompts.characterPrompts.map((c) => c.characterId))
+    const cellParameters = {
+      ...parameters,
+      ...cell.parameters,
+      seed: input.seed,
+      seedStrategy: { type: 'fixed', seed: input.seed },
+      ...(vibeReferences.length > 0 && { vibeReferences }),
+      ...(characterReferences.length > 0 && { characterReferences }),
+    }
+
+    const job = db
+      .insert(generationJobs)
+      .values({
+        projectId: input.projectId,
+        projectSceneId: scene.id,
+        sourceSceneId: scene.sourceSceneId,
+        resolvedPrompts: JSON.stringify(prompts),
+        resolvedParameters: JSON.stringify(cellParameters),
+        backend: resolveBackendId(cellParameters),
+        sweepId: sweep.id,
+        sweepCell: JSON.stringify(cell.index),
+        totalCount: 1,
+        completedCount: 0,
+        status: 'pending',
+      })
+      .returning({ id: generationJobs.id })
+      .get()
+    jobIds.push(job.id)
+  }
+  jobIds.forEach(enqueueJob)
+
+  log.info('create', 'Sweep created', { sweepId: sweep.id, projectSceneId: scene.id, cells: cells.length })
+  return sweep
+}
+
+/** The project's sweeps, newest first, with each cell's job status and first image */
+export function listSweeps(projectId: number) {
+  const rows = db
+    .select({
+      id: sweeps.id,
+      projectSceneId: sweeps.projectSceneId,
+      sceneName: projectScenes.name,
+      axes: sweeps.axes,
+      seed: sweeps.seed,
+      gridImagePaths: sweeps.gridImagePaths,
+      createdAt: sweeps.createdAt,
+    })
+    .from(sweeps)
+    .leftJoin(projectScenes, eq(sweeps.projectSceneId, projectScenes.id))
+    .where(eq(sweeps.projectId, projectId))
+    .orderBy(desc(sweeps.id))
+    .all()
+  if (rows.length === 0) return []
+
+  const jobs = db
+    .select({
+      id: generationJobs.id,
+      sweepId: generationJobs.sweepId,
+      sweepCell: generationJobs.sweepCell,
+      status: generationJobs.status,
+    })
+    .from(generationJobs)
+    .where(inArray(generationJobs.sweepId, rows.map((r) => r.id)))
+    .all()
+  const images = jobs.length > 0
+    ? db
+        .select({
+          id: generatedImages.id,
+          jobId: generatedImages.jobId,
+          filePath: generatedImages.filePath,
+          thumbnailPath: generatedImages.thumbnailPath,
+        })
+        .from(generatedImages)
+        .where(inArray(generatedImages.jobId, jobs.map((j) => j.id)))
+        .orderBy(asc(generatedImages.id))
+        .all()
+    : []
+  const imageByJob = new Map<number, (typeof images)[number]>()
+  for (const image of images) {
+    if (!imageByJob.has(image.jobId)) imageByJob.set(image.jobId, image)
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    axes: JSON.parse(row.axes) as Array<SweepAxis>,
+    gridImagePaths: parseGridPaths(row.gridImagePaths),
+    cells: jobs
+      .filter((job) => job.sweepId === row.id)
+      .map((job) => {
+        const image = imageByJob.get(job.id)
+        return {
+          index: JSON.parse(job.sweepCell || '[0,0,0]') as SweepCellIndex,
+          jobId: job.id,
+          status: job.status,
+          image: image ? { id: image.id, filePath: image.filePath, thumbnailPath: image.thumbnailPath } : null,
+        }
+      }),
+  }))
+}
+
+/** Grid files of the project's sweeps, to delete along with the project */
+export function projectSweepFiles(projectId: number): Array<{ filePath: string; thumbnailPath: null }> {
+  return db
+    .select({ gridImagePaths: sweeps.gridImagePaths })
+    .from(sweeps)
+    .where(eq(sweeps.projectId, projectId))
+    .all()
+    .flatMap((row) => parseGridPaths(row.gridImagePaths).map((filePath) => ({ filePath, thumbnailPath: null })))
+}
+
+/** Delete the sweep and its grid images; the cell images stay in the gallery */
+export function deleteSweep(id: number) {
+  const sweep = db.select().from(sweeps).where(eq(sweeps.id, id)).get()
+  if (!sweep) throw new Error('Sweep not found')
+  db.delete(sweeps).where(eq(sweeps.id, id)).run()
+  deleteImageFiles(parseGridPaths(sweep.gridImagePaths).map((filePath) => ({ filePath, thumbnailPath: null })))
+  log.info('delete', 'Sweep deleted', { sweepId: id })
+}
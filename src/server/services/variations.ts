@@ -0,0 +1,143 @@
+import { asc, desc, eq, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { generatedImages, generationJobs, variationSets } from '../db/schema'
+import { enqueueJob } from './generation'
+import { createLogger } from './logger'
+import type { ResolvedPrompts } from './prompt'
+import type { VariationMode } from '@/lib/variations'
+import { createRandom, randomSeed } from '@/lib/random'
+import { planVariations } from '@/lib/variations'
+
+const log = createLogger('variations')
+
+/**
+ * Queue a variation set of the image: one single-image job per variation, each
+ * re-using the prompts and parameters stored in the image's metadata with the
+ * one change its plan makes. img2img and inpaint images keep their source and mask.
+ */
+export function createVariationSet(input: { imageId: number; mode: VariationMode; count: number; samplers?: Array<string> }) {
+  const image = db.select().from(generatedImages).where(eq(generatedImages.id, input.imageId)).get()
+  if (!image) throw new Error('Image not found')
+  const meta = image.metadata ? JSON.parse(image.metadata) : null
+  if (!meta?.prompts) throw new Error('Image has no generation metadata')
+  if (image.seed == null) throw new Error('Image has no seed')
+
+  const prompts: ResolvedPrompts = meta.prompts
+  const parameters: Record<string, unknown> = { ...meta.parameters }
+  const plans = planVariations({
+    mode: input.mode,
+    count: input.count,
+    seed: image.seed,
+    generalPrompt: prompts.generalPrompt,
+    sampler: typeof parameters.sampler === 'string' ? parameters.sampler : undefined,
+    samplers: input.samplers,
+    random: createRandom(randomSeed()),
+  })
+  const source = db
+    .select({
+      sourceImagePath: generationJobs.sourceImagePath,
+      sourceImageId: generationJobs.sourceImageId,
+      maskPath: generationJobs.maskPath,
+    })
+    .from(generationJobs)
+    .where(eq(generationJobs.id, image.jobId))
+    .get()
+
+  const set = db.insert(variationSets).values({ imageId: image.id, mode: input.mode }).returning().get()
+  const jobIds = plans.map((plan) => {
+    const job = db
+      .insert(generationJobs)
+      .values({
+        projectId: image.projectId,
+        projectSceneId: image.projectSceneId,
+        sourceSceneId: image.sourceSceneId,
+        resolvedPrompts: JSON.stringify({ ...prompts, generalPrompt: plan.generalPrompt ?? prompts.generalPrompt }),
+        resolvedParameters: JSON.stringify({
+          ...parameters,
+          ...(plan.sampler && { sampler: plan.sampler }),
+          seed: plan.seed,
+          seedStrategy: { type: 'fixed', seed: plan.seed },
+        }),
+        sourceImagePath: source?.sourceImagePath ?? null,
+        sourceImageId: source?.sourceImageId ?? null,
+        maskPath: source?.maskPath ?? null,
+        backend: image.backend,
+        variationSetId: set.id,
+        variationChange: plan.change,
+        totalCount: 1,
+        completedCount: 0,
+        status: 'pending',
+      })
+      .returning({ id: generationJobs.id })
+      .get()
+    return job.id
+  })
+  jobIds.forEach(enqueueJob)
+
+  log.info('create', 'Variation set created', { setId: set.id, imageId: image.id, mode: input.mode, count: plans.length })
+  return set
+}
+
+/** The image's variation sets, newest first, with each variation's status and image */
+export function listVariationSets(imageId: number) {
+  const sets = db
+    .select()
+    .from(variationSets)
+    .where(eq(variationSets.imageId, imageId))
+    .orderBy(desc(variationSets.id))
+    .all()
+  if (sets.length === 0) return []
+
+  const jobs = db
+    .select({
+      id: generationJobs.id,
+      variationSetId: generationJobs.variationSetId,
+      change: generationJobs.variationChange,
+      status: generationJobs.status,
+    })
+    .from(generationJobs)
+    .where(inArray(generationJobs.variationSetId, sets.map((s) => s.id)))
+    .orderBy(asc(generationJobs.id))
+    .all()
+  const images = jobs.length > 0
+    ? db
+        .select({
+          id: generatedImages.id,
+          jobId: generatedImages.jobId,
+          filePath: generatedImages.filePath,
+          thumbnailPath: generatedImages.thumbnailPath,
+          seed: generatedImages.seed,
+          isFavorite: generatedImages.isFavorite,
+          rating: generatedImages.rating,
+          tournamentWins: generatedImages.tournamentWins,
+          tournamentLosses: generatedImages.tournamentLosses,
+        })
+        .from(generatedImages)
+        .where(inArray(generatedImages.jobId, jobs.map((j) => j.id)))
+        .all()
+    : []
+  const imageByJob = new Map(images.map((image) => [image.jobId, image]))
+
+  return sets.map((set) => ({
+    ...set,
+    variations: jobs
+      .filter((job) => job.variationSetId === set.id)
+      .map((job) => ({ jobId: job.id, change: job.change, status: job.status, image: imageByJob.get(job.id) ?? null })),
+  }))
+}
+
+/** The image this one is a variation of, and what the variation changed */
+export function variationOrigin(jobId: number) {
+  const row = db
+    .select({
+      change: generationJobs.variationChange,
+      imageId: variationSets.imageId,
+      thumbnailPath: generatedImages.thumbnailPath,
+    })
+    .from(generationJobs)
+    .innerJoin(variationSets, eq(generationJobs.variationSetId, variationSets.id))
+    .innerJoin(generatedImages, eq(variationSets.imageId, generatedImages.id))
+    .where(eq(generationJobs.id, jobId))
+    .get()
+  return row ?? null
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { and, asc, eq, inArray, isNotNull, isNull, or } from 'drizzle-orm'
+import { db } from '../db'
+import { characters, referenceImages, vibeAttachments } from '../db/schema'
+import { encodeVibe } from './nai'
+import { loadCharacterReferenceImage } from './image'
+import { createLogger } from './logger'
+import type { DirectorReferenceInput, VibeInput } from './nai'
+
+const log = createLogger('vibe')
+const VIBE_CACHE_DIR = './data/vibes'
+
+/** A reference image as snapshotted into a job's resolvedParameters.vibeReferences */
+export interface VibeReference {
+  referenceImageId: number
+  filePath: string
+  strength: number
+  informationExtracted: number
+}
+
+/**
+ * Vibes for one scene: the project-wide attachments followed by the scene's own.
+ * A scene attachment of a reference that is also attached project-wide replaces it.
+ */
+export function resolveSceneVibes(projectId: number, projectSceneId: number): Array<VibeReference> {
+  const rows = db
+    .select({
+      referenceImageId: vibeAttachments.referenceImageId,
+      projectSceneId: vibeAttachments.projectSceneId,
+      filePath: referenceImages.filePath,
+      strength: vibeAttachments.strength,
+      informationExtracted: vibeAttachments.informationExtracted,
+    })
+    .from(vibeAttachments)
+    .innerJoin(referenceImages, eq(vibeAttachments.referenceImageId, referenceImages.id))
+    .where(
+      and(
+        eq(vibeAttachments.projectId, projectId),
+        or(isNull(vibeAttachments.projectSceneId), eq(vibeAttachments.projectSceneId, projectSceneId)),
+      ),
+    )
+    .orderBy(asc(vibeAttachments.sortOrder), asc(vibeAttachments.id))
+    .all()
+
+  const sceneRefIds = new Set(rows.filter((r) => r.projectSceneId != null).map((r) => r.referenceImageId))
+  return [
+    ...rows.filter((r) => r.projectSceneId == null && !sceneRefIds.has(r.referenceImageId)),
+    ...rows.filter((r) => r.projectSceneId != null),
+  ].map(({ projectSceneId: _, ...ref }) => ref)
+}
+
+// V3 models take the raw image; V4 and later need an encode-vibe pass first
+function needsEncoding(model: string): boolean {
+  return !model.startsWith('nai-diffusion-3') && !model.startsWith('nai-diffusion-furry-3')
+}
+
+/**
+ * Turn a job's vibe references into generateImage inputs.
+ * Encodings are cached on disk by image content, model and information extracted,
+ * so a reference is only encoded (and billed) once. References whose file is gone are skipped.
+ */
+export async function loadVibes(
+  apiKey: string,
+  refs: Array<VibeReference>,
+  model: string,
+): Promise<Array<VibeInput>> {
+  const vibes: Array<VibeInput> = []
+  for (const ref of refs) {
+    // Deleted references are only kept on disk for unfinished jobs; a rerun of an older one goes without
+    if (!existsSync(ref.filePath)) {
+      log.warn('missing', 'Vibe reference file is gone, skipping it', { referenceImageId: ref.referenceImageId, filePath: ref.filePath })
+      continue
+    }
+    const image = readFileSync(ref.filePath).toString('base64')
+    if (!needsEncoding(model)) {
+      vibes.push({ image, strength: ref.strength, informationExtracted: ref.informationExtracted })
+      continue
+    }
+
+    const hash = createHash('sha256').update(image).digest('hex').slice(0, 32)
+    const cachePath = join(VIBE_CACHE_DIR, `${hash}_${model}_${ref.informationExtracted}.vibe`)
+    let encoding: string
+    if (existsSync(cachePath)) {
+      encoding = readFileSync(cachePath, 'utf-8')
+      log.debug('cache.hit', 'Using cached vibe encoding', { referenceImageId: ref.referenceImageId, cachePath })
+    } else {
+      encoding = await encodeVibe(apiKey, image, ref.informationExtracted, model)
+      mkdirSync(VIBE_CACHE_DIR, { recursive: true })
+      writeFileSync(cachePath, encoding)
+      log.info('cache.store', 'Vibe encoding cached', { referenceImageId: ref.referenceImageId, cachePath })
+    }
+    vibes.push({ image: encoding, strength: ref.strength })
+  }
+  return vibes
+}
+
+/** A character's reference as snapshotted into a job's resolvedParameters.characterReferences */
+export interface CharacterReference {
+  characterId: number
+  name: string
+  filePath: string
+  strength: number
+  fidelity: number
+  styleAware: boolean
+}
+
+/** References of the given characters that have one, in the given order */
+export function resolveCharacterReferences(characterIds: Array<number>): Array<CharacterReference> {
+  if (characterIds.length === 0) return []
+  const rows = db
+    .select()
+    .from(characters)
+    .where(and(inArray(characters.id, characterIds), isNotNull(characters.referenceImagePath)))
+    .all()
+  return characterIds
+    .map((id) => rows.find((r) => r.id === id))
+    .filter((r) => r != null)
+    .map((r) => ({
+      characterId: r.id,
+      name: r.name,
+      filePath: r.referenceImagePath!,
+      strength: r.referenceStrength,
+      fidelity: r.referenceFidelity,
+      styleAware: r.referenceStyleAware === 1,
+    }))
+}
+
+export async function loadCharacterReferences(refs: Array<CharacterReference>): Promise<Array<DirectorReferenceInput>> {
+  const inputs: Array<DirectorReferenceInput> = []
+  for (const ref of refs) {
+    inputs.push({
+      image: await loadCharacterReferenceImage(ref.filePath),
+      strength: ref.strength,
+      fidelity: ref.fidelity,
+      styleAware: ref.styleAware,
+    })
+  }
+  return inputs
+}